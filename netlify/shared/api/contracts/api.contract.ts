@@ -0,0 +1,223 @@
+/**
+ * General and retrieval API contract (greeting, health, search, ask)
+ */
+
+import { HTTP_STATUS } from '../../lib/constants/http.constants.ts';
+import type { RouteContract } from '../../lib/types/contract.types.ts';
+
+// Search request limits
+const MAX_QUERY_LENGTH = 1000;
+const MAX_SEARCH_TOP_K = 50;
+
+export const SEARCH_MODES = ['keyword', 'vector', 'hybrid'] as const;
+
+// Retrieval options shared by POST /search and POST /ask
+const retrievalOptionProperties = {
+  topK: { type: 'integer', minimum: 1, maximum: MAX_SEARCH_TOP_K },
+  minScore: { type: 'number' },
+  mode: { type: 'string', enum: SEARCH_MODES },
+  filters: { $ref: '#/$defs/filters' },
+  fusion: { $ref: '#/$defs/fusion' },
+} as const;
+
+const retrievalOptionDefs = {
+  filters: {
+    type: 'object',
+    properties: {
+      tag: { type: 'string' },
+      source: { type: 'array', items: { type: 'string' } },
+      dateRange: {
+        type: 'object',
+        properties: {
+          from: { type: 'string' },
+          to: { type: 'string' },
+        },
+        additionalProperties: false,
+      },
+    },
+    additionalProperties: false,
+  },
+  fusion: {
+    type: 'object',
+    properties: {
+      vectorWeight: { type: 'number', minimum: 0 },
+      keywordWeight: { type: 'number', minimum: 0 },
+      k: { type: 'number', minimum: 0 },
+    },
+    additionalProperties: false,
+  },
+} as const;
+
+/**
+ * POST /search request body schema
+ */
+export const searchSchema = {
+  type: 'object',
+  $defs: retrievalOptionDefs,
+  properties: {
+    query: { type: 'string', minLength: 1, maxLength: MAX_QUERY_LENGTH },
+    ...retrievalOptionProperties,
+  },
+  required: ['query'],
+} as const;
+
+/**
+ * POST /ask request body schema
+ */
+export const askSchema = {
+  type: 'object',
+  $defs: retrievalOptionDefs,
+  properties: {
+    question: { type: 'string', minLength: 1, maxLength: MAX_QUERY_LENGTH },
+    ...retrievalOptionProperties,
+  },
+  required: ['question'],
+} as const;
+
+// Retrieved chunk returned by search and used as answer context
+export const searchHitSchema = {
+  type: 'object',
+  properties: {
+    chunkId: { type: 'string' },
+    documentId: { type: 'string' },
+    documentTitle: { type: 'string' },
+    chunkIndex: { type: 'integer' },
+    score: { type: 'number' },
+    text: { type: 'string' },
+    start: { type: 'integer' },
+    end: { type: 'integer' },
+    headingPath: { type: 'array', items: { type: 'string' } },
+    ranks: {
+      type: 'object',
+      properties: { keyword: { type: 'integer' }, vector: { type: 'integer' } },
+    },
+  },
+  required: ['chunkId', 'documentId', 'documentTitle', 'chunkIndex', 'score', 'text', 'start', 'end', 'headingPath'],
+} as const;
+
+// A citation marker resolved to the chunk it refers to
+export const citationSchema = {
+  type: 'object',
+  properties: {
+    marker: { type: 'integer' },
+    chunkId: { type: 'string' },
+    documentId: { type: 'string' },
+    documentTitle: { type: 'string' },
+    start: { type: 'integer' },
+    end: { type: 'integer' },
+  },
+  required: ['marker', 'chunkId', 'documentId', 'documentTitle', 'start', 'end'],
+} as const;
+
+export const answerSchema = {
+  type: 'object',
+  properties: {
+    question: { type: 'string' },
+    answer: { type: 'string' },
+    citations: { type: 'array', items: citationSchema },
+    // marker is the number cited as [n]
+    contexts: {
+      type: 'array',
+      items: {
+        allOf: [searchHitSchema, { type: 'object', properties: { marker: { type: 'integer' } }, required: ['marker'] }],
+      },
+    },
+    provider: { type: 'string' },
+  },
+  required: ['question', 'answer', 'citations', 'contexts', 'provider'],
+} as const;
+
+const messageSchema = {
+  type: 'object',
+  properties: { message: { type: 'string' } },
+  required: ['message'],
+} as const;
+
+const GENERAL_TAGS = ['General'];
+const RETRIEVAL_TAGS = ['Retrieval'];
+
+export const apiRoutesContract = {
+  getGreeting: {
+    method: 'GET',
+    path: '/',
+    summary: 'Greeting',
+    tags: GENERAL_TAGS,
+    request: { query: { type: 'object', properties: { name: { type: 'string', description: 'Who to greet' } } } },
+    responses: { [HTTP_STATUS.OK]: { description: 'Greeting message', schema: messageSchema } },
+  },
+  postGreeting: {
+    method: 'POST',
+    path: '/',
+    summary: 'Echo a request body',
+    tags: GENERAL_TAGS,
+    request: { body: { type: 'object' } },
+    responses: {
+      [HTTP_STATUS.CREATED]: {
+        description: 'The received body',
+        schema: { type: 'object', properties: { message: { type: 'string' }, received: {} }, required: ['message'] },
+      },
+    },
+  },
+  healthCheck: {
+    method: 'GET',
+    path: '/health',
+    summary: 'Health check',
+    tags: GENERAL_TAGS,
+    responses: {
+      [HTTP_STATUS.OK]: {
+        description: 'Service is healthy',
+        schema: {
+          type: 'object',
+          properties: {
+            healthy: { type: 'boolean' },
+            uptime: { type: 'number', description: 'Process uptime in seconds' },
+          },
+          required: ['healthy', 'uptime'],
+        },
+      },
+    },
+  },
+  searchDocuments: {
+    method: 'POST',
+    path: '/search',
+    summary: 'Search documents',
+    description: 'Vector, keyword (BM25) or hybrid retrieval over ingested documents',
+    tags: RETRIEVAL_TAGS,
+    request: { body: searchSchema },
+    responses: {
+      [HTTP_STATUS.OK]: {
+        description: 'Matching chunks, best first',
+        schema: {
+          type: 'object',
+          properties: {
+            query: { type: 'string' },
+            mode: { type: 'string', enum: SEARCH_MODES },
+            results: { type: 'array', items: searchHitSchema },
+            total: { type: 'integer' },
+          },
+          required: ['query', 'mode', 'results', 'total'],
+        },
+      },
+    },
+  },
+  askQuestion: {
+    method: 'POST',
+    path: '/ask',
+    summary: 'Ask a question',
+    description: 'Answer a question from retrieved chunks, with [n] citations',
+    tags: RETRIEVAL_TAGS,
+    request: { body: askSchema },
+    responses: { [HTTP_STATUS.OK]: { description: 'Answer with citations', schema: answerSchema } },
+  },
+  askQuestionStream: {
+    method: 'POST',
+    path: '/ask/stream',
+    summary: 'Ask a question (streamed)',
+    description: 'Server-Sent Events: contexts, then one token event per answer token, then done with the citations',
+    tags: RETRIEVAL_TAGS,
+    request: { body: askSchema },
+    responses: {
+      [HTTP_STATUS.OK]: { description: 'Event stream', contentType: 'text/event-stream', schema: { type: 'string' } },
+    },
+  },
+} as const satisfies Record<string, RouteContract>;
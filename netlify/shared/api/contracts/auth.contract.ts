@@ -0,0 +1,116 @@
+/**
+ * Auth API contract (login, token refresh and logout)
+ */
+
+import { HTTP_STATUS } from '../../lib/constants/http.constants.ts';
+import type { RouteContract } from '../../lib/types/contract.types.ts';
+
+// Credential size limits
+const MAX_EMAIL_LENGTH = 254;
+const MAX_PASSWORD_LENGTH = 1024;
+const MAX_TOKEN_LENGTH = 4096;
+
+/**
+ * POST /auth/login request body schema
+ */
+export const loginSchema = {
+  type: 'object',
+  properties: {
+    email: { type: 'string', minLength: 1, maxLength: MAX_EMAIL_LENGTH },
+    password: { type: 'string', minLength: 1, maxLength: MAX_PASSWORD_LENGTH },
+  },
+  required: ['email', 'password'],
+  additionalProperties: false,
+} as const;
+
+/**
+ * POST /auth/refresh request body schema
+ */
+export const refreshSchema = {
+  type: 'object',
+  properties: {
+    refreshToken: { type: 'string', minLength: 1, maxLength: MAX_TOKEN_LENGTH },
+  },
+  required: ['refreshToken'],
+  additionalProperties: false,
+} as const;
+
+/**
+ * POST /auth/logout request body schema - the access token comes from the Authorization header
+ */
+export const logoutSchema = {
+  type: 'object',
+  properties: {
+    refreshToken: { type: 'string', maxLength: MAX_TOKEN_LENGTH },
+  },
+  additionalProperties: false,
+} as const;
+
+// Signed-in account
+export const authUserSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    email: { type: 'string' },
+    name: { type: 'string' },
+    role: { type: 'string' },
+  },
+  required: ['id', 'email', 'name', 'role'],
+} as const;
+
+// Token pair and account returned by login and refresh
+export const sessionSchema = {
+  type: 'object',
+  properties: {
+    accessToken: { type: 'string' },
+    refreshToken: { type: 'string' },
+    tokenType: { const: 'Bearer' },
+    expiresIn: { type: 'integer', description: 'Access token lifetime in seconds' },
+    refreshExpiresIn: { type: 'integer', description: 'Refresh token lifetime in seconds' },
+    user: authUserSchema,
+  },
+  required: ['accessToken', 'refreshToken', 'tokenType', 'expiresIn', 'refreshExpiresIn', 'user'],
+} as const;
+
+const AUTH_TAGS = ['Auth'];
+
+export const authContract = {
+  login: {
+    method: 'POST',
+    path: '/auth/login',
+    summary: 'Log in',
+    description: 'Exchange email and password for an access and refresh token',
+    tags: AUTH_TAGS,
+    request: { body: loginSchema },
+    responses: {
+      [HTTP_STATUS.OK]: { description: 'New session', schema: sessionSchema },
+      [HTTP_STATUS.UNAUTHORIZED]: { description: 'Invalid credentials' },
+    },
+  },
+  refreshSession: {
+    method: 'POST',
+    path: '/auth/refresh',
+    summary: 'Refresh a session',
+    description: 'Rotate a refresh token into a new token pair',
+    tags: AUTH_TAGS,
+    request: { body: refreshSchema },
+    responses: {
+      [HTTP_STATUS.OK]: { description: 'Rotated session', schema: sessionSchema },
+      [HTTP_STATUS.UNAUTHORIZED]: { description: 'Invalid, expired or revoked refresh token' },
+    },
+  },
+  logout: {
+    method: 'POST',
+    path: '/auth/logout',
+    summary: 'Log out',
+    description: 'Revoke the bearer access token and, when given, the refresh token',
+    tags: AUTH_TAGS,
+    request: { body: logoutSchema },
+    responses: {
+      [HTTP_STATUS.OK]: {
+        description: 'Session ended',
+        schema: { type: 'object', properties: { message: { type: 'string' } }, required: ['message'] },
+      },
+    },
+  },
+} as const satisfies Record<string, RouteContract>;
@@ -0,0 +1,211 @@
+/**
+ * Documents API contract (knowledge base ingestion)
+ */
+
+import { HTTP_STATUS } from '../../lib/constants/http.constants.ts';
+import type { RouteContract } from '../../lib/types/contract.types.ts';
+
+// Document size limits
+const MAX_TITLE_LENGTH = 200;
+const MAX_SOURCE_LENGTH = 500;
+const MAX_TAG_LENGTH = 50;
+const MAX_CONTENT_LENGTH = 1_000_000;
+
+export const DOCUMENT_CONTENT_TYPES = ['text/plain', 'text/markdown'] as const;
+export const CHUNKING_STRATEGIES = ['fixed', 'sentence', 'markdown'] as const;
+
+/**
+ * POST /documents request body schema
+ */
+export const createDocumentSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1, maxLength: MAX_TITLE_LENGTH },
+    content: { type: 'string', minLength: 1, maxLength: MAX_CONTENT_LENGTH },
+    contentType: { type: 'string', enum: DOCUMENT_CONTENT_TYPES },
+    source: { type: ['string', 'null'], maxLength: MAX_SOURCE_LENGTH },
+    tags: { type: 'array', items: { type: 'string', maxLength: MAX_TAG_LENGTH } },
+  },
+  required: ['title', 'content'],
+  additionalProperties: false,
+} as const;
+
+/**
+ * GET /documents/:id/chunks query schema, documented only - the route parses it itself
+ */
+export const chunkingQuerySchema = {
+  type: 'object',
+  properties: {
+    strategy: { type: 'string', enum: CHUNKING_STRATEGIES },
+    chunkSize: { type: 'integer', minimum: 1, description: 'Target chunk size in characters' },
+    chunkOverlap: { type: 'integer', minimum: 0, description: 'Characters shared by consecutive chunks' },
+  },
+} as const;
+
+// Stored document fields, as returned by the API
+const documentMetadataProperties = {
+  id: { type: 'string' },
+  title: { type: 'string' },
+  contentType: { type: 'string', enum: DOCUMENT_CONTENT_TYPES },
+  source: { type: ['string', 'null'] },
+  tags: { type: 'array', items: { type: 'string' } },
+  createdAt: { type: 'string', format: 'date-time' },
+  updatedAt: { type: 'string', format: 'date-time' },
+} as const;
+
+const DOCUMENT_METADATA_FIELDS = ['id', 'title', 'contentType', 'source', 'tags', 'createdAt', 'updatedAt'] as const;
+
+export const documentSchema = {
+  type: 'object',
+  properties: { ...documentMetadataProperties, content: { type: 'string' } },
+  required: [...DOCUMENT_METADATA_FIELDS, 'content'],
+} as const;
+
+// Listing entry: content omitted, size and indexing state reported instead
+export const documentSummarySchema = {
+  type: 'object',
+  properties: {
+    ...documentMetadataProperties,
+    characterCount: { type: 'integer' },
+    chunkCount: { type: 'integer' },
+    status: { type: 'string', enum: ['indexed', 'not_indexed'] },
+  },
+  required: [...DOCUMENT_METADATA_FIELDS, 'characterCount', 'chunkCount', 'status'],
+} as const;
+
+export const documentChunkSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    documentId: { type: 'string' },
+    index: { type: 'integer' },
+    text: { type: 'string' },
+    start: { type: 'integer' },
+    end: { type: 'integer' },
+    headingPath: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['id', 'documentId', 'index', 'text', 'start', 'end', 'headingPath'],
+} as const;
+
+// Payload of create and single-document reindex responses
+const documentIngestionSchema = {
+  type: 'object',
+  properties: {
+    message: { type: 'string' },
+    document: documentSummarySchema,
+    chunkCount: { type: 'integer' },
+  },
+  required: ['message', 'document', 'chunkCount'],
+} as const;
+
+const DOCUMENTS_TAGS = ['Documents'];
+const DOCUMENT_NOT_FOUND = { description: 'Document not found' };
+
+export const documentsContract = {
+  listDocuments: {
+    method: 'GET',
+    path: '/documents',
+    summary: 'List documents',
+    description: 'Documents without their content, with chunk counts and indexing state',
+    tags: DOCUMENTS_TAGS,
+    responses: {
+      [HTTP_STATUS.OK]: {
+        description: 'All documents',
+        schema: {
+          type: 'object',
+          properties: { documents: { type: 'array', items: documentSummarySchema }, total: { type: 'integer' } },
+          required: ['documents', 'total'],
+        },
+      },
+    },
+  },
+  getDocument: {
+    method: 'GET',
+    path: '/documents/:id',
+    summary: 'Get a document',
+    tags: DOCUMENTS_TAGS,
+    responses: {
+      [HTTP_STATUS.OK]: { description: 'The document with its content', schema: documentSchema },
+      [HTTP_STATUS.NOT_FOUND]: DOCUMENT_NOT_FOUND,
+    },
+  },
+  getDocumentChunks: {
+    method: 'GET',
+    path: '/documents/:id/chunks',
+    summary: 'Preview document chunks',
+    description: 'Split a document with the given chunking options without changing the index',
+    tags: DOCUMENTS_TAGS,
+    request: { query: chunkingQuerySchema },
+    responses: {
+      [HTTP_STATUS.OK]: {
+        description: 'Chunks of the document',
+        schema: {
+          type: 'object',
+          properties: {
+            documentId: { type: 'string' },
+            strategy: { type: 'string', enum: CHUNKING_STRATEGIES },
+            chunks: { type: 'array', items: documentChunkSchema },
+            total: { type: 'integer' },
+          },
+          required: ['documentId', 'strategy', 'chunks', 'total'],
+        },
+      },
+      [HTTP_STATUS.NOT_FOUND]: DOCUMENT_NOT_FOUND,
+    },
+  },
+  createDocument: {
+    method: 'POST',
+    path: '/documents',
+    summary: 'Ingest a document',
+    description: 'Store a text or markdown document and index its chunks; a multipart/form-data file upload is accepted too',
+    tags: DOCUMENTS_TAGS,
+    request: { body: createDocumentSchema },
+    responses: {
+      [HTTP_STATUS.CREATED]: { description: 'Document created and indexed', schema: documentIngestionSchema },
+    },
+  },
+  reindexDocuments: {
+    method: 'POST',
+    path: '/documents/reindex',
+    summary: 'Re-index all documents',
+    tags: DOCUMENTS_TAGS,
+    responses: {
+      [HTTP_STATUS.OK]: {
+        description: 'Index rebuilt',
+        schema: {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            documentCount: { type: 'integer' },
+            chunkCount: { type: 'integer' },
+          },
+          required: ['message', 'documentCount', 'chunkCount'],
+        },
+      },
+    },
+  },
+  reindexDocument: {
+    method: 'POST',
+    path: '/documents/:id/reindex',
+    summary: 'Re-index a document',
+    tags: DOCUMENTS_TAGS,
+    responses: {
+      [HTTP_STATUS.OK]: { description: 'Document re-indexed', schema: documentIngestionSchema },
+      [HTTP_STATUS.NOT_FOUND]: DOCUMENT_NOT_FOUND,
+    },
+  },
+  deleteDocument: {
+    method: 'DELETE',
+    path: '/documents/:id',
+    summary: 'Delete a document',
+    description: 'Remove a document and its chunks from the index',
+    tags: DOCUMENTS_TAGS,
+    responses: {
+      [HTTP_STATUS.OK]: {
+        description: 'Document deleted',
+        schema: { type: 'object', properties: { message: { type: 'string' } }, required: ['message'] },
+      },
+      [HTTP_STATUS.NOT_FOUND]: DOCUMENT_NOT_FOUND,
+    },
+  },
+} as const satisfies Record<string, RouteContract>;
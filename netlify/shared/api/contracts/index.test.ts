@@ -0,0 +1,28 @@
+/**
+ * API contract tests - every contract must match a registered route
+ */
+
+import { describe, it, expect } from 'vitest';
+import { apiContract } from './index.ts';
+import { router } from '../routes/index.ts';
+import { validateJsonSchema } from '../../lib/utils/json-schema.utils.ts';
+import { HTTP_STATUS } from '../../lib/constants/http.constants.ts';
+
+describe('API contract', () => {
+  const routes = router.getRoutes();
+
+  it.each(Object.entries(apiContract))('should register %s with its contract as metadata', (_name, contract) => {
+    const route = routes.find(candidate => candidate.method === contract.method && candidate.path === `/api${contract.path}`.replace(/\/$/, ''));
+
+    expect(route).toBeDefined();
+    expect(route?.meta).toBe(contract);
+  });
+
+  it('should describe the payloads the routes actually return', async () => {
+    const response = await router.handle(new Request('http://localhost:3000/api/users?limit=2'));
+    const { payload } = await response.json();
+    const schema = apiContract.listUsers.responses[HTTP_STATUS.OK].schema;
+
+    expect(validateJsonSchema(payload, schema)).toEqual([]);
+  });
+});
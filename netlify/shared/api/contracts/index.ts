@@ -0,0 +1,25 @@
+/**
+ * API contract - every endpoint the frontend calls, keyed by operation name
+ * Routes register these as their metadata and validate with their schemas;
+ * the frontend derives its client, RTK Query endpoints and types from them
+ */
+
+import { apiRoutesContract } from './api.contract.ts';
+import { authContract } from './auth.contract.ts';
+import { documentsContract } from './documents.contract.ts';
+import { usersContract } from './users.contract.ts';
+
+export const apiContract = {
+  ...apiRoutesContract,
+  ...authContract,
+  ...usersContract,
+  ...documentsContract,
+} as const;
+
+export type ApiContract = typeof apiContract;
+export type ApiOperation = keyof ApiContract;
+
+export * from './api.contract.ts';
+export * from './auth.contract.ts';
+export * from './documents.contract.ts';
+export * from './users.contract.ts';
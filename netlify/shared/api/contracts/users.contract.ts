@@ -0,0 +1,163 @@
+/**
+ * Users API contract
+ */
+
+import { HTTP_STATUS } from '../../lib/constants/http.constants.ts';
+import type { RouteContract } from '../../lib/types/contract.types.ts';
+
+// User field limits
+const MAX_NAME_LENGTH = 100;
+const MAX_EMAIL_LENGTH = 254;
+const MAX_SEARCH_LENGTH = 100;
+const MAX_PAGE_SIZE = 100;
+
+export const USER_SORT_ORDERS = ['name', '-name', 'email', '-email', 'createdAt', '-createdAt'] as const;
+
+// Field definitions shared by the user schemas
+const userDefs = {
+  name: { type: 'string', minLength: 1, maxLength: MAX_NAME_LENGTH },
+  email: { type: 'string', format: 'email', maxLength: MAX_EMAIL_LENGTH },
+} as const;
+
+/**
+ * POST /users request body schema
+ */
+export const createUserSchema = {
+  type: 'object',
+  $defs: userDefs,
+  properties: {
+    name: { $ref: '#/$defs/name' },
+    email: { $ref: '#/$defs/email' },
+  },
+  required: ['name', 'email'],
+  additionalProperties: false,
+} as const;
+
+/**
+ * PUT /users/:id request body schema (every field optional)
+ */
+export const updateUserSchema = {
+  ...createUserSchema,
+  required: [],
+} as const;
+
+/**
+ * GET /users query schema
+ * sort is a field name, prefixed with '-' for descending order
+ */
+export const listUsersQuerySchema = {
+  type: 'object',
+  properties: {
+    page: { type: 'integer', minimum: 1 },
+    limit: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE },
+    sort: { type: 'string', enum: USER_SORT_ORDERS },
+    q: { type: 'string', maxLength: MAX_SEARCH_LENGTH },
+  },
+} as const;
+
+// User returned by the API
+export const userSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    email: { type: 'string', format: 'email' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+  required: ['id', 'name', 'email', 'createdAt', 'updatedAt'],
+} as const;
+
+// Payload of create and update responses
+const userResultSchema = {
+  type: 'object',
+  properties: {
+    message: { type: 'string' },
+    user: userSchema,
+  },
+  required: ['message', 'user'],
+} as const;
+
+const USERS_TAGS = ['Users'];
+
+// Responses of the admin-only user mutations
+const ADMIN_ONLY_RESPONSES = {
+  [HTTP_STATUS.UNAUTHORIZED]: { description: 'Missing or invalid access token' },
+  [HTTP_STATUS.FORBIDDEN]: { description: 'Admin role required' },
+} as const;
+
+export const usersContract = {
+  listUsers: {
+    method: 'GET',
+    path: '/users',
+    summary: 'List users',
+    description: 'Paginated list; the Link header points at the first, previous, next and last pages',
+    tags: USERS_TAGS,
+    request: { query: listUsersQuerySchema },
+    responses: {
+      [HTTP_STATUS.OK]: {
+        description: 'Page of users',
+        schema: {
+          type: 'object',
+          properties: {
+            users: { type: 'array', items: userSchema },
+            total: { type: 'integer' },
+            page: { type: 'integer' },
+            limit: { type: 'integer' },
+            pageCount: { type: 'integer' },
+          },
+          required: ['users', 'total', 'page', 'limit', 'pageCount'],
+        },
+      },
+    },
+  },
+  getUser: {
+    method: 'GET',
+    path: '/users/:id',
+    summary: 'Get a user',
+    tags: USERS_TAGS,
+    responses: {
+      [HTTP_STATUS.OK]: { description: 'The user', schema: userSchema },
+      [HTTP_STATUS.NOT_FOUND]: { description: 'User not found' },
+    },
+  },
+  createUser: {
+    method: 'POST',
+    path: '/users',
+    summary: 'Create a user',
+    tags: USERS_TAGS,
+    request: { body: createUserSchema },
+    responses: {
+      [HTTP_STATUS.CREATED]: { description: 'User created', schema: userResultSchema },
+      ...ADMIN_ONLY_RESPONSES,
+      [HTTP_STATUS.CONFLICT]: { description: 'Email already in use' },
+    },
+  },
+  updateUser: {
+    method: 'PUT',
+    path: '/users/:id',
+    summary: 'Update a user',
+    tags: USERS_TAGS,
+    request: { body: updateUserSchema },
+    responses: {
+      [HTTP_STATUS.OK]: { description: 'User updated', schema: userResultSchema },
+      ...ADMIN_ONLY_RESPONSES,
+      [HTTP_STATUS.NOT_FOUND]: { description: 'User not found' },
+      [HTTP_STATUS.CONFLICT]: { description: 'Email already in use' },
+    },
+  },
+  deleteUser: {
+    method: 'DELETE',
+    path: '/users/:id',
+    summary: 'Delete a user',
+    tags: USERS_TAGS,
+    responses: {
+      [HTTP_STATUS.OK]: {
+        description: 'User deleted',
+        schema: { type: 'object', properties: { message: { type: 'string' } }, required: ['message'] },
+      },
+      ...ADMIN_ONLY_RESPONSES,
+      [HTTP_STATUS.NOT_FOUND]: { description: 'User not found' },
+    },
+  },
+} as const satisfies Record<string, RouteContract>;
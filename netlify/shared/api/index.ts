@@ -5,12 +5,27 @@
 
 // Route handlers
 export {
+  askQuestion,
+  askQuestionStream,
+  createAskHandler,
+  createAskStreamHandler,
+  createSearchHandler,
   getGreeting,
   getUserById,
   healthCheck,
   optionsCors,
   postData,
+  searchDocuments,
 } from './routes/api.routes.ts';
 
+// Sub-routers
+export { authRouter, createAuthRouter } from './routes/auth.routes.ts';
+export { createDocsRouter, renderApiDocsPage } from './routes/docs.routes.ts';
+export { createDocumentsRouter, documentsRouter } from './routes/documents.routes.ts';
+export { createUsersRouter, usersRouter } from './routes/users.routes.ts';
+
+// Route contracts (schemas and metadata shared with the frontend)
+export * from './contracts/index.ts';
+
 // Router configuration
 export { router } from './routes/index.ts';
@@ -3,10 +3,25 @@
  * Tests all route handlers that use HTTP_STATUS constants
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
-import { getGreeting, postData, optionsCors, healthCheck, getUserById } from './api.routes.ts';
-import type { ExpressRequest, ExpressResponse } from '../../lib/types/router.types.ts';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  createAskHandler,
+  createAskStreamHandler,
+  createSearchHandler,
+  getGreeting,
+  postData,
+  optionsCors,
+  healthCheck,
+  getUserById,
+  validateAsk,
+  validateSearch,
+} from './api.routes.ts';
+import { KnowledgeBase } from '../../lib/rag/knowledge-base.ts';
+import { ExtractiveLlmProvider } from '../../lib/rag/llm.ts';
+import { createRouter, type ExpressRequest, type ExpressResponse } from '../../lib/types/router.types.ts';
 import { HTTP_STATUS, type HttpStatusCode } from '../../lib/constants/http.constants.ts';
+import { createMetadata } from '../../lib/utils/response.utils.ts';
+import type { ApiError } from '../../lib/types/envelope.types.ts';
 
 describe('API Route Handlers', () => {
   let mockRequest: ExpressRequest;
@@ -39,8 +54,17 @@ describe('API Route Handlers', () => {
         this.headers[key] = value;
         return this;
       },
+      success: function(payload?: unknown) {
+        this.json({ status: 'success', payload, metadata: createMetadata(0, mockRequest.requestId) });
+      },
+      fail: function(error: ApiError) {
+        this.json({ status: 'error', error, metadata: createMetadata(0, mockRequest.requestId) });
+      },
+      sse: vi.fn(),
+      stream: vi.fn(),
       _sent: false,
       _body: '',
+      _stream: null,
     };
 
     mockRequest = {
@@ -52,6 +76,8 @@ describe('API Route Handlers', () => {
       headers: new Headers(),
       body: null,
       originalRequest: new Request('http://localhost:3000/api'),
+      requestId: 'req_test',
+      startTime: Date.now(),
     };
   });
 
@@ -187,6 +213,173 @@ describe('API Route Handlers', () => {
     });
   });
 
+  describe('searchDocuments', () => {
+    let knowledgeBase: KnowledgeBase;
+    let searchHandler: ReturnType<typeof createSearchHandler>;
+
+    beforeEach(async () => {
+      knowledgeBase = new KnowledgeBase();
+      searchHandler = createSearchHandler(knowledgeBase);
+      mockRequest.method = 'POST';
+
+      await knowledgeBase.addDocument({
+        title: 'Deployment guide',
+        content: 'Deploy the site with the Netlify CLI. Functions are bundled automatically.',
+        tags: ['ops'],
+      });
+      await knowledgeBase.addDocument({
+        title: 'Recipes',
+        content: 'Chocolate cake needs flour, sugar and cocoa.',
+        tags: ['food'],
+      });
+    });
+
+    it('should return ranked chunks in the success envelope', async () => {
+      mockRequest.body = { query: 'how do I deploy with netlify', topK: 2 };
+
+      await searchHandler(mockRequest, mockResponse);
+
+      expect(mockResponse.statusCode).toBe(HTTP_STATUS.OK);
+      expect(responseData.status).toBe('success');
+      expect(responseData.metadata).toHaveProperty('requestId');
+      expect(responseData.payload.total).toBe(2);
+      expect(responseData.payload.results[0]).toMatchObject({
+        documentTitle: 'Deployment guide',
+        chunkIndex: 0,
+        start: 0,
+        end: 74,
+      });
+      expect(responseData.payload.results[0].score).toBeGreaterThan(responseData.payload.results[1].score);
+    });
+
+    it('should apply filters and minScore', async () => {
+      mockRequest.body = { query: 'deploy', filters: { tag: 'food' }, minScore: 0.99 };
+
+      await searchHandler(mockRequest, mockResponse);
+
+      expect(mockResponse.statusCode).toBe(HTTP_STATUS.OK);
+      expect(responseData.payload.results).toEqual([]);
+    });
+
+    it('should support keyword and hybrid modes', async () => {
+      mockRequest.body = { query: 'cocoa', mode: 'keyword' };
+      await searchHandler(mockRequest, mockResponse);
+
+      expect(responseData.payload.mode).toBe('keyword');
+      expect(responseData.payload.results.map((hit: { documentTitle: string }) => hit.documentTitle))
+        .toEqual(['Recipes']);
+
+      mockRequest.body = { query: 'netlify cocoa', mode: 'hybrid', fusion: { vectorWeight: 0.5, keywordWeight: 1 } };
+      await searchHandler(mockRequest, mockResponse);
+
+      expect(mockResponse.statusCode).toBe(HTTP_STATUS.OK);
+      expect(responseData.payload.results[0].ranks).toBeDefined();
+    });
+
+    it('should reject invalid request bodies before the handler runs', async () => {
+      const next = vi.fn();
+      mockRequest.body = { query: '', topK: 0 };
+
+      await validateSearch(mockRequest, mockResponse, next);
+
+      expect(mockResponse.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(responseData.error.code).toBe('VALIDATION_FAILED');
+
+      mockRequest.body = { query: 'deploy', mode: 'fuzzy' };
+      await validateSearch(mockRequest, mockResponse, next);
+
+      expect(responseData.error.details.errors[0].field).toBe('mode');
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown filter and fusion options', async () => {
+      const next = vi.fn();
+
+      for (const options of [{ filters: { tags: 'food' } }, { fusion: { vectorWieght: 1 } }, { filters: { dateRange: { since: '2024-01-01' } } }]) {
+        mockRequest.body = { query: 'deploy', ...options };
+        await validateSearch(mockRequest, mockResponse, next);
+
+        expect(mockResponse.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+        expect(responseData.error.details.errors[0].code).toBe('UNKNOWN_FIELD');
+      }
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid date filters', async () => {
+      mockRequest.body = { query: 'deploy', filters: { dateRange: { from: 'yesterday' } } };
+
+      await searchHandler(mockRequest, mockResponse);
+
+      expect(mockResponse.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(responseData.error.code).toBe('INVALID_SEARCH_OPTIONS');
+    });
+  });
+
+  describe('askQuestion', () => {
+    let askHandler: ReturnType<typeof createAskHandler>;
+
+    beforeEach(async () => {
+      const knowledgeBase = new KnowledgeBase();
+      askHandler = createAskHandler(knowledgeBase, new ExtractiveLlmProvider());
+      mockRequest.method = 'POST';
+
+      await knowledgeBase.addDocument({
+        title: 'Deployment guide',
+        content: 'Deploy the site with the Netlify CLI. Functions are bundled automatically.',
+      });
+    });
+
+    it('should return an answer with citations mapped to chunks', async () => {
+      mockRequest.body = { question: 'How do I deploy the site?', topK: 3 };
+
+      await askHandler(mockRequest, mockResponse);
+
+      expect(mockResponse.statusCode).toBe(HTTP_STATUS.OK);
+      expect(responseData.status).toBe('success');
+      expect(responseData.payload.answer).toBe('Deploy the site with the Netlify CLI [1].');
+      expect(responseData.payload.citations).toEqual([
+        expect.objectContaining({ marker: 1, documentTitle: 'Deployment guide' }),
+      ]);
+      expect(responseData.payload.citations[0].chunkId).toBe(responseData.payload.contexts[0].chunkId);
+    });
+
+    it('should stream contexts, tokens and citations as Server-Sent Events', async () => {
+      const knowledgeBase = new KnowledgeBase();
+      await knowledgeBase.addDocument({ title: 'FAQ', content: 'Backups run every night at two.' });
+      const router = createRouter().post('/ask/stream', createAskStreamHandler(knowledgeBase, new ExtractiveLlmProvider()));
+
+      const response = await router.handle(new Request('http://localhost:3000/ask/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ question: 'When do backups run?' }),
+      }));
+      const events = (await response.text())
+        .trim()
+        .split('\n\n')
+        .map(block => {
+          const [eventLine = '', dataLine = ''] = block.split('\n');
+          return { event: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) };
+        });
+
+      expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+      expect(events.map(({ event }) => event)).toEqual(['contexts', ...Array(7).fill('token'), 'done']);
+      expect(events.slice(1, -1).map(({ data }) => data.text).join('')).toBe('Backups run every night at two [1].');
+      expect(events.at(-1)?.data.citations).toEqual([expect.objectContaining({ marker: 1, documentTitle: 'FAQ' })]);
+    });
+
+    it('should require a question', async () => {
+      const next = vi.fn();
+      mockRequest.body = { query: 'wrong field' };
+
+      await validateAsk(mockRequest, mockResponse, next);
+
+      expect(next).not.toHaveBeenCalled();
+
+      expect(mockResponse.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(responseData.error.code).toBe('VALIDATION_FAILED');
+    });
+  });
+
   describe('HTTP Status Code Usage', () => {
     it('should use HTTP_STATUS constants instead of magic numbers', () => {
       // Verify that all handlers use the constants
@@ -2,14 +2,31 @@
  * Express-like route handlers for the API
  */
 
-import type { ExpressRequest, ExpressResponse } from '../../lib/types/router.types.ts';
+import type { ExpressRequest, ExpressResponse, RouteHandler } from '../../lib/types/router.types.ts';
 import { HTTP_STATUS } from '../../lib/constants/http.constants.ts';
+import { validateBody } from '../../lib/middleware/validation.middleware.ts';
+import {
+  getKnowledgeBase,
+  type HybridFusionOptions,
+  type KnowledgeBase,
+  type SearchHit,
+  type SearchMode,
+} from '../../lib/rag/knowledge-base.ts';
+import type { VectorSearchFilter } from '../../lib/rag/vector-store.ts';
+import { createLlmProvider, type LlmProvider } from '../../lib/rag/llm.ts';
+import {
+  generateAnswer,
+  streamAnswer,
+  type AnswerResult,
+  type AnswerStreamEvent,
+} from '../../lib/rag/generation.ts';
+import { askSchema, searchSchema } from '../contracts/api.contract.ts';
 
 /**
  * GET / - Returns greeting message
  */
 export const getGreeting = (req: ExpressRequest, res: ExpressResponse): void => {
-  const nameParam = req.query['name'];
+  const nameParam = req.query['name']?.toString();
   const trimmedName = nameParam?.trim();
   const subject = trimmedName !== undefined && trimmedName !== '' ? trimmedName : 'World';
 
@@ -18,30 +35,16 @@ export const getGreeting = (req: ExpressRequest, res: ExpressResponse): void =>
     throw new Error('Simulated error triggered by x-trigger-error header');
   }
 
-  res.status(HTTP_STATUS.OK).json({
-    status: 'success',
-    payload: { message: `Hello ${subject}` },
-    metadata: {
-      timestamp: new Date().toISOString(),
-      version: '1.0.0',
-    },
-  });
+  res.status(HTTP_STATUS.OK).success({ message: `Hello ${subject}` });
 };
 
 /**
  * POST / - Processes request body
  */
 export const postData = (req: ExpressRequest, res: ExpressResponse): void => {
-  res.status(HTTP_STATUS.CREATED).json({
-    status: 'success',
-    payload: {
-      message: 'Data received successfully',
-      received: req.body,
-    },
-    metadata: {
-      timestamp: new Date().toISOString(),
-      version: '1.0.0',
-    },
+  res.status(HTTP_STATUS.CREATED).success({
+    message: 'Data received successfully',
+    received: req.body,
   });
 };
 
@@ -59,17 +62,10 @@ export const optionsCors = (_req: ExpressRequest, res: ExpressResponse): void =>
 export const getUserById = (req: ExpressRequest, res: ExpressResponse): void => {
   const userId = req.params['id'];
 
-  res.status(HTTP_STATUS.OK).json({
-    status: 'success',
-    payload: {
-      id: userId,
-      name: `User ${userId}`,
-      email: `user${userId}@example.com`,
-    },
-    metadata: {
-      timestamp: new Date().toISOString(),
-      version: '1.0.0',
-    },
+  res.status(HTTP_STATUS.OK).success({
+    id: userId,
+    name: `User ${userId}`,
+    email: `user${userId}@example.com`,
   });
 };
 
@@ -77,15 +73,133 @@ export const getUserById = (req: ExpressRequest, res: ExpressResponse): void =>
  * GET /health - Health check endpoint
  */
 export const healthCheck = (_req: ExpressRequest, res: ExpressResponse): void => {
-  res.status(HTTP_STATUS.OK).json({
-    status: 'success',
-    payload: {
-      healthy: true,
-      uptime: process.uptime(),
-    },
-    metadata: {
-      timestamp: new Date().toISOString(),
-      version: '1.0.0',
-    },
+  res.status(HTTP_STATUS.OK).success({
+    healthy: true,
+    uptime: process.uptime(),
   });
 };
+
+/**
+ * Body validation for POST /search; register it ahead of the search handler
+ */
+export const validateSearch = validateBody(searchSchema);
+
+/**
+ * Body validation for POST /ask and /ask/stream; register it ahead of the ask handlers
+ */
+export const validateAsk = validateBody(askSchema);
+
+// Retrieval options accepted in request bodies
+interface RetrievalRequestOptions {
+  topK?: number;
+  minScore?: number;
+  filters?: VectorSearchFilter;
+  mode?: SearchMode;
+  fusion?: HybridFusionOptions;
+}
+
+/**
+ * Send a 400 for retrieval options rejected by the knowledge base (e.g. invalid dates)
+ */
+function sendInvalidSearchOptions(res: ExpressResponse, error: RangeError): void {
+  res.status(HTTP_STATUS.BAD_REQUEST).fail({
+    code: 'INVALID_SEARCH_OPTIONS',
+    message: error.message,
+  });
+}
+
+/**
+ * Create the POST /search handler for a knowledge base; expects a body checked by validateSearch
+ */
+export const createSearchHandler = (knowledgeBase: KnowledgeBase = getKnowledgeBase()): RouteHandler =>
+  async (req: ExpressRequest, res: ExpressResponse): Promise<void> => {
+    const { query, topK, minScore, filters, mode = 'vector', fusion } =
+      req.body as RetrievalRequestOptions & { query: string };
+    let results: SearchHit[];
+    try {
+      results = await knowledgeBase.search(query, { topK, minScore, filters, mode, fusion });
+    } catch (error) {
+      if (!(error instanceof RangeError)) {
+        throw error;
+      }
+      sendInvalidSearchOptions(res, error);
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).success({ query, mode, results, total: results.length });
+  };
+
+/**
+ * POST /search - Vector, keyword (BM25) or hybrid retrieval over ingested documents
+ */
+export const searchDocuments = createSearchHandler();
+
+/**
+ * Create the POST /ask handler for a knowledge base and LLM provider; expects a body checked by validateAsk
+ */
+export const createAskHandler = (
+  knowledgeBase: KnowledgeBase = getKnowledgeBase(),
+  llm: LlmProvider = createLlmProvider()
+): RouteHandler =>
+  async (req: ExpressRequest, res: ExpressResponse): Promise<void> => {
+    const { question, topK, minScore, filters, mode = 'vector', fusion } =
+      req.body as RetrievalRequestOptions & { question: string };
+    let result: AnswerResult;
+    try {
+      result = await generateAnswer(knowledgeBase, llm, question, { topK, minScore, filters, mode, fusion });
+    } catch (error) {
+      if (!(error instanceof RangeError)) {
+        throw error;
+      }
+      sendInvalidSearchOptions(res, error);
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).success(result);
+  };
+
+/**
+ * POST /ask - Answer a question from retrieved chunks, with [n] citations
+ */
+export const askQuestion = createAskHandler();
+
+/**
+ * Create the POST /ask/stream handler (Server-Sent Events); expects a body checked by validateAsk
+ * Emits `contexts`, then one `token` event per answer token, then `done` with the citations
+ */
+export const createAskStreamHandler = (
+  knowledgeBase: KnowledgeBase = getKnowledgeBase(),
+  llm: LlmProvider = createLlmProvider()
+): RouteHandler =>
+  async (req: ExpressRequest, res: ExpressResponse): Promise<void> => {
+    const { question, topK, minScore, filters, mode = 'vector', fusion } =
+      req.body as RetrievalRequestOptions & { question: string };
+    const events = streamAnswer(knowledgeBase, llm, question, { topK, minScore, filters, mode, fusion });
+
+    // Retrieve before opening the stream so invalid options still get a plain 400
+    let first: IteratorResult<AnswerStreamEvent>;
+    try {
+      first = await events.next();
+    } catch (error) {
+      if (!(error instanceof RangeError)) {
+        throw error;
+      }
+      sendInvalidSearchOptions(res, error);
+      return;
+    }
+
+    const sse = res.sse();
+    for (let event = first; event.done !== true; event = await events.next()) {
+      if (sse.closed) {
+        await events.return(undefined);
+        return;
+      }
+      const { type, ...data } = event.value;
+      sse.send(type, data);
+    }
+  };
+
+/**
+ * POST /ask/stream - Streamed variant of POST /ask
+ */
+export const askQuestionStream = createAskStreamHandler();
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for the auth sub-router
+ */
+
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import { createAuthRouter } from './auth.routes.ts';
+import { createRouter, type Router } from '../../lib/types/router.types.ts';
+import { HTTP_STATUS } from '../../lib/constants/http.constants.ts';
+import { AuthService } from '../../lib/auth/auth-service.ts';
+import { InMemoryCredentialStore, type AuthAccount } from '../../lib/auth/credential-store.ts';
+import { JwtVerifier } from '../../lib/auth/jwt.ts';
+import { hashPassword } from '../../lib/auth/password.ts';
+import { InMemoryRevocationList } from '../../lib/auth/revocation-list.ts';
+
+const BASE_URL = 'http://localhost:3000/api/auth';
+const SECRET = 'auth-routes-test-secret';
+
+describe('Auth Router', () => {
+  let account: AuthAccount;
+  let verifier: JwtVerifier;
+  let router: Router;
+
+  beforeAll(async () => {
+    account = {
+      id: 'user-1',
+      email: 'ada@example.com',
+      name: 'Ada Lovelace',
+      role: 'admin',
+      passwordHash: await hashPassword('analytical-engine', { iterations: 1000 }),
+    };
+  });
+
+  beforeEach(() => {
+    const revocations = new InMemoryRevocationList();
+    verifier = new JwtVerifier({ secrets: [SECRET], revocations });
+    router = createRouter();
+    router.use('/api/auth', createAuthRouter(new AuthService({
+      credentials: new InMemoryCredentialStore([account]),
+      signingKey: { algorithm: 'HS256', secret: SECRET },
+      verifier,
+      revocations,
+    })));
+  });
+
+  const post = async (path: string, body?: unknown, headers: Record<string, string> = {}): Promise<Response> =>
+    router.handle(
+      new Request(`${BASE_URL}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+      })
+    );
+
+  const login = async () =>
+    (await (await post('/login', { email: 'ada@example.com', password: 'analytical-engine' })).json()).payload;
+
+  it('should log in with valid credentials', async () => {
+    const response = await post('/login', { email: 'ada@example.com', password: 'analytical-engine' });
+    const data = await response.json();
+
+    expect(response.status).toBe(HTTP_STATUS.OK);
+    expect(data.payload.user).toEqual({ id: 'user-1', email: 'ada@example.com', name: 'Ada Lovelace', role: 'admin' });
+    expect(data.payload.tokenType).toBe('Bearer');
+    expect(typeof data.payload.accessToken).toBe('string');
+    expect(typeof data.payload.refreshToken).toBe('string');
+  });
+
+  it('should reject invalid credentials and malformed bodies', async () => {
+    const wrongPassword = await post('/login', { email: 'ada@example.com', password: 'nope' });
+    expect(wrongPassword.status).toBe(HTTP_STATUS.UNAUTHORIZED);
+    expect((await wrongPassword.json()).error.code).toBe('AUTH_INVALID_CREDENTIALS');
+
+    const missingPassword = await post('/login', { email: 'ada@example.com' });
+    expect(missingPassword.status).toBe(HTTP_STATUS.BAD_REQUEST);
+    expect((await missingPassword.json()).error.code).toBe('VALIDATION_FAILED');
+  });
+
+  it('should rotate refresh tokens and reject reuse', async () => {
+    const session = await login();
+
+    const refreshed = await post('/refresh', { refreshToken: session.refreshToken });
+    const refreshedData = await refreshed.json();
+    expect(refreshed.status).toBe(HTTP_STATUS.OK);
+    expect(refreshedData.payload.refreshToken).not.toBe(session.refreshToken);
+
+    const reused = await post('/refresh', { refreshToken: session.refreshToken });
+    expect(reused.status).toBe(HTTP_STATUS.UNAUTHORIZED);
+    expect((await reused.json()).error.code).toBe('AUTH_REFRESH_INVALID');
+  });
+
+  it('should revoke tokens on logout', async () => {
+    const session = await login();
+
+    const response = await post(
+      '/logout',
+      { refreshToken: session.refreshToken },
+      { Authorization: `Bearer ${session.accessToken}` }
+    );
+    expect(response.status).toBe(HTTP_STATUS.OK);
+
+    await expect(verifier.verify(session.accessToken)).rejects.toThrow('Token has been revoked');
+    const refreshed = await post('/refresh', { refreshToken: session.refreshToken });
+    expect(refreshed.status).toBe(HTTP_STATUS.UNAUTHORIZED);
+  });
+
+  it('should answer malformed refresh tokens with 401 on refresh and ignore them on logout', async () => {
+    const [header, payload] = (await login()).refreshToken.split('.');
+    const malformed = `${header}.${payload}.x`;
+
+    const refreshed = await post('/refresh', { refreshToken: malformed });
+    expect(refreshed.status).toBe(HTTP_STATUS.UNAUTHORIZED);
+    expect((await refreshed.json()).error.code).toBe('AUTH_REFRESH_INVALID');
+    expect((await post('/logout', { refreshToken: malformed })).status).toBe(HTTP_STATUS.OK);
+  });
+
+  it('should accept a logout with only a bearer token', async () => {
+    const session = await login();
+
+    const response = await post('/logout', undefined, { Authorization: `Bearer ${session.accessToken}` });
+    expect(response.status).toBe(HTTP_STATUS.OK);
+    await expect(verifier.verify(session.refreshToken)).rejects.toThrow('Token has been revoked');
+  });
+});
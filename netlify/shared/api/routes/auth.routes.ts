@@ -0,0 +1,103 @@
+/**
+ * Auth sub-router (login, token refresh and logout)
+ */
+
+import {
+  createRouter,
+  type ExpressRequest,
+  type ExpressResponse,
+  type Router,
+} from '../../lib/types/router.types.ts';
+import { HTTP_STATUS } from '../../lib/constants/http.constants.ts';
+import { validateBody } from '../../lib/middleware/validation.middleware.ts';
+import { AuthServiceError, getAuthService, type AuthService } from '../../lib/auth/auth-service.ts';
+import { authContract, loginSchema, logoutSchema, refreshSchema } from '../contracts/auth.contract.ts';
+
+const validateLogin = validateBody(loginSchema);
+const validateRefresh = validateBody(refreshSchema);
+const validateLogout = validateBody(logoutSchema);
+
+/**
+ * Bearer token from the Authorization header, if any
+ */
+function bearerToken(req: ExpressRequest): string | null {
+  const match = /^Bearer (\S+)$/.exec(req.headers.get('Authorization') ?? '');
+  return match?.[1] ?? null;
+}
+
+/**
+ * Send an auth service error, rethrowing anything else
+ */
+function sendAuthError(res: ExpressResponse, error: unknown): void {
+  if (!(error instanceof AuthServiceError)) {
+    throw error;
+  }
+
+  res.status(error.statusCode).fail({
+    code: error.code,
+    message: error.message,
+  });
+}
+
+/**
+ * Create auth sub-router backed by the given auth service
+ * Without one, the shared service is resolved on first request so a missing config cannot break startup
+ */
+export function createAuthRouter(authService?: AuthService): Router {
+  const router = createRouter();
+  const service = (): AuthService => authService ?? getAuthService();
+
+  /**
+   * POST /auth/login - Exchange email and password for an access and refresh token
+   */
+  router.post('/login', authContract.login, validateLogin, async (req: ExpressRequest, res: ExpressResponse): Promise<void> => {
+    const { email, password } = req.body as { email: string; password: string };
+    try {
+      const session = await service().login(email, password);
+      res.status(HTTP_STATUS.OK).success(session);
+    } catch (error) {
+      sendAuthError(res, error);
+    }
+  });
+
+  /**
+   * POST /auth/refresh - Rotate a refresh token into a new token pair
+   */
+  router.post('/refresh', authContract.refreshSession, validateRefresh, async (req: ExpressRequest, res: ExpressResponse): Promise<void> => {
+    const { refreshToken } = req.body as { refreshToken: string };
+    try {
+      const session = await service().refresh(refreshToken);
+      res.status(HTTP_STATUS.OK).success(session);
+    } catch (error) {
+      sendAuthError(res, error);
+    }
+  });
+
+  /**
+   * POST /auth/logout - Revoke the bearer access token and the session's refresh tokens
+   */
+  router.post('/logout', authContract.logout, async (req: ExpressRequest, res: ExpressResponse): Promise<void> => {
+    // The body is optional - a bearer token alone ends the session too
+    let isValid = req.body === null || req.body === undefined;
+    if (!isValid) {
+      validateLogout(req, res, () => {
+        isValid = true;
+      });
+    }
+    if (!isValid) {
+      return;
+    }
+
+    const { refreshToken } = (req.body ?? {}) as { refreshToken?: string };
+    await service().logout({ accessToken: bearerToken(req), refreshToken });
+
+    res.status(HTTP_STATUS.OK).success({
+      message: 'Logged out successfully',
+    });
+  });
+
+  return router;
+}
+
+// Default auth sub-router (shared auth service configured from environment)
+export const authRouter = createAuthRouter();
@@ -0,0 +1,167 @@
+/**
+ * API documentation sub-router (OpenAPI document and HTML reference page)
+ */
+
+import {
+  createRouter,
+  type ExpressRequest,
+  type ExpressResponse,
+  type Router,
+} from '../../lib/types/router.types.ts';
+import { HTTP_STATUS } from '../../lib/constants/http.constants.ts';
+import type { JsonSchema } from '../../lib/types/json-schema.types.ts';
+import type { OpenApiDocument, OpenApiOperation } from '../../lib/utils/openapi.utils.ts';
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+const UNTAGGED = 'Other';
+const JSON_INDENT = 2;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const renderSchema = (schema: JsonSchema): string =>
+  `<pre class="schema">${escapeHtml(JSON.stringify(schema, null, JSON_INDENT))}</pre>`;
+
+function renderOperation(method: string, path: string, operation: OpenApiOperation): string {
+  const parameters = operation.parameters ?? [];
+  const body = operation.requestBody?.content['application/json']?.schema;
+
+  return `
+    <details class="operation operation--${method}" id="${escapeHtml(operation.operationId)}">
+      <summary>
+        <span class="method">${method.toUpperCase()}</span>
+        <code class="path">${escapeHtml(path)}</code>
+        <span class="summary">${escapeHtml(operation.summary ?? '')}</span>
+      </summary>
+      ${operation.description !== undefined ? `<p>${escapeHtml(operation.description)}</p>` : ''}
+      ${parameters.length > 0 ? `
+      <h4>Parameters</h4>
+      <table>
+        <thead><tr><th>Name</th><th>In</th><th>Required</th><th>Schema</th></tr></thead>
+        <tbody>
+          ${parameters.map(parameter => `
+          <tr>
+            <td><code>${escapeHtml(parameter.name)}</code></td>
+            <td>${parameter.in}</td>
+            <td>${parameter.required ? 'yes' : 'no'}</td>
+            <td><code>${escapeHtml(JSON.stringify(parameter.schema))}</code></td>
+          </tr>`).join('')}
+        </tbody>
+      </table>` : ''}
+      ${body !== undefined ? `<h4>Request body</h4>${renderSchema(body)}` : ''}
+      <h4>Responses</h4>
+      <ul class="responses">
+        ${Object.entries(operation.responses).map(([status, response]) => {
+          const schema = Object.values(response.content ?? {})[0]?.schema;
+          return `
+        <li>
+          <strong>${escapeHtml(status)}</strong> ${escapeHtml(response.description)}
+          ${schema !== undefined && status !== 'default' ? renderSchema(schema) : ''}
+        </li>`;
+        }).join('')}
+      </ul>
+    </details>`;
+}
+
+/**
+ * Render a self-contained HTML reference page for an OpenAPI document
+ */
+export function renderApiDocsPage(document: OpenApiDocument, specUrl: string): string {
+  const groups = new Map<string, string[]>();
+
+  for (const [path, operations] of Object.entries(document.paths)) {
+    for (const method of HTTP_METHODS) {
+      const operation = operations[method];
+      if (operation === undefined) {
+        continue;
+      }
+      const tag = operation.tags?.[0] ?? UNTAGGED;
+      groups.set(tag, [...(groups.get(tag) ?? []), renderOperation(method, path, operation)]);
+    }
+  }
+
+  const sections = [...groups.entries()]
+    .sort(([a], [b]) => (a === UNTAGGED ? 1 : b === UNTAGGED ? -1 : a.localeCompare(b)))
+    .map(([tag, operations]) => `
+  <section>
+    <h2>${escapeHtml(tag)}</h2>
+    ${operations.join('')}
+  </section>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(document.info.title)} - API reference</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 0 auto; max-width: 960px; padding: 2rem 1rem; color: #1f2933; }
+    h1 { margin-bottom: 0.25rem; }
+    h2 { border-bottom: 1px solid #d9e2ec; padding-bottom: 0.25rem; margin-top: 2rem; }
+    .operation { border: 1px solid #d9e2ec; border-radius: 6px; margin: 0.5rem 0; padding: 0.5rem 0.75rem; }
+    .operation summary { cursor: pointer; display: flex; gap: 0.75rem; align-items: center; }
+    .method { font-weight: 700; min-width: 4.5rem; text-align: center; border-radius: 4px; padding: 0.1rem 0.4rem; color: #fff; }
+    .operation--get .method { background: #2f80ed; }
+    .operation--post .method { background: #27ae60; }
+    .operation--put .method, .operation--patch .method { background: #f2994a; }
+    .operation--delete .method { background: #eb5757; }
+    .summary { color: #52606d; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border-bottom: 1px solid #e4e7eb; padding: 0.25rem 0.5rem; text-align: left; vertical-align: top; }
+    .schema { background: #f5f7fa; border-radius: 4px; padding: 0.5rem; overflow-x: auto; font-size: 0.85rem; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(document.info.title)}</h1>
+    <p>Version ${escapeHtml(document.info.version)} &middot; <a href="${escapeHtml(specUrl)}">OpenAPI document</a></p>
+    ${document.info.description !== undefined ? `<p>${escapeHtml(document.info.description)}</p>` : ''}
+  </header>
+  <main>${sections}
+  </main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Create documentation sub-router
+ * The document is generated on first request, once every route has been registered
+ */
+export function createDocsRouter(generateDocument: () => OpenApiDocument): Router {
+  const router = createRouter();
+  let document: OpenApiDocument | null = null;
+  const getDocument = (): OpenApiDocument => (document ??= generateDocument());
+
+  /**
+   * GET /openapi.json - OpenAPI 3.1 document
+   */
+  router.get(
+    '/openapi.json',
+    { summary: 'OpenAPI document', tags: ['Docs'], operationId: 'getOpenApiDocument' },
+    (_req: ExpressRequest, res: ExpressResponse): void => {
+      res.status(HTTP_STATUS.OK).json(getDocument());
+    }
+  );
+
+  /**
+   * GET /docs - HTML API reference
+   */
+  router.get(
+    '/docs',
+    {
+      summary: 'HTML API reference',
+      tags: ['Docs'],
+      operationId: 'getApiDocs',
+      responses: { [HTTP_STATUS.OK]: { description: 'API reference page', contentType: 'text/html' } },
+    },
+    (req: ExpressRequest, res: ExpressResponse): void => {
+      const specUrl = req.path.replace(/\/docs\/?$/, '/openapi.json');
+      res.set('Content-Type', 'text/html; charset=utf-8');
+      res.status(HTTP_STATUS.OK).send(renderApiDocsPage(getDocument(), specUrl));
+    }
+  );
+
+  return router;
+}
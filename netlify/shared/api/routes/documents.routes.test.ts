@@ -0,0 +1,159 @@
+/**
+ * Unit tests for the documents sub-router
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createDocumentsRouter } from './documents.routes.ts';
+import { createRouter, type Router } from '../../lib/types/router.types.ts';
+import { InMemoryDocumentRepository } from '../../lib/repositories/document.repository.ts';
+import { KnowledgeBase } from '../../lib/rag/knowledge-base.ts';
+import { HTTP_STATUS } from '../../lib/constants/http.constants.ts';
+
+const BASE_URL = 'http://localhost:3000/api/documents';
+
+describe('Documents Router', () => {
+  let router: Router;
+
+  beforeEach(() => {
+    router = createRouter();
+    router.use('/api/documents', createDocumentsRouter(
+      new KnowledgeBase({ repository: new InMemoryDocumentRepository() })
+    ));
+  });
+
+  const createDocument = async (body: unknown): Promise<Response> =>
+    router.handle(
+      new Request(BASE_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+    );
+
+  it('should create a document and return its summary', async () => {
+    const response = await createDocument({
+      title: 'Readme',
+      content: '# Readme\nSome text',
+      source: 'README.md',
+      tags: ['intro'],
+    });
+    const data = await response.json();
+
+    expect(response.status).toBe(HTTP_STATUS.CREATED);
+    expect(data.status).toBe('success');
+    expect(data.payload.document).toMatchObject({
+      title: 'Readme',
+      contentType: 'text/markdown',
+      source: 'README.md',
+      tags: ['intro'],
+      characterCount: 18,
+    });
+    expect(data.payload.document).not.toHaveProperty('content');
+  });
+
+  it('should reject invalid documents', async () => {
+    const response = await createDocument({ title: '', tags: 'not-an-array' });
+    const data = await response.json();
+
+    expect(response.status).toBe(HTTP_STATUS.BAD_REQUEST);
+    expect(data.error.code).toBe('VALIDATION_FAILED');
+  });
+
+  it('should create a document from a multipart file upload', async () => {
+    const upload = (parts: string[][]): Request =>
+      new Request(BASE_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'multipart/form-data; boundary=boundary' },
+        body: [...parts.flatMap(part => ['--boundary', ...part]), '--boundary--', ''].join('\r\n'),
+      });
+    const file = ['Content-Disposition: form-data; name="file"; filename="handbook.md"', 'Content-Type: text/markdown', '', '# Handbook'];
+
+    const named = await (await router.handle(upload([file]))).json();
+    const titled = await router.handle(upload([
+      ['Content-Disposition: form-data; name="title"', '', 'Team handbook'],
+      ['Content-Disposition: form-data; name="tags"', '', 'onboarding'],
+      file,
+    ]));
+
+    expect(named.payload.document).toMatchObject({ title: 'handbook', contentType: 'text/markdown', characterCount: 10 });
+    expect(titled.status).toBe(HTTP_STATUS.CREATED);
+    expect((await titled.json()).payload.document).toMatchObject({ title: 'Team handbook', tags: ['onboarding'] });
+    expect((await router.handle(upload([['Content-Disposition: form-data; name="title"', '', 'Empty']]))).status)
+      .toBe(HTTP_STATUS.BAD_REQUEST);
+  });
+
+  it('should list, get and delete documents', async () => {
+    const created = await (await createDocument({ title: 'Notes', content: 'hello' })).json();
+    const id = created.payload.document.id;
+
+    const list = await (await router.handle(new Request(BASE_URL))).json();
+    expect(list.payload.total).toBe(1);
+    expect(list.payload.documents[0].id).toBe(id);
+
+    const single = await (await router.handle(new Request(`${BASE_URL}/${id}`))).json();
+    expect(single.payload.content).toBe('hello');
+
+    const deleted = await router.handle(new Request(`${BASE_URL}/${id}`, { method: 'DELETE' }));
+    expect(deleted.status).toBe(HTTP_STATUS.OK);
+
+    const missing = await router.handle(new Request(`${BASE_URL}/${id}`));
+    const missingData = await missing.json();
+    expect(missing.status).toBe(HTTP_STATUS.NOT_FOUND);
+    expect(missingData.error.code).toBe('DOCUMENT_NOT_FOUND');
+  });
+
+  it('should report chunk counts and preview chunks', async () => {
+    const created = await (
+      await createDocument({ title: 'Guide', content: '# Setup\nInstall it.\n\n# Usage\nRun it.', source: 'guide.md' })
+    ).json();
+    expect(created.payload.chunkCount).toBe(2);
+
+    const id = created.payload.document.id;
+    const preview = await (await router.handle(new Request(`${BASE_URL}/${id}/chunks`))).json();
+    expect(preview.payload.strategy).toBe('markdown');
+    expect(preview.payload.chunks.map((chunk: { headingPath: string[] }) => chunk.headingPath)).toEqual([
+      ['Setup'],
+      ['Usage'],
+    ]);
+
+    const invalid = await router.handle(new Request(`${BASE_URL}/${id}/chunks?chunkSize=abc`));
+    const invalidData = await invalid.json();
+    expect(invalid.status).toBe(HTTP_STATUS.BAD_REQUEST);
+    expect(invalidData.error.code).toBe('INVALID_CHUNKING_OPTIONS');
+  });
+
+  it('should list indexing status and re-index documents', async () => {
+    const repository = new InMemoryDocumentRepository();
+    const knowledgeBase = new KnowledgeBase({ repository });
+    router = createRouter().use('/api/documents', createDocumentsRouter(knowledgeBase));
+
+    const created = await (await createDocument({ title: 'Notes', content: 'First note.' })).json();
+    const id = created.payload.document.id;
+    expect(created.payload.document).toMatchObject({ chunkCount: 1, status: 'indexed' });
+
+    // Stored directly in the repository, so never indexed
+    const stale = await repository.create({ title: 'Stale', content: 'Not indexed yet.' });
+    const list = await (await router.handle(new Request(BASE_URL))).json();
+    const statuses = Object.fromEntries(
+      list.payload.documents.map((document: { id: string; status: string }) => [document.id, document.status])
+    );
+    expect(statuses).toEqual({ [id]: 'indexed', [stale.id]: 'not_indexed' });
+
+    const single = await router.handle(new Request(`${BASE_URL}/${stale.id}/reindex`, { method: 'POST' }));
+    const singleData = await single.json();
+    expect(single.status).toBe(HTTP_STATUS.OK);
+    expect(singleData.payload.document).toMatchObject({ id: stale.id, chunkCount: 1, status: 'indexed' });
+
+    const all = await (await router.handle(new Request(`${BASE_URL}/reindex`, { method: 'POST' }))).json();
+    expect(all.payload).toMatchObject({ documentCount: 2, chunkCount: 2 });
+
+    const missing = await router.handle(new Request(`${BASE_URL}/unknown/reindex`, { method: 'POST' }));
+    expect(missing.status).toBe(HTTP_STATUS.NOT_FOUND);
+    expect((await knowledgeBase.search('first note'))[0]?.documentId).toBe(id);
+  });
+
+  it('should return 404 when deleting an unknown document', async () => {
+    const response = await router.handle(new Request(`${BASE_URL}/unknown`, { method: 'DELETE' }));
+    expect(response.status).toBe(HTTP_STATUS.NOT_FOUND);
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Documents sub-router (knowledge base ingestion)
+ */
+
+import {
+  createRouter,
+  type ExpressRequest,
+  type ExpressResponse,
+  type Middleware,
+  type RequestValue,
+  type Router,
+} from '../../lib/types/router.types.ts';
+import { HTTP_STATUS } from '../../lib/constants/http.constants.ts';
+import type {
+  CreateDocumentInput,
+  DocumentSummary,
+  IndexedDocumentSummary,
+  StoredDocument,
+} from '../../lib/types/document.types.ts';
+import { validateBody } from '../../lib/middleware/validation.middleware.ts';
+import { parseContentType, type FormBody } from '../../lib/utils/body-parser.utils.ts';
+import {
+  chunkDocument,
+  defaultStrategyFor,
+  type ChunkingOptions,
+  type ChunkingStrategyName,
+  type TextChunk,
+} from '../../lib/rag/chunking.ts';
+import { getKnowledgeBase, type KnowledgeBase } from '../../lib/rag/knowledge-base.ts';
+import {
+  CHUNKING_STRATEGIES,
+  createDocumentSchema,
+  DOCUMENT_CONTENT_TYPES,
+  documentsContract,
+} from '../contracts/documents.contract.ts';
+
+const validateCreateDocument = validateBody(createDocumentSchema);
+
+/**
+ * Content type of an uploaded file, from its declared type or else its extension
+ */
+function uploadContentType(file: File): string | undefined {
+  if ((DOCUMENT_CONTENT_TYPES as readonly string[]).includes(file.type)) {
+    return file.type;
+  }
+  return /\.(md|markdown)$/i.test(file.name) ? 'text/markdown' : undefined;
+}
+
+/**
+ * Turn a multipart upload into the JSON document shape ahead of validation
+ * The file part becomes the content; title and contentType fields win over the file's name and type
+ */
+const readDocumentUpload: Middleware = async (req, _res, next) => {
+  const { mediaType } = parseContentType(req.headers.get('Content-Type'));
+  if (mediaType !== 'multipart/form-data' || req.body === null) {
+    return next();
+  }
+
+  const { file, tags, ...fields } = req.body as FormBody;
+  const body: Record<string, unknown> = { ...fields };
+  if (tags !== undefined) {
+    body['tags'] = Array.isArray(tags) ? tags : [tags];
+  }
+  // A single file part; repeated or plain text fields stay in place for validation to reject
+  if (file !== undefined && typeof file !== 'string' && !Array.isArray(file)) {
+    const contentType = uploadContentType(file);
+    body['content'] = await file.text();
+    body['title'] ??= file.name.replace(/\.[^.]+$/, '');
+    if (contentType !== undefined) {
+      body['contentType'] ??= contentType;
+    }
+  } else if (file !== undefined) {
+    body['file'] = file;
+  }
+
+  req.body = body;
+  return next();
+};
+
+/**
+ * Read chunking options from query parameters (strategy, chunkSize, chunkOverlap)
+ * Invalid values surface as RangeError from the chunking module
+ */
+function parseChunkingOptions(query: Record<string, RequestValue>): ChunkingOptions {
+  const options: ChunkingOptions = {};
+  const strategy = query['strategy']?.toString();
+
+  if (strategy !== undefined) {
+    if (!CHUNKING_STRATEGIES.includes(strategy as ChunkingStrategyName)) {
+      throw new RangeError(`Unknown chunking strategy: ${strategy}`);
+    }
+    options.strategy = strategy as ChunkingStrategyName;
+  }
+  if (query['chunkSize'] !== undefined) {
+    options.chunkSize = Number(query['chunkSize']);
+  }
+  if (query['chunkOverlap'] !== undefined) {
+    options.chunkOverlap = Number(query['chunkOverlap']);
+  }
+
+  return options;
+}
+
+/**
+ * Strip document content for listings
+ */
+function toSummary(document: StoredDocument): DocumentSummary {
+  const { content, ...metadata } = document;
+  return { ...metadata, characterCount: content.length };
+}
+
+/**
+ * Strip document content and attach its indexing state
+ */
+function toIndexedSummary(document: StoredDocument, chunkCount: number): IndexedDocumentSummary {
+  return {
+    ...toSummary(document),
+    chunkCount,
+    status: chunkCount > 0 ? 'indexed' : 'not_indexed',
+  };
+}
+
+/**
+ * Send a 404 for an unknown document ID
+ */
+function sendDocumentNotFound(res: ExpressResponse, id: string | undefined): void {
+  res.status(HTTP_STATUS.NOT_FOUND).fail({
+    code: 'DOCUMENT_NOT_FOUND',
+    message: `Document ${id ?? ''} not found`,
+  });
+}
+
+/**
+ * Create documents sub-router backed by the given knowledge base
+ */
+export function createDocumentsRouter(knowledgeBase: KnowledgeBase = getKnowledgeBase()): Router {
+  const router = createRouter();
+  const { repository } = knowledgeBase;
+
+  /**
+   * GET /documents - List documents (without content) with their chunk counts
+   */
+  router.get('/', documentsContract.listDocuments, async (_req: ExpressRequest, res: ExpressResponse): Promise<void> => {
+    const documents = await repository.list();
+    const chunkCounts = await knowledgeBase.chunkCounts();
+
+    res.status(HTTP_STATUS.OK).success({
+      documents: documents.map(document => toIndexedSummary(document, chunkCounts.get(document.id) ?? 0)),
+      total: documents.length,
+    });
+  });
+
+  /**
+   * GET /documents/:id - Get document with content
+   */
+  router.get('/:id', documentsContract.getDocument, async (req: ExpressRequest, res: ExpressResponse): Promise<void> => {
+    const documentId = req.params['id']?.toString();
+    const document = documentId !== undefined ? await repository.get(documentId) : null;
+
+    if (document === null) {
+      sendDocumentNotFound(res, documentId);
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).success(document);
+  });
+
+  /**
+   * GET /documents/:id/chunks - Preview how a document is split into chunks
+   */
+  router.get('/:id/chunks', documentsContract.getDocumentChunks, async (req: ExpressRequest, res: ExpressResponse): Promise<void> => {
+    const documentId = req.params['id']?.toString();
+    const document = documentId !== undefined ? await repository.get(documentId) : null;
+
+    if (document === null) {
+      sendDocumentNotFound(res, documentId);
+      return;
+    }
+
+    let options: ChunkingOptions;
+    let chunks: TextChunk[];
+    try {
+      options = parseChunkingOptions(req.query);
+      chunks = chunkDocument(document, options);
+    } catch (error) {
+      if (!(error instanceof RangeError)) {
+        throw error;
+      }
+      res.status(HTTP_STATUS.BAD_REQUEST).fail({
+        code: 'INVALID_CHUNKING_OPTIONS',
+        message: error.message,
+      });
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).success({
+      documentId: document.id,
+      strategy: options.strategy ?? defaultStrategyFor(document.contentType),
+      chunks,
+      total: chunks.length,
+    });
+  });
+
+  /**
+   * POST /documents - Ingest a text or markdown document, as JSON or as a multipart file upload
+   */
+  router.post('/', documentsContract.createDocument, readDocumentUpload, validateCreateDocument, async (req: ExpressRequest, res: ExpressResponse): Promise<void> => {
+    const { document, chunks } = await knowledgeBase.addDocument(req.body as CreateDocumentInput);
+
+    res.status(HTTP_STATUS.CREATED).success({
+      message: 'Document created successfully',
+      document: toIndexedSummary(document, chunks.length),
+      chunkCount: chunks.length,
+    });
+  });
+
+  /**
+   * POST /documents/reindex - Rebuild the whole index from stored documents
+   */
+  router.post('/reindex', documentsContract.reindexDocuments, async (_req: ExpressRequest, res: ExpressResponse): Promise<void> => {
+    const chunkCount = await knowledgeBase.reindex();
+    const documents = await repository.list();
+
+    res.status(HTTP_STATUS.OK).success({
+      message: 'Documents re-indexed successfully',
+      documentCount: documents.length,
+      chunkCount,
+    });
+  });
+
+  /**
+   * POST /documents/:id/reindex - Re-chunk and re-embed a single document
+   */
+  router.post('/:id/reindex', documentsContract.reindexDocument, async (req: ExpressRequest, res: ExpressResponse): Promise<void> => {
+    const documentId = req.params['id']?.toString();
+    const chunks = documentId !== undefined ? await knowledgeBase.reindexDocument(documentId) : null;
+    const document = documentId !== undefined ? await repository.get(documentId) : null;
+
+    if (chunks === null || document === null) {
+      sendDocumentNotFound(res, documentId);
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).success({
+      message: `Document ${document.id} re-indexed successfully`,
+      document: toIndexedSummary(document, chunks.length),
+      chunkCount: chunks.length,
+    });
+  });
+
+  /**
+   * DELETE /documents/:id - Delete document
+   */
+  router.delete('/:id', documentsContract.deleteDocument, async (req: ExpressRequest, res: ExpressResponse): Promise<void> => {
+    const documentId = req.params['id']?.toString();
+    const deleted = documentId !== undefined && (await knowledgeBase.removeDocument(documentId));
+
+    if (!deleted) {
+      sendDocumentNotFound(res, documentId);
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).success({
+      message: `Document ${documentId} deleted successfully`,
+    });
+  });
+
+  return router;
+}
+
+// Default documents sub-router (shared knowledge base configured from environment)
+export const documentsRouter = createDocumentsRouter();
@@ -3,7 +3,7 @@
  * Tests the router configuration and the fixed HTTP_STATUS.OK constant usage
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { router } from './index.ts';
 import { HTTP_STATUS } from '../../lib/constants/http.constants.ts';
 
@@ -36,10 +36,8 @@ describe('Main API Router', () => {
       expect(response.status).toBe(HTTP_STATUS.OK);
       expect(responseData.status).toBe('success');
       expect(responseData.message).toBe('API available at /api');
-      expect(responseData.endpoints).toBeDefined();
-      expect(responseData.endpoints.api).toBe('/api');
-      expect(responseData.endpoints.users).toBe('/api/users');
-      expect(responseData.endpoints.health).toBe('/api/health');
+      expect(responseData.docs).toBe('/api/docs');
+      expect(responseData.openapi).toBe('/api/openapi.json');
     });
 
     it('should return proper JSON response structure', async () => {
@@ -53,10 +51,8 @@ describe('Main API Router', () => {
       // Validate the complete response structure
       expect(responseData).toHaveProperty('status', 'success');
       expect(responseData).toHaveProperty('message');
-      expect(responseData).toHaveProperty('endpoints');
-      expect(responseData.endpoints).toHaveProperty('api');
-      expect(responseData.endpoints).toHaveProperty('users');
-      expect(responseData.endpoints).toHaveProperty('health');
+      expect(responseData).toHaveProperty('docs');
+      expect(responseData).toHaveProperty('openapi');
 
       // Verify no magic numbers are used (the fix)
       expect(response.status).toBe(HTTP_STATUS.OK);
@@ -112,6 +108,48 @@ describe('Main API Router', () => {
       expect(responseData.status).toBe('success');
       expect(responseData.payload).toHaveProperty('healthy', true);
     });
+
+    it('should validate /api/search and /api/ask bodies in the route chain', async () => {
+      for (const path of ['/api/search', '/api/ask', '/api/ask/stream']) {
+        const response = await router.handle(new Request(`http://localhost:3000${path}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ topK: 0 }),
+        }));
+
+        expect(response.status).toBe(HTTP_STATUS.BAD_REQUEST);
+        expect((await response.json()).error.code).toBe('VALIDATION_FAILED');
+      }
+    });
+  });
+
+  describe('API Documentation', () => {
+    it('should serve an OpenAPI 3.1 document generated from the registered routes', async () => {
+      const response = await router.handle(new Request('http://localhost:3000/api/openapi.json'));
+      const document = await response.json();
+
+      expect(response.status).toBe(HTTP_STATUS.OK);
+      expect(document.openapi).toBe('3.1.0');
+      expect(Object.keys(document.paths)).toEqual(expect.arrayContaining([
+        '/api/users', '/api/users/{id}', '/api/auth/login', '/api/documents/{id}/chunks', '/api/search', '/api/ask',
+      ]));
+      expect(document.paths['/api/users'].get.parameters.map((parameter: { name: string }) => parameter.name))
+        .toEqual(['page', 'limit', 'sort', 'q']);
+      expect(document.paths['/api/users'].post.requestBody.content['application/json'].schema.properties.email)
+        .toMatchObject({ type: 'string', format: 'email' });
+      expect(document.paths['/api'].options).toBeUndefined();
+    });
+
+    it('should render the HTML reference page', async () => {
+      const response = await router.handle(new Request('http://localhost:3000/api/docs'));
+      const html = await response.text();
+
+      expect(response.status).toBe(HTTP_STATUS.OK);
+      expect(response.headers.get('Content-Type')).toContain('text/html');
+      expect(html).toContain('<a href="/api/openapi.json">');
+      expect(html).toContain('/api/users/{id}');
+      expect(html).toContain('<h2>Users</h2>');
+    });
   });
 
   describe('HTTP Status Code Constants', () => {
@@ -163,9 +201,42 @@ describe('Main API Router', () => {
       const response = await router.handle(request);
       const responseData = await response.json();
 
-      expect(response.status).toBe(HTTP_STATUS.NOT_FOUND);
+      expect(response.status).toBe(HTTP_STATUS.METHOD_NOT_ALLOWED);
+      expect(response.headers.get('Allow')).toContain('GET');
       expect(responseData.status).toBe('error');
     });
+
+    it('should pass errors thrown by handlers to the error middleware', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      const request = new Request('http://localhost:3000/api', {
+        headers: { 'x-trigger-error': 'true' },
+      });
+
+      const response = await router.handle(request);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(HTTP_STATUS.INTERNAL_SERVER_ERROR);
+      expect(responseData.error).toEqual({ code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' });
+      expect(console.error).toHaveBeenCalledWith('Error:', expect.objectContaining({ requestId: responseData.metadata.requestId }));
+      vi.restoreAllMocks();
+    });
+
+    it('should format rejected request bodies with the error middleware', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      const request = new Request('http://localhost:3000/api/search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/xml' },
+        body: '<query/>',
+      });
+
+      const response = await router.handle(request);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(HTTP_STATUS.UNSUPPORTED_MEDIA_TYPE);
+      expect(responseData.error.code).toBe('UNSUPPORTED_MEDIA_TYPE');
+      expect(console.error).toHaveBeenCalledWith('Error:', expect.objectContaining({ requestId: responseData.metadata.requestId }));
+      vi.restoreAllMocks();
+    });
   });
 
   describe('CORS Headers', () => {
@@ -3,13 +3,29 @@
  */
 
 import { createRouter } from '../../lib/types/router.types.ts';
-import { getGreeting, healthCheck, optionsCors, postData } from './api.routes.ts';
+import {
+  askQuestion,
+  askQuestionStream,
+  getGreeting,
+  healthCheck,
+  optionsCors,
+  postData,
+  searchDocuments,
+  validateAsk,
+  validateSearch,
+} from './api.routes.ts';
+import { apiRoutesContract } from '../contracts/api.contract.ts';
 import { usersRouter } from './users.routes.ts';
+import { documentsRouter } from './documents.routes.ts';
+import { authRouter } from './auth.routes.ts';
+import { createDocsRouter } from './docs.routes.ts';
+import { generateOpenApiDocument } from '../../lib/utils/openapi.utils.ts';
 import { HTTP_STATUS } from '../../lib/constants/http.constants.ts';
 import {
   apiCors,
   createLogger,
-  apiRateLimiter
+  apiRateLimiter,
+  createErrorHandler
 } from '../../lib/middleware/index.ts';
 
 // ============================================================================
@@ -24,16 +40,38 @@ apiRouter.use(createLogger());
 apiRouter.use(apiRateLimiter);
 
 // API routes (root of apiRouter -> /api in main router)
-apiRouter.get('/', getGreeting);
-apiRouter.post('/', postData);
+apiRouter.get('/', apiRoutesContract.getGreeting, getGreeting);
+apiRouter.post('/', apiRoutesContract.postGreeting, postData);
 apiRouter.options('/', optionsCors);
 
 // Health check endpoint
-apiRouter.get('/health', healthCheck);
+apiRouter.get('/health', apiRoutesContract.healthCheck, healthCheck);
+
+// Semantic search over ingested documents
+apiRouter.post('/search', apiRoutesContract.searchDocuments, validateSearch, searchDocuments);
+
+// Retrieval-augmented answers with citations
+apiRouter.post('/ask', apiRoutesContract.askQuestion, validateAsk, askQuestion);
+apiRouter.post('/ask/stream', apiRoutesContract.askQuestionStream, validateAsk, askQuestionStream);
+
+// Mount auth sub-router under API (login, refresh, logout)
+apiRouter.use('/auth', authRouter);
 
 // Mount users sub-router under API
 apiRouter.use('/users', usersRouter);
 
+// Mount documents sub-router under API
+apiRouter.use('/documents', documentsRouter);
+
+// OpenAPI document and HTML reference, generated from the registered routes
+apiRouter.use('/', createDocsRouter(() =>
+  generateOpenApiDocument(router.getRoutes(), {
+    title: 'Knowledge Base API',
+    version: '1.0.0',
+    description: 'Document ingestion, semantic search and retrieval-augmented answers',
+  })
+));
+
 // ============================================================================
 // Create main router
 // ============================================================================
@@ -48,14 +86,14 @@ router.get('/', (req, res) => {
   res.status(HTTP_STATUS.OK).json({
     status: 'success',
     message: 'API available at /api',
-    endpoints: {
-      api: '/api',
-      users: '/api/users',
-      health: '/api/health'
-    }
+    docs: '/api/docs',
+    openapi: '/api/openapi.json'
   });
 });
 
+// Errors thrown by any route (AppErrors keep their status and code); dev/prod per NODE_ENV
+router.use(createErrorHandler());
+
 // ============================================================================
 // Export configured router
 // ============================================================================
@@ -0,0 +1,171 @@
+/**
+ * Unit tests for the users sub-router
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createUsersRouter } from './users.routes.ts';
+import { createRouter, type Router } from '../../lib/types/router.types.ts';
+import { InMemoryUserRepository } from '../../lib/repositories/user.repository.ts';
+import { HTTP_STATUS } from '../../lib/constants/http.constants.ts';
+import { JwtVerifier, signJwt } from '../../lib/auth/jwt.ts';
+
+const BASE_URL = 'http://localhost:3000/api/users';
+const SECRET = 'test-secret-with-enough-entropy';
+const TOKEN_LIFETIME_SECONDS = 3600;
+const MS_PER_SECOND = 1000;
+
+const signToken = (role: string): Promise<string> => {
+  const now = Math.floor(Date.now() / MS_PER_SECOND);
+  return signJwt(
+    { userId: `${role}-1`, email: `${role}@example.com`, role, iat: now, exp: now + TOKEN_LIFETIME_SECONDS },
+    { algorithm: 'HS256', secret: SECRET }
+  );
+};
+
+describe('Users Router', () => {
+  let router: Router;
+  let adminToken: string;
+
+  beforeEach(async () => {
+    router = createRouter();
+    router.use('/api/users', createUsersRouter(new InMemoryUserRepository(), new JwtVerifier({ secrets: [SECRET] })));
+    adminToken = await signToken('admin');
+  });
+
+  // Sends as an admin unless another token (or null for none) is given
+  const send = async (method: string, path: string, body?: unknown, token: string | null = adminToken): Promise<Response> =>
+    router.handle(
+      new Request(`${BASE_URL}${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token !== null ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+      })
+    );
+
+  it('should make created users visible on subsequent GETs', async () => {
+    const created = await send('POST', '', { name: 'Ada Lovelace', email: 'ada@example.com' });
+    const createdData = await created.json();
+    expect(created.status).toBe(HTTP_STATUS.CREATED);
+    const id = createdData.payload.user.id;
+
+    const list = await (await send('GET', '')).json();
+    expect(list.payload.total).toBe(1);
+    expect(list.payload.users[0]).toMatchObject({ id, name: 'Ada Lovelace', email: 'ada@example.com' });
+
+    const single = await (await send('GET', `/${id}`)).json();
+    expect(single.payload.name).toBe('Ada Lovelace');
+  });
+
+  it('should return 404 for unknown users', async () => {
+    for (const [method, body] of [['GET', undefined], ['PUT', { name: 'Nobody' }], ['DELETE', undefined]] as const) {
+      const response = await send(method, '/missing', body);
+      const data = await response.json();
+
+      expect(response.status).toBe(HTTP_STATUS.NOT_FOUND);
+      expect(data.error.code).toBe('NOT_FOUND');
+    }
+  });
+
+  it('should return 409 for duplicate emails', async () => {
+    await send('POST', '', { name: 'Ada', email: 'ada@example.com' });
+    const grace = (await (await send('POST', '', { name: 'Grace', email: 'grace@example.com' })).json()).payload.user;
+
+    const duplicate = await send('POST', '', { name: 'Ada again', email: 'ADA@example.com' });
+    expect(duplicate.status).toBe(HTTP_STATUS.CONFLICT);
+    expect((await duplicate.json()).error.code).toBe('CONFLICT');
+
+    const stolen = await send('PUT', `/${grace.id}`, { email: 'ada@example.com' });
+    expect(stolen.status).toBe(HTTP_STATUS.CONFLICT);
+  });
+
+  it('should update and delete users', async () => {
+    const user = (await (await send('POST', '', { name: 'Grace', email: 'grace@example.com' })).json()).payload.user;
+
+    const updated = await (await send('PUT', `/${user.id}`, { name: 'Grace Hopper' })).json();
+    expect(updated.payload.user).toMatchObject({ id: user.id, name: 'Grace Hopper', email: 'grace@example.com' });
+
+    const deleted = await send('DELETE', `/${user.id}`);
+    expect(deleted.status).toBe(HTTP_STATUS.OK);
+    expect((await send('GET', `/${user.id}`)).status).toBe(HTTP_STATUS.NOT_FOUND);
+  });
+
+  it('should require an admin token to change users', async () => {
+    const userToken = await signToken('user');
+    const mutations = [['POST', '', { name: 'Ada', email: 'ada@example.com' }], ['PUT', '/any', { name: 'Ada' }], ['DELETE', '/any', undefined]] as const;
+
+    for (const [method, path, body] of mutations) {
+      const anonymous = await send(method, path, body, null);
+      expect(anonymous.status).toBe(HTTP_STATUS.UNAUTHORIZED);
+
+      const forbidden = await send(method, path, body, userToken);
+      expect(forbidden.status).toBe(HTTP_STATUS.FORBIDDEN);
+      expect((await forbidden.json()).error.code).toBe('AUTH_INSUFFICIENT_ROLE');
+    }
+
+    expect((await (await send('GET', '', undefined, null)).json()).payload.total).toBe(0);
+  });
+
+  it('should check the token before validating the body', async () => {
+    const response = await send('POST', '', { name: '' }, null);
+
+    expect(response.status).toBe(HTTP_STATUS.UNAUTHORIZED);
+  });
+
+  it('should validate request bodies', async () => {
+    const response = await send('POST', '', { name: '', email: 'not-an-email' });
+    const data = await response.json();
+
+    expect(response.status).toBe(HTTP_STATUS.BAD_REQUEST);
+    expect(data.error.code).toBe('VALIDATION_FAILED');
+  });
+
+  describe('listing', () => {
+    beforeEach(async () => {
+      for (const [name, email] of [
+        ['Grace Hopper', 'grace@navy.mil'],
+        ['Ada Lovelace', 'ada@example.com'],
+        ['Alan Turing', 'alan@example.com'],
+        ['Barbara Liskov', 'barbara@mit.edu'],
+        ['Edsger Dijkstra', 'edsger@example.com'],
+      ]) {
+        await send('POST', '', { name, email });
+      }
+    });
+
+    it('should paginate with totals and Link headers', async () => {
+      const response = await send('GET', '?page=2&limit=2&sort=name');
+      const data = await response.json();
+
+      expect(data.payload).toMatchObject({ total: 5, page: 2, limit: 2, pageCount: 3 });
+      expect(data.payload.users.map((user: { name: string }) => user.name)).toEqual(['Barbara Liskov', 'Edsger Dijkstra']);
+
+      const link = response.headers.get('Link');
+      expect(link).toContain(`<${BASE_URL}?page=1&limit=2&sort=name>; rel="first"`);
+      expect(link).toContain(`<${BASE_URL}?page=1&limit=2&sort=name>; rel="prev"`);
+      expect(link).toContain(`<${BASE_URL}?page=3&limit=2&sort=name>; rel="next"`);
+      expect(link).toContain(`<${BASE_URL}?page=3&limit=2&sort=name>; rel="last"`);
+    });
+
+    it('should search names and emails and sort descending', async () => {
+      const data = await (await send('GET', '?q=EXAMPLE&sort=-email')).json();
+
+      expect(data.payload).toMatchObject({ total: 3, page: 1, pageCount: 1 });
+      expect(data.payload.users.map((user: { email: string }) => user.email)).toEqual([
+        'edsger@example.com',
+        'alan@example.com',
+        'ada@example.com',
+      ]);
+    });
+
+    it('should reject invalid list queries', async () => {
+      for (const query of ['?page=0', '?limit=500', '?page=abc', '?sort=password']) {
+        const response = await send('GET', query);
+        expect(response.status).toBe(HTTP_STATUS.BAD_REQUEST);
+        expect((await response.json()).error.code).toBe('QUERY_VALIDATION_FAILED');
+      }
+    });
+  });
+});
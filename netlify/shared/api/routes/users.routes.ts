@@ -2,102 +2,187 @@
  * Users sub-router (Express-like cascading router)
  */
 
-import { createRouter, type ExpressRequest, type ExpressResponse } from '../../lib/types/router.types.ts';
+import {
+  createRouter,
+  type ExpressRequest,
+  type ExpressResponse,
+  type Middleware,
+  type Router,
+} from '../../lib/types/router.types.ts';
 import { HTTP_STATUS } from '../../lib/constants/http.constants.ts';
+import type { CreateUserInput, UpdateUserInput, User } from '../../lib/types/user.types.ts';
+import { ConflictError, NotFoundError } from '../../lib/middleware/error.middleware.ts';
+import { validateBody, validateQuery } from '../../lib/middleware/validation.middleware.ts';
+import { authenticate, requireAdmin } from '../../lib/middleware/auth.middleware.ts';
+import type { JwtVerifier } from '../../lib/auth/jwt.ts';
+import type { FromSchema } from '../../lib/types/json-schema.types.ts';
+import { createUserRepository, type UserRepository } from '../../lib/repositories/user.repository.ts';
+import { buildLinkHeader, DEFAULT_PAGE_SIZE, paginate } from '../../lib/utils/pagination.utils.ts';
+import {
+  createUserSchema,
+  listUsersQuerySchema,
+  updateUserSchema,
+  usersContract,
+} from '../contracts/users.contract.ts';
 
-// Create users sub-router
-export const usersRouter = createRouter();
+const validateCreateUser = validateBody(createUserSchema);
+const validateUpdateUser = validateBody(updateUserSchema);
+const validateListQuery = validateQuery(listUsersQuerySchema);
+
+type UserSortField = 'name' | 'email' | 'createdAt';
+
+// GET /users query after validation
+type ListUsersQuery = FromSchema<typeof listUsersQuerySchema>;
 
 /**
- * GET /users - List all users
+ * Case-insensitive substring match on name or email
  */
-usersRouter.get('/', (_req: ExpressRequest, res: ExpressResponse): void => {
-  res.status(HTTP_STATUS.OK).json({
-    status: 'success',
-    payload: {
-      users: [
-        { id: '1', name: 'John Doe', email: 'john@example.com' },
-        { id: '2', name: 'Jane Smith', email: 'jane@example.com' },
-        { id: '3', name: 'Bob Wilson', email: 'bob@example.com' },
-      ],
-    },
-    metadata: {
-      timestamp: new Date().toISOString(),
-      version: '1.0.0',
-    },
-  });
-});
+function matchesSearch(user: User, q: string): boolean {
+  const needle = q.toLowerCase();
+  return user.name.toLowerCase().includes(needle) || user.email.toLowerCase().includes(needle);
+}
 
 /**
- * GET /users/:id - Get user by ID
+ * Sort by the requested field; the repository order (oldest first) breaks ties
  */
-usersRouter.get('/:id', (req: ExpressRequest, res: ExpressResponse): void => {
-  const userId = req.params['id'];
-
-  res.status(HTTP_STATUS.OK).json({
-    status: 'success',
-    payload: {
-      id: userId,
-      name: `User ${userId}`,
-      email: `user${userId}@example.com`,
-    },
-    metadata: {
-      timestamp: new Date().toISOString(),
-      version: '1.0.0',
-    },
-  });
-});
+function sortUsers(users: User[], sort: NonNullable<ListUsersQuery['sort']>): User[] {
+  const descending = sort.startsWith('-');
+  const field = (descending ? sort.slice(1) : sort) as UserSortField;
+  const direction = descending ? -1 : 1;
+
+  return [...users].sort((a, b) => direction * a[field].localeCompare(b[field], undefined, { sensitivity: 'base' }));
+}
 
 /**
- * POST /users - Create new user
+ * Send a 404 or 409 raised by the repository, rethrowing anything else
  */
-usersRouter.post('/', (req: ExpressRequest, res: ExpressResponse): void => {
-  res.status(HTTP_STATUS.CREATED).json({
-    status: 'success',
-    payload: {
-      message: 'User created successfully',
-      user: req.body,
-    },
-    metadata: {
-      timestamp: new Date().toISOString(),
-      version: '1.0.0',
-    },
+function sendUserError(res: ExpressResponse, error: unknown): void {
+  if (!(error instanceof NotFoundError) && !(error instanceof ConflictError)) {
+    throw error;
+  }
+
+  res.status(error.statusCode).fail({
+    code: error.code,
+    message: error.message,
   });
-});
+}
 
 /**
- * PUT /users/:id - Update user
+ * Create users sub-router backed by the given repository
+ * Creating, updating and deleting users requires an admin access token, checked with the
+ * given verifier or the shared one configured from the environment
  */
-usersRouter.put('/:id', (req: ExpressRequest, res: ExpressResponse): void => {
-  const userId = req.params['id'];
-
-  res.status(HTTP_STATUS.OK).json({
-    status: 'success',
-    payload: {
-      message: `User ${userId} updated successfully`,
-      user: { id: userId, ...req.body as object },
-    },
-    metadata: {
-      timestamp: new Date().toISOString(),
-      version: '1.0.0',
-    },
+export function createUsersRouter(
+  repository: UserRepository = createUserRepository(),
+  verifier?: JwtVerifier
+): Router {
+  const router = createRouter();
+  const requireAdminUser: [Middleware, Middleware] = [authenticate(true, verifier), requireAdmin()];
+
+  /**
+   * GET /users - List users, paginated
+   * Query: page, limit, sort (name|-name|email|-email|createdAt|-createdAt), q (name/email search)
+   */
+  router.get('/', usersContract.listUsers, validateListQuery, async (req: ExpressRequest, res: ExpressResponse): Promise<void> => {
+    const { page = 1, limit = DEFAULT_PAGE_SIZE, sort, q } = req.query as ListUsersQuery;
+    const search = q?.trim() ?? '';
+
+    let users = await repository.list();
+    if (search !== '') {
+      users = users.filter(user => matchesSearch(user, search));
+    }
+    if (sort !== undefined) {
+      users = sortUsers(users, sort);
+    }
+
+    const result = paginate(users, { page, limit });
+    const link = buildLinkHeader(req.url, result);
+    if (link !== null) {
+      res.setHeader('Link', link);
+      res.setHeader('Access-Control-Expose-Headers', 'Link');
+    }
+
+    res.status(HTTP_STATUS.OK).success({
+      users: result.items,
+      total: result.total,
+      page: result.page,
+      limit: result.limit,
+      pageCount: result.pageCount,
+    });
   });
-});
 
-/**
- * DELETE /users/:id - Delete user
- */
-usersRouter.delete('/:id', (req: ExpressRequest, res: ExpressResponse): void => {
-  const userId = req.params['id'];
-
-  res.status(HTTP_STATUS.OK).json({
-    status: 'success',
-    payload: {
-      message: `User ${userId} deleted successfully`,
-    },
-    metadata: {
-      timestamp: new Date().toISOString(),
-      version: '1.0.0',
-    },
+  /**
+   * GET /users/:id - Get user by ID
+   */
+  router.get('/:id', usersContract.getUser, async (req: ExpressRequest, res: ExpressResponse): Promise<void> => {
+    const userId = req.params['id']?.toString() ?? '';
+
+    try {
+      const user = await repository.get(userId);
+      if (user === null) {
+        throw new NotFoundError(`User ${userId} not found`);
+      }
+
+      res.status(HTTP_STATUS.OK).success(user);
+    } catch (error) {
+      sendUserError(res, error);
+    }
   });
-});
+
+  /**
+   * POST /users - Create new user (admin only)
+   */
+  router.post('/', usersContract.createUser, ...requireAdminUser, validateCreateUser, async (req: ExpressRequest, res: ExpressResponse): Promise<void> => {
+    try {
+      const user = await repository.create(req.body as CreateUserInput);
+
+      res.status(HTTP_STATUS.CREATED).success({
+        message: 'User created successfully',
+        user,
+      });
+    } catch (error) {
+      sendUserError(res, error);
+    }
+  });
+
+  /**
+   * PUT /users/:id - Update user (admin only)
+   */
+  router.put('/:id', usersContract.updateUser, ...requireAdminUser, validateUpdateUser, async (req: ExpressRequest, res: ExpressResponse): Promise<void> => {
+    const userId = req.params['id']?.toString() ?? '';
+    const { name, email } = req.body as UpdateUserInput;
+
+    try {
+      const user = await repository.update(userId, { name, email });
+
+      res.status(HTTP_STATUS.OK).success({
+        message: `User ${userId} updated successfully`,
+        user,
+      });
+    } catch (error) {
+      sendUserError(res, error);
+    }
+  });
+
+  /**
+   * DELETE /users/:id - Delete user (admin only)
+   */
+  router.delete('/:id', usersContract.deleteUser, ...requireAdminUser, async (req: ExpressRequest, res: ExpressResponse): Promise<void> => {
+    const userId = req.params['id']?.toString() ?? '';
+
+    try {
+      await repository.delete(userId);
+
+      res.status(HTTP_STATUS.OK).success({
+        message: `User ${userId} deleted successfully`,
+      });
+    } catch (error) {
+      sendUserError(res, error);
+    }
+  });
+
+  return router;
+}
+
+// Default users sub-router (repository configured from environment)
+export const usersRouter = createUsersRouter();
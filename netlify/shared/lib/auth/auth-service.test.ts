@@ -0,0 +1,240 @@
+/**
+ * Auth Service Tests
+ * Covers password hashing, token rotation, reuse detection and revocation
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AuthService, AuthServiceError, authConfigFromEnv } from './auth-service';
+import { InMemoryCredentialStore, JsonFileCredentialStore, type AuthAccount } from './credential-store';
+import { decodeJwt, JwtVerifier, signJwt } from './jwt';
+import { hashPassword, verifyPassword } from './password';
+import { InMemoryRevocationList, JsonFileRevocationList } from './revocation-list';
+import { authenticate } from '../middleware/auth.middleware';
+import type { ExpressRequest, ExpressResponse } from '../types/router.types';
+
+const SECRET = 'auth-service-test-secret';
+// Low iteration count keeps the tests fast; production hashes use PASSWORD_HASH_ITERATIONS
+const TEST_ITERATIONS = 1000;
+
+const nowSeconds = (): number => Math.floor(Date.now() / 1000);
+
+const errorCode = async (promise: Promise<unknown>): Promise<string | null> => {
+  try {
+    await promise;
+    return null;
+  } catch (error) {
+    return error instanceof AuthServiceError ? error.code : String(error);
+  }
+};
+
+describe('Password hashing', () => {
+  it('should salt hashes and verify only the right password', async () => {
+    const first = await hashPassword('correct horse', { iterations: TEST_ITERATIONS });
+    const second = await hashPassword('correct horse', { iterations: TEST_ITERATIONS });
+
+    expect(first).toMatch(/^pbkdf2-sha256\$1000\$[\w-]+\$[\w-]+$/);
+    expect(first).not.toBe(second);
+    expect(await verifyPassword('correct horse', first)).toBe(true);
+    expect(await verifyPassword('wrong horse', first)).toBe(false);
+  });
+
+  it('should reject malformed hashes', async () => {
+    expect(await verifyPassword('secret', 'secret')).toBe(false);
+    expect(await verifyPassword('secret', 'pbkdf2-sha256$abc$salt$hash')).toBe(false);
+    expect(await verifyPassword('secret', 'pbkdf2-sha256$1000$not base64$hash')).toBe(false);
+  });
+});
+
+describe('Auth Service', () => {
+  let account: AuthAccount;
+  let revocations: InMemoryRevocationList;
+  let verifier: JwtVerifier;
+  let service: AuthService;
+
+  beforeAll(async () => {
+    account = {
+      id: 'user-1',
+      email: 'Ada@Example.com',
+      name: 'Ada Lovelace',
+      role: 'admin',
+      passwordHash: await hashPassword('analytical-engine', { iterations: TEST_ITERATIONS }),
+    };
+  });
+
+  beforeEach(() => {
+    revocations = new InMemoryRevocationList();
+    verifier = new JwtVerifier({ secrets: [SECRET], revocations });
+    service = new AuthService({
+      credentials: new InMemoryCredentialStore([account]),
+      signingKey: { algorithm: 'HS256', secret: SECRET },
+      verifier,
+      revocations,
+      issuer: 'rag-app',
+    });
+  });
+
+  describe('login', () => {
+    it('should issue short-lived access and refresh tokens for valid credentials', async () => {
+      const session = await service.login(' ada@example.com ', 'analytical-engine');
+
+      expect(session.user).toEqual({ id: 'user-1', email: 'Ada@Example.com', name: 'Ada Lovelace', role: 'admin' });
+      expect(session.tokenType).toBe('Bearer');
+      expect(session).not.toHaveProperty('user.passwordHash');
+
+      const access = await verifier.verify(session.accessToken);
+      expect(access).toMatchObject({ sub: 'user-1', userId: 'user-1', role: 'admin', type: 'access', iss: 'rag-app' });
+      expect(access.exp).toBe((access.iat ?? 0) + session.expiresIn);
+
+      const refresh = await verifier.verify(session.refreshToken);
+      expect(refresh).toMatchObject({ sub: 'user-1', type: 'refresh', fam: access['fam'] });
+      expect(refresh).not.toHaveProperty('email');
+    });
+
+    it('should reject unknown emails and wrong passwords alike', async () => {
+      expect(await errorCode(service.login('nobody@example.com', 'analytical-engine'))).toBe('AUTH_INVALID_CREDENTIALS');
+      expect(await errorCode(service.login('ada@example.com', 'difference-engine'))).toBe('AUTH_INVALID_CREDENTIALS');
+    });
+
+    it('should refuse to issue tokens without a signing key', async () => {
+      const unconfigured = new AuthService({
+        credentials: new InMemoryCredentialStore([account]),
+        signingKey: null,
+        verifier,
+        revocations,
+      });
+
+      expect(await errorCode(unconfigured.login('ada@example.com', 'analytical-engine'))).toBe('AUTH_NOT_CONFIGURED');
+    });
+  });
+
+  describe('refresh', () => {
+    it('should rotate the refresh token within the same family', async () => {
+      const session = await service.login('ada@example.com', 'analytical-engine');
+      const rotated = await service.refresh(session.refreshToken);
+
+      expect(rotated.refreshToken).not.toBe(session.refreshToken);
+      expect(decodeJwt(rotated.refreshToken).claims['fam']).toBe(decodeJwt(session.refreshToken).claims['fam']);
+      expect(await errorCode(service.refresh(rotated.refreshToken))).toBeNull();
+    });
+
+    it('should revoke the whole family when a rotated token is reused', async () => {
+      const session = await service.login('ada@example.com', 'analytical-engine');
+      const rotated = await service.refresh(session.refreshToken);
+
+      expect(await errorCode(service.refresh(session.refreshToken))).toBe('AUTH_REFRESH_INVALID');
+      expect(await errorCode(service.refresh(rotated.refreshToken))).toBe('AUTH_REFRESH_INVALID');
+      expect(await errorCode(verifier.verify(rotated.accessToken))).toContain('Token has been revoked');
+    });
+
+    it('should not accept access tokens or tokens signed with another key', async () => {
+      const session = await service.login('ada@example.com', 'analytical-engine');
+      const foreign = await signJwt(
+        { sub: 'user-1', jti: 'x', fam: 'y', type: 'refresh', exp: nowSeconds() + 60 },
+        { algorithm: 'HS256', secret: 'someone-else' }
+      );
+
+      expect(await errorCode(service.refresh(session.accessToken))).toBe('AUTH_REFRESH_INVALID');
+      expect(await errorCode(service.refresh(foreign))).toBe('AUTH_REFRESH_INVALID');
+    });
+
+    it('should reject malformed refresh tokens as invalid', async () => {
+      const [header, payload] = (await service.login('ada@example.com', 'analytical-engine')).refreshToken.split('.');
+
+      expect(await errorCode(service.refresh(`${header}.${payload}.x`))).toBe('AUTH_REFRESH_INVALID');
+      expect(await errorCode(service.refresh('not-a-token'))).toBe('AUTH_REFRESH_INVALID');
+    });
+  });
+
+  describe('logout', () => {
+    it('should revoke the access token and the refresh token family', async () => {
+      const session = await service.login('ada@example.com', 'analytical-engine');
+      await service.logout({ accessToken: session.accessToken, refreshToken: session.refreshToken });
+
+      expect(await errorCode(verifier.verify(session.accessToken))).toContain('Token has been revoked');
+      expect(await errorCode(service.refresh(session.refreshToken))).toBe('AUTH_REFRESH_INVALID');
+    });
+
+    it('should make authenticate() reject a logged out access token', async () => {
+      const session = await service.login('ada@example.com', 'analytical-engine');
+      const middleware = authenticate(true, verifier);
+      const request = (): ExpressRequest =>
+        ({ headers: new Headers({ Authorization: `Bearer ${session.accessToken}` }) }) as unknown as ExpressRequest;
+      const statusCodes: number[] = [];
+      const response = {
+        status: (code: number) => {
+          statusCodes.push(code);
+          return response;
+        },
+        fail: () => undefined,
+      } as unknown as ExpressResponse;
+
+      let passed = false;
+      await middleware(request(), response, () => {
+        passed = true;
+      });
+      expect(passed).toBe(true);
+
+      await service.logout({ accessToken: session.accessToken });
+      passed = false;
+      await middleware(request(), response, () => {
+        passed = true;
+      });
+      expect(passed).toBe(false);
+      expect(statusCodes).toEqual([401]);
+    });
+
+    it('should ignore invalid tokens', async () => {
+      await expect(service.logout({ accessToken: 'not.a.token', refreshToken: null })).resolves.toBeUndefined();
+      await expect(service.logout({ accessToken: null, refreshToken: 'e30.e30.x' })).resolves.toBeUndefined();
+    });
+  });
+});
+
+describe('File-backed stores', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'auth-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should persist revocations and report repeated revocations', async () => {
+    const filePath = join(tempDir, 'revocations.json');
+    const list = new JsonFileRevocationList(filePath);
+
+    expect(await list.revoke('token-1', nowSeconds() + 60)).toBe(true);
+    expect(await list.revoke('token-1', nowSeconds() + 60)).toBe(false);
+    expect(await list.revoke('expired', nowSeconds() - 60)).toBe(true);
+
+    const reloaded = new JsonFileRevocationList(filePath);
+    expect(await reloaded.isRevoked('token-1')).toBe(true);
+    expect(await reloaded.isRevoked('expired')).toBe(false);
+    expect(JSON.parse(await readFile(filePath, 'utf8')).revoked).toHaveProperty('token-1');
+  });
+
+  it('should read accounts from a JSON file', async () => {
+    const filePath = join(tempDir, 'users.json');
+    const passwordHash = await hashPassword('secret', { iterations: TEST_ITERATIONS });
+    await writeFile(filePath, JSON.stringify({
+      users: [{ id: 'user-2', email: 'grace@example.com', name: 'Grace Hopper', role: 'user', passwordHash }],
+    }));
+
+    const store = new JsonFileCredentialStore(filePath);
+    expect((await store.findByEmail('GRACE@example.com'))?.id).toBe('user-2');
+    expect((await store.findById('user-2'))?.name).toBe('Grace Hopper');
+    expect(await new JsonFileCredentialStore(join(tempDir, 'missing.json')).findByEmail('grace@example.com')).toBeNull();
+  });
+
+  it('should read signing settings from the environment', () => {
+    expect(authConfigFromEnv({})).toEqual({ signingKey: null });
+    expect(
+      authConfigFromEnv({ JWT_SECRET: 'current,previous', ACCESS_TOKEN_TTL: '300', REFRESH_TOKEN_TTL: 'soon', JWT_ISSUER: 'rag-app' })
+    ).toEqual({ signingKey: { algorithm: 'HS256', secret: 'current' }, accessTokenTtlSeconds: 300, issuer: 'rag-app' });
+  });
+});
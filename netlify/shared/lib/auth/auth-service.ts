@@ -0,0 +1,304 @@
+/**
+ * Auth Service
+ * Password login, rotating refresh tokens and logout on top of the JWT helpers
+ */
+
+import { randomUUID } from 'node:crypto';
+import { HTTP_STATUS, type HttpStatusCode } from '../constants/http.constants.ts';
+import { AuthenticationError, type AppError } from '../middleware/error.middleware.ts';
+import {
+  decodeJwt,
+  getJwtVerifier,
+  JwtVerificationError,
+  signJwt,
+  type JwtClaims,
+  type JwtSigningKey,
+  type JwtVerifier,
+} from './jwt.ts';
+import { hashPassword, verifyPassword } from './password.ts';
+import { getRevocationList, type RevocationList } from './revocation-list.ts';
+import { createCredentialStore, type AuthAccount, type CredentialStore } from './credential-store.ts';
+
+// 15 minutes and 7 days
+export const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 900;
+export const DEFAULT_REFRESH_TOKEN_TTL_SECONDS = 604_800;
+const MILLISECONDS_PER_SECOND = 1000;
+
+// Account details returned to clients (no password hash)
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  // Lifetimes in seconds
+  expiresIn: number;
+  refreshExpiresIn: number;
+}
+
+export interface AuthSession extends AuthTokens {
+  user: AuthUser;
+}
+
+export interface AuthServiceOptions {
+  credentials: CredentialStore;
+  // null leaves the service unable to issue tokens (login/refresh answer 503)
+  signingKey: JwtSigningKey | null;
+  // Must accept tokens signed with signingKey and check the same revocation list
+  verifier: JwtVerifier;
+  revocations: RevocationList;
+  accessTokenTtlSeconds?: number;
+  refreshTokenTtlSeconds?: number;
+  issuer?: string;
+  audience?: string;
+}
+
+/**
+ * Login, refresh or configuration failure with a client-facing error code
+ */
+export class AuthServiceError extends Error implements AppError {
+  statusCode: HttpStatusCode;
+  code: string;
+  isOperational = true;
+
+  constructor(code: string, message: string, statusCode: HttpStatusCode = HTTP_STATUS.UNAUTHORIZED) {
+    super(message);
+    this.name = 'AuthServiceError';
+    this.code = code;
+    this.statusCode = statusCode;
+  }
+}
+
+// Every token of one login shares a family id; refreshing rotates tokens within the family
+interface SessionClaims extends JwtClaims {
+  sub: string;
+  jti: string;
+  fam: string;
+  exp: number;
+  type: 'access' | 'refresh';
+}
+
+const nowSeconds = (): number => Math.floor(Date.now() / MILLISECONDS_PER_SECOND);
+
+const toAuthUser = ({ id, email, name, role }: AuthAccount): AuthUser => ({ id, email, name, role });
+
+function isSessionClaims(claims: JwtClaims, type: SessionClaims['type']): claims is SessionClaims {
+  return (
+    claims['type'] === type &&
+    typeof claims.sub === 'string' &&
+    typeof claims.jti === 'string' &&
+    typeof claims['fam'] === 'string' &&
+    typeof claims.exp === 'number'
+  );
+}
+
+const invalidCredentials = (): AuthServiceError =>
+  new AuthServiceError('AUTH_INVALID_CREDENTIALS', 'Invalid email or password');
+
+const invalidRefreshToken = (): AuthServiceError =>
+  new AuthServiceError('AUTH_REFRESH_INVALID', 'Invalid or expired refresh token');
+
+export class AuthService {
+  private readonly options: AuthServiceOptions;
+  private readonly accessTokenTtl: number;
+  private readonly refreshTokenTtl: number;
+  // Compared against when the email is unknown, so both cases take the same time
+  private dummyHash: Promise<string> | null = null;
+
+  constructor(options: AuthServiceOptions) {
+    this.options = options;
+    this.accessTokenTtl = options.accessTokenTtlSeconds ?? DEFAULT_ACCESS_TOKEN_TTL_SECONDS;
+    this.refreshTokenTtl = options.refreshTokenTtlSeconds ?? DEFAULT_REFRESH_TOKEN_TTL_SECONDS;
+  }
+
+  /**
+   * Check email and password and start a new session (token family)
+   */
+  async login(email: string, password: string): Promise<AuthSession> {
+    const account = await this.options.credentials.findByEmail(email);
+
+    if (account === null) {
+      this.dummyHash ??= hashPassword(randomUUID());
+      await verifyPassword(password, await this.dummyHash);
+      throw invalidCredentials();
+    }
+    if (!(await verifyPassword(password, account.passwordHash))) {
+      throw invalidCredentials();
+    }
+
+    return this.issueSession(account, randomUUID());
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair; the presented token is revoked
+   * Presenting an already rotated token revokes the whole family, ending the session
+   */
+  async refresh(refreshToken: string): Promise<AuthSession> {
+    let claims: JwtClaims;
+    try {
+      claims = await this.options.verifier.verify(refreshToken);
+    } catch (error) {
+      if (error instanceof JwtVerificationError && error.reason === 'TOKEN_REVOKED') {
+        const family = decodeJwt(refreshToken).claims['fam'];
+        if (typeof family === 'string') {
+          await this.revokeFamily(family);
+        }
+      }
+      // Covers every JwtVerificationError, malformed tokens included
+      if (error instanceof AuthenticationError) {
+        throw invalidRefreshToken();
+      }
+      throw error;
+    }
+
+    if (!isSessionClaims(claims, 'refresh')) {
+      throw invalidRefreshToken();
+    }
+    // A concurrent refresh with the same token already rotated it
+    if (!(await this.options.revocations.revoke(claims.jti, claims.exp))) {
+      await this.revokeFamily(claims.fam);
+      throw invalidRefreshToken();
+    }
+
+    const account = await this.options.credentials.findById(claims.sub);
+    if (account === null) {
+      await this.revokeFamily(claims.fam);
+      throw invalidRefreshToken();
+    }
+
+    return this.issueSession(account, claims.fam);
+  }
+
+  /**
+   * End the session of the given tokens; invalid or already revoked tokens are ignored
+   */
+  async logout(tokens: { accessToken?: string | null; refreshToken?: string | null }): Promise<void> {
+    for (const token of [tokens.accessToken, tokens.refreshToken]) {
+      if (token === undefined || token === null || token === '') {
+        continue;
+      }
+
+      let claims: JwtClaims;
+      try {
+        claims = await this.options.verifier.verify(token);
+      } catch (error) {
+        if (error instanceof AuthenticationError) {
+          continue;
+        }
+        throw error;
+      }
+
+      if (typeof claims.jti === 'string' && typeof claims.exp === 'number') {
+        await this.options.revocations.revoke(claims.jti, claims.exp);
+      }
+      if (typeof claims['fam'] === 'string') {
+        await this.revokeFamily(claims['fam']);
+      }
+    }
+  }
+
+  /**
+   * Revoke every token of a family - no token issued so far outlives one refresh TTL
+   */
+  private async revokeFamily(family: string): Promise<void> {
+    await this.options.revocations.revoke(family, nowSeconds() + this.refreshTokenTtl);
+  }
+
+  private async issueSession(account: AuthAccount, family: string): Promise<AuthSession> {
+    const { signingKey, issuer, audience } = this.options;
+    if (signingKey === null) {
+      throw new AuthServiceError(
+        'AUTH_NOT_CONFIGURED',
+        'Token signing is not configured',
+        HTTP_STATUS.SERVICE_UNAVAILABLE
+      );
+    }
+
+    const iat = nowSeconds();
+    const registered = {
+      sub: account.id,
+      iat,
+      fam: family,
+      ...(issuer !== undefined ? { iss: issuer } : {}),
+      ...(audience !== undefined ? { aud: audience } : {}),
+    };
+
+    const accessToken = await signJwt(
+      {
+        ...registered,
+        jti: randomUUID(),
+        exp: iat + this.accessTokenTtl,
+        type: 'access',
+        userId: account.id,
+        email: account.email,
+        role: account.role,
+      },
+      signingKey
+    );
+    const refreshToken = await signJwt(
+      { ...registered, jti: randomUUID(), exp: iat + this.refreshTokenTtl, type: 'refresh' },
+      signingKey
+    );
+
+    return {
+      user: toAuthUser(account),
+      accessToken,
+      refreshToken,
+      tokenType: 'Bearer',
+      expiresIn: this.accessTokenTtl,
+      refreshExpiresIn: this.refreshTokenTtl,
+    };
+  }
+}
+
+const splitList = (value: string | undefined): string[] =>
+  (value ?? '').split(',').map(item => item.trim()).filter(item => item !== '');
+
+const positiveSeconds = (value: string | undefined): number | undefined => {
+  const seconds = Number(value);
+  return value !== undefined && Number.isInteger(seconds) && seconds > 0 ? seconds : undefined;
+};
+
+/**
+ * Read token issuing settings from environment variables
+ * Signs HS256 with the first JWT_SECRET; ACCESS_TOKEN_TTL and REFRESH_TOKEN_TTL in seconds;
+ * the first JWT_ISSUER/JWT_AUDIENCE value is stamped on issued tokens
+ */
+export function authConfigFromEnv(
+  env: Record<string, string | undefined> = process.env
+): Pick<AuthServiceOptions, 'signingKey' | 'accessTokenTtlSeconds' | 'refreshTokenTtlSeconds' | 'issuer' | 'audience'> {
+  const [secret] = splitList(env.JWT_SECRET);
+  const [issuer] = splitList(env.JWT_ISSUER);
+  const [audience] = splitList(env.JWT_AUDIENCE);
+  const accessTokenTtlSeconds = positiveSeconds(env.ACCESS_TOKEN_TTL);
+  const refreshTokenTtlSeconds = positiveSeconds(env.REFRESH_TOKEN_TTL);
+
+  return {
+    signingKey: secret !== undefined ? { algorithm: 'HS256', secret } : null,
+    ...(accessTokenTtlSeconds !== undefined ? { accessTokenTtlSeconds } : {}),
+    ...(refreshTokenTtlSeconds !== undefined ? { refreshTokenTtlSeconds } : {}),
+    ...(issuer !== undefined ? { issuer } : {}),
+    ...(audience !== undefined ? { audience } : {}),
+  };
+}
+
+let defaultAuthService: AuthService | null = null;
+
+/**
+ * Shared auth service configured from the environment (created on first use)
+ * Accounts come from AUTH_USERS_PATH; tokens are checked by the shared verifier and revocation list
+ */
+export function getAuthService(): AuthService {
+  defaultAuthService ??= new AuthService({
+    ...authConfigFromEnv(),
+    credentials: createCredentialStore(),
+    verifier: getJwtVerifier(),
+    revocations: getRevocationList(),
+  });
+  return defaultAuthService;
+}
@@ -0,0 +1,108 @@
+/**
+ * Credential Store
+ * Local user accounts that can sign in, with salted password hashes
+ */
+
+import { readJsonFile } from '../utils/json-file.utils.ts';
+
+export interface AuthAccount {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  // Output of hashPassword() - never the plain password
+  passwordHash: string;
+}
+
+// Read-only lookups used by the auth service
+export interface CredentialStore {
+  findByEmail(email: string): Promise<AuthAccount | null>;
+  findById(id: string): Promise<AuthAccount | null>;
+}
+
+// On-disk format of the JSON file credential store
+interface CredentialFileContents {
+  users: AuthAccount[];
+}
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+function findAccountByEmail(accounts: Iterable<AuthAccount>, email: string): AuthAccount | null {
+  const normalized = normalizeEmail(email);
+  for (const account of accounts) {
+    if (normalizeEmail(account.email) === normalized) {
+      return account;
+    }
+  }
+  return null;
+}
+
+/**
+ * In-memory credential store (per function instance)
+ */
+export class InMemoryCredentialStore implements CredentialStore {
+  private accounts = new Map<string, AuthAccount>();
+
+  constructor(accounts: AuthAccount[] = []) {
+    for (const account of accounts) {
+      this.accounts.set(account.id, account);
+    }
+  }
+
+  async findByEmail(email: string): Promise<AuthAccount | null> {
+    return findAccountByEmail(this.accounts.values(), email);
+  }
+
+  async findById(id: string): Promise<AuthAccount | null> {
+    return this.accounts.get(id) ?? null;
+  }
+}
+
+/**
+ * JSON file credential store ({ "users": [...] })
+ * The file is read once on first access; edit it and restart to change accounts
+ */
+export class JsonFileCredentialStore implements CredentialStore {
+  private accounts: Promise<Map<string, AuthAccount>> | null = null;
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async findByEmail(email: string): Promise<AuthAccount | null> {
+    return findAccountByEmail((await this.load()).values(), email);
+  }
+
+  async findById(id: string): Promise<AuthAccount | null> {
+    return (await this.load()).get(id) ?? null;
+  }
+
+  /**
+   * Lazily load the file contents on first access
+   */
+  private load(): Promise<Map<string, AuthAccount>> {
+    this.accounts ??= readJsonFile<CredentialFileContents>(this.filePath, { users: [] })
+      .then(contents => new Map(contents.users.map(account => [account.id, account])))
+      .catch((error: unknown) => {
+        // Allow a retry on the next access instead of caching the failure
+        this.accounts = null;
+        throw error;
+      });
+    return this.accounts;
+  }
+}
+
+/**
+ * Create a credential store
+ * Uses a JSON file when a path is given (or AUTH_USERS_PATH is set), an empty in-memory store otherwise
+ */
+export function createCredentialStore(options: { filePath?: string } = {}): CredentialStore {
+  const filePath = options.filePath ?? process.env.AUTH_USERS_PATH;
+
+  if (filePath !== undefined && filePath.trim() !== '') {
+    return new JsonFileCredentialStore(filePath);
+  }
+
+  return new InMemoryCredentialStore();
+}
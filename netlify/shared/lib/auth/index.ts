@@ -0,0 +1,10 @@
+/**
+ * Auth Export Hub
+ * Token signing and verification, password hashing and login sessions
+ */
+
+export * from './jwt.ts';
+export * from './password.ts';
+export * from './revocation-list.ts';
+export * from './credential-store.ts';
+export * from './auth-service.ts';
@@ -0,0 +1,389 @@
+/**
+ * JSON Web Tokens
+ * HS256/RS256 signing and verification on top of WebCrypto
+ */
+
+import { readFile } from 'node:fs/promises';
+import { AuthenticationError } from '../middleware/error.middleware.ts';
+import { getRevocationList, type RevocationList } from './revocation-list.ts';
+
+export type JwtAlgorithm = 'HS256' | 'RS256';
+
+export interface JwtHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
+// Registered claims plus any application claims
+export interface JwtClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  jti?: string;
+  [claim: string]: unknown;
+}
+
+// Public key entry of a JSON Web Key Set
+export interface JwksKey extends JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+export interface JsonWebKeySet {
+  keys: JwksKey[];
+}
+
+export interface JwtVerifierOptions {
+  // HS256 shared secrets - several can be active while rotating
+  secrets?: string[];
+  // RS256 public keys, given inline or as a path to a local JWKS file
+  jwks?: JsonWebKeySet;
+  jwksPath?: string;
+  // Accepted algorithms (default: every algorithm with a configured key)
+  algorithms?: JwtAlgorithm[];
+  issuer?: string | string[];
+  audience?: string | string[];
+  // Allowed clock difference when checking exp/nbf
+  clockToleranceSeconds?: number;
+  // Reject tokens without an exp claim (default true)
+  requireExpiration?: boolean;
+  // Reject tokens whose jti or token family (fam claim) has been revoked
+  revocations?: RevocationList;
+}
+
+export type JwtSigningKey =
+  | { algorithm: 'HS256'; secret: string; kid?: string }
+  | { algorithm: 'RS256'; privateKey: CryptoKey | JsonWebKey; kid?: string };
+
+export type JwtErrorReason =
+  | 'TOKEN_MALFORMED'
+  | 'ALGORITHM_NOT_ALLOWED'
+  | 'KEY_NOT_FOUND'
+  | 'SIGNATURE_INVALID'
+  | 'TOKEN_EXPIRED'
+  | 'TOKEN_NOT_YET_VALID'
+  | 'EXPIRATION_REQUIRED'
+  | 'ISSUER_INVALID'
+  | 'AUDIENCE_INVALID'
+  | 'TOKEN_REVOKED';
+
+/**
+ * Token rejected during verification - reason tells which check failed
+ */
+export class JwtVerificationError extends AuthenticationError {
+  readonly reason: JwtErrorReason;
+
+  constructor(reason: JwtErrorReason, message: string) {
+    super(message);
+    this.name = 'JwtVerificationError';
+    this.reason = reason;
+  }
+}
+
+export const DEFAULT_CLOCK_TOLERANCE_SECONDS = 30;
+const MILLISECONDS_PER_SECOND = 1000;
+const TOKEN_SEGMENTS = 3;
+
+const HMAC_SHA256: HmacImportParams = { name: 'HMAC', hash: 'SHA-256' };
+const RSASSA_SHA256: RsaHashedImportParams = { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' };
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Encode bytes as unpadded base64url
+ */
+export function base64UrlEncode(data: Uint8Array | string): string {
+  const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode unpadded base64url; throws on characters outside the alphabet or an impossible length
+ */
+export function base64UrlDecode(segment: string): Uint8Array<ArrayBuffer> {
+  if (!/^[A-Za-z0-9_-]*$/.test(segment)) {
+    throw new JwtVerificationError('TOKEN_MALFORMED', 'Token is not base64url encoded');
+  }
+  let binary: string;
+  try {
+    binary = atob(segment.replace(/-/g, '+').replace(/_/g, '/'));
+  } catch {
+    // atob rejects lengths that no base64 encoding produces (length % 4 === 1)
+    throw new JwtVerificationError('TOKEN_MALFORMED', 'Token is not base64url encoded');
+  }
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function decodeJsonSegment<T>(segment: string): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(decoder.decode(base64UrlDecode(segment)));
+  } catch (error) {
+    if (error instanceof JwtVerificationError) {
+      throw error;
+    }
+    throw new JwtVerificationError('TOKEN_MALFORMED', 'Token segment is not valid JSON');
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new JwtVerificationError('TOKEN_MALFORMED', 'Token segment is not a JSON object');
+  }
+  return value as T;
+}
+
+/**
+ * Split a compact JWT without verifying it
+ */
+export function decodeJwt(token: string): { header: JwtHeader; claims: JwtClaims; signature: Uint8Array<ArrayBuffer>; signingInput: string } {
+  const segments = token.split('.');
+  if (segments.length !== TOKEN_SEGMENTS) {
+    throw new JwtVerificationError('TOKEN_MALFORMED', 'Token must have three segments');
+  }
+
+  const [headerSegment = '', payloadSegment = '', signatureSegment = ''] = segments;
+  const header = decodeJsonSegment<JwtHeader>(headerSegment);
+  if (typeof header.alg !== 'string') {
+    throw new JwtVerificationError('TOKEN_MALFORMED', 'Token header is missing alg');
+  }
+
+  return {
+    header,
+    claims: decodeJsonSegment<JwtClaims>(payloadSegment),
+    signature: base64UrlDecode(signatureSegment),
+    signingInput: `${headerSegment}.${payloadSegment}`,
+  };
+}
+
+/**
+ * Sign claims as a compact JWT
+ */
+export async function signJwt(claims: JwtClaims, key: JwtSigningKey): Promise<string> {
+  const header: JwtHeader = { alg: key.algorithm, typ: 'JWT', ...(key.kid !== undefined ? { kid: key.kid } : {}) };
+  const signingInput = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(claims))}`;
+
+  let cryptoKey: CryptoKey;
+  if (key.algorithm === 'HS256') {
+    cryptoKey = await crypto.subtle.importKey('raw', encoder.encode(key.secret), HMAC_SHA256, false, ['sign']);
+  } else if (key.privateKey instanceof CryptoKey) {
+    cryptoKey = key.privateKey;
+  } else {
+    cryptoKey = await crypto.subtle.importKey('jwk', key.privateKey, RSASSA_SHA256, false, ['sign']);
+  }
+
+  const signature = await crypto.subtle.sign(cryptoKey.algorithm, cryptoKey, encoder.encode(signingInput));
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+const toList = (value: string | string[] | undefined): string[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+/**
+ * Verifies signatures and registered claims of incoming tokens
+ * Imported keys and the JWKS file are cached for the lifetime of the verifier
+ */
+export class JwtVerifier {
+  private readonly options: JwtVerifierOptions;
+  private hmacKeys: Promise<CryptoKey[]> | null = null;
+  private rsaKeys: Promise<Array<{ kid?: string; key: CryptoKey }>> | null = null;
+
+  constructor(options: JwtVerifierOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Verify a compact JWT and return its claims; throws JwtVerificationError
+   */
+  async verify<T extends JwtClaims = JwtClaims>(token: string): Promise<T> {
+    const { header, claims, signature, signingInput } = decodeJwt(token);
+    const algorithm = header.alg as JwtAlgorithm;
+
+    if (!this.allowedAlgorithms().includes(algorithm)) {
+      throw new JwtVerificationError('ALGORITHM_NOT_ALLOWED', `Algorithm ${header.alg} is not allowed`);
+    }
+
+    const candidates = algorithm === 'HS256' ? await this.getHmacKeys() : await this.getRsaKeys(header.kid);
+    if (candidates.length === 0) {
+      throw new JwtVerificationError('KEY_NOT_FOUND', `No ${algorithm} key available to verify the token`);
+    }
+
+    const data = encoder.encode(signingInput);
+    let verified = false;
+    for (const key of candidates) {
+      if (await crypto.subtle.verify(key.algorithm, key, signature, data)) {
+        verified = true;
+        break;
+      }
+    }
+    if (!verified) {
+      throw new JwtVerificationError('SIGNATURE_INVALID', 'Token signature is invalid');
+    }
+
+    this.checkClaims(claims);
+    await this.checkRevocation(claims);
+    return claims as T;
+  }
+
+  /**
+   * Explicit algorithms, otherwise the algorithms with configured keys
+   * HS256 is only ever checked against secrets and RS256 against public keys
+   */
+  private allowedAlgorithms(): JwtAlgorithm[] {
+    if (this.options.algorithms !== undefined) {
+      return this.options.algorithms;
+    }
+
+    const algorithms: JwtAlgorithm[] = [];
+    if ((this.options.secrets ?? []).length > 0) {
+      algorithms.push('HS256');
+    }
+    if (this.options.jwks !== undefined || this.options.jwksPath !== undefined) {
+      algorithms.push('RS256');
+    }
+    return algorithms;
+  }
+
+  private checkClaims(claims: JwtClaims): void {
+    const { issuer, audience, clockToleranceSeconds = DEFAULT_CLOCK_TOLERANCE_SECONDS, requireExpiration = true } =
+      this.options;
+    const now = Date.now() / MILLISECONDS_PER_SECOND;
+
+    if (claims.exp !== undefined && typeof claims.exp !== 'number') {
+      throw new JwtVerificationError('TOKEN_MALFORMED', 'exp claim must be a number');
+    }
+    if (claims.nbf !== undefined && typeof claims.nbf !== 'number') {
+      throw new JwtVerificationError('TOKEN_MALFORMED', 'nbf claim must be a number');
+    }
+
+    if (claims.exp === undefined) {
+      if (requireExpiration) {
+        throw new JwtVerificationError('EXPIRATION_REQUIRED', 'Token has no expiration');
+      }
+    } else if (now >= claims.exp + clockToleranceSeconds) {
+      throw new JwtVerificationError('TOKEN_EXPIRED', 'Token has expired');
+    }
+
+    if (claims.nbf !== undefined && now + clockToleranceSeconds < claims.nbf) {
+      throw new JwtVerificationError('TOKEN_NOT_YET_VALID', 'Token is not valid yet');
+    }
+
+    const issuers = toList(issuer);
+    if (issuers.length > 0 && (typeof claims.iss !== 'string' || !issuers.includes(claims.iss))) {
+      throw new JwtVerificationError('ISSUER_INVALID', 'Token issuer is not accepted');
+    }
+
+    const audiences = toList(audience);
+    if (audiences.length > 0 && !toList(claims.aud).some(value => audiences.includes(value))) {
+      throw new JwtVerificationError('AUDIENCE_INVALID', 'Token audience is not accepted');
+    }
+  }
+
+  /**
+   * Runs last, so a TOKEN_REVOKED error implies the token is otherwise genuine
+   */
+  private async checkRevocation(claims: JwtClaims): Promise<void> {
+    const { revocations } = this.options;
+    if (revocations === undefined) {
+      return;
+    }
+
+    for (const id of [claims.jti, claims['fam']]) {
+      if (typeof id === 'string' && (await revocations.isRevoked(id))) {
+        throw new JwtVerificationError('TOKEN_REVOKED', 'Token has been revoked');
+      }
+    }
+  }
+
+  private getHmacKeys(): Promise<CryptoKey[]> {
+    this.hmacKeys ??= Promise.all(
+      (this.options.secrets ?? []).map(secret =>
+        crypto.subtle.importKey('raw', encoder.encode(secret), HMAC_SHA256, false, ['verify'])
+      )
+    );
+    return this.hmacKeys;
+  }
+
+  /**
+   * RSA keys matching the token kid (every RSA signing key when the token has none)
+   */
+  private async getRsaKeys(kid: string | undefined): Promise<CryptoKey[]> {
+    this.rsaKeys ??= this.loadRsaKeys().catch((error: unknown) => {
+      this.rsaKeys = null;
+      throw error;
+    });
+
+    const keys = await this.rsaKeys;
+    return keys.filter(entry => kid === undefined || entry.kid === kid).map(entry => entry.key);
+  }
+
+  private async loadRsaKeys(): Promise<Array<{ kid?: string; key: CryptoKey }>> {
+    const jwks = this.options.jwks ?? (await loadJwksFile(this.options.jwksPath));
+    const signingKeys = jwks.keys.filter(
+      key => key.kty === 'RSA' && (key.use === undefined || key.use === 'sig') && (key.alg === undefined || key.alg === 'RS256')
+    );
+
+    // Only the public components are imported; use/key_ops metadata would be rejected by some runtimes
+    return Promise.all(
+      signingKeys.map(async key => ({
+        kid: key.kid,
+        key: await crypto.subtle.importKey('jwk', { kty: key.kty, n: key.n, e: key.e }, RSASSA_SHA256, false, ['verify']),
+      }))
+    );
+  }
+}
+
+/**
+ * Read a JSON Web Key Set from a local file (empty set when no path is configured)
+ */
+export async function loadJwksFile(filePath: string | undefined): Promise<JsonWebKeySet> {
+  if (filePath === undefined) {
+    return { keys: [] };
+  }
+
+  const jwks = JSON.parse(await readFile(filePath, 'utf8')) as Partial<JsonWebKeySet>;
+  if (!Array.isArray(jwks.keys)) {
+    throw new Error(`JWKS file ${filePath} has no keys array`);
+  }
+  return { keys: jwks.keys };
+}
+
+const splitList = (value: string | undefined): string[] =>
+  (value ?? '').split(',').map(item => item.trim()).filter(item => item !== '');
+
+/**
+ * Read JWT verification settings from environment variables
+ * JWT_SECRET (comma-separated for rotation), JWT_JWKS_PATH, JWT_ISSUER, JWT_AUDIENCE, JWT_CLOCK_TOLERANCE
+ */
+export function jwtConfigFromEnv(env: Record<string, string | undefined> = process.env): JwtVerifierOptions {
+  const secrets = splitList(env.JWT_SECRET);
+  const issuers = splitList(env.JWT_ISSUER);
+  const audiences = splitList(env.JWT_AUDIENCE);
+  const tolerance = Number(env.JWT_CLOCK_TOLERANCE);
+
+  return {
+    ...(secrets.length > 0 ? { secrets } : {}),
+    ...(env.JWT_JWKS_PATH !== undefined && env.JWT_JWKS_PATH.trim() !== '' ? { jwksPath: env.JWT_JWKS_PATH } : {}),
+    ...(issuers.length > 0 ? { issuer: issuers } : {}),
+    ...(audiences.length > 0 ? { audience: audiences } : {}),
+    ...(env.JWT_CLOCK_TOLERANCE !== undefined && Number.isFinite(tolerance) ? { clockToleranceSeconds: tolerance } : {}),
+  };
+}
+
+let defaultVerifier: JwtVerifier | null = null;
+
+/**
+ * Shared verifier configured from the environment (created on first use)
+ * Checks the shared revocation list; without JWT_SECRET or JWT_JWKS_PATH every token is rejected
+ */
+export function getJwtVerifier(): JwtVerifier {
+  defaultVerifier ??= new JwtVerifier({ ...jwtConfigFromEnv(), revocations: getRevocationList() });
+  return defaultVerifier;
+}
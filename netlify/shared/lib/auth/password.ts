@@ -0,0 +1,79 @@
+/**
+ * Password hashing
+ * Salted PBKDF2-SHA256 hashes on top of WebCrypto
+ */
+
+import { base64UrlDecode, base64UrlEncode } from './jwt.ts';
+
+// Stored format: pbkdf2-sha256$<iterations>$<salt>$<hash> (base64url salt and hash)
+const HASH_SCHEME = 'pbkdf2-sha256';
+const HASH_SEGMENTS = 4;
+const BITS_PER_BYTE = 8;
+
+export const PASSWORD_HASH_ITERATIONS = 210_000;
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+const encoder = new TextEncoder();
+
+async function deriveKey(password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<Uint8Array> {
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    KEY_BYTES * BITS_PER_BYTE
+  );
+  return new Uint8Array(bits);
+}
+
+/**
+ * Compare two byte arrays in time independent of where they differ
+ */
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < a.length; i++) {
+    difference |= (a[i] ?? 0) ^ (b[i % b.length] ?? 0);
+  }
+  return difference === 0;
+}
+
+/**
+ * Hash a password with a fresh random salt
+ */
+export async function hashPassword(
+  password: string,
+  options: { iterations?: number } = {}
+): Promise<string> {
+  const iterations = options.iterations ?? PASSWORD_HASH_ITERATIONS;
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await deriveKey(password, salt, iterations);
+  return [HASH_SCHEME, String(iterations), base64UrlEncode(salt), base64UrlEncode(hash)].join('$');
+}
+
+/**
+ * Check a password against a stored hash; malformed hashes never match
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const segments = storedHash.split('$');
+  if (segments.length !== HASH_SEGMENTS || segments[0] !== HASH_SCHEME) {
+    return false;
+  }
+
+  const [, iterationsSegment = '', saltSegment = '', hashSegment = ''] = segments;
+  const iterations = Number(iterationsSegment);
+  if (!Number.isSafeInteger(iterations) || iterations <= 0) {
+    return false;
+  }
+
+  let salt: Uint8Array<ArrayBuffer>;
+  let expected: Uint8Array;
+  try {
+    salt = base64UrlDecode(saltSegment);
+    expected = base64UrlDecode(hashSegment);
+  } catch {
+    return false;
+  }
+
+  const actual = await deriveKey(password, salt, iterations);
+  return constantTimeEqual(actual, expected);
+}
@@ -0,0 +1,145 @@
+/**
+ * Token Revocation List
+ * Revoked token ids (jti) and token families, kept until the tokens would have expired
+ */
+
+import { readJsonFile, writeJsonFile } from '../utils/json-file.utils.ts';
+
+// Implementations must be safe to share between requests
+export interface RevocationList {
+  /**
+   * Revoke an id until expiresAt (epoch seconds)
+   * Resolves false when the id was already revoked, so callers can detect token reuse
+   */
+  revoke(id: string, expiresAt: number): Promise<boolean>;
+  isRevoked(id: string): Promise<boolean>;
+}
+
+// On-disk format of the JSON file revocation list (id -> expiry in epoch seconds)
+interface RevocationFileContents {
+  revoked: Record<string, number>;
+}
+
+const MILLISECONDS_PER_SECOND = 1000;
+
+const nowSeconds = (): number => Math.floor(Date.now() / MILLISECONDS_PER_SECOND);
+
+/**
+ * Drop entries whose tokens have expired anyway
+ */
+function pruneExpired(entries: Map<string, number>): void {
+  const now = nowSeconds();
+  for (const [id, expiresAt] of entries) {
+    if (expiresAt <= now) {
+      entries.delete(id);
+    }
+  }
+}
+
+/**
+ * Record an id unless it is already revoked - check and insert happen synchronously
+ */
+function addEntry(entries: Map<string, number>, id: string, expiresAt: number): boolean {
+  pruneExpired(entries);
+  if (entries.has(id)) {
+    return false;
+  }
+  entries.set(id, expiresAt);
+  return true;
+}
+
+function hasEntry(entries: Map<string, number>, id: string): boolean {
+  const expiresAt = entries.get(id);
+  return expiresAt !== undefined && expiresAt > nowSeconds();
+}
+
+/**
+ * In-memory revocation list (per function instance)
+ */
+export class InMemoryRevocationList implements RevocationList {
+  private entries = new Map<string, number>();
+
+  async revoke(id: string, expiresAt: number): Promise<boolean> {
+    return addEntry(this.entries, id, expiresAt);
+  }
+
+  async isRevoked(id: string): Promise<boolean> {
+    return hasEntry(this.entries, id);
+  }
+}
+
+/**
+ * JSON file revocation list
+ * Keeps entries in memory and rewrites the whole file on every revocation
+ */
+export class JsonFileRevocationList implements RevocationList {
+  private entries: Promise<Map<string, number>> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async revoke(id: string, expiresAt: number): Promise<boolean> {
+    const entries = await this.load();
+    const added = addEntry(entries, id, expiresAt);
+    if (added) {
+      await this.persist(entries);
+    }
+    return added;
+  }
+
+  async isRevoked(id: string): Promise<boolean> {
+    return hasEntry(await this.load(), id);
+  }
+
+  /**
+   * Lazily load the file contents on first access
+   */
+  private load(): Promise<Map<string, number>> {
+    this.entries ??= readJsonFile<RevocationFileContents>(this.filePath, { revoked: {} })
+      .then(contents => new Map(Object.entries(contents.revoked)))
+      .catch((error: unknown) => {
+        // Allow a retry on the next access instead of caching the failure
+        this.entries = null;
+        throw error;
+      });
+    return this.entries;
+  }
+
+  /**
+   * Serialize writes so concurrent revocations cannot interleave on disk
+   */
+  private async persist(entries: Map<string, number>): Promise<void> {
+    const snapshot: RevocationFileContents = { revoked: Object.fromEntries(entries) };
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(() => writeJsonFile(this.filePath, snapshot));
+    return this.writeQueue;
+  }
+}
+
+/**
+ * Create a revocation list
+ * Uses a JSON file when a path is given (or AUTH_REVOCATIONS_PATH is set), memory otherwise
+ */
+export function createRevocationList(options: { filePath?: string } = {}): RevocationList {
+  const filePath = options.filePath ?? process.env.AUTH_REVOCATIONS_PATH;
+
+  if (filePath !== undefined && filePath.trim() !== '') {
+    return new JsonFileRevocationList(filePath);
+  }
+
+  return new InMemoryRevocationList();
+}
+
+let defaultRevocationList: RevocationList | null = null;
+
+/**
+ * Shared revocation list for the function instance (created on first use)
+ */
+export function getRevocationList(): RevocationList {
+  defaultRevocationList ??= createRevocationList();
+  return defaultRevocationList;
+}
@@ -35,6 +35,10 @@ describe('HTTP Constants Module', () => {
       // eslint-disable-next-line @typescript-eslint/no-magic-numbers
       expect(HTTP_STATUS.CONFLICT).toBe(409);
       // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+      expect(HTTP_STATUS.PAYLOAD_TOO_LARGE).toBe(413);
+      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+      expect(HTTP_STATUS.UNSUPPORTED_MEDIA_TYPE).toBe(415);
+      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
       expect(HTTP_STATUS.TOO_MANY_REQUESTS).toBe(429);
       // eslint-disable-next-line @typescript-eslint/no-magic-numbers
       expect(HTTP_STATUS.INTERNAL_SERVER_ERROR).toBe(500);
@@ -115,7 +119,8 @@ describe('HTTP Constants Module', () => {
       expect(statusCode).toBe(200);
 
       const allStatusCodes: HttpStatusCode[] = Object.values(HTTP_STATUS);
-      expect(allStatusCodes).toHaveLength(12);
+      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+      expect(allStatusCodes).toHaveLength(14);
       // eslint-disable-next-line @typescript-eslint/no-magic-numbers
       expect(allStatusCodes).toContain(200);
       // eslint-disable-next-line @typescript-eslint/no-magic-numbers
@@ -178,6 +183,8 @@ describe('HTTP Constants Module', () => {
         'NOT_FOUND',
         'METHOD_NOT_ALLOWED',
         'CONFLICT',
+        'PAYLOAD_TOO_LARGE',
+        'UNSUPPORTED_MEDIA_TYPE',
         'TOO_MANY_REQUESTS',
         'INTERNAL_SERVER_ERROR',
         'SERVICE_UNAVAILABLE',
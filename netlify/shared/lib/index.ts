@@ -17,14 +17,65 @@ export type {
 
 // Router types
 export type {
+  ErrorMiddleware,
   ExpressRequest,
   ExpressResponse,
   Middleware,
   MiddlewareChain,
+  NextFunction,
+  RequestValue,
+  Route,
   RouteHandler,
+  RouteMetadata,
+  RouteResponseMetadata,
+  RouterOptions,
+  SseWriter,
 } from './types/router.types.ts';
 export { createRouter, Router } from './types/router.types.ts';
 
+// Document types
+export type {
+  CreateDocumentInput,
+  DocumentContentType,
+  DocumentIndexStatus,
+  DocumentMetadata,
+  DocumentSummary,
+  IndexedDocumentSummary,
+  StoredDocument,
+} from './types/document.types.ts';
+
+// User types
+export type { CreateUserInput, UpdateUserInput, User } from './types/user.types.ts';
+
+// JSON Schema types
+export type { FromSchema, JsonSchema, JsonSchemaFormat, JsonSchemaType } from './types/json-schema.types.ts';
+
+// Route contract types
+export type {
+  ContractArgs,
+  ContractBody,
+  ContractMethod,
+  ContractParams,
+  ContractPayload,
+  ContractQuery,
+  ContractResponse,
+  RouteContract,
+} from './types/contract.types.ts';
+
+// Repositories
+export {
+  createDocumentRepository,
+  InMemoryDocumentRepository,
+  JsonFileDocumentRepository,
+  type DocumentRepository,
+} from './repositories/document.repository.ts';
+export {
+  createUserRepository,
+  InMemoryUserRepository,
+  JsonFileUserRepository,
+  type UserRepository,
+} from './repositories/user.repository.ts';
+
 // Constants
 export { API_VERSION, HTTP_STATUS, type HttpStatusCode } from './constants/http.constants.ts';
 
@@ -37,6 +88,60 @@ export {
   jsonResponse,
   methodNotAllowed,
 } from './utils/response.utils.ts';
+export {
+  isMissingFileError,
+  readJsonFile,
+  writeFileAtomic,
+  writeJsonFile,
+} from './utils/json-file.utils.ts';
+export {
+  buildLinkHeader,
+  DEFAULT_PAGE_SIZE,
+  paginate,
+  type Page,
+  type PageRequest,
+} from './utils/pagination.utils.ts';
+export {
+  dereferenceSchema,
+  inlineSchemaRefs,
+  resolveSchemaRef,
+  validateJsonSchema,
+} from './utils/json-schema.utils.ts';
+export { buildContractPath, toQueryParams } from './utils/contract.utils.ts';
+export {
+  compileRoutePath,
+  mountRoutePath,
+  parseParamSegment,
+  SPLAT_PARAM,
+  type PathMatcher,
+  type RouteParamSegment,
+} from './utils/route-path.utils.ts';
+export { RouteTree, type RouteTreeMatch } from './utils/route-tree.utils.ts';
+export {
+  DEFAULT_BODY_LIMIT_BYTES,
+  isBodyParseError,
+  parseContentType,
+  parseRequestBody,
+  type BodyParseError,
+  type BodyParserOptions,
+  type FormBody,
+  type FormFieldValue,
+} from './utils/body-parser.utils.ts';
+export {
+  generateOpenApiDocument,
+  toOpenApiPath,
+  type OpenApiDocument,
+  type OpenApiInfo,
+  type OpenApiOperation,
+  type OpenApiParameter,
+  type OpenApiResponse,
+} from './utils/openapi.utils.ts';
 
 // Middleware
 export * from './middleware/index.ts';
+
+// RAG building blocks
+export * from './rag/index.ts';
+
+// Auth
+export * from './auth/index.ts';
@@ -5,9 +5,10 @@
 
 import type { ExpressRequest, ExpressResponse } from '../types/router.types.ts';
 import { HTTP_STATUS } from '../constants/http.constants.ts';
+import { getJwtVerifier, JwtVerificationError, type JwtClaims, type JwtVerifier } from '../auth/jwt.ts';
 
 // JWT token interface
-interface JWTPayload {
+export interface JWTPayload extends JwtClaims {
   userId: string;
   email: string;
   role: string;
@@ -20,34 +21,12 @@ interface AuthenticatedRequest extends ExpressRequest {
   user?: JWTPayload;
 }
 
-
-
 /**
- * Decode and validate JWT token
+ * Verify the token signature and claims, then check the application claims
  */
-function decodeJWT(token: string): JWTPayload | null {
+async function decodeJWT(token: string, verifier: JwtVerifier): Promise<JWTPayload | null> {
   try {
-    const parts = token.split('.');
-    const EXPECTED_PARTS = 3;
-    const PAYLOAD_INDEX = 1;
-    const MILLISECONDS_MULTIPLIER = 1000;
-    
-    if (parts.length !== EXPECTED_PARTS) {
-      return null;
-    }
-
-    // Validate base64 format before decoding (allow standard base64 chars)
-    const payloadB64 = parts[PAYLOAD_INDEX];
-    if (!/^[A-Za-z0-9+/=]*$/.test(payloadB64)) {
-      return null;
-    }
-
-    const payload = JSON.parse(atob(payloadB64));
-    
-    // Validate payload structure
-    if (typeof payload !== 'object' || payload === null) {
-      return null;
-    }
+    const payload = await verifier.verify(token);
 
     // Check required fields exist and have correct types
     if (typeof payload.userId !== 'string' || 
@@ -58,14 +37,17 @@ function decodeJWT(token: string): JWTPayload | null {
       return null;
     }
 
-    // Check if token is expired
-    if (Date.now() >= payload.exp * MILLISECONDS_MULTIPLIER) {
+    // Refresh tokens are only accepted by the refresh endpoint
+    if (payload['type'] === 'refresh') {
       return null;
     }
 
     return payload as JWTPayload;
-  } catch {
-    return null;
+  } catch (error) {
+    if (error instanceof JwtVerificationError) {
+      return null;
+    }
+    throw error;
   }
 }
 
@@ -93,23 +75,20 @@ function extractToken(request: ExpressRequest): string | null {
 
 /**
  * Authentication middleware factory
+ * Tokens are verified with the given verifier, or the shared one configured from the environment
  */
-export function authenticate(required = true): (req: ExpressRequest, res: ExpressResponse, next: () => void) => void {
-  return (req: ExpressRequest, res: ExpressResponse, next: () => void): void => {
+export function authenticate(
+  required = true,
+  verifier?: JwtVerifier
+): (req: ExpressRequest, res: ExpressResponse, next: () => void) => Promise<void> {
+  return async (req: ExpressRequest, res: ExpressResponse, next: () => void): Promise<void> => {
     const token = extractToken(req);
     
     if (!token) {
       if (required) {
-        res.status(HTTP_STATUS.UNAUTHORIZED).json({
-          status: 'error',
-          error: {
-            code: 'AUTH_TOKEN_MISSING',
-            message: 'Authorization token is required',
-          },
-          metadata: {
-            timestamp: new Date().toISOString(),
-            processingTimeMs: 0,
-          },
+        res.status(HTTP_STATUS.UNAUTHORIZED).fail({
+          code: 'AUTH_TOKEN_MISSING',
+          message: 'Authorization token is required',
         });
         return;
       }
@@ -119,19 +98,12 @@ export function authenticate(required = true): (req: ExpressRequest, res: Expres
       return;
     }
 
-    const payload = decodeJWT(token);
+    const payload = await decodeJWT(token, verifier ?? getJwtVerifier());
     
     if (!payload) {
-      res.status(HTTP_STATUS.UNAUTHORIZED).json({
-        status: 'error',
-        error: {
-          code: 'AUTH_TOKEN_INVALID',
-          message: 'Invalid or expired token',
-        },
-        metadata: {
-          timestamp: new Date().toISOString(),
-          processingTimeMs: 0,
-        },
+      res.status(HTTP_STATUS.UNAUTHORIZED).fail({
+        code: 'AUTH_TOKEN_INVALID',
+        message: 'Invalid or expired token',
       });
       return;
     }
@@ -153,16 +125,9 @@ export function requireRole(roles: string | string[]): (req: ExpressRequest, res
     const user = authenticatedReq.user;
     
     if (!user) {
-      res.status(HTTP_STATUS.UNAUTHORIZED).json({
-        status: 'error',
-        error: {
-          code: 'AUTH_USER_REQUIRED',
-          message: 'Authentication required',
-        },
-        metadata: {
-          timestamp: new Date().toISOString(),
-          processingTimeMs: 0,
-        },
+      res.status(HTTP_STATUS.UNAUTHORIZED).fail({
+        code: 'AUTH_USER_REQUIRED',
+        message: 'Authentication required',
       });
       return;
     }
@@ -170,16 +135,9 @@ export function requireRole(roles: string | string[]): (req: ExpressRequest, res
     const allowedRoles = Array.isArray(roles) ? roles : [roles];
     
     if (!allowedRoles.includes(user.role)) {
-      res.status(HTTP_STATUS.FORBIDDEN).json({
-        status: 'error',
-        error: {
-          code: 'AUTH_INSUFFICIENT_ROLE',
-          message: 'Insufficient permissions',
-        },
-        metadata: {
-          timestamp: new Date().toISOString(),
-          processingTimeMs: 0,
-        },
+      res.status(HTTP_STATUS.FORBIDDEN).fail({
+        code: 'AUTH_INSUFFICIENT_ROLE',
+        message: 'Insufficient permissions',
       });
       return;
     }
@@ -0,0 +1,84 @@
+/**
+ * Error middleware tests - status/code mapping and the development/production variants
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createRouter, type Router } from '../types/router.types.ts';
+import { HTTP_STATUS } from '../constants/http.constants.ts';
+import {
+  ConflictError,
+  ValidationError,
+  createErrorHandler,
+  developmentErrorHandler,
+  errorHandler,
+  productionErrorHandler,
+} from './error.middleware.ts';
+
+const createFailingRouter = (error: unknown): Router =>
+  createRouter().get('/fail', () => {
+    throw error;
+  });
+
+const fail = async (router: Router): Promise<{ status: number; body: any }> => {
+  const response = await router.handle(new Request('http://localhost:3000/fail'));
+  return { status: response.status, body: await response.json() };
+};
+
+describe('Error middleware', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should map AppErrors to their status code and error code', async () => {
+    const router = createFailingRouter(new ValidationError('Invalid email', { field: 'email' })).use(errorHandler(false));
+
+    const { status, body } = await fail(router);
+
+    expect(status).toBe(HTTP_STATUS.BAD_REQUEST);
+    expect(body.error).toEqual({ code: 'VALIDATION_ERROR', message: 'Invalid email', details: { field: 'email' } });
+    expect(body.metadata.requestId).toMatch(/^req_/);
+  });
+
+  it('should map errors by name when they carry no status code', async () => {
+    const error = new Error('Too many requests');
+    error.name = 'RateLimitError';
+    const router = createFailingRouter(error).use(createErrorHandler({ logErrors: false }));
+
+    const { status, body } = await fail(router);
+
+    expect(status).toBe(HTTP_STATUS.TOO_MANY_REQUESTS);
+    expect(body.error.message).toBe('Too many requests');
+  });
+
+  it('should include the stack trace in development', async () => {
+    const router = createFailingRouter(new ConflictError('Email taken')).use(developmentErrorHandler);
+
+    const { status, body } = await fail(router);
+
+    expect(status).toBe(HTTP_STATUS.CONFLICT);
+    expect(body.error).toMatchObject({ code: 'CONFLICT', message: 'Email taken' });
+    expect(body.error.stack).toContain('ConflictError');
+  });
+
+  it('should hide unexpected server errors in production', async () => {
+    const router = createFailingRouter(new Error('connection string leaked')).use(productionErrorHandler);
+
+    const { status, body } = await fail(router);
+
+    expect(status).toBe(HTTP_STATUS.INTERNAL_SERVER_ERROR);
+    expect(body.error).toEqual({ code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' });
+  });
+
+  it('should keep the message of unexpected errors in development', async () => {
+    const router = createFailingRouter(new TypeError('undefined is not a function'))
+      .use(createErrorHandler({ development: true, logErrors: false }));
+
+    const { body } = await fail(router);
+
+    expect(body.error).toMatchObject({ code: 'TYPE_ERROR', message: 'undefined is not a function' });
+  });
+});
@@ -3,7 +3,8 @@
  * Centralized error handling and response formatting
  */
 
-import type { ExpressRequest, ExpressResponse } from '../types/router.types.ts';
+import type { ErrorMiddleware, ExpressRequest, ExpressResponse, NextFunction } from '../types/router.types.ts';
+import type { ApiError } from '../types/envelope.types.ts';
 import { HTTP_STATUS, type HttpStatusCode } from '../constants/http.constants.ts';
 import { redactBodyFields } from './logging.middleware.ts';
 
@@ -71,6 +72,28 @@ export class ConflictError extends Error implements AppError {
   }
 }
 
+export class PayloadTooLargeError extends Error implements AppError {
+  statusCode = HTTP_STATUS.PAYLOAD_TOO_LARGE;
+  code = 'PAYLOAD_TOO_LARGE';
+  isOperational = true;
+
+  constructor(message: string = 'Request body too large') {
+    super(message);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+export class UnsupportedMediaTypeError extends Error implements AppError {
+  statusCode = HTTP_STATUS.UNSUPPORTED_MEDIA_TYPE;
+  code = 'UNSUPPORTED_MEDIA_TYPE';
+  isOperational = true;
+
+  constructor(message: string = 'Unsupported media type') {
+    super(message);
+    this.name = 'UnsupportedMediaTypeError';
+  }
+}
+
 export class RateLimitError extends Error implements AppError {
   statusCode = HTTP_STATUS.TOO_MANY_REQUESTS;
   code = 'RATE_LIMIT_EXCEEDED';
@@ -111,6 +134,10 @@ function getErrorCode(error: unknown): string {
     if ('code' in error && typeof error.code === 'string') {
       return error.code;
     }
+    // Plain errors are internal failures; named ones map to e.g. TYPE_ERROR
+    if (error.name === 'Error') {
+      return 'INTERNAL_ERROR';
+    }
     return error.name.toUpperCase().replace(/ERROR$/, '_ERROR');
   }
   
@@ -143,108 +170,77 @@ function getErrorDetails(error: unknown): Record<string, unknown> | undefined {
   return undefined;
 }
 
-// Extended request type for internal use
-interface ExtendedRequest {
-  startTime?: number;
-  requestId?: string;
+/**
+ * Whether an error is an expected AppError whose message is meant for the client
+ */
+function isOperationalError(error: unknown): boolean {
+  return error instanceof Error && 'isOperational' in error && error.isOperational === true;
 }
 
 /**
- * Create error response
+ * Error body of the response envelope
+ * Development responses carry the stack trace; production responses hide the message of
+ * unexpected server errors, which may leak internals
  */
-function createErrorResponse(
-  error: unknown,
-  request: ExpressRequest
-): {
-  status: 'error';
-  error: {
-    code: string;
-    message: string;
-    details?: Record<string, unknown>;
-    stack?: string;
-  };
-  metadata: {
-    timestamp: string;
-    requestId: string;
-    processingTimeMs: number;
-  };
-} {
-  const extendedReq = request as unknown as ExtendedRequest;
-  const startTime = extendedReq.startTime ?? Date.now();
-  const processingTime = Date.now() - startTime;
-  const requestId = extendedReq.requestId ?? 'unknown';
+function toApiError(error: unknown, development: boolean): ApiError & { stack?: string } {
+  if (!development && getErrorStatusCode(error) >= HTTP_STATUS.INTERNAL_SERVER_ERROR && !isOperationalError(error)) {
+    return { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' };
+  }
 
-  const response: {
-    status: 'error';
-    error: {
-      code: string;
-      message: string;
-      details?: Record<string, unknown>;
-      stack?: string;
-    };
-    metadata: {
-      timestamp: string;
-      requestId: string;
-      processingTimeMs: number;
-    };
-  } = {
-    status: 'error',
-    error: {
-      code: getErrorCode(error),
-      message: getErrorMessage(error),
-    },
-    metadata: {
-      timestamp: new Date().toISOString(),
-      requestId,
-      processingTimeMs: processingTime,
-    },
+  const apiError: ApiError & { stack?: string } = {
+    code: getErrorCode(error),
+    message: getErrorMessage(error),
   };
 
   // Add error details if available
   const details = getErrorDetails(error);
   if (details !== undefined) {
-    response.error.details = details;
+    apiError.details = details;
   }
 
   // Add stack trace in development mode
-  if (process.env.NODE_ENV === 'development' && error instanceof Error) {
-    response.error.stack = error.stack;
+  if (development && error instanceof Error) {
+    apiError.stack = error.stack;
   }
 
-  return response;
+  return apiError;
 }
 
 /**
- * Global error handling middleware
+ * Send the error envelope with the status mapped from the error
  */
-export function errorHandler(
-  _includeStack = process.env.NODE_ENV === 'development'
-): (req: ExpressRequest, res: ExpressResponse, next: () => void) => void {
-  return (_req: ExpressRequest, _res: ExpressResponse, next: () => void): void => {
-    // Handle errors from downstream middleware/handlers
-    next();
-  };
+function sendError(error: unknown, res: ExpressResponse, development: boolean): void {
+  const statusCode = getErrorStatusCode(error) as HttpStatusCode;
+  res.status(statusCode).fail(toApiError(error, development));
+}
+
+/**
+ * Global error handling middleware - register last with router.use()
+ */
+export function errorHandler(development = process.env.NODE_ENV === 'development'): ErrorMiddleware {
+  return createErrorHandler({ development });
 }
 
 /**
- * Async error wrapper - catches promise rejections
+ * Async error wrapper - forwards promise rejections to the error middleware
  */
 export function asyncHandler(
   handler: (req: ExpressRequest, res: ExpressResponse) => Promise<unknown>
-): (req: ExpressRequest, res: ExpressResponse, next: () => void) => void {
-  return (req: ExpressRequest, res: ExpressResponse, next: () => void): void => {
-    Promise.resolve(handler(req, res)).catch(next);
-  };
+): (req: ExpressRequest, res: ExpressResponse, next: NextFunction) => Promise<void> {
+  return (req: ExpressRequest, res: ExpressResponse, next: NextFunction): Promise<void> =>
+    Promise.resolve(handler(req, res)).then(
+      () => undefined,
+      (error: unknown) => next(error)
+    );
 }
 
 /**
  * 404 handler middleware
  */
-export function notFoundHandler(): (req: ExpressRequest, res: ExpressResponse, _next: () => void) => void {
-  return (req: ExpressRequest, res: ExpressResponse, _next: () => void): void => {
+export function notFoundHandler(): (req: ExpressRequest, res: ExpressResponse, _next: NextFunction) => void {
+  return (req: ExpressRequest, res: ExpressResponse, _next: NextFunction): void => {
     const error = new NotFoundError(`Route ${req.method} ${req.path} not found`);
-    const errorResponse = createErrorResponse(error, req);
-    res.status(HTTP_STATUS.NOT_FOUND).json(errorResponse);
+    sendError(error, res, false);
   };
 }
 
@@ -254,7 +250,8 @@ export function notFoundHandler(): (req: ExpressRequest, res: ExpressResponse, _
 export function developmentErrorHandler(
   error: unknown,
   req: ExpressRequest,
-  res: ExpressResponse
+  res: ExpressResponse,
+  _next?: NextFunction
 ): void {
   // Sensitive fields to redact from request body
   const sensitiveFields = ['password', 'token', 'secret', 'apiKey', 'authorization'];
@@ -272,10 +269,7 @@ export function developmentErrorHandler(
     }
   });
 
-  const errorResponse = createErrorResponse(error, req);
-  const statusCode = getErrorStatusCode(error) as HttpStatusCode;
-  
-  res.status(statusCode).json(errorResponse);
+  sendError(error, res, true);
 }
 
 /**
@@ -284,23 +278,19 @@ export function developmentErrorHandler(
 export function productionErrorHandler(
   error: unknown,
   req: ExpressRequest,
-  res: ExpressResponse
+  res: ExpressResponse,
+  _next?: NextFunction
 ): void {
-  const extendedReq = req as unknown as ExtendedRequest;
-  
   // Log operational errors to console
   console.error('Error:', {
     code: getErrorCode(error),
     message: getErrorMessage(error),
-    requestId: extendedReq.requestId,
+    requestId: req.requestId,
     path: req.path,
     method: req.method
   });
 
-  const errorResponse = createErrorResponse(error, req);
-  const statusCode = getErrorStatusCode(error) as HttpStatusCode;
-  
-  res.status(statusCode).json(errorResponse);
+  sendError(error, res, false);
 }
 
 /**
@@ -309,13 +299,13 @@ export function productionErrorHandler(
 export function createErrorHandler(options: {
   development?: boolean;
   logErrors?: boolean;
-} = {}): (error: unknown, req: ExpressRequest, res: ExpressResponse) => void {
+} = {}): ErrorMiddleware {
   const {
     development = process.env.NODE_ENV === 'development',
     logErrors = true
   } = options;
 
-  return (error: unknown, req: ExpressRequest, res: ExpressResponse): void => {
+  return (error: unknown, req: ExpressRequest, res: ExpressResponse, _next: NextFunction): void => {
     if (logErrors) {
       if (development) {
         developmentErrorHandler(error, req, res);
@@ -324,9 +314,7 @@ export function createErrorHandler(options: {
       }
     } else {
       // Just return error response without logging
-      const errorResponse = createErrorResponse(error, req);
-      const statusCode = getErrorStatusCode(error) as HttpStatusCode;
-      res.status(statusCode).json(errorResponse);
+      sendError(error, res, development);
     }
   };
 }
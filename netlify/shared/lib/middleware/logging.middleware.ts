@@ -32,16 +32,6 @@ export interface LoggingOptions {
   prettyPrint?: boolean;
 }
 
-/**
- * Generate unique request ID
- */
-function generateRequestId(): string {
-  const RADIX = 36;
-  const START_INDEX = 2;
-  const END_INDEX = 9;
-  return `req_${Date.now()}_${Math.random().toString(RADIX).substring(START_INDEX, END_INDEX)}`;
-}
-
 /**
  * Extract client IP from request
  */
@@ -128,14 +118,12 @@ export function createLogger(options: LoggingOptions = {}): (req: ExpressRequest
   const HTTP_ERROR_THRESHOLD = 400;
 
   return (req: ExpressRequest, res: ExpressResponse, next: () => void): void => {
-    const requestId = generateRequestId();
+    // Assigned by the router, so log entries match the response metadata
+    const { requestId } = req;
     const startTime = Date.now();
     const clientIP = getClientIP(req);
     const userAgent = req.headers.get('user-agent') ?? req.headers.get('User-Agent');
 
-    // Generate unique request ID and attach to request
-    (req as unknown as { requestId: string }).requestId = requestId;
-    
     // Intercept response to capture response time and status
     const originalJson = res.json.bind(res);
     const originalSend = res.send.bind(res);
@@ -265,7 +253,7 @@ export function performanceLogger(): (req: ExpressRequest, res: ExpressResponse,
       if (duration > SLOW_REQUEST_THRESHOLD_MS) {
         console.warn(JSON.stringify({
           type: 'SLOW_REQUEST',
-          requestId: (req as unknown as { requestId?: string }).requestId,
+          requestId: req.requestId,
           method: req.method,
           path: req.path,
           duration: `${duration.toFixed(DURATION_DECIMAL_PLACES)}ms`,
@@ -284,7 +272,7 @@ export function performanceLogger(): (req: ExpressRequest, res: ExpressResponse,
       if (duration > SLOW_REQUEST_THRESHOLD_MS) {
         console.warn(JSON.stringify({
           type: 'SLOW_REQUEST',
-          requestId: (req as unknown as { requestId?: string }).requestId,
+          requestId: req.requestId,
           method: req.method,
           path: req.path,
           duration: `${duration.toFixed(DURATION_DECIMAL_PLACES)}ms`,
@@ -36,6 +36,8 @@ describe('Middleware Configuration', () => {
       params: {},
       body: null,
       originalRequest: new Request('http://example.com/api/test'),
+      requestId: 'req_test',
+      startTime: Date.now(),
     } as ExpressRequest;
     
     mockResponse = {
@@ -46,8 +48,13 @@ describe('Middleware Configuration', () => {
       set: vi.fn().mockReturnThis(),
       send: vi.fn().mockReturnThis(),
       setHeader: vi.fn().mockReturnThis(),
+      success: vi.fn(),
+      fail: vi.fn(),
+      sse: vi.fn(),
+      stream: vi.fn(),
       _sent: false,
       _body: '',
+      _stream: null,
     } as ExpressResponse;
     
     mockNext = vi.fn();
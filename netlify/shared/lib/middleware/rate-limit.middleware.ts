@@ -126,21 +126,13 @@ export function rateLimit(options: RateLimitOptions): (req: ExpressRequest, res:
         onLimitReached?.(req, res, options);
         
         // Send rate limit response
-        res.status(HTTP_STATUS.TOO_MANY_REQUESTS).json({
-          status: 'error',
-          error: {
-            code: 'RATE_LIMIT_EXCEEDED',
-            message,
-            details: {
-              limit: max,
-              remaining: 0,
-              resetTime: new Date(resetTime).toISOString()
-            }
-          },
-          metadata: {
-            timestamp: new Date().toISOString(),
-            requestId: (req as any).requestId ?? 'unknown',
-            processingTimeMs: 0
+        res.status(HTTP_STATUS.TOO_MANY_REQUESTS).fail({
+          code: 'RATE_LIMIT_EXCEEDED',
+          message,
+          details: {
+            limit: max,
+            remaining: 0,
+            resetTime: new Date(resetTime).toISOString()
           }
         });
         return;
@@ -0,0 +1,167 @@
+/**
+ * Validation Middleware Tests
+ * Query/params coercion and validation
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { isJsonSchema, validateAll, validateParams, validateQuery } from './validation.middleware';
+import { validateApiRequest } from './middleware.config';
+import { HTTP_STATUS } from '../constants/http.constants';
+
+describe('Validation Middleware', () => {
+  let mockResponse: any;
+  let mockNext: () => void;
+
+  const createRequest = (search: string, params: Record<string, string> = {}): any => {
+    const url = `http://localhost/api/items${search}`;
+    const query: Record<string, string> = {};
+    new URL(url).searchParams.forEach((value, key) => {
+      query[key] = value;
+    });
+    return { method: 'GET', url, path: '/api/items', query, params, headers: new Headers(), body: null };
+  };
+
+  beforeEach(() => {
+    mockResponse = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+      fail: vi.fn(),
+    };
+    mockNext = vi.fn();
+  });
+
+  describe('validateQuery', () => {
+    it('should coerce numbers, booleans and dates and write them back', () => {
+      const req = createRequest('?page=2&archived=false&since=2024-01-31&q=ada');
+      validateQuery({
+        page: { type: 'number', integer: true, min: 1 },
+        archived: { type: 'boolean' },
+        since: { type: 'date' },
+      })(req, mockResponse, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+      expect(req.query).toEqual({ page: 2, archived: false, since: new Date('2024-01-31'), q: 'ada' });
+    });
+
+    it('should collect arrays from repeated keys and comma lists', () => {
+      const req = createRequest('?ids=1,2&ids=3&tags=a,b');
+      validateQuery({
+        ids: { type: 'array', items: { type: 'number' } },
+        tags: { type: 'array', items: { type: 'string' } },
+      })(req, mockResponse, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+      expect(req.query).toEqual({ ids: [1, 2, 3], tags: ['a', 'b'] });
+    });
+
+    it('should reject values that cannot be coerced and leave the query untouched', () => {
+      const req = createRequest('?page=two&since=yesterday&ids=1,x');
+      validateQuery({
+        page: { type: 'number' },
+        since: { type: 'date' },
+        ids: { type: 'array', items: { type: 'number' } },
+      })(req, mockResponse, mockNext);
+
+      expect(mockNext).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.BAD_REQUEST);
+      const [error] = mockResponse.fail.mock.calls[0];
+      expect(error.code).toBe('QUERY_VALIDATION_FAILED');
+      expect(error.details.errors.map((err: { field: string }) => err.field)).toEqual(['page', 'since', 'ids[1]']);
+      expect(req.query).toEqual({ page: 'two', since: 'yesterday', ids: '1,x' });
+    });
+
+    it('should not treat an empty value as zero', () => {
+      const req = createRequest('?page=');
+      validateQuery({ page: { type: 'number' } })(req, mockResponse, mockNext);
+
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('JSON Schema', () => {
+    it('should coerce query values from JSON Schema property types', () => {
+      const req = createRequest('?page=3&ids=1&ids=2&archived=true');
+      validateQuery({
+        type: 'object',
+        properties: {
+          page: { type: 'integer', minimum: 1 },
+          ids: { type: 'array', items: { type: 'integer' } },
+          archived: { type: 'boolean' },
+        },
+      })(req, mockResponse, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+      expect(req.query).toEqual({ page: 3, ids: [1, 2], archived: true });
+    });
+
+    it('should report JSON Schema errors in the usual shape', () => {
+      const req = createRequest('?sort=password&extra=1');
+      validateQuery({
+        type: 'object',
+        properties: { sort: { type: 'string', enum: ['name', '-name'] } },
+        additionalProperties: false,
+      })(req, mockResponse, mockNext);
+
+      expect(mockNext).not.toHaveBeenCalled();
+      const [error] = mockResponse.fail.mock.calls[0];
+      expect(error.code).toBe('QUERY_VALIDATION_FAILED');
+      expect(error.details.errors.map((err: { code: string }) => err.code)).toEqual(['INVALID_ENUM_VALUE', 'UNKNOWN_FIELD']);
+    });
+  });
+
+  describe('isJsonSchema', () => {
+    it('should recognise schemas without a type keyword', () => {
+      expect(isJsonSchema({ properties: { page: { type: 'integer' } } })).toBe(true);
+      expect(isJsonSchema({ required: ['page'] })).toBe(true);
+      expect(isJsonSchema({ enum: ['a', 'b'] })).toBe(true);
+      expect(isJsonSchema({ const: 'a' })).toBe(true);
+    });
+
+    it('should keep rule maps as rule maps, even with a field named like a keyword', () => {
+      expect(isJsonSchema({ page: { type: 'number' } })).toBe(false);
+      expect(isJsonSchema({ type: { type: 'string' }, properties: { type: 'object' } })).toBe(false);
+    });
+
+    it('should validate against a properties-only schema', () => {
+      const req = createRequest('?page=two');
+      validateQuery({ properties: { page: { type: 'integer' } } })(req, mockResponse, mockNext);
+
+      expect(mockNext).not.toHaveBeenCalled();
+      const [error] = mockResponse.fail.mock.calls[0];
+      expect(error.details.errors.map((err: { field: string }) => err.field)).toEqual(['page']);
+    });
+  });
+
+  describe('validateParams', () => {
+    it('should coerce route parameters', () => {
+      const req = createRequest('', { id: '42', enabled: '1' });
+      validateParams({ id: { type: 'number', integer: true }, enabled: { type: 'boolean' } })(req, mockResponse, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+      expect(req.params).toEqual({ id: 42, enabled: true });
+    });
+  });
+
+  describe('validateAll', () => {
+    it('should let validateApiRequest accept numeric query strings', () => {
+      const req = createRequest('?page=2&limit=10', { id: 'user-1' });
+      req.body = { userId: 'user-1', email: 'ada@example.com' };
+      validateApiRequest(req, mockResponse, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+      expect(req.query).toEqual({ page: 2, limit: 10 });
+    });
+
+    it('should prefix failing fields with their source', () => {
+      const req = createRequest('?limit=1000', { id: 'abc' });
+      validateAll({
+        query: { limit: { type: 'number', max: 100 } },
+        params: { id: { type: 'number' } },
+      })(req, mockResponse, mockNext);
+
+      expect(mockNext).not.toHaveBeenCalled();
+      const [error] = mockResponse.fail.mock.calls[0];
+      expect(error.details.errors.map((err: { field: string }) => err.field)).toEqual(['query.limit', 'params.id']);
+    });
+  });
+});
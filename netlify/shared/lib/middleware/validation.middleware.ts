@@ -3,14 +3,17 @@
  * Request/response validation with comprehensive error handling
  */
 
-import type { ExpressRequest, ExpressResponse } from '../types/router.types.ts';
+import type { ExpressRequest, ExpressResponse, RequestValue } from '../types/router.types.ts';
+import type { JsonSchema } from '../types/json-schema.types.ts';
 import { HTTP_STATUS } from '../constants/http.constants.ts';
+import { dereferenceSchema, validateJsonSchema } from '../utils/json-schema.utils.ts';
 
 // Validation rule types
 export type ValidationRule = 
   | { type: 'string'; required?: boolean; minLength?: number; maxLength?: number; pattern?: RegExp }
   | { type: 'number'; required?: boolean; min?: number; max?: number; integer?: boolean }
   | { type: 'boolean'; required?: boolean }
+  | { type: 'date'; required?: boolean; min?: Date; max?: Date }
   | { type: 'array'; required?: boolean; items?: ValidationRule }
   | { type: 'object'; required?: boolean; properties?: Record<string, ValidationRule> };
 
@@ -32,6 +35,9 @@ export interface ValidationSchema {
   [key: string]: ValidationRule;
 }
 
+// Request schema - field rules, or a JSON Schema describing the whole body/query/params object
+export type RequestSchema = ValidationSchema | JsonSchema;
+
 // Custom validation function
 export type CustomValidator = (value: unknown, data: Record<string, unknown>) => string | null;
 
@@ -148,6 +154,35 @@ function validateValue(
       }
       break;
 
+    case 'date':
+      if (!(value instanceof Date) || isNaN(value.getTime())) {
+        return {
+          field: fieldName,
+          message: `${fieldName} must be a valid date`,
+          code: 'INVALID_TYPE',
+          value
+        };
+      }
+
+      if (rule.min !== undefined && value < rule.min) {
+        return {
+          field: fieldName,
+          message: `${fieldName} must not be before ${rule.min.toISOString()}`,
+          code: 'DATE_TOO_EARLY',
+          value
+        };
+      }
+
+      if (rule.max !== undefined && value > rule.max) {
+        return {
+          field: fieldName,
+          message: `${fieldName} must not be after ${rule.max.toISOString()}`,
+          code: 'DATE_TOO_LATE',
+          value
+        };
+      }
+      break;
+
     case 'array':
       if (!Array.isArray(value)) {
         return {
@@ -193,10 +228,179 @@ function validateValue(
   return null;
 }
 
+/**
+ * Convert a string from the URL to the type a rule expects
+ * Values that cannot be converted are returned unchanged so validation reports them
+ */
+function coerceValue(value: RequestValue, rule: ValidationRule): RequestValue {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  switch (rule.type) {
+    case 'number': {
+      const number = value.trim() === '' ? NaN : Number(value);
+      return isNaN(number) ? value : number;
+    }
+
+    case 'boolean':
+      if (value === 'true' || value === '1') {
+        return true;
+      }
+      if (value === 'false' || value === '0') {
+        return false;
+      }
+      return value;
+
+    case 'date': {
+      const date = new Date(value);
+      return value.trim() === '' || isNaN(date.getTime()) ? value : date;
+    }
+
+    case 'array': {
+      // A single occurrence may hold a comma separated list
+      const items = value === '' ? [] : value.split(',');
+      return items.map(item => (rule.items ? coerceValue(item, rule.items) : item));
+    }
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Coerce the schema's fields of a query or params record
+ * Array fields collect repeated keys (?tag=a&tag=b) from the search params when given
+ */
+function coerceData(
+  data: Record<string, RequestValue>,
+  schema: RequestSchema,
+  searchParams?: URLSearchParams
+): Record<string, RequestValue> {
+  const coerced = { ...data };
+  const rules = isJsonSchema(schema) ? toCoercionRules(schema) : schema;
+
+  for (const [fieldName, rule] of Object.entries(rules)) {
+    const repeated = rule.type === 'array' ? searchParams?.getAll(fieldName) ?? [] : [];
+    const value = repeated.length > 1 ? repeated : data[fieldName];
+    if (value === undefined) {
+      continue;
+    }
+
+    coerced[fieldName] = Array.isArray(value) && rule.type === 'array'
+      ? value.flatMap(item => coerceValue(item, rule))
+      : coerceValue(value, rule);
+  }
+
+  return coerced;
+}
+
+// Types a field rule can declare
+const VALIDATION_RULE_TYPES: ReadonlySet<unknown> = new Set(['string', 'number', 'boolean', 'date', 'array', 'object']);
+
+/**
+ * Tell JSON Schemas from field rule maps
+ * A rule map holds nothing but rule objects, so any other value (a type name, a required list,
+ * an enum, a const or a properties map) can only come from a JSON Schema
+ */
+export function isJsonSchema(schema: RequestSchema): schema is JsonSchema {
+  return !Object.values(schema).every(
+    value =>
+      typeof value === 'object' &&
+      value !== null &&
+      !Array.isArray(value) &&
+      VALIDATION_RULE_TYPES.has((value as { type?: unknown }).type)
+  );
+}
+
+/**
+ * Describe a field rule as JSON Schema
+ */
+function ruleToJsonSchema(rule: ValidationRule): JsonSchema {
+  switch (rule.type) {
+    case 'string':
+      return {
+        type: 'string',
+        ...(rule.minLength !== undefined ? { minLength: rule.minLength } : {}),
+        ...(rule.maxLength !== undefined ? { maxLength: rule.maxLength } : {}),
+        ...(rule.pattern !== undefined ? { pattern: rule.pattern.source } : {}),
+      };
+    case 'number':
+      return {
+        type: rule.integer === true ? 'integer' : 'number',
+        ...(rule.min !== undefined ? { minimum: rule.min } : {}),
+        ...(rule.max !== undefined ? { maximum: rule.max } : {}),
+      };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'date':
+      return { type: 'string', format: 'date-time' };
+    case 'array':
+      return { type: 'array', ...(rule.items !== undefined ? { items: ruleToJsonSchema(rule.items) } : {}) };
+    case 'object':
+      return rule.properties !== undefined ? toJsonSchema(rule.properties) : { type: 'object' };
+  }
+}
+
+/**
+ * Describe a request schema as JSON Schema (used for the OpenAPI document)
+ */
+export function toJsonSchema(schema: RequestSchema): JsonSchema {
+  if (isJsonSchema(schema)) {
+    return schema;
+  }
+
+  const required = Object.entries(schema)
+    .filter(([, rule]) => rule.required === true)
+    .map(([fieldName]) => fieldName);
+
+  return {
+    type: 'object',
+    properties: Object.fromEntries(
+      Object.entries(schema).map(([fieldName, rule]) => [fieldName, ruleToJsonSchema(rule)])
+    ),
+    ...(required.length > 0 ? { required } : {}),
+  };
+}
+
+/**
+ * Derive the rule used to coerce a URL string from a JSON Schema property
+ */
+function toCoercionRule(root: JsonSchema, property: JsonSchema): ValidationRule {
+  const schema = dereferenceSchema(root, property);
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+
+  if (types.includes('number') || types.includes('integer')) {
+    return { type: 'number' };
+  }
+  if (types.includes('boolean')) {
+    return { type: 'boolean' };
+  }
+  if (types.includes('array')) {
+    return { type: 'array', items: schema.items ? toCoercionRule(root, schema.items) : undefined };
+  }
+  return { type: 'string' };
+}
+
+/**
+ * Rules for coercing the top-level properties of a JSON Schema
+ */
+function toCoercionRules(schema: JsonSchema): ValidationSchema {
+  const properties = dereferenceSchema(schema, schema).properties ?? {};
+  return Object.fromEntries(
+    Object.entries(properties).map(([fieldName, property]) => [fieldName, toCoercionRule(schema, property)])
+  );
+}
+
 /**
  * Validate data against schema
  */
-function validateData(data: Record<string, unknown>, schema: ValidationSchema): ValidationResult {
+function validateData(data: Record<string, unknown>, schema: RequestSchema): ValidationResult {
+  if (isJsonSchema(schema)) {
+    const jsonErrors = validateJsonSchema(data, schema);
+    return { isValid: jsonErrors.length === 0, errors: jsonErrors };
+  }
+
   const errors: ValidationErrorItem[] = [];
 
   for (const [fieldName, rule] of Object.entries(schema)) {
@@ -215,21 +419,14 @@ function validateData(data: Record<string, unknown>, schema: ValidationSchema):
 /**
  * Create body validation middleware
  */
-export function validateBody(schema: ValidationSchema): (req: ExpressRequest, res: ExpressResponse, next: () => void) => void {
+export function validateBody(schema: RequestSchema): (req: ExpressRequest, res: ExpressResponse, next: () => void) => void {
   return (req: ExpressRequest, res: ExpressResponse, next: () => void): void => {
     const body = req.body;
 
     if (!body || typeof body !== 'object') {
-      res.status(HTTP_STATUS.BAD_REQUEST).json({
-        status: 'error',
-        error: {
-          code: 'INVALID_BODY',
-          message: 'Request body must be a valid JSON object',
-        },
-        metadata: {
-          timestamp: new Date().toISOString(),
-          processingTimeMs: 0,
-        },
+      res.status(HTTP_STATUS.BAD_REQUEST).fail({
+        code: 'INVALID_BODY',
+        message: 'Request body must be a valid JSON object',
       });
       return;
     }
@@ -237,19 +434,12 @@ export function validateBody(schema: ValidationSchema): (req: ExpressRequest, re
     const result = validateData(body as Record<string, unknown>, schema);
 
     if (!result.isValid) {
-      res.status(HTTP_STATUS.BAD_REQUEST).json({
-        status: 'error',
-        error: {
-          code: 'VALIDATION_FAILED',
-          message: 'Request validation failed',
-          details: {
-            errors: result.errors
-          }
-        },
-        metadata: {
-          timestamp: new Date().toISOString(),
-          processingTimeMs: 0,
-        },
+      res.status(HTTP_STATUS.BAD_REQUEST).fail({
+        code: 'VALIDATION_FAILED',
+        message: 'Request validation failed',
+        details: {
+          errors: result.errors
+        }
       });
       return;
     }
@@ -260,103 +450,82 @@ export function validateBody(schema: ValidationSchema): (req: ExpressRequest, re
 
 /**
  * Create query validation middleware
+ * Values are coerced to the schema's types and written back to req.query
  */
-export function validateQuery(schema: ValidationSchema): (req: ExpressRequest, res: ExpressResponse, next: () => void) => void {
+export function validateQuery(schema: RequestSchema): (req: ExpressRequest, res: ExpressResponse, next: () => void) => void {
   return (req: ExpressRequest, res: ExpressResponse, next: () => void): void => {
     const query = req.query;
 
     if (!query || typeof query !== 'object') {
-      res.status(HTTP_STATUS.BAD_REQUEST).json({
-        status: 'error',
-        error: {
-          code: 'INVALID_QUERY',
-          message: 'Query parameters must be valid',
-        },
-        metadata: {
-          timestamp: new Date().toISOString(),
-          processingTimeMs: 0,
-        },
+      res.status(HTTP_STATUS.BAD_REQUEST).fail({
+        code: 'INVALID_QUERY',
+        message: 'Query parameters must be valid',
       });
       return;
     }
 
-    const result = validateData(query, schema);
+    const coerced = coerceData(query, schema, new URL(req.url).searchParams);
+    const result = validateData(coerced, schema);
 
     if (!result.isValid) {
-      res.status(HTTP_STATUS.BAD_REQUEST).json({
-        status: 'error',
-        error: {
-          code: 'QUERY_VALIDATION_FAILED',
-          message: 'Query parameter validation failed',
-          details: {
-            errors: result.errors
-          }
-        },
-        metadata: {
-          timestamp: new Date().toISOString(),
-          processingTimeMs: 0,
-        },
+      res.status(HTTP_STATUS.BAD_REQUEST).fail({
+        code: 'QUERY_VALIDATION_FAILED',
+        message: 'Query parameter validation failed',
+        details: {
+          errors: result.errors
+        }
       });
       return;
     }
 
+    req.query = coerced;
     next();
   };
 }
 
 /**
  * Create params validation middleware
+ * Values are coerced to the schema's types and written back to req.params
  */
-export function validateParams(schema: ValidationSchema): (req: ExpressRequest, res: ExpressResponse, next: () => void) => void {
+export function validateParams(schema: RequestSchema): (req: ExpressRequest, res: ExpressResponse, next: () => void) => void {
   return (req: ExpressRequest, res: ExpressResponse, next: () => void): void => {
     const params = req.params;
 
     if (!params || typeof params !== 'object') {
-      res.status(HTTP_STATUS.BAD_REQUEST).json({
-        status: 'error',
-        error: {
-          code: 'INVALID_PARAMS',
-          message: 'Route parameters must be valid',
-        },
-        metadata: {
-          timestamp: new Date().toISOString(),
-          processingTimeMs: 0,
-        },
+      res.status(HTTP_STATUS.BAD_REQUEST).fail({
+        code: 'INVALID_PARAMS',
+        message: 'Route parameters must be valid',
       });
       return;
     }
 
-    const result = validateData(params, schema);
+    const coerced = coerceData(params, schema);
+    const result = validateData(coerced, schema);
 
     if (!result.isValid) {
-      res.status(HTTP_STATUS.BAD_REQUEST).json({
-        status: 'error',
-        error: {
-          code: 'PARAMS_VALIDATION_FAILED',
-          message: 'Route parameter validation failed',
-          details: {
-            errors: result.errors
-          }
-        },
-        metadata: {
-          timestamp: new Date().toISOString(),
-          processingTimeMs: 0,
-        },
+      res.status(HTTP_STATUS.BAD_REQUEST).fail({
+        code: 'PARAMS_VALIDATION_FAILED',
+        message: 'Route parameter validation failed',
+        details: {
+          errors: result.errors
+        }
       });
       return;
     }
 
+    req.params = coerced;
     next();
   };
 }
 
 /**
  * Create combined validation middleware
+ * Coerced query and params values are written back once everything is valid
  */
 export function validateAll(config: {
-  body?: ValidationSchema;
-  query?: ValidationSchema;
-  params?: ValidationSchema;
+  body?: RequestSchema;
+  query?: RequestSchema;
+  params?: RequestSchema;
 }): (req: ExpressRequest, res: ExpressResponse, next: () => void) => void {
   return (req: ExpressRequest, res: ExpressResponse, next: () => void): void => {
     const errors: ValidationErrorItem[] = [];
@@ -370,39 +539,38 @@ export function validateAll(config: {
     }
 
     // Validate query
+    let query = req.query;
     if (config.query && req.query) {
-      const queryResult = validateData(req.query, config.query);
+      query = coerceData(req.query, config.query, new URL(req.url).searchParams);
+      const queryResult = validateData(query, config.query);
       if (!queryResult.isValid) {
         errors.push(...queryResult.errors.map(err => ({ ...err, field: `query.${err.field}` })));
       }
     }
 
     // Validate params
+    let params = req.params;
     if (config.params && req.params) {
-      const paramsResult = validateData(req.params, config.params);
+      params = coerceData(req.params, config.params);
+      const paramsResult = validateData(params, config.params);
       if (!paramsResult.isValid) {
         errors.push(...paramsResult.errors.map(err => ({ ...err, field: `params.${err.field}` })));
       }
     }
 
     if (errors.length > 0) {
-      res.status(HTTP_STATUS.BAD_REQUEST).json({
-        status: 'error',
-        error: {
-          code: 'VALIDATION_FAILED',
-          message: 'Request validation failed',
-          details: {
-            errors
-          }
-        },
-        metadata: {
-          timestamp: new Date().toISOString(),
-          processingTimeMs: 0,
-        },
+      res.status(HTTP_STATUS.BAD_REQUEST).fail({
+        code: 'VALIDATION_FAILED',
+        message: 'Request validation failed',
+        details: {
+          errors
+        }
       });
       return;
     }
 
+    req.query = query;
+    req.params = params;
     next();
   };
 }
@@ -419,8 +587,8 @@ export const commonSchemas = {
   
   // Pagination
   pagination: {
-    page: { type: 'number' as const, required: false, min: 1 },
-    limit: { type: 'number' as const, required: false, min: 1, max: 100 }
+    page: { type: 'number' as const, required: false, min: 1, integer: true },
+    limit: { type: 'number' as const, required: false, min: 1, max: 100, integer: true }
   },
   
   // User ID
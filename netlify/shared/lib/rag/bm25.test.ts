@@ -0,0 +1,59 @@
+/**
+ * BM25 Keyword Index Tests
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Bm25Index } from './bm25';
+
+describe('Bm25Index', () => {
+  let index: Bm25Index;
+
+  beforeEach(() => {
+    index = new Bm25Index();
+    index.add([
+      { id: 'a:0', documentId: 'a', text: 'The server returned ERR_CONN_RESET while uploading', metadata: { tags: ['errors'] } },
+      { id: 'a:1', documentId: 'a', text: 'Retry the upload after the connection is restored', metadata: { tags: ['errors'] } },
+      { id: 'b:0', documentId: 'b', text: 'Call createRouter() to build a router, then router.get for routes', metadata: { tags: ['api'] } },
+      { id: 'c:0', documentId: 'c', text: 'Uploading large files: upload upload upload in chunks', metadata: { tags: [] } },
+    ]);
+  });
+
+  it('should find exact identifiers and error codes', () => {
+    expect(index.search('ERR_CONN_RESET').map(result => result.id)).toEqual(['a:0']);
+    expect(index.search('createRouter').map(result => result.id)).toEqual(['b:0']);
+  });
+
+  it('should rank higher term frequency first and ignore non-matching records', () => {
+    const results = index.search('upload');
+
+    expect(results.map(result => result.id)).toEqual(['c:0', 'a:1']);
+    expect(results[0]?.score).toBeGreaterThan(results[1]?.score ?? 0);
+  });
+
+  it('should weight rare terms above common ones', () => {
+    const [top] = index.search('retry upload');
+    expect(top?.id).toBe('a:1');
+  });
+
+  it('should apply metadata filters, minScore and topK', () => {
+    expect(index.search('upload uploading', { filter: { tag: 'errors' } }).map(result => result.id).sort())
+      .toEqual(['a:0', 'a:1']);
+    expect(index.search('upload', { topK: 1 })).toHaveLength(1);
+    expect(index.search('upload', { minScore: 100 })).toEqual([]);
+    expect(() => index.search('upload', { topK: 0 })).toThrow(RangeError);
+  });
+
+  it('should remove and replace records', () => {
+    expect(index.removeByDocument('a')).toBe(2);
+    expect(index.search('ERR_CONN_RESET')).toEqual([]);
+    expect(index.size()).toBe(2);
+
+    index.add([{ id: 'b:0', documentId: 'b', text: 'Replaced text about ERR_CONN_RESET' }]);
+    expect(index.search('createRouter')).toEqual([]);
+    expect(index.search('ERR_CONN_RESET').map(result => result.id)).toEqual(['b:0']);
+  });
+
+  it('should ignore stop-word-only queries', () => {
+    expect(index.search('the and of')).toEqual([]);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * BM25 Keyword Index
+ * Inverted index with Okapi BM25 scoring for exact term matches (error codes, identifiers)
+ */
+
+import { tokenize } from './tokenizer.ts';
+import {
+  createMetadataPredicate,
+  DEFAULT_TOP_K,
+  type MetadataPredicate,
+  type VectorMetadata,
+  type VectorSearchFilter,
+  type VectorSearchResult,
+} from './vector-store.ts';
+
+// Text unit to index - same identity and metadata as the vector records
+export interface KeywordRecord {
+  id: string;
+  documentId: string;
+  text: string;
+  metadata?: VectorMetadata;
+}
+
+export interface Bm25Options {
+  k1?: number;
+  b?: number;
+}
+
+export interface KeywordSearchOptions {
+  topK?: number;
+  minScore?: number;
+  filter?: VectorSearchFilter;
+  predicate?: MetadataPredicate;
+}
+
+// Standard Okapi BM25 parameters
+export const DEFAULT_BM25_K1 = 1.2;
+export const DEFAULT_BM25_B = 0.75;
+
+// Smoothing constants of the BM25 IDF formula
+const IDF_SMOOTHING = 0.5;
+
+interface IndexedText {
+  id: string;
+  documentId: string;
+  text: string;
+  metadata: VectorMetadata;
+  length: number;
+}
+
+/**
+ * In-memory BM25 inverted index
+ */
+export class Bm25Index {
+  private readonly k1: number;
+  private readonly b: number;
+  private entries = new Map<string, IndexedText>();
+  private postings = new Map<string, Map<string, number>>();
+  private documentIndex = new Map<string, Set<string>>();
+  private totalLength = 0;
+
+  constructor(options: Bm25Options = {}) {
+    this.k1 = options.k1 ?? DEFAULT_BM25_K1;
+    this.b = options.b ?? DEFAULT_BM25_B;
+  }
+
+  /**
+   * Add or replace records
+   */
+  add(records: KeywordRecord[]): void {
+    for (const record of records) {
+      this.remove(record.id);
+
+      const terms = tokenize(record.text, { removeStopWords: true });
+      const frequencies = new Map<string, number>();
+      for (const term of terms) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+      }
+      for (const [term, frequency] of frequencies) {
+        const posting = this.postings.get(term) ?? new Map<string, number>();
+        posting.set(record.id, frequency);
+        this.postings.set(term, posting);
+      }
+
+      this.entries.set(record.id, {
+        id: record.id,
+        documentId: record.documentId,
+        text: record.text,
+        metadata: record.metadata ?? {},
+        length: terms.length,
+      });
+      this.totalLength += terms.length;
+
+      const ids = this.documentIndex.get(record.documentId) ?? new Set<string>();
+      ids.add(record.id);
+      this.documentIndex.set(record.documentId, ids);
+    }
+  }
+
+  /**
+   * Remove every record of a document, returning how many were removed
+   */
+  removeByDocument(documentId: string): number {
+    const ids = [...(this.documentIndex.get(documentId) ?? [])];
+    for (const id of ids) {
+      this.remove(id);
+    }
+    return ids.length;
+  }
+
+  /**
+   * Rank records by BM25 score (records without any query term are never returned)
+   */
+  search(query: string, options: KeywordSearchOptions = {}): VectorSearchResult[] {
+    const { topK = DEFAULT_TOP_K, minScore } = options;
+    if (!Number.isInteger(topK) || topK < 1) {
+      throw new RangeError('topK must be a positive integer');
+    }
+
+    const matches = createMetadataPredicate(options.filter, options.predicate);
+    const averageLength = this.entries.size > 0 ? this.totalLength / this.entries.size : 0;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(tokenize(query, { removeStopWords: true }))) {
+      const posting = this.postings.get(term);
+      if (posting === undefined) {
+        continue;
+      }
+
+      const idf = Math.log(
+        1 + (this.entries.size - posting.size + IDF_SMOOTHING) / (posting.size + IDF_SMOOTHING)
+      );
+      for (const [id, frequency] of posting) {
+        const length = this.entries.get(id)?.length ?? 0;
+        const normalisation = this.k1 * (1 - this.b + this.b * (averageLength > 0 ? length / averageLength : 0));
+        scores.set(id, (scores.get(id) ?? 0) + idf * (frequency * (this.k1 + 1)) / (frequency + normalisation));
+      }
+    }
+
+    const results: VectorSearchResult[] = [];
+    for (const [id, score] of scores) {
+      const entry = this.entries.get(id);
+      if (entry === undefined || (minScore !== undefined && score < minScore)) {
+        continue;
+      }
+
+      const result: VectorSearchResult = {
+        id,
+        documentId: entry.documentId,
+        score,
+        text: entry.text,
+        metadata: entry.metadata,
+      };
+      if (matches(entry.metadata, result)) {
+        results.push(result);
+      }
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+      .slice(0, topK);
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.postings.clear();
+    this.documentIndex.clear();
+    this.totalLength = 0;
+  }
+
+  private remove(id: string): void {
+    const existing = this.entries.get(id);
+    if (existing === undefined) {
+      return;
+    }
+
+    for (const term of new Set(tokenize(existing.text, { removeStopWords: true }))) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.entries.delete(id);
+    this.totalLength -= existing.length;
+
+    const ids = this.documentIndex.get(existing.documentId);
+    ids?.delete(id);
+    if (ids?.size === 0) {
+      this.documentIndex.delete(existing.documentId);
+    }
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Chunking Module Tests
+ * Covers fixed, sentence and markdown strategies and offset bookkeeping
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  chunkDocument,
+  chunkText,
+  createChunkingStrategy,
+  createFixedSizeStrategy,
+  createMarkdownStrategy,
+  createSentenceStrategy,
+  type ChunkingStrategy,
+  type TextChunk,
+} from './chunking';
+
+const expectOffsetsToMatch = (source: string, chunks: TextChunk[]): void => {
+  for (const chunk of chunks) {
+    expect(source.slice(chunk.start, chunk.end)).toBe(chunk.text);
+  }
+};
+
+describe('Chunking', () => {
+  describe('createFixedSizeStrategy', () => {
+    it('should split text into windows no longer than chunkSize', () => {
+      const text = 'alpha beta gamma delta epsilon zeta eta theta iota kappa lambda mu';
+      const chunks = chunkText('doc', text, createFixedSizeStrategy({ chunkSize: 20, chunkOverlap: 5 }));
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(chunk.text.length).toBeLessThanOrEqual(20);
+        expect(chunk.headingPath).toEqual([]);
+      }
+      expectOffsetsToMatch(text, chunks);
+    });
+
+    it('should overlap consecutive windows', () => {
+      const text = 'a'.repeat(50);
+      const chunks = chunkText('doc', text, createFixedSizeStrategy({ chunkSize: 20, chunkOverlap: 5 }));
+
+      expect(chunks.map(chunk => [chunk.start, chunk.end])).toEqual([
+        [0, 20],
+        [15, 35],
+        [30, 50],
+      ]);
+    });
+
+    it('should reject an overlap that is not smaller than the chunk size', () => {
+      expect(() => createFixedSizeStrategy({ chunkSize: 10, chunkOverlap: 10 })).toThrow(RangeError);
+      expect(() => createFixedSizeStrategy({ chunkSize: 0 })).toThrow(RangeError);
+    });
+  });
+
+  describe('createSentenceStrategy', () => {
+    it('should keep sentences whole when packing chunks', () => {
+      const text = 'First sentence here. Second one follows! Third asks why? Fourth ends it.';
+      const chunks = chunkText('doc', text, createSentenceStrategy({ chunkSize: 45, chunkOverlap: 0 }));
+
+      expect(chunks.map(chunk => chunk.text)).toEqual([
+        'First sentence here. Second one follows!',
+        'Third asks why? Fourth ends it.',
+      ]);
+      expectOffsetsToMatch(text, chunks);
+    });
+
+    it('should carry trailing sentences as overlap', () => {
+      const text = 'One two. Three four. Five six. Seven eight.';
+      const chunks = chunkText('doc', text, createSentenceStrategy({ chunkSize: 22, chunkOverlap: 12 }));
+
+      expect(chunks[0]?.text).toBe('One two. Three four.');
+      expect(chunks[1]?.text).toBe('Three four. Five six.');
+    });
+
+    it('should treat paragraphs as boundaries', () => {
+      const text = 'Paragraph one\n\nParagraph two';
+      const chunks = chunkText('doc', text, createSentenceStrategy({ chunkSize: 15, chunkOverlap: 0 }));
+
+      expect(chunks.map(chunk => chunk.text)).toEqual(['Paragraph one', 'Paragraph two']);
+    });
+
+    it('should fall back to fixed windows for very long sentences', () => {
+      const text = `${'word '.repeat(30)}end.`;
+      const chunks = chunkText('doc', text, createSentenceStrategy({ chunkSize: 40, chunkOverlap: 0 }));
+
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach(chunk => expect(chunk.text.length).toBeLessThanOrEqual(40));
+    });
+  });
+
+  describe('createMarkdownStrategy', () => {
+    const markdown = [
+      'Intro text.',
+      '',
+      '# Guide',
+      '',
+      '## Install',
+      'Run npm install.',
+      '',
+      '```bash',
+      '# not a heading',
+      '```',
+      '',
+      '## Usage',
+      'Call the API.',
+      '',
+      '# Appendix',
+      'Extra notes.',
+    ].join('\n');
+
+    it('should split on headings and record the heading path', () => {
+      const chunks = chunkText('doc', markdown, createMarkdownStrategy({ chunkSize: 200 }));
+
+      expect(chunks.map(chunk => chunk.headingPath)).toEqual([
+        [],
+        ['Guide', 'Install'],
+        ['Guide', 'Usage'],
+        ['Appendix'],
+      ]);
+      expect(chunks[1]?.text).toContain('# not a heading');
+      expectOffsetsToMatch(markdown, chunks);
+    });
+
+    it('should split oversized sections while keeping their heading path', () => {
+      const longSection = `# Big\n${'Sentence number one. '.repeat(10)}`;
+      const chunks = chunkText('doc', longSection, createMarkdownStrategy({ chunkSize: 60, chunkOverlap: 0 }));
+
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach(chunk => expect(chunk.headingPath).toEqual(['Big']));
+      expectOffsetsToMatch(longSection, chunks);
+    });
+  });
+
+  describe('chunkText', () => {
+    it('should assign ids, indexes and the document id', () => {
+      const chunks = chunkText('doc-1', 'A. B.', createSentenceStrategy({ chunkSize: 2, chunkOverlap: 0 }));
+
+      expect(chunks.map(chunk => chunk.id)).toEqual(['doc-1:0', 'doc-1:1']);
+      expect(chunks.map(chunk => chunk.index)).toEqual([0, 1]);
+      chunks.forEach(chunk => expect(chunk.documentId).toBe('doc-1'));
+    });
+
+    it('should accept custom strategies', () => {
+      const everyLine: ChunkingStrategy = {
+        name: 'lines',
+        split: text => [{ start: 0, end: text.indexOf('\n'), headingPath: ['custom'] }],
+      };
+
+      const chunks = chunkText('doc', 'first\nsecond', everyLine);
+      expect(chunks).toEqual([
+        { id: 'doc:0', documentId: 'doc', index: 0, text: 'first', start: 0, end: 5, headingPath: ['custom'] },
+      ]);
+    });
+
+    it('should return no chunks for blank text', () => {
+      expect(chunkText('doc', '   \n\n  ')).toEqual([]);
+    });
+  });
+
+  describe('chunkDocument', () => {
+    it('should pick the markdown strategy for markdown documents', () => {
+      const chunks = chunkDocument({ id: 'md', content: '# Title\nBody', contentType: 'text/markdown' });
+      expect(chunks[0]?.headingPath).toEqual(['Title']);
+    });
+
+    it('should honour an explicit strategy', () => {
+      const chunks = chunkDocument(
+        { id: 'md', content: '# Title\nBody', contentType: 'text/markdown' },
+        { strategy: 'fixed' }
+      );
+      expect(chunks[0]?.headingPath).toEqual([]);
+    });
+  });
+
+  describe('createChunkingStrategy', () => {
+    it('should create built-in strategies by name', () => {
+      expect(createChunkingStrategy({ strategy: 'fixed' }).name).toBe('fixed');
+      expect(createChunkingStrategy({ strategy: 'markdown' }).name).toBe('markdown');
+      expect(createChunkingStrategy().name).toBe('sentence');
+    });
+  });
+});
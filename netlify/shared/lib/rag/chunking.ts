@@ -0,0 +1,388 @@
+/**
+ * Text Chunking
+ * Splits document text into retrievable chunks with stable character offsets
+ */
+
+import type { DocumentContentType } from '../types/document.types.ts';
+
+// A chunk of a document, ready for embedding and indexing
+export interface TextChunk {
+  id: string;
+  documentId: string;
+  index: number;
+  text: string;
+  start: number;
+  end: number;
+  headingPath: string[];
+}
+
+// Character range produced by a strategy (end is exclusive)
+export interface ChunkSpan {
+  start: number;
+  end: number;
+  headingPath: string[];
+}
+
+// Chunking strategy contract - implement this to plug in a custom splitter
+export interface ChunkingStrategy {
+  readonly name: string;
+  split(text: string): ChunkSpan[];
+}
+
+// Built-in strategy names
+export type ChunkingStrategyName = 'fixed' | 'sentence' | 'markdown';
+
+// Size options shared by the built-in strategies (measured in characters)
+export interface ChunkSizeOptions {
+  chunkSize?: number;
+  chunkOverlap?: number;
+}
+
+export interface ChunkingOptions extends ChunkSizeOptions {
+  strategy?: ChunkingStrategyName;
+}
+
+export const DEFAULT_CHUNK_SIZE = 800;
+export const DEFAULT_CHUNK_OVERLAP = 100;
+
+// Fixed-size windows only break on whitespace found in the second half of the window
+const WORD_BREAK_WINDOW_RATIO = 0.5;
+
+// Default overlap never exceeds half of a (small) chunk
+const MAX_DEFAULT_OVERLAP_RATIO = 0.5;
+
+// Capture groups of MARKDOWN_HEADING_PATTERN
+const HEADING_LEVEL_GROUP = 1;
+const HEADING_TITLE_GROUP = 2;
+
+// Sentence/paragraph boundaries: whitespace after terminal punctuation or any newline run
+const SENTENCE_BOUNDARY_PATTERN = /(?<=[.!?])\s+|\s*\n\s*/g;
+
+// ATX markdown headings (# Title) and fenced code block delimiters
+const MARKDOWN_HEADING_PATTERN = /^ {0,3}(#{1,6})\s+(.+?)\s*#*\s*$/;
+const MARKDOWN_FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Resolve and validate size options
+ */
+function resolveSizeOptions(options: ChunkSizeOptions): Required<ChunkSizeOptions> {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const chunkOverlap = options.chunkOverlap ?? Math.min(
+    DEFAULT_CHUNK_OVERLAP,
+    Math.floor(chunkSize * MAX_DEFAULT_OVERLAP_RATIO)
+  );
+
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+    throw new RangeError('chunkSize must be a positive integer');
+  }
+  if (!Number.isInteger(chunkOverlap) || chunkOverlap < 0 || chunkOverlap >= chunkSize) {
+    throw new RangeError('chunkOverlap must be a non-negative integer smaller than chunkSize');
+  }
+
+  return { chunkSize, chunkOverlap };
+}
+
+/**
+ * Shrink a range so it does not start or end with whitespace
+ */
+function trimSpan(
+  text: string,
+  start: number,
+  end: number,
+  headingPath: string[]
+): ChunkSpan | null {
+  let trimmedStart = start;
+  let trimmedEnd = end;
+
+  while (trimmedStart < trimmedEnd && /\s/.test(text[trimmedStart] ?? '')) {
+    trimmedStart++;
+  }
+  while (trimmedEnd > trimmedStart && /\s/.test(text[trimmedEnd - 1] ?? '')) {
+    trimmedEnd--;
+  }
+
+  return trimmedStart < trimmedEnd ? { start: trimmedStart, end: trimmedEnd, headingPath } : null;
+}
+
+/**
+ * Split a range into fixed-size overlapping windows, preferring word boundaries
+ */
+function splitFixed(
+  text: string,
+  rangeStart: number,
+  rangeEnd: number,
+  { chunkSize, chunkOverlap }: Required<ChunkSizeOptions>,
+  headingPath: string[]
+): ChunkSpan[] {
+  const spans: ChunkSpan[] = [];
+  let start = rangeStart;
+
+  while (start < rangeEnd) {
+    let end = Math.min(start + chunkSize, rangeEnd);
+
+    if (end < rangeEnd) {
+      const minBreak = start + Math.floor(chunkSize * WORD_BREAK_WINDOW_RATIO);
+      for (let i = end; i > minBreak; i--) {
+        if (/\s/.test(text[i] ?? '')) {
+          end = i;
+          break;
+        }
+      }
+    }
+
+    const span = trimSpan(text, start, end, headingPath);
+    if (span !== null) {
+      spans.push(span);
+    }
+
+    if (end >= rangeEnd) {
+      break;
+    }
+
+    // Always make progress, even when the overlap would step backwards past the start
+    const next = end - chunkOverlap;
+    start = next > start ? next : end;
+  }
+
+  return spans;
+}
+
+/**
+ * Split a range into sentence/paragraph units (whitespace-only units are dropped)
+ */
+function findSentenceUnits(text: string, rangeStart: number, rangeEnd: number): ChunkSpan[] {
+  const units: ChunkSpan[] = [];
+  const slice = text.slice(rangeStart, rangeEnd);
+  let unitStart = 0;
+
+  for (const match of slice.matchAll(SENTENCE_BOUNDARY_PATTERN)) {
+    const span = trimSpan(text, rangeStart + unitStart, rangeStart + match.index, []);
+    if (span !== null) {
+      units.push(span);
+    }
+    unitStart = match.index + match[0].length;
+  }
+
+  const last = trimSpan(text, rangeStart + unitStart, rangeEnd, []);
+  if (last !== null) {
+    units.push(last);
+  }
+
+  return units;
+}
+
+/**
+ * Pack sentence units greedily into chunks, carrying trailing sentences as overlap
+ */
+function splitSentences(
+  text: string,
+  rangeStart: number,
+  rangeEnd: number,
+  options: Required<ChunkSizeOptions>,
+  headingPath: string[]
+): ChunkSpan[] {
+  const { chunkSize, chunkOverlap } = options;
+  const spans: ChunkSpan[] = [];
+  let current: ChunkSpan[] = [];
+
+  const emit = (units: ChunkSpan[]): void => {
+    const first = units[0];
+    const last = units[units.length - 1];
+    if (first !== undefined && last !== undefined) {
+      spans.push({ start: first.start, end: last.end, headingPath });
+    }
+  };
+
+  for (const unit of findSentenceUnits(text, rangeStart, rangeEnd)) {
+    // Sentences longer than a chunk fall back to fixed windows
+    if (unit.end - unit.start > chunkSize) {
+      emit(current);
+      current = [];
+      spans.push(...splitFixed(text, unit.start, unit.end, options, headingPath));
+      continue;
+    }
+
+    const first = current[0];
+    if (first !== undefined && unit.end - first.start > chunkSize) {
+      emit(current);
+
+      const lastEnd = current[current.length - 1]?.end ?? unit.start;
+      let carry = current.filter(candidate => lastEnd - candidate.start <= chunkOverlap);
+      if (carry.length === current.length) {
+        carry = carry.slice(1);
+      }
+      while (carry.length > 0 && unit.end - (carry[0]?.start ?? unit.start) > chunkSize) {
+        carry = carry.slice(1);
+      }
+      current = carry;
+    }
+
+    current.push(unit);
+  }
+
+  emit(current);
+  return spans;
+}
+
+/**
+ * Find markdown sections delimited by headings, tracking the heading path
+ */
+function findMarkdownSections(text: string): Array<ChunkSpan & { bodyStart: number }> {
+  const sections: Array<ChunkSpan & { bodyStart: number }> = [];
+  const headingStack: Array<{ level: number; title: string }> = [];
+  let inFence: string | null = null;
+  let sectionStart = 0;
+  let bodyStart = 0;
+  let headingPath: string[] = [];
+  let offset = 0;
+
+  for (const line of text.split('\n')) {
+    const lineStart = offset;
+    offset += line.length + 1;
+
+    const fence = MARKDOWN_FENCE_PATTERN.exec(line);
+    if (fence !== null) {
+      const marker = fence[1] ?? '';
+      if (inFence === null) {
+        inFence = marker;
+      } else if (marker.startsWith(inFence)) {
+        inFence = null;
+      }
+      continue;
+    }
+
+    const heading = inFence === null ? MARKDOWN_HEADING_PATTERN.exec(line) : null;
+    if (heading === null) {
+      continue;
+    }
+
+    sections.push({ start: sectionStart, end: lineStart, headingPath, bodyStart });
+
+    const level = heading[HEADING_LEVEL_GROUP]?.length ?? 1;
+    while (headingStack.length > 0 && (headingStack[headingStack.length - 1]?.level ?? 0) >= level) {
+      headingStack.pop();
+    }
+    headingStack.push({ level, title: heading[HEADING_TITLE_GROUP] ?? '' });
+
+    headingPath = headingStack.map(entry => entry.title);
+    sectionStart = lineStart;
+    bodyStart = Math.min(offset, text.length);
+  }
+
+  sections.push({ start: sectionStart, end: text.length, headingPath, bodyStart });
+  return sections;
+}
+
+/**
+ * Fixed-size windows with character overlap
+ */
+export function createFixedSizeStrategy(options: ChunkSizeOptions = {}): ChunkingStrategy {
+  const sizeOptions = resolveSizeOptions(options);
+  return {
+    name: 'fixed',
+    split: text => splitFixed(text, 0, text.length, sizeOptions, []),
+  };
+}
+
+/**
+ * Sentence/paragraph-aware packing
+ */
+export function createSentenceStrategy(options: ChunkSizeOptions = {}): ChunkingStrategy {
+  const sizeOptions = resolveSizeOptions(options);
+  return {
+    name: 'sentence',
+    split: text => splitSentences(text, 0, text.length, sizeOptions, []),
+  };
+}
+
+/**
+ * Markdown heading-aware splitting
+ * Each section keeps its heading path; oversized sections are packed by sentence
+ */
+export function createMarkdownStrategy(options: ChunkSizeOptions = {}): ChunkingStrategy {
+  const sizeOptions = resolveSizeOptions(options);
+  return {
+    name: 'markdown',
+    split: text => {
+      const spans: ChunkSpan[] = [];
+
+      for (const section of findMarkdownSections(text)) {
+        // Skip sections that consist of a heading only
+        if (text.slice(section.bodyStart, section.end).trim() === '') {
+          continue;
+        }
+
+        const span = trimSpan(text, section.start, section.end, section.headingPath);
+        if (span === null) {
+          continue;
+        }
+
+        if (span.end - span.start <= sizeOptions.chunkSize) {
+          spans.push(span);
+        } else {
+          spans.push(...splitSentences(text, span.start, span.end, sizeOptions, section.headingPath));
+        }
+      }
+
+      return spans;
+    },
+  };
+}
+
+/**
+ * Create a built-in chunking strategy from options
+ */
+export function createChunkingStrategy(options: ChunkingOptions = {}): ChunkingStrategy {
+  const { strategy = 'sentence', ...sizeOptions } = options;
+
+  switch (strategy) {
+    case 'fixed':
+      return createFixedSizeStrategy(sizeOptions);
+    case 'markdown':
+      return createMarkdownStrategy(sizeOptions);
+    case 'sentence':
+      return createSentenceStrategy(sizeOptions);
+    default:
+      throw new RangeError(`Unknown chunking strategy: ${String(strategy)}`);
+  }
+}
+
+/**
+ * Default strategy for a document content type
+ */
+export function defaultStrategyFor(contentType: DocumentContentType): ChunkingStrategyName {
+  return contentType === 'text/markdown' ? 'markdown' : 'sentence';
+}
+
+/**
+ * Split text into chunks that reference the owning document
+ */
+export function chunkText(
+  documentId: string,
+  text: string,
+  strategy: ChunkingStrategy = createSentenceStrategy()
+): TextChunk[] {
+  return strategy.split(text).map((span, index) => ({
+    id: `${documentId}:${index}`,
+    documentId,
+    index,
+    text: text.slice(span.start, span.end),
+    start: span.start,
+    end: span.end,
+    headingPath: span.headingPath,
+  }));
+}
+
+/**
+ * Chunk a document using the strategy suited to its content type unless one is given
+ */
+export function chunkDocument(
+  document: { id: string; content: string; contentType: DocumentContentType },
+  options: ChunkingOptions = {}
+): TextChunk[] {
+  const strategy = createChunkingStrategy({
+    ...options,
+    strategy: options.strategy ?? defaultStrategyFor(document.contentType),
+  });
+  return chunkText(document.id, document.content, strategy);
+}
@@ -0,0 +1,167 @@
+/**
+ * Embedding Providers Tests
+ * Hashing embeddings must be reproducible so retrieval can be asserted offline
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createEmbeddingProvider,
+  embeddingConfigFromEnv,
+  fnv1a,
+  HashingEmbeddingProvider,
+  RemoteEmbeddingProvider,
+} from './embeddings';
+import { cosineSimilarity, vectorNorm } from './vector-math';
+
+describe('Embedding Providers', () => {
+  describe('fnv1a', () => {
+    it('should match the reference FNV-1a 32-bit values', () => {
+      expect(fnv1a('')).toBe(0x811c9dc5);
+      expect(fnv1a('a')).toBe(0xe40c292c);
+      expect(fnv1a('foobar')).toBe(0xbf9cf968);
+    });
+  });
+
+  describe('HashingEmbeddingProvider', () => {
+    const provider = new HashingEmbeddingProvider({ dimension: 64 });
+
+    it('should return one unit vector of the configured dimension per text', async () => {
+      const vectors = await provider.embed(['first text', 'second text']);
+
+      expect(vectors).toHaveLength(2);
+      for (const vector of vectors) {
+        expect(vector).toHaveLength(64);
+        expect(vectorNorm(vector)).toBeCloseTo(1, 10);
+      }
+    });
+
+    it('should be deterministic across instances', async () => {
+      const [first] = await provider.embed(['Reproducible embeddings for CI']);
+      const [second] = await new HashingEmbeddingProvider({ dimension: 64 }).embed([
+        'Reproducible embeddings for CI',
+      ]);
+
+      expect(second).toEqual(first);
+    });
+
+    it('should produce a stable vector fingerprint', () => {
+      const vector = new HashingEmbeddingProvider({ dimension: 16 }).embedText('hello world');
+      const nonZero = vector.flatMap((value, index) => (value !== 0 ? [index] : []));
+
+      expect(nonZero).toEqual([2, 3, 5, 6, 7, 9, 10, 11, 12, 13]);
+      expect(vector.map(value => Number(value.toFixed(6)))).toEqual([
+        0, 0, -0.5, 0.333333, 0, 0.166667, -0.166667, 0.166667,
+        0, 0.166667, -0.166667, 0.666667, -0.166667, 0.166667, 0, 0,
+      ]);
+    });
+
+    it('should rank related texts above unrelated ones', async () => {
+      const [query, related, unrelated] = await provider.embed([
+        'how to configure the vector index',
+        'Configuring the vector index for search',
+        'Chocolate cake recipe with strawberries',
+      ]);
+
+      expect(cosineSimilarity(query ?? [], related ?? [])).toBeGreaterThan(
+        cosineSimilarity(query ?? [], unrelated ?? [])
+      );
+    });
+
+    it('should ignore case and punctuation', async () => {
+      const [a, b] = await provider.embed(['Error ERR_42!', 'error err_42']);
+      expect(a).toEqual(b);
+    });
+
+    it('should return a zero vector for empty text', async () => {
+      const [vector] = await provider.embed(['']);
+      expect(vector?.every(value => value === 0)).toBe(true);
+    });
+
+    it('should reject invalid dimensions', () => {
+      expect(() => new HashingEmbeddingProvider({ dimension: 0 })).toThrow(RangeError);
+    });
+  });
+
+  describe('RemoteEmbeddingProvider', () => {
+    const jsonResponse = (body: unknown, status = 200): Response =>
+      new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+    it('should call an OpenAI-compatible endpoint in batches', async () => {
+      const fetchMock = vi.fn(async (_url: string | URL | Request, init?: RequestInit) => {
+        const { input } = JSON.parse(String(init?.body)) as { input: string[] };
+        return jsonResponse({
+          data: input.map((_text, index) => ({ index, embedding: [index, 1] })).reverse(),
+        });
+      });
+
+      const provider = new RemoteEmbeddingProvider({
+        endpoint: 'https://embeddings.test/v1/embeddings',
+        model: 'test-model',
+        dimension: 2,
+        apiKey: 'secret',
+        batchSize: 2,
+        fetch: fetchMock as unknown as typeof fetch,
+      });
+
+      const vectors = await provider.embed(['a', 'b', 'c']);
+
+      expect(vectors).toEqual([[0, 1], [1, 1], [0, 1]]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      const [, init] = fetchMock.mock.calls[0] ?? [];
+      expect(new Headers(init?.headers).get('Authorization')).toBe('Bearer secret');
+      expect(JSON.parse(String(init?.body))).toEqual({ model: 'test-model', input: ['a', 'b'] });
+    });
+
+    it('should support custom request and response adapters', async () => {
+      const fetchMock = vi.fn(async () => jsonResponse({ vectors: [[1, 2, 3]] }));
+      const provider = new RemoteEmbeddingProvider({
+        endpoint: 'https://embeddings.test/embed',
+        model: 'custom',
+        dimension: 3,
+        fetch: fetchMock as unknown as typeof fetch,
+        buildRequestBody: texts => ({ texts }),
+        parseResponse: body => (body as { vectors: number[][] }).vectors,
+      });
+
+      expect(await provider.embed(['x'])).toEqual([[1, 2, 3]]);
+    });
+
+    it('should fail on HTTP errors and dimension mismatches', async () => {
+      const failing = new RemoteEmbeddingProvider({
+        endpoint: 'https://embeddings.test',
+        model: 'm',
+        dimension: 2,
+        fetch: (async () => jsonResponse({}, 500)) as unknown as typeof fetch,
+      });
+      await expect(failing.embed(['x'])).rejects.toThrow('HTTP 500');
+
+      const mismatched = new RemoteEmbeddingProvider({
+        endpoint: 'https://embeddings.test',
+        model: 'm',
+        dimension: 2,
+        fetch: (async () => jsonResponse({ data: [{ embedding: [1, 2, 3] }] })) as unknown as typeof fetch,
+      });
+      await expect(mismatched.embed(['x'])).rejects.toThrow('dimension 2');
+    });
+  });
+
+  describe('createEmbeddingProvider', () => {
+    it('should default to the hashing provider', () => {
+      const provider = createEmbeddingProvider({ provider: 'hashing' });
+      expect(provider).toBeInstanceOf(HashingEmbeddingProvider);
+      expect(provider.dimension).toBe(384);
+    });
+
+    it('should read remote configuration from the environment', () => {
+      const config = embeddingConfigFromEnv({
+        EMBEDDING_PROVIDER: 'remote',
+        EMBEDDING_ENDPOINT: 'https://embeddings.test',
+        EMBEDDING_MODEL: 'model',
+        EMBEDDING_DIMENSION: '8',
+      });
+
+      expect(createEmbeddingProvider(config)).toBeInstanceOf(RemoteEmbeddingProvider);
+      expect(() => embeddingConfigFromEnv({ EMBEDDING_PROVIDER: 'remote' })).toThrow();
+    });
+  });
+});
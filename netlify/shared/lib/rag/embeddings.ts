@@ -0,0 +1,263 @@
+/**
+ * Embedding Providers
+ * Turn text into fixed-dimension vectors for similarity search
+ */
+
+import { tokenize } from './tokenizer.ts';
+import { normalizeVector } from './vector-math.ts';
+
+// Embedding provider contract - every vector returned has exactly `dimension` entries
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly dimension: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Feature-hashing provider options
+export interface HashingEmbeddingOptions {
+  dimension?: number;
+  wordNgrams?: number;
+  charNgramSize?: number;
+  charNgramWeight?: number;
+}
+
+// Remote (HTTP) provider options - defaults follow the OpenAI-compatible embeddings API
+export interface RemoteEmbeddingOptions {
+  endpoint: string;
+  model: string;
+  dimension: number;
+  apiKey?: string;
+  batchSize?: number;
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+  buildRequestBody?: (texts: string[], model: string) => unknown;
+  parseResponse?: (body: unknown) => number[][];
+}
+
+export type EmbeddingProviderConfig =
+  | ({ provider: 'hashing' } & HashingEmbeddingOptions)
+  | ({ provider: 'remote' } & RemoteEmbeddingOptions);
+
+export const DEFAULT_EMBEDDING_DIMENSION = 384;
+const DEFAULT_WORD_NGRAMS = 2;
+const DEFAULT_CHAR_NGRAM_SIZE = 3;
+const DEFAULT_CHAR_NGRAM_WEIGHT = 0.5;
+const DEFAULT_REMOTE_BATCH_SIZE = 64;
+
+// 32-bit FNV-1a parameters
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+/**
+ * 32-bit FNV-1a hash (stable across runs and platforms)
+ */
+export function fnv1a(input: string): number {
+  let hash = FNV_OFFSET_BASIS;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, FNV_PRIME);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic, dependency-free embeddings via feature hashing
+ * Word n-grams and character n-grams are hashed into a signed, L2-normalised vector
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing';
+  readonly dimension: number;
+  private readonly wordNgrams: number;
+  private readonly charNgramSize: number;
+  private readonly charNgramWeight: number;
+
+  constructor(options: HashingEmbeddingOptions = {}) {
+    this.dimension = options.dimension ?? DEFAULT_EMBEDDING_DIMENSION;
+    this.wordNgrams = options.wordNgrams ?? DEFAULT_WORD_NGRAMS;
+    this.charNgramSize = options.charNgramSize ?? DEFAULT_CHAR_NGRAM_SIZE;
+    this.charNgramWeight = options.charNgramWeight ?? DEFAULT_CHAR_NGRAM_WEIGHT;
+
+    if (!Number.isInteger(this.dimension) || this.dimension < 1) {
+      throw new RangeError('dimension must be a positive integer');
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  /**
+   * Embed a single text synchronously
+   */
+  embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimension).fill(0);
+
+    for (const [feature, weight] of this.extractFeatures(text)) {
+      const hash = fnv1a(feature);
+      const sign = (fnv1a(`#${feature}`) & 1) === 0 ? 1 : -1;
+      const index = hash % this.dimension;
+      vector[index] = (vector[index] ?? 0) + sign * weight;
+    }
+
+    return normalizeVector(vector);
+  }
+
+  /**
+   * Collect weighted features (sublinear term frequency)
+   */
+  private extractFeatures(text: string): Map<string, number> {
+    const contentTokens = tokenize(text, { removeStopWords: true });
+    const tokens = contentTokens.length > 0 ? contentTokens : tokenize(text);
+    const counts = new Map<string, { count: number; weight: number }>();
+
+    const add = (feature: string, weight: number): void => {
+      const entry = counts.get(feature);
+      if (entry === undefined) {
+        counts.set(feature, { count: 1, weight });
+      } else {
+        entry.count++;
+      }
+    };
+
+    for (let n = 1; n <= this.wordNgrams; n++) {
+      for (let i = 0; i + n <= tokens.length; i++) {
+        add(`w${n}:${tokens.slice(i, i + n).join(' ')}`, 1);
+      }
+    }
+
+    if (this.charNgramSize > 0) {
+      for (const token of tokens) {
+        const padded = `<${token}>`;
+        for (let i = 0; i + this.charNgramSize <= padded.length; i++) {
+          add(`c:${padded.slice(i, i + this.charNgramSize)}`, this.charNgramWeight);
+        }
+      }
+    }
+
+    const features = new Map<string, number>();
+    for (const [feature, { count, weight }] of counts) {
+      features.set(feature, weight * (1 + Math.log(count)));
+    }
+    return features;
+  }
+}
+
+/**
+ * Default response parser for OpenAI-compatible embedding APIs
+ */
+function parseOpenAiEmbeddings(body: unknown): number[][] {
+  const data = (body as { data?: Array<{ embedding?: unknown; index?: number }> } | null)?.data;
+  if (!Array.isArray(data)) {
+    throw new Error('Embedding response is missing the data array');
+  }
+
+  return [...data]
+    .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+    .map(item => {
+      if (!Array.isArray(item.embedding)) {
+        throw new Error('Embedding response item is missing the embedding vector');
+      }
+      return item.embedding as number[];
+    });
+}
+
+/**
+ * Adapter for remote embedding services
+ * Request/response shapes can be customised for non OpenAI-compatible APIs
+ */
+export class RemoteEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'remote';
+  readonly dimension: number;
+  private readonly options: RemoteEmbeddingOptions;
+
+  constructor(options: RemoteEmbeddingOptions) {
+    this.options = options;
+    this.dimension = options.dimension;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const batchSize = this.options.batchSize ?? DEFAULT_REMOTE_BATCH_SIZE;
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += batchSize) {
+      const batch = texts.slice(i, i + batchSize);
+      const batchVectors = await this.embedBatch(batch);
+
+      if (batchVectors.length !== batch.length) {
+        throw new Error(`Expected ${batch.length} embeddings, received ${batchVectors.length}`);
+      }
+      for (const vector of batchVectors) {
+        if (vector.length !== this.dimension) {
+          throw new Error(`Expected embedding dimension ${this.dimension}, received ${vector.length}`);
+        }
+      }
+      vectors.push(...batchVectors);
+    }
+
+    return vectors;
+  }
+
+  private async embedBatch(texts: string[]): Promise<number[][]> {
+    const {
+      endpoint,
+      model,
+      apiKey,
+      headers = {},
+      fetch: fetchFn = fetch,
+      buildRequestBody = (input: string[], modelName: string) => ({ model: modelName, input }),
+      parseResponse = parseOpenAiEmbeddings,
+    } = this.options;
+
+    const response = await fetchFn(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey !== undefined && apiKey !== '' ? { Authorization: `Bearer ${apiKey}` } : {}),
+        ...headers,
+      },
+      body: JSON.stringify(buildRequestBody(texts, model)),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Embedding request failed with HTTP ${response.status}`);
+    }
+
+    return parseResponse(await response.json());
+  }
+}
+
+/**
+ * Read embedding configuration from environment variables
+ * EMBEDDING_PROVIDER=hashing|remote, EMBEDDING_DIMENSION, EMBEDDING_ENDPOINT, EMBEDDING_MODEL, EMBEDDING_API_KEY
+ */
+export function embeddingConfigFromEnv(env: Record<string, string | undefined> = process.env): EmbeddingProviderConfig {
+  const dimension = env.EMBEDDING_DIMENSION !== undefined ? Number(env.EMBEDDING_DIMENSION) : undefined;
+
+  if (env.EMBEDDING_PROVIDER === 'remote') {
+    if (env.EMBEDDING_ENDPOINT === undefined || env.EMBEDDING_MODEL === undefined || dimension === undefined) {
+      throw new Error('Remote embeddings require EMBEDDING_ENDPOINT, EMBEDDING_MODEL and EMBEDDING_DIMENSION');
+    }
+    return {
+      provider: 'remote',
+      endpoint: env.EMBEDDING_ENDPOINT,
+      model: env.EMBEDDING_MODEL,
+      dimension,
+      apiKey: env.EMBEDDING_API_KEY,
+    };
+  }
+
+  return { provider: 'hashing', dimension };
+}
+
+/**
+ * Create an embedding provider (hashing by default, configured from the environment)
+ */
+export function createEmbeddingProvider(
+  config: EmbeddingProviderConfig = embeddingConfigFromEnv()
+): EmbeddingProvider {
+  if (config.provider === 'remote') {
+    return new RemoteEmbeddingProvider(config);
+  }
+
+  return new HashingEmbeddingProvider(config);
+}
@@ -0,0 +1,40 @@
+/**
+ * Rank Fusion Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { reciprocalRankFusion } from './fusion';
+import type { VectorSearchResult } from './vector-store';
+
+const result = (id: string, score = 0): VectorSearchResult => ({
+  id,
+  documentId: id.split(':')[0] ?? id,
+  score,
+  text: id,
+  metadata: {},
+});
+
+describe('reciprocalRankFusion', () => {
+  const vector = { name: 'vector', results: [result('a:0', 0.9), result('b:0', 0.8), result('c:0', 0.1)] };
+  const keyword = { name: 'keyword', results: [result('c:0', 12), result('a:0', 3)] };
+
+  it('should reward records ranked well in several lists', () => {
+    const fused = reciprocalRankFusion([vector, keyword], { k: 60 });
+
+    expect(fused.map(item => item.id)).toEqual(['a:0', 'c:0', 'b:0']);
+    expect(fused[0]?.score).toBeCloseTo(1 / 61 + 1 / 62, 10);
+    expect(fused[0]?.ranks).toEqual({ vector: 1, keyword: 2 });
+    expect(fused[2]?.ranks).toEqual({ vector: 2 });
+  });
+
+  it('should honour list weights', () => {
+    const fused = reciprocalRankFusion([{ ...vector, weight: 0.2 }, { ...keyword, weight: 1 }], { k: 1 });
+    expect(fused.map(item => item.id)).toEqual(['c:0', 'a:0', 'b:0']);
+  });
+
+  it('should limit results and validate parameters', () => {
+    expect(reciprocalRankFusion([vector, keyword], { topK: 1 })).toHaveLength(1);
+    expect(() => reciprocalRankFusion([{ ...vector, weight: -1 }])).toThrow(RangeError);
+    expect(() => reciprocalRankFusion([vector], { k: Number.NaN })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Rank Fusion
+ * Combines several rankings of the same records into one
+ */
+
+import { DEFAULT_TOP_K, type VectorSearchResult } from './vector-store.ts';
+
+// A ranking to fuse; weight scales its contribution (default 1)
+export interface RankedList {
+  name: string;
+  results: VectorSearchResult[];
+  weight?: number;
+}
+
+export interface RankFusionOptions {
+  k?: number;
+  topK?: number;
+}
+
+// Fused result - score is the fused score, ranks holds the 1-based rank in each input list
+export interface FusedSearchResult extends VectorSearchResult {
+  ranks: Record<string, number>;
+}
+
+// Rank offset from the original RRF paper (Cormack et al., 2009)
+export const DEFAULT_RRF_K = 60;
+
+/**
+ * Weighted reciprocal rank fusion: score = sum(weight / (k + rank))
+ * Only ranks matter, so lists with incomparable score scales (cosine vs BM25) can be fused
+ */
+export function reciprocalRankFusion(
+  lists: RankedList[],
+  options: RankFusionOptions = {}
+): FusedSearchResult[] {
+  const { k = DEFAULT_RRF_K, topK = DEFAULT_TOP_K } = options;
+  if (!(k >= 0)) {
+    throw new RangeError('k must be a non-negative number');
+  }
+
+  const fused = new Map<string, FusedSearchResult>();
+
+  for (const { name, results, weight = 1 } of lists) {
+    if (!(weight >= 0)) {
+      throw new RangeError(`Weight of ${name} must be a non-negative number`);
+    }
+
+    results.forEach((result, index) => {
+      const rank = index + 1;
+      const existing = fused.get(result.id);
+      if (existing === undefined) {
+        fused.set(result.id, { ...result, score: weight / (k + rank), ranks: { [name]: rank } });
+      } else {
+        existing.score += weight / (k + rank);
+        existing.ranks[name] = rank;
+      }
+    });
+  }
+
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+    .slice(0, topK);
+}
@@ -0,0 +1,74 @@
+/**
+ * Answer Generation Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { buildRagPrompt, extractCitations, generateAnswer } from './generation';
+import { KnowledgeBase, type SearchHit } from './knowledge-base';
+import { ExtractiveLlmProvider, type LlmProvider } from './llm';
+
+const hit = (documentId: string, text: string, headingPath: string[] = []): SearchHit => ({
+  chunkId: `${documentId}:0`,
+  documentId,
+  documentTitle: documentId.toUpperCase(),
+  chunkIndex: 0,
+  score: 1,
+  text,
+  start: 0,
+  end: text.length,
+  headingPath,
+});
+
+describe('Answer Generation', () => {
+  const hits = [hit('a', 'First passage.', ['Intro']), hit('b', 'Second passage.')];
+
+  it('should number passages in the prompt', () => {
+    const { messages, contexts } = buildRagPrompt('What?', hits);
+
+    expect(contexts.map(context => context.marker)).toEqual([1, 2]);
+    expect(messages[0]?.role).toBe('system');
+    expect(messages[1]?.content).toBe(
+      'Context:\n[1] A > Intro\nFirst passage.\n\n[2] B\nSecond passage.\n\nQuestion: What?'
+    );
+  });
+
+  it('should map citation markers to chunks and ignore unknown markers', () => {
+    expect(extractCitations('Yes [2][1]. Also [2] and [7].', hits)).toEqual([
+      { marker: 2, chunkId: 'b:0', documentId: 'b', documentTitle: 'B', start: 0, end: 15 },
+      { marker: 1, chunkId: 'a:0', documentId: 'a', documentTitle: 'A', start: 0, end: 14 },
+    ]);
+  });
+
+  it('should retrieve, generate and cite an answer', async () => {
+    const knowledgeBase = new KnowledgeBase();
+    const { document } = await knowledgeBase.addDocument({
+      title: 'Billing',
+      content: 'Invoices are sent on the first day of each month. Refunds take five business days.',
+    });
+
+    const result = await generateAnswer(knowledgeBase, new ExtractiveLlmProvider(), 'When are invoices sent?');
+
+    expect(result.answer).toBe('Invoices are sent on the first day of each month [1].');
+    expect(result.provider).toBe('extractive');
+    expect(result.citations).toEqual([
+      expect.objectContaining({ marker: 1, chunkId: `${document.id}:0`, documentId: document.id }),
+    ]);
+    expect(result.contexts[0]?.marker).toBe(1);
+  });
+
+  it('should pass the assembled prompt to the provider', async () => {
+    const requests: unknown[] = [];
+    const llm: LlmProvider = {
+      name: 'recording',
+      generate: async request => {
+        requests.push(request);
+        return { text: 'No idea.' };
+      },
+    };
+
+    const result = await generateAnswer(new KnowledgeBase(), llm, 'Anything?');
+
+    expect(result).toMatchObject({ answer: 'No idea.', citations: [], contexts: [], provider: 'recording' });
+    expect(requests).toEqual([expect.objectContaining({ question: 'Anything?', contexts: [] })]);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Answer Generation
+ * Retrieval + prompt assembly + citation mapping on top of an LLM provider
+ */
+
+import type { KnowledgeBase, KnowledgeBaseSearchOptions, SearchHit } from './knowledge-base.ts';
+import type { LlmMessage, LlmProvider, PromptContext } from './llm.ts';
+
+// A citation marker resolved to the chunk it refers to
+export interface Citation {
+  marker: number;
+  chunkId: string;
+  documentId: string;
+  documentTitle: string;
+  start: number;
+  end: number;
+}
+
+export interface RagPrompt {
+  messages: LlmMessage[];
+  contexts: PromptContext[];
+}
+
+export interface AnswerResult {
+  question: string;
+  answer: string;
+  citations: Citation[];
+  contexts: Array<SearchHit & { marker: number }>;
+  provider: string;
+}
+
+// Events emitted while streaming an answer: retrieved contexts, answer tokens, then the final result
+export type AnswerStreamEvent =
+  | { type: 'contexts'; contexts: AnswerResult['contexts'] }
+  | { type: 'token'; text: string }
+  | { type: 'done'; answer: string; citations: Citation[]; provider: string };
+
+export const RAG_SYSTEM_PROMPT = [
+  'You answer questions using only the numbered context passages provided.',
+  'Cite every statement with the passage number in square brackets, for example [1] or [2][3].',
+  'If the passages do not contain the answer, say that you do not know.',
+].join(' ');
+
+// Citation markers such as [1] or [12]
+const CITATION_MARKER_PATTERN = /\[(\d+)\]/g;
+
+/**
+ * Assemble chat messages from the question and the retrieved chunks (numbered from 1)
+ */
+export function buildRagPrompt(question: string, hits: SearchHit[]): RagPrompt {
+  const contexts: PromptContext[] = hits.map((hit, index) => ({
+    marker: index + 1,
+    chunkId: hit.chunkId,
+    documentId: hit.documentId,
+    documentTitle: hit.documentTitle,
+    headingPath: hit.headingPath,
+    text: hit.text,
+  }));
+
+  const passages = contexts.map(context => {
+    const heading = [context.documentTitle, ...context.headingPath].filter(part => part !== '').join(' > ');
+    return `[${context.marker}] ${heading}\n${context.text}`;
+  });
+
+  return {
+    contexts,
+    messages: [
+      { role: 'system', content: RAG_SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: `Context:\n${passages.length > 0 ? passages.join('\n\n') : '(no passages found)'}\n\nQuestion: ${question}`,
+      },
+    ],
+  };
+}
+
+/**
+ * Resolve [n] markers in an answer to chunk and document ids (unknown markers are ignored)
+ */
+export function extractCitations(answer: string, hits: SearchHit[]): Citation[] {
+  const citations = new Map<number, Citation>();
+
+  for (const match of answer.matchAll(CITATION_MARKER_PATTERN)) {
+    const marker = Number(match[1]);
+    const hit = hits[marker - 1];
+    if (hit !== undefined && !citations.has(marker)) {
+      citations.set(marker, {
+        marker,
+        chunkId: hit.chunkId,
+        documentId: hit.documentId,
+        documentTitle: hit.documentTitle,
+        start: hit.start,
+        end: hit.end,
+      });
+    }
+  }
+
+  return [...citations.values()];
+}
+
+/**
+ * Retrieve context for a question and generate a cited answer
+ */
+export async function generateAnswer(
+  knowledgeBase: KnowledgeBase,
+  llm: LlmProvider,
+  question: string,
+  options: KnowledgeBaseSearchOptions = {}
+): Promise<AnswerResult> {
+  const hits = await knowledgeBase.search(question, options);
+  const prompt = buildRagPrompt(question, hits);
+  const { text } = await llm.generate({ question, ...prompt });
+
+  return {
+    question,
+    answer: text,
+    citations: extractCitations(text, hits),
+    contexts: hits.map((hit, index) => ({ ...hit, marker: index + 1 })),
+    provider: llm.name,
+  };
+}
+
+/**
+ * Retrieve context for a question and stream the answer as it is generated
+ * Citations are resolved once the full answer is known
+ */
+export async function* streamAnswer(
+  knowledgeBase: KnowledgeBase,
+  llm: LlmProvider,
+  question: string,
+  options: KnowledgeBaseSearchOptions = {}
+): AsyncGenerator<AnswerStreamEvent> {
+  const hits = await knowledgeBase.search(question, options);
+  const prompt = buildRagPrompt(question, hits);
+  yield { type: 'contexts', contexts: hits.map((hit, index) => ({ ...hit, marker: index + 1 })) };
+
+  let answer = '';
+  if (llm.stream !== undefined) {
+    for await (const token of llm.stream({ question, ...prompt })) {
+      answer += token;
+      yield { type: 'token', text: token };
+    }
+  } else {
+    answer = (await llm.generate({ question, ...prompt })).text;
+    yield { type: 'token', text: answer };
+  }
+
+  yield { type: 'done', answer, citations: extractCitations(answer, hits), provider: llm.name };
+}
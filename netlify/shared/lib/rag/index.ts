@@ -0,0 +1,15 @@
+/**
+ * RAG Export Hub
+ * Retrieval-augmented generation building blocks
+ */
+
+export * from './chunking.ts';
+export * from './tokenizer.ts';
+export * from './vector-math.ts';
+export * from './embeddings.ts';
+export * from './vector-store.ts';
+export * from './bm25.ts';
+export * from './fusion.ts';
+export * from './knowledge-base.ts';
+export * from './llm.ts';
+export * from './generation.ts';
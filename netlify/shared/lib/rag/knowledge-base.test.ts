@@ -0,0 +1,114 @@
+/**
+ * Knowledge Base Tests
+ */
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { InMemoryDocumentRepository } from '../repositories/document.repository';
+import { KnowledgeBase } from './knowledge-base';
+
+describe('KnowledgeBase', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'knowledge-base-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should index added documents and drop removed ones', async () => {
+    const knowledgeBase = new KnowledgeBase();
+    const { document, chunks } = await knowledgeBase.addDocument({
+      title: 'Guide',
+      content: '# Setup\nInstall dependencies with npm.\n\n# Usage\nRun the dev server.',
+      contentType: 'text/markdown',
+    });
+
+    expect(chunks).toHaveLength(2);
+    const [hit] = await knowledgeBase.search('install npm dependencies', { topK: 1 });
+    expect(hit).toMatchObject({
+      chunkId: `${document.id}:0`,
+      documentId: document.id,
+      documentTitle: 'Guide',
+      headingPath: ['Setup'],
+      start: 0,
+    });
+
+    expect(await knowledgeBase.removeDocument(document.id)).toBe(true);
+    expect(await knowledgeBase.removeDocument(document.id)).toBe(false);
+    expect(await knowledgeBase.search('install npm dependencies')).toEqual([]);
+  });
+
+  it('should rebuild the index from existing repository documents', async () => {
+    const repository = new InMemoryDocumentRepository();
+    await repository.create({ title: 'Existing', content: 'Vectors are rebuilt on cold start.' });
+
+    const knowledgeBase = new KnowledgeBase({ repository });
+
+    expect((await knowledgeBase.search('cold start vectors'))[0]?.documentTitle).toBe('Existing');
+    expect(await knowledgeBase.reindex()).toBe(1);
+  });
+
+  it('should support keyword and hybrid retrieval', async () => {
+    const knowledgeBase = new KnowledgeBase();
+    await knowledgeBase.addDocument({ title: 'Errors', content: 'Uploads fail with E_UPLOAD_9921 when the disk is full.' });
+    await knowledgeBase.addDocument({ title: 'Uploads', content: 'Uploads are resumable and retried automatically.' });
+
+    const keyword = await knowledgeBase.search('E_UPLOAD_9921', { mode: 'keyword' });
+    expect(keyword.map(hit => hit.documentTitle)).toEqual(['Errors']);
+
+    const hybrid = await knowledgeBase.search('uploads E_UPLOAD_9921', {
+      mode: 'hybrid',
+      fusion: { keywordWeight: 2 },
+    });
+    expect(hybrid[0]?.documentTitle).toBe('Errors');
+    expect(hybrid[0]?.ranks).toEqual({ vector: expect.any(Number), keyword: 1 });
+  });
+
+  it('should reload the index from its snapshot without re-embedding', async () => {
+    const snapshotPath = join(directory, 'index.bin');
+    const first = new KnowledgeBase({ snapshotPath });
+    await first.addDocument({ title: 'Persisted', content: 'Snapshots survive cold starts.' });
+
+    // Empty repository: results can only come from the snapshot
+    const second = new KnowledgeBase({ snapshotPath });
+    const [hit] = await second.search('snapshots cold starts');
+
+    expect(hit?.documentTitle).toBe('Persisted');
+    expect((await second.search('snapshots', { mode: 'keyword' }))[0]?.documentTitle).toBe('Persisted');
+  });
+
+  it('should not let a pending snapshot load overwrite a rebuilt index', async () => {
+    const snapshotPath = join(directory, 'index.json');
+    await new KnowledgeBase({ snapshotPath }).addDocument({ title: 'Stale', content: 'Only in the snapshot.' });
+    const repository = new InMemoryDocumentRepository();
+    const fresh = await repository.create({ title: 'Fresh', content: 'Only in the repository.' });
+    const knowledgeBase = new KnowledgeBase({ repository, snapshotPath });
+
+    const loading = knowledgeBase.chunkCounts();
+    await knowledgeBase.reindex();
+    await loading;
+
+    expect([...(await knowledgeBase.chunkCounts()).keys()]).toEqual([fresh.id]);
+  });
+
+  it('should persist concurrent additions to one snapshot', async () => {
+    const snapshotPath = join(directory, 'index.json');
+    const knowledgeBase = new KnowledgeBase({ snapshotPath });
+    const titles = ['Alpha', 'Bravo', 'Charlie', 'Delta', 'Echo', 'Foxtrot'];
+
+    const results = await Promise.all(
+      titles.map(title => knowledgeBase.addDocument({ title, content: `${title} notes about snapshots.` }))
+    );
+
+    expect(results.map(({ document }) => document.title)).toEqual(titles);
+    const reloaded = new KnowledgeBase({ snapshotPath });
+    expect([...(await reloaded.chunkCounts()).keys()].sort()).toEqual(
+      results.map(({ document }) => document.id).sort()
+    );
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Knowledge Base
+ * Keeps documents, their chunk embeddings and the vector/keyword indexes in sync
+ */
+
+import {
+  createDocumentRepository,
+  InMemoryDocumentRepository,
+  type DocumentRepository,
+} from '../repositories/document.repository.ts';
+import type { CreateDocumentInput, StoredDocument } from '../types/document.types.ts';
+import { Bm25Index } from './bm25.ts';
+import { chunkDocument, type TextChunk } from './chunking.ts';
+import { createEmbeddingProvider, HashingEmbeddingProvider, type EmbeddingProvider } from './embeddings.ts';
+import {
+  DEFAULT_TOP_K,
+  InMemoryVectorStore,
+  loadVectorStoreSnapshot,
+  saveVectorStoreSnapshot,
+  type VectorSearchFilter,
+  type VectorSearchResult,
+} from './vector-store.ts';
+import { DEFAULT_RRF_K, reciprocalRankFusion, type FusedSearchResult } from './fusion.ts';
+
+// Retrieval modes: embeddings only, BM25 only, or both fused by reciprocal rank
+export type SearchMode = 'keyword' | 'vector' | 'hybrid';
+
+export interface KnowledgeBaseOptions {
+  repository?: DocumentRepository;
+  embedder?: EmbeddingProvider;
+  vectorStore?: InMemoryVectorStore;
+  keywordIndex?: Bm25Index;
+  snapshotPath?: string | null;
+}
+
+// Reciprocal rank fusion settings for hybrid search
+export interface HybridFusionOptions {
+  vectorWeight?: number;
+  keywordWeight?: number;
+  k?: number;
+}
+
+export interface KnowledgeBaseSearchOptions {
+  topK?: number;
+  minScore?: number;
+  filters?: VectorSearchFilter;
+  mode?: SearchMode;
+  fusion?: HybridFusionOptions;
+}
+
+// A ranked chunk with enough context to cite it
+export interface SearchHit {
+  chunkId: string;
+  documentId: string;
+  documentTitle: string;
+  chunkIndex: number;
+  score: number;
+  text: string;
+  start: number;
+  end: number;
+  headingPath: string[];
+  ranks?: Partial<Record<Exclude<SearchMode, 'hybrid'>, number>>;
+}
+
+export interface IngestionResult {
+  document: StoredDocument;
+  chunks: TextChunk[];
+}
+
+// Hybrid search fetches more candidates from each ranking than it returns
+const HYBRID_CANDIDATE_MULTIPLIER = 4;
+
+/**
+ * Convert a vector/keyword/fused search result back into a search hit
+ */
+function toSearchHit(result: VectorSearchResult | FusedSearchResult): SearchHit {
+  const { metadata } = result;
+  return {
+    chunkId: result.id,
+    documentId: result.documentId,
+    documentTitle: typeof metadata['title'] === 'string' ? metadata['title'] : '',
+    chunkIndex: typeof metadata['chunkIndex'] === 'number' ? metadata['chunkIndex'] : 0,
+    score: result.score,
+    text: result.text,
+    start: typeof metadata['start'] === 'number' ? metadata['start'] : 0,
+    end: typeof metadata['end'] === 'number' ? metadata['end'] : 0,
+    headingPath: Array.isArray(metadata['headingPath']) ? (metadata['headingPath'] as string[]) : [],
+    ...('ranks' in result ? { ranks: result.ranks } : {}),
+  };
+}
+
+/**
+ * Document ingestion and retrieval service
+ * The index is loaded lazily: from the snapshot when one exists, otherwise rebuilt from the repository
+ */
+export class KnowledgeBase {
+  readonly repository: DocumentRepository;
+  readonly embedder: EmbeddingProvider;
+  private vectorStore: InMemoryVectorStore;
+  private readonly keywordIndex: Bm25Index;
+  private readonly snapshotPath: string | null;
+  private ready: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(options: KnowledgeBaseOptions = {}) {
+    this.repository = options.repository ?? new InMemoryDocumentRepository();
+    this.embedder = options.embedder ?? new HashingEmbeddingProvider();
+    this.vectorStore = options.vectorStore ?? new InMemoryVectorStore();
+    this.keywordIndex = options.keywordIndex ?? new Bm25Index();
+    this.snapshotPath = options.snapshotPath ?? null;
+  }
+
+  /**
+   * Store a new document and index its chunks
+   */
+  async addDocument(input: CreateDocumentInput): Promise<IngestionResult> {
+    await this.ensureReady();
+    const document = await this.repository.create(input);
+    const chunks = await this.indexDocument(document);
+    await this.persist();
+    return { document, chunks };
+  }
+
+  /**
+   * Delete a document and its chunks; false when the document does not exist
+   */
+  async removeDocument(id: string): Promise<boolean> {
+    await this.ensureReady();
+    const deleted = await this.repository.delete(id);
+    if (deleted) {
+      await this.vectorStore.deleteByDocument(id);
+      this.keywordIndex.removeByDocument(id);
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  /**
+   * Re-chunk and re-embed a single document; null when the document does not exist
+   */
+  async reindexDocument(id: string): Promise<TextChunk[] | null> {
+    await this.ensureReady();
+    const document = await this.repository.get(id);
+    if (document === null) {
+      return null;
+    }
+
+    const chunks = await this.indexDocument(document);
+    await this.persist();
+    return chunks;
+  }
+
+  /**
+   * Number of indexed chunks per document id (documents without chunks are absent)
+   */
+  async chunkCounts(): Promise<Map<string, number>> {
+    await this.ensureReady();
+    const counts = new Map<string, number>();
+    for (const record of this.vectorStore.listRecords()) {
+      counts.set(record.documentId, (counts.get(record.documentId) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  /**
+   * Rebuild the whole index from the repository
+   */
+  async reindex(): Promise<number> {
+    // A lazy load still in flight would otherwise swap in its older snapshot after the rebuild
+    await this.ready?.catch(() => undefined);
+    const documents = await this.repository.list();
+    await this.vectorStore.clear();
+    this.keywordIndex.clear();
+
+    let chunkCount = 0;
+    for (const document of documents) {
+      chunkCount += (await this.indexDocument(document)).length;
+    }
+
+    this.ready = Promise.resolve();
+    await this.persist();
+    return chunkCount;
+  }
+
+  /**
+   * Return the best matching chunks
+   * minScore applies to cosine similarity in vector/hybrid mode and to the BM25 score in keyword mode
+   */
+  async search(query: string, options: KnowledgeBaseSearchOptions = {}): Promise<SearchHit[]> {
+    await this.ensureReady();
+    const { mode = 'vector', topK = DEFAULT_TOP_K, minScore, filters, fusion = {} } = options;
+
+    if (mode === 'keyword') {
+      return this.keywordIndex.search(query, { topK, minScore, filter: filters }).map(toSearchHit);
+    }
+    if (mode === 'vector') {
+      return (await this.vectorSearch(query, { topK, minScore, filter: filters })).map(toSearchHit);
+    }
+
+    const candidates = topK * HYBRID_CANDIDATE_MULTIPLIER;
+    const fused = reciprocalRankFusion(
+      [
+        {
+          name: 'vector',
+          results: await this.vectorSearch(query, { topK: candidates, minScore, filter: filters }),
+          weight: fusion.vectorWeight,
+        },
+        {
+          name: 'keyword',
+          results: this.keywordIndex.search(query, { topK: candidates, filter: filters }),
+          weight: fusion.keywordWeight,
+        },
+      ],
+      { k: fusion.k ?? DEFAULT_RRF_K, topK }
+    );
+    return fused.map(toSearchHit);
+  }
+
+  /**
+   * Embed the query and search the vector index
+   */
+  private async vectorSearch(
+    query: string,
+    options: { topK: number; minScore?: number; filter?: VectorSearchFilter }
+  ): Promise<VectorSearchResult[]> {
+    if ((await this.vectorStore.size()) === 0) {
+      return [];
+    }
+
+    const [queryVector = []] = await this.embedder.embed([query]);
+    return this.vectorStore.search(queryVector, options);
+  }
+
+  /**
+   * Chunk, embed and (re)insert a single document
+   */
+  private async indexDocument(document: StoredDocument): Promise<TextChunk[]> {
+    const chunks = chunkDocument(document);
+    const vectors = await this.embedder.embed(chunks.map(chunk => chunk.text));
+
+    const records = chunks.map((chunk, i) => ({
+      id: chunk.id,
+      documentId: document.id,
+      vector: vectors[i] ?? [],
+      text: chunk.text,
+      metadata: {
+        title: document.title,
+        tags: document.tags,
+        source: document.source,
+        createdAt: document.createdAt,
+        chunkIndex: chunk.index,
+        start: chunk.start,
+        end: chunk.end,
+        headingPath: chunk.headingPath,
+      },
+    }));
+
+    await this.vectorStore.deleteByDocument(document.id);
+    await this.vectorStore.upsert(records);
+    this.keywordIndex.removeByDocument(document.id);
+    this.keywordIndex.add(records);
+
+    return chunks;
+  }
+
+  /**
+   * Load the index once per instance (snapshot first, repository as fallback)
+   */
+  private ensureReady(): Promise<void> {
+    this.ready ??= this.load().catch((error: unknown) => {
+      this.ready = null;
+      throw error;
+    });
+    return this.ready;
+  }
+
+  private async load(): Promise<void> {
+    if (this.snapshotPath !== null) {
+      const snapshot = await loadVectorStoreSnapshot(this.snapshotPath);
+      const dimension = snapshot?.getDimension() ?? null;
+      if (snapshot !== null && (dimension === null || dimension === this.embedder.dimension)) {
+        // The keyword index is cheap to rebuild from the texts stored in the snapshot
+        this.vectorStore = snapshot;
+        this.keywordIndex.clear();
+        this.keywordIndex.add(snapshot.listRecords());
+        return;
+      }
+    }
+
+    const documents = await this.repository.list();
+    for (const document of documents) {
+      await this.indexDocument(document);
+    }
+    if (documents.length > 0) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * Serialize snapshot writes so concurrent mutations cannot interleave on disk
+   */
+  private async persist(): Promise<void> {
+    const { snapshotPath } = this;
+    if (snapshotPath === null) {
+      return;
+    }
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(() => saveVectorStoreSnapshot(this.vectorStore, snapshotPath));
+    return this.writeQueue;
+  }
+}
+
+/**
+ * Create a knowledge base configured from the environment
+ * DOCUMENTS_STORE_PATH, EMBEDDING_* and VECTOR_STORE_PATH (.json or .bin snapshot)
+ */
+export function createKnowledgeBase(options: KnowledgeBaseOptions = {}): KnowledgeBase {
+  const snapshotPath = options.snapshotPath ?? process.env.VECTOR_STORE_PATH;
+
+  return new KnowledgeBase({
+    repository: options.repository ?? createDocumentRepository(),
+    embedder: options.embedder ?? createEmbeddingProvider(),
+    vectorStore: options.vectorStore,
+    snapshotPath: snapshotPath !== undefined && snapshotPath.trim() !== '' ? snapshotPath : null,
+  });
+}
+
+let defaultKnowledgeBase: KnowledgeBase | null = null;
+
+/**
+ * Shared knowledge base for the function instance (created on first use)
+ */
+export function getKnowledgeBase(): KnowledgeBase {
+  defaultKnowledgeBase ??= createKnowledgeBase();
+  return defaultKnowledgeBase;
+}
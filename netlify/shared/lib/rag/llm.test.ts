@@ -0,0 +1,112 @@
+/**
+ * LLM Providers Tests
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createLlmProvider,
+  ExtractiveLlmProvider,
+  llmConfigFromEnv,
+  NO_ANSWER_MESSAGE,
+  RemoteLlmProvider,
+  type GenerationRequest,
+  type PromptContext,
+} from './llm';
+
+const context = (marker: number, text: string): PromptContext => ({
+  marker,
+  chunkId: `doc-${marker}:0`,
+  documentId: `doc-${marker}`,
+  documentTitle: `Doc ${marker}`,
+  headingPath: [],
+  text,
+});
+
+const request = (question: string, contexts: PromptContext[]): GenerationRequest => ({
+  question,
+  messages: [{ role: 'user', content: question }],
+  contexts,
+});
+
+describe('LLM Providers', () => {
+  describe('ExtractiveLlmProvider', () => {
+    const provider = new ExtractiveLlmProvider({ maxSentences: 2 });
+
+    it('should quote the best matching sentences with citation markers', async () => {
+      const { text } = await provider.generate(request('How do I reset my password?', [
+        context(1, 'Accounts are created by admins. To reset a password, open Settings and choose Reset.'),
+        context(2, 'Password resets expire after one hour! Billing is monthly.'),
+      ]));
+
+      expect(text).toBe(
+        'To reset a password, open Settings and choose Reset [1]. Password resets expire after one hour [2].'
+      );
+    });
+
+    it('should be deterministic', async () => {
+      const generation = request('reset password', [context(1, 'Reset the password in Settings.')]);
+      expect(await provider.generate(generation)).toEqual(await provider.generate(generation));
+    });
+
+    it('should fall back when nothing in the context matches', async () => {
+      expect((await provider.generate(request('quantum physics', [context(1, 'Cake recipes.')]))).text)
+        .toBe(NO_ANSWER_MESSAGE);
+      expect((await provider.generate(request('anything', []))).text).toBe(NO_ANSWER_MESSAGE);
+    });
+  });
+
+  describe('RemoteLlmProvider', () => {
+    it('should call an OpenAI-compatible chat completions endpoint', async () => {
+      const fetchMock = vi.fn(async () =>
+        new Response(JSON.stringify({ choices: [{ message: { content: 'Answer [1].' } }] }), { status: 200 })
+      );
+      const provider = new RemoteLlmProvider({
+        endpoint: 'https://llm.test/v1/chat/completions',
+        model: 'test-model',
+        apiKey: 'secret',
+        fetch: fetchMock as unknown as typeof fetch,
+      });
+
+      const result = await provider.generate(request('question?', []));
+
+      expect(result.text).toBe('Answer [1].');
+      const [, init] = (fetchMock.mock.calls[0] ?? []) as unknown as [string, RequestInit];
+      expect(new Headers(init.headers).get('Authorization')).toBe('Bearer secret');
+      expect(JSON.parse(String(init.body))).toEqual({
+        model: 'test-model',
+        messages: [{ role: 'user', content: 'question?' }],
+        temperature: 0,
+      });
+    });
+
+    it('should fail on HTTP errors and malformed responses', async () => {
+      const failing = new RemoteLlmProvider({
+        endpoint: 'https://llm.test',
+        model: 'm',
+        fetch: (async () => new Response('{}', { status: 503 })) as unknown as typeof fetch,
+      });
+      await expect(failing.generate(request('q', []))).rejects.toThrow('HTTP 503');
+
+      const malformed = new RemoteLlmProvider({
+        endpoint: 'https://llm.test',
+        model: 'm',
+        fetch: (async () => new Response('{"choices":[]}', { status: 200 })) as unknown as typeof fetch,
+      });
+      await expect(malformed.generate(request('q', []))).rejects.toThrow('message content');
+    });
+  });
+
+  describe('createLlmProvider', () => {
+    it('should default to the extractive provider', () => {
+      expect(createLlmProvider({ provider: 'extractive' })).toBeInstanceOf(ExtractiveLlmProvider);
+      expect(llmConfigFromEnv({})).toEqual({ provider: 'extractive' });
+    });
+
+    it('should read remote configuration from the environment', () => {
+      const config = llmConfigFromEnv({ LLM_PROVIDER: 'remote', LLM_ENDPOINT: 'https://llm.test', LLM_MODEL: 'm' });
+
+      expect(createLlmProvider(config)).toBeInstanceOf(RemoteLlmProvider);
+      expect(() => llmConfigFromEnv({ LLM_PROVIDER: 'remote' })).toThrow();
+    });
+  });
+});
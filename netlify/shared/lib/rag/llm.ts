@@ -0,0 +1,225 @@
+/**
+ * LLM Providers
+ * Turn an assembled RAG prompt into an answer
+ */
+
+import { tokenize } from './tokenizer.ts';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Retrieved chunk as presented to the model - marker is the number used in [n] citations
+export interface PromptContext {
+  marker: number;
+  chunkId: string;
+  documentId: string;
+  documentTitle: string;
+  headingPath: string[];
+  text: string;
+}
+
+export interface GenerationRequest {
+  question: string;
+  messages: LlmMessage[];
+  contexts: PromptContext[];
+}
+
+export interface GenerationResult {
+  text: string;
+}
+
+// LLM provider contract - answers should cite contexts with [n] markers
+// stream() is optional; providers without it are streamed as a single chunk
+export interface LlmProvider {
+  readonly name: string;
+  generate(request: GenerationRequest): Promise<GenerationResult>;
+  stream?(request: GenerationRequest): AsyncIterable<string>;
+}
+
+export interface ExtractiveLlmOptions {
+  maxSentences?: number;
+  fallbackAnswer?: string;
+}
+
+// Remote (HTTP) provider options - defaults follow the OpenAI-compatible chat completions API
+export interface RemoteLlmOptions {
+  endpoint: string;
+  model: string;
+  apiKey?: string;
+  temperature?: number;
+  maxTokens?: number;
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+  buildRequestBody?: (request: GenerationRequest, model: string) => unknown;
+  parseResponse?: (body: unknown) => string;
+}
+
+export type LlmProviderConfig =
+  | ({ provider: 'extractive' } & ExtractiveLlmOptions)
+  | ({ provider: 'remote' } & RemoteLlmOptions);
+
+export const NO_ANSWER_MESSAGE = "I couldn't find an answer to that in the knowledge base.";
+const DEFAULT_MAX_SENTENCES = 3;
+
+// Sentence boundaries used when extracting answer sentences
+const SENTENCE_PATTERN = /[^.!?\n]+[.!?]*/g;
+
+// Streaming granularity of the extractive provider (a word plus its trailing whitespace)
+const STREAM_TOKEN_PATTERN = /\S+\s*/g;
+
+/**
+ * Answers without a model by quoting the context sentences that best overlap the question
+ * Deterministic, so answers can be asserted in tests and the app runs fully offline
+ */
+export class ExtractiveLlmProvider implements LlmProvider {
+  readonly name = 'extractive';
+  private readonly maxSentences: number;
+  private readonly fallbackAnswer: string;
+
+  constructor(options: ExtractiveLlmOptions = {}) {
+    this.maxSentences = options.maxSentences ?? DEFAULT_MAX_SENTENCES;
+    this.fallbackAnswer = options.fallbackAnswer ?? NO_ANSWER_MESSAGE;
+  }
+
+  async generate(request: GenerationRequest): Promise<GenerationResult> {
+    const questionTerms = new Set(tokenize(request.question, { removeStopWords: true }));
+    const candidates: Array<{ sentence: string; marker: number; score: number; order: number }> = [];
+
+    for (const context of request.contexts) {
+      for (const match of context.text.matchAll(SENTENCE_PATTERN)) {
+        const sentence = match[0].trim();
+        const terms = new Set(tokenize(sentence, { removeStopWords: true }));
+        let overlap = 0;
+        for (const term of terms) {
+          if (questionTerms.has(term)) {
+            overlap++;
+          }
+        }
+
+        if (overlap > 0) {
+          // Favour sentences covering more of the question, then shorter (denser) sentences
+          const score = overlap / questionTerms.size + overlap / (terms.size + 1);
+          candidates.push({ sentence, marker: context.marker, score, order: candidates.length });
+        }
+      }
+    }
+
+    if (candidates.length === 0) {
+      return { text: this.fallbackAnswer };
+    }
+
+    // Keep the best sentences, but present them in document order
+    const selected = [...candidates]
+      .sort((a, b) => b.score - a.score || a.order - b.order)
+      .slice(0, this.maxSentences)
+      .sort((a, b) => a.order - b.order);
+
+    return {
+      text: selected
+        .map(({ sentence, marker }) => `${/[.!?]$/.test(sentence) ? sentence.slice(0, -1) : sentence} [${marker}].`)
+        .join(' '),
+    };
+  }
+
+  /**
+   * Stream the extractive answer word by word
+   */
+  async *stream(request: GenerationRequest): AsyncIterable<string> {
+    const { text } = await this.generate(request);
+    for (const match of text.matchAll(STREAM_TOKEN_PATTERN)) {
+      yield match[0];
+    }
+  }
+}
+
+/**
+ * Default response parser for OpenAI-compatible chat completion APIs
+ */
+function parseOpenAiChatCompletion(body: unknown): string {
+  const content = (body as { choices?: Array<{ message?: { content?: unknown } }> } | null)
+    ?.choices?.[0]?.message?.content;
+  if (typeof content !== 'string') {
+    throw new Error('Completion response is missing the message content');
+  }
+  return content;
+}
+
+/**
+ * Adapter for remote chat completion services
+ */
+export class RemoteLlmProvider implements LlmProvider {
+  readonly name = 'remote';
+  private readonly options: RemoteLlmOptions;
+
+  constructor(options: RemoteLlmOptions) {
+    this.options = options;
+  }
+
+  async generate(request: GenerationRequest): Promise<GenerationResult> {
+    const {
+      endpoint,
+      model,
+      apiKey,
+      temperature = 0,
+      maxTokens,
+      headers = {},
+      fetch: fetchFn = fetch,
+      buildRequestBody = (generation: GenerationRequest, modelName: string) => ({
+        model: modelName,
+        messages: generation.messages,
+        temperature,
+        ...(maxTokens !== undefined ? { max_tokens: maxTokens } : {}),
+      }),
+      parseResponse = parseOpenAiChatCompletion,
+    } = this.options;
+
+    const response = await fetchFn(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey !== undefined && apiKey !== '' ? { Authorization: `Bearer ${apiKey}` } : {}),
+        ...headers,
+      },
+      body: JSON.stringify(buildRequestBody(request, model)),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Completion request failed with HTTP ${response.status}`);
+    }
+
+    return { text: parseResponse(await response.json()) };
+  }
+}
+
+/**
+ * Read LLM configuration from environment variables
+ * LLM_PROVIDER=extractive|remote, LLM_ENDPOINT, LLM_MODEL, LLM_API_KEY
+ */
+export function llmConfigFromEnv(env: Record<string, string | undefined> = process.env): LlmProviderConfig {
+  if (env.LLM_PROVIDER === 'remote') {
+    if (env.LLM_ENDPOINT === undefined || env.LLM_MODEL === undefined) {
+      throw new Error('Remote LLM requires LLM_ENDPOINT and LLM_MODEL');
+    }
+    return {
+      provider: 'remote',
+      endpoint: env.LLM_ENDPOINT,
+      model: env.LLM_MODEL,
+      apiKey: env.LLM_API_KEY,
+    };
+  }
+
+  return { provider: 'extractive' };
+}
+
+/**
+ * Create an LLM provider (extractive by default, configured from the environment)
+ */
+export function createLlmProvider(config: LlmProviderConfig = llmConfigFromEnv()): LlmProvider {
+  if (config.provider === 'remote') {
+    return new RemoteLlmProvider(config);
+  }
+
+  return new ExtractiveLlmProvider(config);
+}
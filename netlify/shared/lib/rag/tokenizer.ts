@@ -0,0 +1,29 @@
+/**
+ * Tokenizer
+ * Shared text normalisation for embeddings and keyword search
+ */
+
+// Letters, digits and underscores (keeps identifiers such as ERR_42 or get_user intact)
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+// Common English function words that carry little retrieval signal
+export const STOP_WORDS: ReadonlySet<string> = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'so', 'that', 'the',
+  'their', 'then', 'there', 'these', 'this', 'to', 'was', 'we', 'were', 'what', 'when',
+  'which', 'who', 'why', 'will', 'with', 'you', 'your',
+]);
+
+export interface TokenizeOptions {
+  removeStopWords?: boolean;
+}
+
+/**
+ * Split text into lower-cased word tokens
+ */
+export function tokenize(text: string, options: TokenizeOptions = {}): string[] {
+  const { removeStopWords = false } = options;
+  const tokens = text.normalize('NFKC').toLowerCase().match(TOKEN_PATTERN) ?? [];
+
+  return removeStopWords ? tokens.filter(token => !STOP_WORDS.has(token)) : tokens;
+}
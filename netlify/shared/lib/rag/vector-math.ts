@@ -0,0 +1,39 @@
+/**
+ * Vector Math
+ * Small helpers for dense embedding vectors
+ */
+
+/**
+ * Dot product of two vectors (extra dimensions of the longer vector are ignored)
+ */
+export function dotProduct(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  const length = Math.min(a.length, b.length);
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    sum += (a[i] ?? 0) * (b[i] ?? 0);
+  }
+  return sum;
+}
+
+/**
+ * Euclidean (L2) norm
+ */
+export function vectorNorm(vector: ArrayLike<number>): number {
+  return Math.sqrt(dotProduct(vector, vector));
+}
+
+/**
+ * Scale a vector to unit length (zero vectors are returned unchanged)
+ */
+export function normalizeVector(vector: number[]): number[] {
+  const norm = vectorNorm(vector);
+  return norm === 0 ? [...vector] : vector.map(value => value / norm);
+}
+
+/**
+ * Cosine similarity in [-1, 1]; 0 when either vector is all zeros
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  const denominator = vectorNorm(a) * vectorNorm(b);
+  return denominator === 0 ? 0 : dotProduct(a, b) / denominator;
+}
@@ -0,0 +1,195 @@
+/**
+ * Vector Store Tests
+ */
+
+import { mkdir, mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  decodeBinarySnapshot,
+  encodeBinarySnapshot,
+  InMemoryVectorStore,
+  loadVectorStoreSnapshot,
+  saveVectorStoreSnapshot,
+  type VectorRecord,
+} from './vector-store';
+
+const records: VectorRecord[] = [
+  {
+    id: 'a:0',
+    documentId: 'a',
+    vector: [1, 0, 0],
+    text: 'alpha',
+    metadata: { tags: ['guide'], source: 'docs/a.md', createdAt: '2024-01-10T00:00:00.000Z' },
+  },
+  {
+    id: 'a:1',
+    documentId: 'a',
+    vector: [0.8, 0.6, 0],
+    text: 'alpha two',
+    metadata: { tags: ['guide'], source: 'docs/a.md', createdAt: '2024-01-10T00:00:00.000Z' },
+  },
+  {
+    id: 'b:0',
+    documentId: 'b',
+    vector: [0, 2, 0],
+    text: 'beta',
+    metadata: { tags: ['faq'], source: 'docs/b.md', createdAt: '2024-03-01T00:00:00.000Z' },
+  },
+  {
+    id: 'c:0',
+    documentId: 'c',
+    vector: [0, 0, 3],
+    text: 'gamma',
+    metadata: { tags: [], source: null, createdAt: '2024-06-15T00:00:00.000Z' },
+  },
+];
+
+describe('InMemoryVectorStore', () => {
+  let store: InMemoryVectorStore;
+
+  beforeEach(async () => {
+    store = new InMemoryVectorStore();
+    await store.upsert(records);
+  });
+
+  it('should rank by cosine similarity by default', async () => {
+    const results = await store.search([1, 0.1, 0], { topK: 2 });
+
+    expect(results.map(result => result.id)).toEqual(['a:0', 'a:1']);
+    expect(results[0]?.score).toBeCloseTo(0.995, 3);
+    expect(results[0]?.text).toBe('alpha');
+  });
+
+  it('should support dot-product scoring', async () => {
+    const results = await store.search([0, 1, 1], { metric: 'dot', topK: 2 });
+
+    expect(results.map(result => [result.id, result.score])).toEqual([
+      ['c:0', 3],
+      ['b:0', 2],
+    ]);
+  });
+
+  it('should replace records with the same id on upsert', async () => {
+    await store.upsert([{ id: 'c:0', documentId: 'c', vector: [1, 0, 0], text: 'gamma v2' }]);
+
+    expect(await store.size()).toBe(4);
+    const results = await store.search([1, 0, 0], { topK: 2 });
+    expect(results.map(result => [result.id, result.text])).toEqual([
+      ['a:0', 'alpha'],
+      ['c:0', 'gamma v2'],
+    ]);
+  });
+
+  it('should delete every chunk of a document', async () => {
+    expect(await store.deleteByDocument('a')).toBe(2);
+    expect(await store.deleteByDocument('a')).toBe(0);
+    expect(await store.size()).toBe(2);
+
+    const results = await store.search([1, 0, 0], { topK: 10 });
+    expect(results.every(result => result.documentId !== 'a')).toBe(true);
+  });
+
+  it('should drop results below minScore', async () => {
+    const results = await store.search([1, 0, 0], { topK: 10, minScore: 0.5 });
+    expect(results.map(result => result.id)).toEqual(['a:0', 'a:1']);
+  });
+
+  describe('metadata filters', () => {
+    it('should filter by tag', async () => {
+      const results = await store.search([0, 1, 0], { topK: 10, filter: { tag: 'guide' } });
+      expect(results.map(result => result.id)).toEqual(['a:1', 'a:0']);
+    });
+
+    it('should filter by source membership', async () => {
+      const results = await store.search([1, 1, 1], {
+        topK: 10,
+        filter: { source: ['docs/b.md', 'docs/missing.md'] },
+      });
+      expect(results.map(result => result.id)).toEqual(['b:0']);
+    });
+
+    it('should filter by inclusive date range', async () => {
+      const results = await store.search([1, 1, 1], {
+        topK: 10,
+        filter: { dateRange: { from: '2024-03-01T00:00:00.000Z', to: '2024-06-30' } },
+      });
+      expect(results.map(result => result.id).sort()).toEqual(['b:0', 'c:0']);
+    });
+
+    it('should combine filters with a custom predicate', async () => {
+      const results = await store.search([1, 1, 0], {
+        topK: 10,
+        filter: { tag: 'guide' },
+        predicate: (_metadata, result) => result.id.endsWith(':1'),
+      });
+      expect(results.map(result => result.id)).toEqual(['a:1']);
+    });
+
+    it('should reject invalid date bounds', async () => {
+      await expect(
+        store.search([1, 0, 0], { filter: { dateRange: { from: 'not-a-date' } } })
+      ).rejects.toThrow(RangeError);
+    });
+  });
+
+  it('should enforce a single vector dimension', async () => {
+    await expect(store.upsert([{ id: 'x', documentId: 'x', vector: [1, 2] }])).rejects.toThrow(RangeError);
+    await expect(store.search([1, 2])).rejects.toThrow(RangeError);
+    await expect(store.search([1, 0, 0], { topK: 0 })).rejects.toThrow(RangeError);
+  });
+
+  describe('snapshots', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'vector-store-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should round-trip the binary encoding', () => {
+      const snapshot = store.toSnapshot();
+      expect(decodeBinarySnapshot(encodeBinarySnapshot(snapshot))).toEqual(snapshot);
+    });
+
+    it.each(['index.json', 'index.bin'])('should save and reload %s', async fileName => {
+      const filePath = join(directory, 'nested', fileName);
+      await saveVectorStoreSnapshot(store, filePath);
+
+      const loaded = await loadVectorStoreSnapshot(filePath);
+
+      expect(loaded).not.toBeNull();
+      expect(await loaded?.size()).toBe(4);
+      expect(loaded?.getDimension()).toBe(3);
+      expect(await loaded?.search([0, 1, 0], { topK: 10, filter: { tag: 'faq' } })).toEqual(
+        await store.search([0, 1, 0], { topK: 10, filter: { tag: 'faq' } })
+      );
+    });
+
+    it('should let overlapping saves to one path all succeed without leaving temporary files', async () => {
+      const filePath = join(directory, 'index.json');
+      const saves = 8;
+
+      await Promise.all(Array.from({ length: saves }, () => saveVectorStoreSnapshot(store, filePath)));
+
+      expect(await readdir(directory)).toEqual(['index.json']);
+      expect(await (await loadVectorStoreSnapshot(filePath))?.size()).toBe(4);
+    });
+
+    it('should remove the temporary file when the write fails', async () => {
+      const filePath = join(directory, 'target');
+      await mkdir(join(filePath, 'occupied'), { recursive: true });
+
+      await expect(saveVectorStoreSnapshot(store, filePath)).rejects.toThrow();
+      expect(await readdir(directory)).toEqual(['target']);
+    });
+
+    it('should return null when the snapshot does not exist', async () => {
+      expect(await loadVectorStoreSnapshot(join(directory, 'missing.bin'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,443 @@
+/**
+ * Vector Store
+ * Brute-force in-process similarity index with metadata filtering and snapshot persistence
+ */
+
+import { readFile } from 'node:fs/promises';
+import { isMissingFileError, writeFileAtomic } from '../utils/json-file.utils.ts';
+import { dotProduct, vectorNorm } from './vector-math.ts';
+
+// Similarity metrics supported by the index
+export type SimilarityMetric = 'cosine' | 'dot';
+
+// Metadata stored alongside each vector (tags/source/createdAt are filterable)
+export interface VectorMetadata {
+  tags?: string[];
+  source?: string | null;
+  createdAt?: string;
+  [key: string]: unknown;
+}
+
+// A vector to index - ids are unique across the store, documentId groups chunks
+export interface VectorRecord {
+  id: string;
+  documentId: string;
+  vector: number[];
+  text?: string;
+  metadata?: VectorMetadata;
+}
+
+// Built-in metadata filters (all given conditions must match)
+export interface VectorSearchFilter {
+  tag?: string;
+  source?: string[];
+  dateRange?: {
+    from?: string;
+    to?: string;
+  };
+}
+
+// Custom metadata predicate for conditions the built-in filters do not cover
+export type MetadataPredicate = (metadata: VectorMetadata, record: VectorSearchResult) => boolean;
+
+export interface VectorSearchOptions {
+  topK?: number;
+  metric?: SimilarityMetric;
+  minScore?: number;
+  filter?: VectorSearchFilter;
+  predicate?: MetadataPredicate;
+}
+
+export interface VectorSearchResult {
+  id: string;
+  documentId: string;
+  score: number;
+  text: string;
+  metadata: VectorMetadata;
+}
+
+// Vector store contract - async so remote/hosted indexes can implement it too
+export interface VectorStore {
+  upsert(records: VectorRecord[]): Promise<void>;
+  deleteByDocument(documentId: string): Promise<number>;
+  search(query: number[], options?: VectorSearchOptions): Promise<VectorSearchResult[]>;
+  size(): Promise<number>;
+  clear(): Promise<void>;
+}
+
+export interface InMemoryVectorStoreOptions {
+  dimension?: number;
+  metric?: SimilarityMetric;
+}
+
+// Serialisable snapshot of an in-memory store
+export interface VectorStoreSnapshot {
+  version: typeof SNAPSHOT_VERSION;
+  dimension: number | null;
+  metric: SimilarityMetric;
+  records: Array<Required<Omit<VectorRecord, 'metadata'>> & { metadata: VectorMetadata }>;
+}
+
+export type VectorSnapshotFormat = 'json' | 'binary';
+
+export const DEFAULT_TOP_K = 5;
+const SNAPSHOT_VERSION = 1;
+
+// Binary snapshot layout: magic, version, header length, JSON header, padding, float32 vectors
+const BINARY_MAGIC = 'RAGV';
+const BINARY_PREAMBLE_BYTES = 12;
+const FLOAT32_BYTES = 4;
+const VERSION_OFFSET = 4;
+const HEADER_LENGTH_OFFSET = 8;
+
+// Indexed entry with its vector packed and norm precomputed
+interface IndexedVector {
+  id: string;
+  documentId: string;
+  text: string;
+  metadata: VectorMetadata;
+  vector: Float32Array;
+  norm: number;
+}
+
+/**
+ * Parse an ISO date filter bound
+ */
+function parseDateBound(value: string | undefined, name: string): number | null {
+  if (value === undefined) {
+    return null;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new RangeError(`dateRange.${name} must be a valid date`);
+  }
+  return time;
+}
+
+/**
+ * Compile built-in filters (and an optional custom predicate) into a single predicate
+ */
+export function createMetadataPredicate(
+  filter: VectorSearchFilter = {},
+  predicate?: MetadataPredicate
+): MetadataPredicate {
+  const from = parseDateBound(filter.dateRange?.from, 'from');
+  const to = parseDateBound(filter.dateRange?.to, 'to');
+  const sources = filter.source !== undefined ? new Set(filter.source) : null;
+
+  return (metadata, record) => {
+    if (filter.tag !== undefined && !(metadata.tags ?? []).includes(filter.tag)) {
+      return false;
+    }
+    if (sources !== null && !sources.has(metadata.source ?? '')) {
+      return false;
+    }
+    if (from !== null || to !== null) {
+      const time = metadata.createdAt !== undefined ? Date.parse(metadata.createdAt) : Number.NaN;
+      if (Number.isNaN(time) || (from !== null && time < from) || (to !== null && time > to)) {
+        return false;
+      }
+    }
+    return predicate === undefined || predicate(metadata, record);
+  };
+}
+
+/**
+ * In-memory brute-force vector index
+ * Every search scans all vectors - fine for the few thousand chunks a function instance holds
+ */
+export class InMemoryVectorStore implements VectorStore {
+  private entries = new Map<string, IndexedVector>();
+  private documentIndex = new Map<string, Set<string>>();
+  private dimension: number | null;
+  private readonly metric: SimilarityMetric;
+
+  constructor(options: InMemoryVectorStoreOptions = {}) {
+    this.dimension = options.dimension ?? null;
+    this.metric = options.metric ?? 'cosine';
+  }
+
+  /**
+   * Vector dimension (fixed by the constructor or the first upsert)
+   */
+  getDimension(): number | null {
+    return this.dimension;
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    for (const record of records) {
+      this.assertDimension(record.vector.length);
+    }
+
+    for (const record of records) {
+      this.removeEntry(record.id);
+
+      const vector = Float32Array.from(record.vector);
+      this.entries.set(record.id, {
+        id: record.id,
+        documentId: record.documentId,
+        text: record.text ?? '',
+        metadata: record.metadata ?? {},
+        vector,
+        norm: vectorNorm(vector),
+      });
+
+      const ids = this.documentIndex.get(record.documentId) ?? new Set<string>();
+      ids.add(record.id);
+      this.documentIndex.set(record.documentId, ids);
+    }
+  }
+
+  async deleteByDocument(documentId: string): Promise<number> {
+    const ids = [...(this.documentIndex.get(documentId) ?? [])];
+    for (const id of ids) {
+      this.removeEntry(id);
+    }
+    return ids.length;
+  }
+
+  async search(query: number[], options: VectorSearchOptions = {}): Promise<VectorSearchResult[]> {
+    const { topK = DEFAULT_TOP_K, metric = this.metric, minScore } = options;
+    if (!Number.isInteger(topK) || topK < 1) {
+      throw new RangeError('topK must be a positive integer');
+    }
+    if (this.entries.size === 0) {
+      return [];
+    }
+    this.assertDimension(query.length);
+
+    const matches = createMetadataPredicate(options.filter, options.predicate);
+    const queryNorm = vectorNorm(query);
+    const results: VectorSearchResult[] = [];
+
+    for (const entry of this.entries.values()) {
+      const score = this.score(query, queryNorm, entry, metric);
+      if (minScore !== undefined && score < minScore) {
+        continue;
+      }
+
+      const result: VectorSearchResult = {
+        id: entry.id,
+        documentId: entry.documentId,
+        score,
+        text: entry.text,
+        metadata: entry.metadata,
+      };
+      if (matches(entry.metadata, result)) {
+        results.push(result);
+      }
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+      .slice(0, topK);
+  }
+
+  async size(): Promise<number> {
+    return this.entries.size;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.documentIndex.clear();
+  }
+
+  /**
+   * Stored records without their vectors (used to rebuild companion indexes)
+   */
+  listRecords(): Array<Omit<VectorSearchResult, 'score'>> {
+    return [...this.entries.values()].map(entry => ({
+      id: entry.id,
+      documentId: entry.documentId,
+      text: entry.text,
+      metadata: entry.metadata,
+    }));
+  }
+
+  /**
+   * Export the index as a plain object
+   */
+  toSnapshot(): VectorStoreSnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      dimension: this.dimension,
+      metric: this.metric,
+      records: [...this.entries.values()].map(entry => ({
+        id: entry.id,
+        documentId: entry.documentId,
+        text: entry.text,
+        metadata: entry.metadata,
+        vector: Array.from(entry.vector),
+      })),
+    };
+  }
+
+  /**
+   * Rebuild an index from a snapshot
+   */
+  static async fromSnapshot(snapshot: VectorStoreSnapshot): Promise<InMemoryVectorStore> {
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported vector snapshot version: ${String(snapshot.version)}`);
+    }
+
+    const store = new InMemoryVectorStore({
+      dimension: snapshot.dimension ?? undefined,
+      metric: snapshot.metric,
+    });
+    await store.upsert(snapshot.records);
+    return store;
+  }
+
+  private score(
+    query: number[],
+    queryNorm: number,
+    entry: IndexedVector,
+    metric: SimilarityMetric
+  ): number {
+    const dot = dotProduct(query, entry.vector);
+    if (metric === 'dot') {
+      return dot;
+    }
+    const denominator = queryNorm * entry.norm;
+    return denominator === 0 ? 0 : dot / denominator;
+  }
+
+  private assertDimension(length: number): void {
+    if (this.dimension === null) {
+      this.dimension = length;
+    } else if (length !== this.dimension) {
+      throw new RangeError(`Expected vector dimension ${this.dimension}, received ${length}`);
+    }
+  }
+
+  private removeEntry(id: string): void {
+    const existing = this.entries.get(id);
+    if (existing === undefined) {
+      return;
+    }
+
+    this.entries.delete(id);
+    const ids = this.documentIndex.get(existing.documentId);
+    ids?.delete(id);
+    if (ids?.size === 0) {
+      this.documentIndex.delete(existing.documentId);
+    }
+  }
+}
+
+/**
+ * Encode a snapshot as a compact binary buffer (vectors stored as little-endian float32)
+ */
+export function encodeBinarySnapshot(snapshot: VectorStoreSnapshot): Uint8Array {
+  const dimension = snapshot.dimension ?? 0;
+  const header = new TextEncoder().encode(JSON.stringify({
+    ...snapshot,
+    records: snapshot.records.map(record => ({
+      id: record.id,
+      documentId: record.documentId,
+      text: record.text,
+      metadata: record.metadata,
+    })),
+  }));
+  const vectorsOffset = Math.ceil((BINARY_PREAMBLE_BYTES + header.length) / FLOAT32_BYTES) * FLOAT32_BYTES;
+  const buffer = new Uint8Array(vectorsOffset + snapshot.records.length * dimension * FLOAT32_BYTES);
+  const view = new DataView(buffer.buffer);
+
+  buffer.set(new TextEncoder().encode(BINARY_MAGIC), 0);
+  view.setUint32(VERSION_OFFSET, SNAPSHOT_VERSION, true);
+  view.setUint32(HEADER_LENGTH_OFFSET, header.length, true);
+  buffer.set(header, BINARY_PREAMBLE_BYTES);
+
+  let offset = vectorsOffset;
+  for (const record of snapshot.records) {
+    for (let i = 0; i < dimension; i++) {
+      view.setFloat32(offset, record.vector[i] ?? 0, true);
+      offset += FLOAT32_BYTES;
+    }
+  }
+
+  return buffer;
+}
+
+/**
+ * Check whether a buffer starts with the binary snapshot magic bytes
+ */
+function isBinarySnapshot(buffer: Uint8Array): boolean {
+  return new TextDecoder().decode(buffer.subarray(0, BINARY_MAGIC.length)) === BINARY_MAGIC;
+}
+
+/**
+ * Decode a buffer produced by encodeBinarySnapshot
+ */
+export function decodeBinarySnapshot(buffer: Uint8Array): VectorStoreSnapshot {
+  if (buffer.length < BINARY_PREAMBLE_BYTES || !isBinarySnapshot(buffer)) {
+    throw new Error('Not a binary vector snapshot');
+  }
+
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const headerLength = view.getUint32(HEADER_LENGTH_OFFSET, true);
+  const header = JSON.parse(
+    new TextDecoder().decode(buffer.subarray(BINARY_PREAMBLE_BYTES, BINARY_PREAMBLE_BYTES + headerLength))
+  ) as VectorStoreSnapshot;
+  const dimension = header.dimension ?? 0;
+  let offset = Math.ceil((BINARY_PREAMBLE_BYTES + headerLength) / FLOAT32_BYTES) * FLOAT32_BYTES;
+
+  if (offset + header.records.length * dimension * FLOAT32_BYTES > buffer.length) {
+    throw new Error('Binary vector snapshot is truncated');
+  }
+
+  return {
+    ...header,
+    records: header.records.map(record => {
+      const vector: number[] = [];
+      for (let i = 0; i < dimension; i++) {
+        vector.push(view.getFloat32(offset, true));
+        offset += FLOAT32_BYTES;
+      }
+      return { ...record, vector };
+    }),
+  };
+}
+
+/**
+ * Snapshot format implied by a file path (.bin is binary, anything else JSON)
+ */
+function formatForPath(filePath: string): VectorSnapshotFormat {
+  return filePath.endsWith('.bin') ? 'binary' : 'json';
+}
+
+/**
+ * Persist an in-memory store to a JSON or binary snapshot file
+ */
+export async function saveVectorStoreSnapshot(
+  store: InMemoryVectorStore,
+  filePath: string,
+  format: VectorSnapshotFormat = formatForPath(filePath)
+): Promise<void> {
+  const snapshot = store.toSnapshot();
+  await writeFileAtomic(
+    filePath,
+    format === 'binary' ? encodeBinarySnapshot(snapshot) : JSON.stringify(snapshot)
+  );
+}
+
+/**
+ * Load a store from a snapshot file (format is detected from the content)
+ * Returns null when the file does not exist, so cold starts can fall back to re-indexing
+ */
+export async function loadVectorStoreSnapshot(filePath: string): Promise<InMemoryVectorStore | null> {
+  let buffer: Uint8Array;
+  try {
+    buffer = await readFile(filePath);
+  } catch (error) {
+    if (isMissingFileError(error)) {
+      return null;
+    }
+    throw error;
+  }
+
+  const snapshot = isBinarySnapshot(buffer)
+    ? decodeBinarySnapshot(buffer)
+    : (JSON.parse(new TextDecoder().decode(buffer)) as VectorStoreSnapshot);
+  return InMemoryVectorStore.fromSnapshot(snapshot);
+}
@@ -0,0 +1,103 @@
+/**
+ * Document Repository Tests
+ * Covers in-memory and JSON file implementations
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  createDocumentRepository,
+  InMemoryDocumentRepository,
+  JsonFileDocumentRepository,
+  type DocumentRepository,
+} from './document.repository';
+
+describe('Document Repository', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'documents-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  const implementations: Array<[string, () => DocumentRepository]> = [
+    ['InMemoryDocumentRepository', () => new InMemoryDocumentRepository()],
+    ['JsonFileDocumentRepository', () => new JsonFileDocumentRepository(join(tempDir, 'documents.json'))],
+  ];
+
+  describe.each(implementations)('%s', (_name, createRepository) => {
+    it('should create a document with generated metadata', async () => {
+      const repository = createRepository();
+      const document = await repository.create({
+        title: '  Guide  ',
+        content: '# Intro\nHello',
+        source: 'docs/guide.md',
+        tags: ['docs', ' docs ', ''],
+      });
+
+      expect(document.id).toMatch(/^[0-9a-f-]{36}$/);
+      expect(document.title).toBe('Guide');
+      expect(document.contentType).toBe('text/markdown');
+      expect(document.tags).toEqual(['docs']);
+      expect(document.createdAt).toBe(document.updatedAt);
+    });
+
+    it('should default to plain text without a markdown source', async () => {
+      const repository = createRepository();
+      const document = await repository.create({ title: 'Notes', content: 'plain' });
+
+      expect(document.contentType).toBe('text/plain');
+      expect(document.source).toBeNull();
+      expect(document.tags).toEqual([]);
+    });
+
+    it('should get, list and delete documents', async () => {
+      const repository = createRepository();
+      const first = await repository.create({ title: 'First', content: 'a' });
+      const second = await repository.create({ title: 'Second', content: 'b' });
+
+      expect(await repository.get(first.id)).toEqual(first);
+      expect(await repository.get('missing')).toBeNull();
+      expect((await repository.list()).map(doc => doc.id).sort()).toEqual([first.id, second.id].sort());
+
+      expect(await repository.delete(first.id)).toBe(true);
+      expect(await repository.delete(first.id)).toBe(false);
+      expect(await repository.list()).toEqual([second]);
+    });
+  });
+
+  describe('JsonFileDocumentRepository persistence', () => {
+    it('should reload documents written by another instance', async () => {
+      const filePath = join(tempDir, 'nested', 'documents.json');
+      const writer = new JsonFileDocumentRepository(filePath);
+      const document = await writer.create({ title: 'Persisted', content: 'kept on disk' });
+
+      const reader = new JsonFileDocumentRepository(filePath);
+      expect(await reader.get(document.id)).toEqual(document);
+
+      const raw = JSON.parse(await readFile(filePath, 'utf8'));
+      expect(raw.documents).toHaveLength(1);
+    });
+
+    it('should start empty when the file does not exist', async () => {
+      const repository = new JsonFileDocumentRepository(join(tempDir, 'missing.json'));
+      expect(await repository.list()).toEqual([]);
+    });
+  });
+
+  describe('createDocumentRepository', () => {
+    it('should create an in-memory repository by default', () => {
+      expect(createDocumentRepository({})).toBeInstanceOf(InMemoryDocumentRepository);
+    });
+
+    it('should create a JSON file repository when a path is given', () => {
+      const repository = createDocumentRepository({ filePath: join(tempDir, 'docs.json') });
+      expect(repository).toBeInstanceOf(JsonFileDocumentRepository);
+    });
+  });
+});
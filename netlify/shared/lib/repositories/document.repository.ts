@@ -0,0 +1,169 @@
+/**
+ * Document Repository
+ * Pluggable storage for knowledge base documents
+ */
+
+import { randomUUID } from 'node:crypto';
+import type {
+  CreateDocumentInput,
+  DocumentContentType,
+  StoredDocument,
+} from '../types/document.types.ts';
+import { readJsonFile, writeJsonFile } from '../utils/json-file.utils.ts';
+
+// Repository interface - implementations must be safe to share between requests
+export interface DocumentRepository {
+  create(input: CreateDocumentInput): Promise<StoredDocument>;
+  list(): Promise<StoredDocument[]>;
+  get(id: string): Promise<StoredDocument | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+// On-disk format of the JSON file repository
+interface DocumentFileContents {
+  documents: StoredDocument[];
+}
+
+/**
+ * Infer content type from the document source when not given explicitly
+ */
+function inferContentType(source: string | null | undefined): DocumentContentType {
+  if (source !== null && source !== undefined && /\.(md|markdown)$/i.test(source)) {
+    return 'text/markdown';
+  }
+  return 'text/plain';
+}
+
+/**
+ * Build a stored document from creation input
+ */
+function buildDocument(input: CreateDocumentInput): StoredDocument {
+  const now = new Date().toISOString();
+  const source = input.source ?? null;
+
+  return {
+    id: randomUUID(),
+    title: input.title.trim(),
+    content: input.content,
+    contentType: input.contentType ?? inferContentType(source),
+    source,
+    tags: [...new Set((input.tags ?? []).map(tag => tag.trim()).filter(tag => tag !== ''))],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Sort documents newest first
+ */
+function sortByCreatedAtDesc(documents: StoredDocument[]): StoredDocument[] {
+  return [...documents].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * In-memory document repository (per function instance)
+ */
+export class InMemoryDocumentRepository implements DocumentRepository {
+  private documents = new Map<string, StoredDocument>();
+
+  async create(input: CreateDocumentInput): Promise<StoredDocument> {
+    const document = buildDocument(input);
+    this.documents.set(document.id, document);
+    return document;
+  }
+
+  async list(): Promise<StoredDocument[]> {
+    return sortByCreatedAtDesc([...this.documents.values()]);
+  }
+
+  async get(id: string): Promise<StoredDocument | null> {
+    return this.documents.get(id) ?? null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.documents.delete(id);
+  }
+}
+
+/**
+ * JSON file document repository
+ * Keeps documents in memory and rewrites the whole file on every mutation
+ */
+export class JsonFileDocumentRepository implements DocumentRepository {
+  private documents: Promise<Map<string, StoredDocument>> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async create(input: CreateDocumentInput): Promise<StoredDocument> {
+    const documents = await this.load();
+    const document = buildDocument(input);
+    documents.set(document.id, document);
+    await this.persist();
+    return document;
+  }
+
+  async list(): Promise<StoredDocument[]> {
+    const documents = await this.load();
+    return sortByCreatedAtDesc([...documents.values()]);
+  }
+
+  async get(id: string): Promise<StoredDocument | null> {
+    const documents = await this.load();
+    return documents.get(id) ?? null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const documents = await this.load();
+    const deleted = documents.delete(id);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  /**
+   * Lazily load the file contents on first access
+   */
+  private load(): Promise<Map<string, StoredDocument>> {
+    this.documents ??= readJsonFile<DocumentFileContents>(this.filePath, { documents: [] })
+      .then(contents => new Map(contents.documents.map(document => [document.id, document])))
+      .catch((error: unknown) => {
+        // Allow a retry on the next access instead of caching the failure
+        this.documents = null;
+        throw error;
+      });
+    return this.documents;
+  }
+
+  /**
+   * Serialize writes so concurrent mutations cannot interleave on disk
+   */
+  private async persist(): Promise<void> {
+    const documents = await this.load();
+    const snapshot: DocumentFileContents = { documents: [...documents.values()] };
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(() => writeJsonFile(this.filePath, snapshot));
+    return this.writeQueue;
+  }
+}
+
+/**
+ * Create a document repository
+ * Uses a JSON file when a path is given (or DOCUMENTS_STORE_PATH is set), memory otherwise
+ */
+export function createDocumentRepository(
+  options: { filePath?: string } = {}
+): DocumentRepository {
+  const filePath = options.filePath ?? process.env.DOCUMENTS_STORE_PATH;
+
+  if (filePath !== undefined && filePath.trim() !== '') {
+    return new JsonFileDocumentRepository(filePath);
+  }
+
+  return new InMemoryDocumentRepository();
+}
@@ -0,0 +1,103 @@
+/**
+ * User Repository Tests
+ * Covers in-memory and JSON file implementations
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  createUserRepository,
+  InMemoryUserRepository,
+  JsonFileUserRepository,
+  type UserRepository,
+} from './user.repository';
+import { ConflictError, NotFoundError } from '../middleware/error.middleware';
+
+describe('User Repository', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'users-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  const implementations: Array<[string, () => UserRepository]> = [
+    ['InMemoryUserRepository', () => new InMemoryUserRepository()],
+    ['JsonFileUserRepository', () => new JsonFileUserRepository(join(tempDir, 'users.json'))],
+  ];
+
+  describe.each(implementations)('%s', (_name, createRepository) => {
+    it('should create users with generated metadata', async () => {
+      const repository = createRepository();
+      const user = await repository.create({ name: '  Ada Lovelace ', email: ' ada@example.com ' });
+
+      expect(user.id).toMatch(/^[0-9a-f-]{36}$/);
+      expect(user.name).toBe('Ada Lovelace');
+      expect(user.email).toBe('ada@example.com');
+      expect(user.createdAt).toBe(user.updatedAt);
+      expect(await repository.get(user.id)).toEqual(user);
+      expect(await repository.findByEmail('ADA@example.com')).toEqual(user);
+    });
+
+    it('should reject duplicate emails regardless of case', async () => {
+      const repository = createRepository();
+      const ada = await repository.create({ name: 'Ada', email: 'ada@example.com' });
+      const grace = await repository.create({ name: 'Grace', email: 'grace@example.com' });
+
+      await expect(repository.create({ name: 'Other Ada', email: 'ADA@example.com' })).rejects.toBeInstanceOf(ConflictError);
+      await expect(repository.update(grace.id, { email: 'ada@example.com' })).rejects.toBeInstanceOf(ConflictError);
+      // Keeping your own email is not a conflict
+      expect((await repository.update(ada.id, { email: 'Ada@example.com' })).email).toBe('Ada@example.com');
+    });
+
+    it('should update, list and delete users', async () => {
+      const repository = createRepository();
+      const first = await repository.create({ name: 'First', email: 'first@example.com' });
+      const second = await repository.create({ name: 'Second', email: 'second@example.com' });
+
+      const renamed = await repository.update(first.id, { name: 'Renamed' });
+      expect(renamed).toMatchObject({ id: first.id, name: 'Renamed', email: 'first@example.com' });
+      expect((await repository.list()).map(user => user.id)).toEqual([first.id, second.id]);
+
+      await repository.delete(first.id);
+      expect(await repository.get(first.id)).toBeNull();
+      expect(await repository.list()).toEqual([second]);
+    });
+
+    it('should throw NotFoundError for unknown users', async () => {
+      const repository = createRepository();
+
+      await expect(repository.update('missing', { name: 'Nobody' })).rejects.toBeInstanceOf(NotFoundError);
+      await expect(repository.delete('missing')).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('JsonFileUserRepository persistence', () => {
+    it('should reload users written by another instance', async () => {
+      const filePath = join(tempDir, 'nested', 'users.json');
+      const writer = new JsonFileUserRepository(filePath);
+      const user = await writer.create({ name: 'Persisted', email: 'kept@example.com' });
+
+      const reader = new JsonFileUserRepository(filePath);
+      expect(await reader.get(user.id)).toEqual(user);
+
+      const raw = JSON.parse(await readFile(filePath, 'utf8'));
+      expect(raw.users).toHaveLength(1);
+    });
+  });
+
+  describe('createUserRepository', () => {
+    it('should create an in-memory repository by default', () => {
+      expect(createUserRepository({})).toBeInstanceOf(InMemoryUserRepository);
+    });
+
+    it('should create a JSON file repository when a path is given', () => {
+      expect(createUserRepository({ filePath: join(tempDir, 'users.json') })).toBeInstanceOf(JsonFileUserRepository);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * User Repository
+ * Pluggable storage for user accounts with unique emails
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { CreateUserInput, UpdateUserInput, User } from '../types/user.types.ts';
+import { ConflictError, NotFoundError } from '../middleware/error.middleware.ts';
+import { readJsonFile, writeJsonFile } from '../utils/json-file.utils.ts';
+
+// Repository interface - implementations must be safe to share between requests
+// create/update throw ConflictError for a taken email, update/delete throw NotFoundError
+export interface UserRepository {
+  create(input: CreateUserInput): Promise<User>;
+  list(): Promise<User[]>;
+  get(id: string): Promise<User | null>;
+  findByEmail(email: string): Promise<User | null>;
+  update(id: string, input: UpdateUserInput): Promise<User>;
+  delete(id: string): Promise<void>;
+}
+
+// On-disk format of the JSON file repository
+interface UserFileContents {
+  users: User[];
+}
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+function findByEmail(users: Map<string, User>, email: string): User | null {
+  const normalized = normalizeEmail(email);
+  for (const user of users.values()) {
+    if (normalizeEmail(user.email) === normalized) {
+      return user;
+    }
+  }
+  return null;
+}
+
+/**
+ * Reject an email already used by a different user
+ */
+function assertEmailAvailable(users: Map<string, User>, email: string, ownerId?: string): void {
+  const existing = findByEmail(users, email);
+  if (existing !== null && existing.id !== ownerId) {
+    throw new ConflictError(`A user with email ${email.trim()} already exists`);
+  }
+}
+
+/**
+ * Add a new user to the map
+ */
+function insertUser(users: Map<string, User>, input: CreateUserInput): User {
+  assertEmailAvailable(users, input.email);
+
+  const now = new Date().toISOString();
+  const user: User = {
+    id: randomUUID(),
+    name: input.name.trim(),
+    email: input.email.trim(),
+    createdAt: now,
+    updatedAt: now,
+  };
+  users.set(user.id, user);
+  return user;
+}
+
+/**
+ * Apply changes to an existing user in the map
+ */
+function applyUpdate(users: Map<string, User>, id: string, input: UpdateUserInput): User {
+  const existing = users.get(id);
+  if (existing === undefined) {
+    throw new NotFoundError(`User ${id} not found`);
+  }
+  if (input.email !== undefined) {
+    assertEmailAvailable(users, input.email, id);
+  }
+
+  const user: User = {
+    ...existing,
+    ...(input.name !== undefined ? { name: input.name.trim() } : {}),
+    ...(input.email !== undefined ? { email: input.email.trim() } : {}),
+    updatedAt: new Date().toISOString(),
+  };
+  users.set(id, user);
+  return user;
+}
+
+function removeUser(users: Map<string, User>, id: string): void {
+  if (!users.delete(id)) {
+    throw new NotFoundError(`User ${id} not found`);
+  }
+}
+
+/**
+ * Sort users oldest first, so new users appear at the end of listings
+ */
+function sortByCreatedAt(users: User[]): User[] {
+  return [...users].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * In-memory user repository (per function instance)
+ */
+export class InMemoryUserRepository implements UserRepository {
+  private users = new Map<string, User>();
+
+  async create(input: CreateUserInput): Promise<User> {
+    return insertUser(this.users, input);
+  }
+
+  async list(): Promise<User[]> {
+    return sortByCreatedAt([...this.users.values()]);
+  }
+
+  async get(id: string): Promise<User | null> {
+    return this.users.get(id) ?? null;
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    return findByEmail(this.users, email);
+  }
+
+  async update(id: string, input: UpdateUserInput): Promise<User> {
+    return applyUpdate(this.users, id, input);
+  }
+
+  async delete(id: string): Promise<void> {
+    removeUser(this.users, id);
+  }
+}
+
+/**
+ * JSON file user repository
+ * Keeps users in memory and rewrites the whole file on every mutation
+ */
+export class JsonFileUserRepository implements UserRepository {
+  private users: Promise<Map<string, User>> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async create(input: CreateUserInput): Promise<User> {
+    const users = await this.load();
+    const user = insertUser(users, input);
+    await this.persist();
+    return user;
+  }
+
+  async list(): Promise<User[]> {
+    const users = await this.load();
+    return sortByCreatedAt([...users.values()]);
+  }
+
+  async get(id: string): Promise<User | null> {
+    const users = await this.load();
+    return users.get(id) ?? null;
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    return findByEmail(await this.load(), email);
+  }
+
+  async update(id: string, input: UpdateUserInput): Promise<User> {
+    const users = await this.load();
+    const user = applyUpdate(users, id, input);
+    await this.persist();
+    return user;
+  }
+
+  async delete(id: string): Promise<void> {
+    const users = await this.load();
+    removeUser(users, id);
+    await this.persist();
+  }
+
+  /**
+   * Lazily load the file contents on first access
+   */
+  private load(): Promise<Map<string, User>> {
+    this.users ??= readJsonFile<UserFileContents>(this.filePath, { users: [] })
+      .then(contents => new Map(contents.users.map(user => [user.id, user])))
+      .catch((error: unknown) => {
+        // Allow a retry on the next access instead of caching the failure
+        this.users = null;
+        throw error;
+      });
+    return this.users;
+  }
+
+  /**
+   * Serialize writes so concurrent mutations cannot interleave on disk
+   */
+  private async persist(): Promise<void> {
+    const users = await this.load();
+    const snapshot: UserFileContents = { users: [...users.values()] };
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(() => writeJsonFile(this.filePath, snapshot));
+    return this.writeQueue;
+  }
+}
+
+/**
+ * Create a user repository
+ * Uses a JSON file when a path is given (or USERS_STORE_PATH is set), memory otherwise
+ */
+export function createUserRepository(options: { filePath?: string } = {}): UserRepository {
+  const filePath = options.filePath ?? process.env.USERS_STORE_PATH;
+
+  if (filePath !== undefined && filePath.trim() !== '') {
+    return new JsonFileUserRepository(filePath);
+  }
+
+  return new InMemoryUserRepository();
+}
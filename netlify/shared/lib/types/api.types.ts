@@ -2,33 +2,13 @@
  * Industrial-standard API response types
  */
 
-export interface ApiError {
-  code: string;
-  message: string;
-  details?: Record<string, unknown>;
-}
-
-export interface ApiMetadata {
-  timestamp: string;
-  requestId: string;
-  version: string;
-  processingTimeMs: number;
-}
-
-export interface ApiResponseSuccess<T = unknown> {
-  status: 'success';
-  payload?: T;
-  metadata: ApiMetadata;
-}
-
-export interface ApiResponseError {
-  status: 'error';
-  error: ApiError;
-  metadata: ApiMetadata;
-}
-
-// Union type for generic API responses
-export type ApiResponse<T = unknown> = ApiResponseSuccess<T> | ApiResponseError;
+export type {
+  ApiError,
+  ApiMetadata,
+  ApiResponse,
+  ApiResponseError,
+  ApiResponseSuccess,
+} from './envelope.types.ts';
 
 // Request context for handlers
 export interface RequestContext {
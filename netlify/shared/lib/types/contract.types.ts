@@ -0,0 +1,72 @@
+/**
+ * Route contracts - method, path and schemas of an endpoint, shared by server and client
+ * Contracts are plain data with no runtime dependencies so the frontend can import them
+ */
+
+import type { FromSchema, JsonSchema } from './json-schema.types.ts';
+import type { HTTP_STATUS } from '../constants/http.constants.ts';
+
+export type ContractMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface ContractResponse {
+  description: string;
+  // Payload schema; JSON payloads are wrapped in the success envelope
+  schema?: JsonSchema;
+  // Defaults to application/json
+  contentType?: string;
+}
+
+// Endpoint definition; also usable as RouteMetadata when registering the route
+export interface RouteContract {
+  method: ContractMethod;
+  // Path below /api, with :param segments
+  path: string;
+  summary?: string;
+  description?: string;
+  tags?: readonly string[];
+  operationId?: string;
+  deprecated?: boolean;
+  request?: {
+    body?: JsonSchema;
+    query?: JsonSchema;
+    params?: JsonSchema;
+  };
+  responses: Readonly<Record<number, ContractResponse>>;
+}
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+// Statuses whose schema describes the payload of a successful call
+type SuccessStatus = typeof HTTP_STATUS.OK | typeof HTTP_STATUS.CREATED;
+
+type PathParamNames<Path extends string> =
+  Path extends `${string}:${infer Name}/${infer Rest}` ? Name | PathParamNames<`/${Rest}`>
+  : Path extends `${string}:${infer Name}` ? Name
+  : never;
+
+// Route parameters, e.g. { id: string } for /users/:id
+export type ContractParams<R extends RouteContract> = { [K in PathParamNames<R['path']>]: string };
+
+// Query accepted by the route, never when it takes none
+export type ContractQuery<R extends RouteContract> =
+  R['request'] extends { query: infer Query } ? FromSchema<Query> : never;
+
+// Request body accepted by the route, never when it takes none
+export type ContractBody<R extends RouteContract> =
+  R['request'] extends { body: infer Body } ? FromSchema<Body> : never;
+
+// Payload of a successful response
+export type ContractPayload<R extends RouteContract> = {
+  [S in SuccessStatus & keyof R['responses']]: R['responses'][S] extends { schema: infer Payload }
+    ? FromSchema<Payload>
+    : undefined;
+}[SuccessStatus & keyof R['responses']];
+
+/**
+ * Arguments needed to call a route: params when the path has any, optional query, and body
+ */
+export type ContractArgs<R extends RouteContract> = Simplify<
+  ([PathParamNames<R['path']>] extends [never] ? unknown : { params: ContractParams<R> }) &
+  ([ContractQuery<R>] extends [never] ? unknown : { query?: ContractQuery<R> }) &
+  ([ContractBody<R>] extends [never] ? unknown : { body: ContractBody<R> })
+>;
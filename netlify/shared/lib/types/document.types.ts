@@ -0,0 +1,45 @@
+/**
+ * Document types for the RAG knowledge base
+ */
+
+// Supported document content types
+export type DocumentContentType = 'text/plain' | 'text/markdown';
+
+// Document metadata (everything except the content itself)
+export interface DocumentMetadata {
+  id: string;
+  title: string;
+  contentType: DocumentContentType;
+  source: string | null;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Stored document with full content
+export interface StoredDocument extends DocumentMetadata {
+  content: string;
+}
+
+// Document listing entry (content omitted, size reported instead)
+export interface DocumentSummary extends DocumentMetadata {
+  characterCount: number;
+}
+
+// Indexing state of a document: chunks present in the index, or stored but not yet indexed
+export type DocumentIndexStatus = 'indexed' | 'not_indexed';
+
+// Document listing entry with its indexing state
+export interface IndexedDocumentSummary extends DocumentSummary {
+  chunkCount: number;
+  status: DocumentIndexStatus;
+}
+
+// Input accepted when creating a document
+export interface CreateDocumentInput {
+  title: string;
+  content: string;
+  contentType?: DocumentContentType;
+  source?: string | null;
+  tags?: string[];
+}
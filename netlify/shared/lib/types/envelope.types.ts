@@ -0,0 +1,33 @@
+/**
+ * Response envelope shared by the API and the frontend
+ * Type-only and dependency-free so both sides can import it
+ */
+
+export interface ApiError {
+  code: string;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export interface ApiMetadata {
+  timestamp: string;
+  // Same id as the request's log entries; echoed in the X-Request-Id header
+  requestId: string;
+  version: string;
+  processingTimeMs: number;
+}
+
+export interface ApiResponseSuccess<T = unknown> {
+  status: 'success';
+  payload: T;
+  metadata: ApiMetadata;
+}
+
+export interface ApiResponseError {
+  status: 'error';
+  error: ApiError;
+  metadata: ApiMetadata;
+}
+
+// Union type for generic API responses
+export type ApiResponse<T = unknown> = ApiResponseSuccess<T> | ApiResponseError;
@@ -0,0 +1,101 @@
+/**
+ * JSON Schema types (draft 2020-12 subset understood by the validator)
+ */
+
+// Primitive JSON Schema types
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
+// String formats checked by the validator; other formats are accepted without checks
+export type JsonSchemaFormat = 'email' | 'uri' | 'date-time' | 'uuid';
+
+// Schema document - plain JSON so it can be served as OpenAPI and reused by other tools
+// Arrays are readonly so schemas declared 'as const' keep their literal types (see FromSchema)
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  // Local references only: '#/$defs/Name' or any other JSON pointer into the root schema
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+
+  title?: string;
+  description?: string;
+  default?: unknown;
+  examples?: readonly unknown[];
+
+  type?: JsonSchemaType | readonly JsonSchemaType[];
+  enum?: readonly unknown[];
+  const?: unknown;
+  oneOf?: readonly JsonSchema[];
+  anyOf?: readonly JsonSchema[];
+  allOf?: readonly JsonSchema[];
+
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  // JsonSchemaFormat values are checked, any other format is accepted as is
+  format?: string;
+
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+
+  // Arrays
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+
+  // Objects
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+}
+
+// ============================================================================
+// Static types inferred from schemas declared 'as const'
+// ============================================================================
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type SchemaDefs<Root> = Root extends { $defs: infer Defs } ? Defs : {};
+
+type RequiredKeys<S> = S extends { required: readonly (infer K)[] } ? K : never;
+
+type FromAllOf<Schemas, Root> = Schemas extends readonly [infer Head, ...infer Tail]
+  ? FromSchema<Head, Root> & FromAllOf<Tail, Root>
+  : unknown;
+
+type FromObject<S, Root> = S extends { properties: infer Properties }
+  ? Simplify<
+      { -readonly [K in keyof Properties as K extends RequiredKeys<S> ? K : never]: FromSchema<Properties[K], Root> } &
+      { -readonly [K in keyof Properties as K extends RequiredKeys<S> ? never : K]?: FromSchema<Properties[K], Root> }
+    >
+  : Record<string, unknown>;
+
+type FromType<Type, S, Root> =
+  Type extends readonly (infer Member)[] ? FromType<Member, S, Root>
+  : Type extends 'string' ? string
+  : Type extends 'number' | 'integer' ? number
+  : Type extends 'boolean' ? boolean
+  : Type extends 'null' ? null
+  : Type extends 'array' ? (S extends { items: infer Items } ? Array<FromSchema<Items, Root>> : unknown[])
+  : Type extends 'object' ? FromObject<S, Root>
+  : never;
+
+/**
+ * TypeScript type of the values a schema accepts
+ * Covers $ref into $defs, const, enum, oneOf/anyOf/allOf, type (including type arrays),
+ * items, properties and required; anything else widens to unknown
+ */
+export type FromSchema<S, Root = S> =
+  S extends { $ref: `#/$defs/${infer Name}` }
+    ? Name extends keyof SchemaDefs<Root> ? FromSchema<SchemaDefs<Root>[Name], Root> : unknown
+  : S extends { const: infer Value } ? Value
+  : S extends { enum: readonly (infer Value)[] } ? Value
+  : S extends { oneOf: readonly (infer Member)[] } ? FromSchema<Member, Root>
+  : S extends { anyOf: readonly (infer Member)[] } ? FromSchema<Member, Root>
+  : S extends { allOf: infer Members } ? Simplify<FromAllOf<Members, Root>>
+  : S extends { type: infer Type } ? FromType<Type, S, Root>
+  : unknown;
@@ -0,0 +1,426 @@
+/**
+ * Unit tests for Router streaming support (SSE and raw streams), the envelope helpers
+ * and error-handling middleware
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createRouter, type ErrorMiddleware } from './router.types.ts';
+import { createErrorHandler, NotFoundError } from '../middleware/error.middleware.ts';
+import { HTTP_STATUS } from '../constants/http.constants.ts';
+
+const request = (path: string): Request => new Request(`http://localhost:3000${path}`);
+
+describe('Router streaming', () => {
+  it('should format Server-Sent Events and close the stream when the handler finishes', async () => {
+    const router = createRouter().get('/events', async (_req, res) => {
+      const sse = res.sse();
+      sse.comment('connected');
+      sse.send('token', 'Hello');
+      sse.send('done', { citations: [1] }, '42');
+      sse.send('multi', 'line one\nline two');
+    });
+
+    const response = await router.handle(request('/events'));
+
+    expect(response.status).toBe(HTTP_STATUS.OK);
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream; charset=utf-8');
+    expect(response.headers.get('Cache-Control')).toBe('no-cache, no-transform');
+    expect(await response.text()).toBe(
+      ': connected\n\n' +
+      'event: token\ndata: Hello\n\n' +
+      'id: 42\nevent: done\ndata: {"citations":[1]}\n\n' +
+      'event: multi\ndata: line one\ndata: line two\n\n'
+    );
+  });
+
+  it('should return the response before the handler finishes writing', async () => {
+    let release = (): void => undefined;
+    const gate = new Promise<void>(resolve => {
+      release = resolve;
+    });
+
+    const router = createRouter().get('/slow', async (_req, res) => {
+      const sse = res.sse();
+      sse.send('progress', { step: 1 });
+      await gate;
+      sse.send('progress', { step: 2 });
+    });
+
+    const response = await router.handle(request('/slow'));
+    const reader = response.body?.getReader();
+    const decoder = new TextDecoder();
+
+    const first = await reader?.read();
+    expect(decoder.decode(first?.value)).toBe('event: progress\ndata: {"step":1}\n\n');
+
+    release();
+    const second = await reader?.read();
+    expect(decoder.decode(second?.value)).toBe('event: progress\ndata: {"step":2}\n\n');
+    expect((await reader?.read())?.done).toBe(true);
+  });
+
+  it('should end the stream with an error event when the handler fails mid-stream', async () => {
+    const router = createRouter().get('/failing', async (_req, res) => {
+      res.sse().send('token', 'partial');
+      await Promise.resolve();
+      throw new Error('generation failed');
+    });
+
+    const response = await router.handle(request('/failing'));
+
+    expect(response.status).toBe(HTTP_STATUS.OK);
+    expect(await response.text()).toBe(
+      'event: token\ndata: partial\n\n' +
+      'event: error\ndata: {"code":"INTERNAL_ERROR","message":"generation failed"}\n\n'
+    );
+  });
+
+  it('should still return a JSON 500 when the handler fails before streaming', async () => {
+    const router = createRouter().get('/broken', async () => {
+      throw new Error('boom');
+    });
+
+    const response = await router.handle(request('/broken'));
+    const data = await response.json();
+
+    expect(response.status).toBe(HTTP_STATUS.INTERNAL_SERVER_ERROR);
+    expect(data.error.message).toBe('boom');
+  });
+
+  it('should drop writes after the client disconnects', async () => {
+    let closedAfterCancel: boolean | undefined;
+    let release = (): void => undefined;
+    const gate = new Promise<void>(resolve => {
+      release = resolve;
+    });
+
+    const router = createRouter().get('/cancel', async (_req, res) => {
+      const sse = res.sse();
+      await gate;
+      closedAfterCancel = sse.closed;
+      sse.send('token', 'ignored');
+    });
+
+    const response = await router.handle(request('/cancel'));
+    await response.body?.cancel();
+    release();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(closedAfterCancel).toBe(true);
+  });
+
+  it('should send a raw ReadableStream body', async () => {
+    const router = createRouter().get('/raw', (_req, res) => {
+      res.set('Content-Type', 'text/plain; charset=utf-8');
+      res.stream(new ReadableStream<Uint8Array | string>({
+        start(controller) {
+          controller.enqueue('chunk one, ');
+          controller.enqueue(new TextEncoder().encode('chunk two'));
+          controller.close();
+        },
+      }));
+    });
+
+    const response = await router.handle(request('/raw'));
+
+    expect(response.headers.get('Content-Type')).toBe('text/plain; charset=utf-8');
+    expect(await response.text()).toBe('chunk one, chunk two');
+  });
+});
+
+describe('Router envelope helpers', () => {
+  it('should wrap payloads in the success envelope with the request metadata', async () => {
+    const router = createRouter().post('/items', (_req, res) => {
+      res.status(HTTP_STATUS.CREATED).success({ id: 'item-1' });
+    });
+
+    const response = await router.handle(new Request('http://localhost:3000/items', { method: 'POST' }));
+    const body = await response.json();
+
+    expect(response.status).toBe(HTTP_STATUS.CREATED);
+    expect(body).toEqual({
+      status: 'success',
+      payload: { id: 'item-1' },
+      metadata: {
+        timestamp: expect.any(String),
+        requestId: response.headers.get('X-Request-Id'),
+        version: '1.0.0',
+        processingTimeMs: expect.any(Number),
+      },
+    });
+  });
+
+  it('should send errors with the status set before, or 500 when none was', async () => {
+    const router = createRouter()
+      .get('/missing', (_req, res) => {
+        res.status(HTTP_STATUS.NOT_FOUND).fail({ code: 'ITEM_NOT_FOUND', message: 'Item not found' });
+      })
+      .get('/broken', (_req, res) => {
+        res.fail({ code: 'BROKEN', message: 'Something broke' });
+      });
+
+    const missing = await router.handle(request('/missing'));
+    const broken = await router.handle(request('/broken'));
+
+    expect(missing.status).toBe(HTTP_STATUS.NOT_FOUND);
+    expect(await missing.json()).toMatchObject({
+      status: 'error',
+      error: { code: 'ITEM_NOT_FOUND', message: 'Item not found' },
+      metadata: { requestId: missing.headers.get('X-Request-Id'), version: '1.0.0' },
+    });
+    expect(broken.status).toBe(HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  });
+
+  it('should give each request its own id, also on unmatched routes', async () => {
+    const router = createRouter();
+
+    const first = await router.handle(request('/nowhere'));
+    const second = await router.handle(request('/nowhere'));
+    const { metadata } = await first.json();
+
+    expect(first.status).toBe(HTTP_STATUS.NOT_FOUND);
+    expect(metadata.requestId).toBe(first.headers.get('X-Request-Id'));
+    expect(second.headers.get('X-Request-Id')).not.toBe(metadata.requestId);
+  });
+});
+
+describe('Router error middleware', () => {
+  // Responds with the status and code carried by the error
+  const respond: ErrorMiddleware = (error, _req, res, _next) => {
+    const { statusCode, code, message } = error as NotFoundError;
+    res.status(statusCode).fail({ code, message });
+  };
+
+  it('should hand errors thrown by routes to four-argument middleware', async () => {
+    const router = createRouter()
+      .get('/items/:id', () => {
+        throw new NotFoundError('Item not found');
+      })
+      .use(respond);
+
+    const response = await router.handle(request('/items/1'));
+
+    expect(response.status).toBe(HTTP_STATUS.NOT_FOUND);
+    expect((await response.json()).error).toEqual({ code: 'NOT_FOUND', message: 'Item not found' });
+  });
+
+  it('should skip the remaining middleware and routes after next(error)', async () => {
+    const route = vi.fn();
+    const router = createRouter()
+      .use((_req, _res, next) => next(new NotFoundError('Gone')))
+      .use((_req, _res, next) => next())
+      .get('/items', route)
+      .use(respond);
+
+    const response = await router.handle(request('/items'));
+
+    expect(response.status).toBe(HTTP_STATUS.NOT_FOUND);
+    expect(route).not.toHaveBeenCalled();
+  });
+
+  it('should pass errors along the error middleware in registration order', async () => {
+    const seen: string[] = [];
+    const replace: ErrorMiddleware = (error, _req, _res, next) => {
+      seen.push((error as Error).message);
+      next(new NotFoundError('replaced'));
+    };
+    const router = createRouter()
+      .get('/items', () => {
+        throw new Error('original');
+      })
+      .use(replace)
+      .use(respond);
+
+    const response = await router.handle(request('/items'));
+
+    expect(seen).toEqual(['original']);
+    expect((await response.json()).error.message).toBe('replaced');
+  });
+
+  it('should fall back to a generic 500 when no error middleware responds', async () => {
+    const router = createRouter().get('/items', () => {
+      throw new NotFoundError('Item not found');
+    });
+
+    const response = await router.handle(request('/items'));
+
+    expect(response.status).toBe(HTTP_STATUS.INTERNAL_SERVER_ERROR);
+    expect((await response.json()).error.code).toBe('INTERNAL_ERROR');
+  });
+});
+
+describe('Router route middleware', () => {
+  it('should run route middleware in order before the handler', async () => {
+    const seen: string[] = [];
+    const router = createRouter().get(
+      '/items',
+      { summary: 'List items' },
+      async (_req, _res, next) => {
+        seen.push('first');
+        await next();
+        seen.push('first done');
+      },
+      (_req, _res, next) => {
+        seen.push('second');
+        next();
+      },
+      (_req, res) => {
+        seen.push('handler');
+        res.success([]);
+      }
+    );
+
+    const response = await router.handle(request('/items'));
+
+    expect(response.status).toBe(HTTP_STATUS.OK);
+    expect(seen).toEqual(['first', 'second', 'handler', 'first done']);
+    expect(router.getRoutes()[0]?.meta).toEqual({ summary: 'List items' });
+  });
+
+  it('should stop at middleware that responds without calling next', async () => {
+    const handler = vi.fn();
+    const router = createRouter().post(
+      '/items',
+      (_req, res) => {
+        res.status(HTTP_STATUS.UNAUTHORIZED).fail({ code: 'AUTH_TOKEN_MISSING', message: 'Token required' });
+      },
+      handler
+    );
+
+    const response = await router.handle(new Request('http://localhost:3000/items', { method: 'POST' }));
+
+    expect(response.status).toBe(HTTP_STATUS.UNAUTHORIZED);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should hand next(error) from route middleware to the error middleware', async () => {
+    const handler = vi.fn();
+    const respond: ErrorMiddleware = (error, _req, res, _next) => {
+      res.status(HTTP_STATUS.NOT_FOUND).fail({ code: 'NOT_FOUND', message: (error as Error).message });
+    };
+    const router = createRouter()
+      .delete('/items/:id', (_req, _res, next) => next(new NotFoundError('Item not found')), handler)
+      .use(respond);
+
+    const response = await router.handle(new Request('http://localhost:3000/items/1', { method: 'DELETE' }));
+
+    expect(response.status).toBe(HTTP_STATUS.NOT_FOUND);
+    expect((await response.json()).error.message).toBe('Item not found');
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe('Router path matching', () => {
+  it('should route RegExp paths and URL-decoded parameters', async () => {
+    const router = createRouter()
+      .get(/^\/reports\/(?<year>\d{4})$/, (req, res) => res.success(req.params))
+      .get('/tags/:tag', (req, res) => res.success(req.params));
+
+    expect((await (await router.handle(request('/reports/2024'))).json()).payload).toEqual({ year: '2024' });
+    expect((await (await router.handle(request('/tags/c%2B%2B'))).json()).payload).toEqual({ tag: 'c++' });
+  });
+
+  it('should respond 400 to malformed parameter encoding', async () => {
+    const router = createRouter().get('/tags/:tag', (_req, res) => res.success());
+
+    const response = await router.handle(request('/tags/%E0%A4%A'));
+
+    expect(response.status).toBe(HTTP_STATUS.BAD_REQUEST);
+  });
+
+  it('should respond 405 with an Allow header when only the method differs', async () => {
+    const router = createRouter()
+      .get('/items/:id(\\d+)', (_req, res) => res.success())
+      .delete('/items/:id(\\d+)', (_req, res) => res.success());
+
+    const response = await router.handle(new Request('http://localhost:3000/items/1', { method: 'POST' }));
+
+    expect(response.status).toBe(HTTP_STATUS.METHOD_NOT_ALLOWED);
+    expect(response.headers.get('Allow')).toBe('GET, DELETE, HEAD, OPTIONS');
+    expect(response.headers.get('X-Request-Id')).toBeTruthy();
+    expect((await response.json()).error.code).toBe('METHOD_NOT_ALLOWED');
+    expect((await router.handle(new Request('http://localhost:3000/items/abc', { method: 'POST' }))).status)
+      .toBe(HTTP_STATUS.NOT_FOUND);
+  });
+});
+
+describe('Router route precedence', () => {
+  it('should prefer static routes over parameters whatever the registration order', async () => {
+    const router = createRouter()
+      .get('/users/:id', (req, res) => res.success({ route: 'byId', id: req.params['id'] }))
+      .get('/users/me', (_req, res) => res.success({ route: 'me' }));
+
+    expect((await (await router.handle(request('/users/me'))).json()).payload).toEqual({ route: 'me' });
+    expect((await (await router.handle(request('/users/7'))).json()).payload).toEqual({ route: 'byId', id: '7' });
+  });
+
+  it('should fall through to the next matching route when a handler does not respond', async () => {
+    const router = createRouter()
+      .get('/files/*', (_req, res) => res.success({ route: 'splat' }))
+      .get('/files/:name', () => undefined);
+
+    expect((await (await router.handle(request('/files/a.txt'))).json()).payload).toEqual({ route: 'splat' });
+  });
+});
+
+describe('Router body parsing', () => {
+  const post = (body: string, contentType: string): Request =>
+    new Request('http://localhost:3000/items', { method: 'POST', headers: { 'Content-Type': contentType }, body });
+
+  it('should hand the parsed body to routes according to its Content-Type', async () => {
+    const router = createRouter().post('/items', (req, res) => res.success(req.body));
+
+    expect((await (await router.handle(post('{"a":1}', 'application/json'))).json()).payload).toEqual({ a: 1 });
+    expect((await (await router.handle(post('a=1&b=2', 'application/x-www-form-urlencoded'))).json()).payload)
+      .toEqual({ a: '1', b: '2' });
+    expect((await (await router.handle(post('hello', 'text/plain'))).json()).payload).toBe('hello');
+  });
+
+  it('should pass unsupported, oversized and malformed bodies to the error middleware, not the route', async () => {
+    const route = vi.fn();
+    const router = createRouter({ bodyLimit: 16 })
+      .use((_req, res, next) => {
+        res.set('X-Middleware', 'ran');
+        return next();
+      })
+      .post('/items', route)
+      .use(createErrorHandler({ logErrors: false }));
+
+    const unsupported = await router.handle(post('<a/>', 'application/xml'));
+    const oversized = await router.handle(post(JSON.stringify({ text: 'more than sixteen bytes' }), 'application/json'));
+    const malformed = await router.handle(post('{"a":', 'application/json'));
+
+    expect(unsupported.status).toBe(HTTP_STATUS.UNSUPPORTED_MEDIA_TYPE);
+    expect((await unsupported.json()).error.code).toBe('UNSUPPORTED_MEDIA_TYPE');
+    expect(oversized.status).toBe(HTTP_STATUS.PAYLOAD_TOO_LARGE);
+    expect((await oversized.json()).error.code).toBe('PAYLOAD_TOO_LARGE');
+    expect(malformed.status).toBe(HTTP_STATUS.BAD_REQUEST);
+    expect((await malformed.json()).error.code).toBe('VALIDATION_ERROR');
+    expect(unsupported.headers.get('X-Middleware')).toBe('ran');
+    expect(route).not.toHaveBeenCalled();
+  });
+});
+
+describe('Router HEAD and OPTIONS', () => {
+  const router = createRouter()
+    .get('/items/:id', (req, res) => res.success({ id: req.params['id'] }))
+    .put('/items/:id', (_req, res) => res.success());
+
+  it('should answer HEAD with the GET route, without a body', async () => {
+    const response = await router.handle(new Request('http://localhost:3000/items/1', { method: 'HEAD' }));
+
+    expect(response.status).toBe(HTTP_STATUS.OK);
+    expect(response.headers.get('Content-Type')).toBe('application/json');
+    expect(await response.text()).toBe('');
+  });
+
+  it('should answer OPTIONS for a matching path with 204 and the allowed methods', async () => {
+    const response = await router.handle(new Request('http://localhost:3000/items/1', { method: 'OPTIONS' }));
+
+    expect(response.status).toBe(HTTP_STATUS.NO_CONTENT);
+    expect(response.headers.get('Allow')).toBe('GET, PUT, HEAD, OPTIONS');
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect((await router.handle(new Request('http://localhost:3000/missing', { method: 'OPTIONS' }))).status)
+      .toBe(HTTP_STATUS.NOT_FOUND);
+  });
+});
@@ -5,6 +5,13 @@
 
 import type { HttpStatusCode } from '../constants/http.constants.ts';
 import { HTTP_STATUS } from '../constants/http.constants.ts';
+import type { JsonSchema } from './json-schema.types.ts';
+import type { ApiError } from './envelope.types.ts';
+import { createMetadata, generateRequestId, methodNotAllowed } from '../utils/response.utils.ts';
+import { compileRoutePath, mountRoutePath, type PathMatcher } from '../utils/route-path.utils.ts';
+import { RouteTree, type RouteTreeMatch } from '../utils/route-tree.utils.ts';
+import { DEFAULT_BODY_LIMIT_BYTES, parseRequestBody } from '../utils/body-parser.utils.ts';
+import type { RequestSchema } from '../middleware/validation.middleware.ts';
 
 // Route handler type
 export type RouteHandler = (
@@ -12,11 +19,22 @@ export type RouteHandler = (
   res: ExpressResponse
 ) => void | Promise<void>;
 
+// Continues the chain; passing an error skips to the error-handling middleware
+export type NextFunction = (error?: unknown) => void;
+
 // Middleware type
 export type Middleware = (
   req: ExpressRequest,
   res: ExpressResponse,
-  next: () => void
+  next: NextFunction
+) => void | Promise<void>;
+
+// Error-handling middleware - told apart from Middleware by its four parameters, as in Express
+export type ErrorMiddleware = (
+  error: unknown,
+  req: ExpressRequest,
+  res: ExpressResponse,
+  next: NextFunction
 ) => void | Promise<void>;
 
 // MiddlewareChain type for creating middleware chains
@@ -26,23 +44,73 @@ export type MiddlewareChain = (
   next: () => void
 ) => void | Promise<void>;
 
+// Documented response of a route, keyed by status code in RouteMetadata
+export interface RouteResponseMetadata {
+  description: string;
+  // Payload schema - JSON responses are documented inside the success/error envelope
+  schema?: JsonSchema;
+  // Defaults to application/json
+  contentType?: string;
+}
+
+// Optional route documentation, used to generate the OpenAPI document
+export interface RouteMetadata {
+  summary?: string;
+  description?: string;
+  tags?: readonly string[];
+  operationId?: string;
+  deprecated?: boolean;
+  // Schemas the route validates its input with
+  request?: {
+    body?: RequestSchema;
+    query?: RequestSchema;
+    params?: RequestSchema;
+  };
+  responses?: Record<number, RouteResponseMetadata>;
+}
+
+// Route-level middleware followed by the handler, e.g. requireAuth, validateBody(schema), handler
+type RouteChain = [...middleware: Middleware[], handler: RouteHandler];
+
+// Route registration arguments: the handler chain, optionally preceded by its metadata
+type RouteArgs = RouteChain | [meta: RouteMetadata, ...chain: RouteChain];
+
 // Route definition
-interface Route {
+export interface Route {
   method: string;
+  // Express-style path (see route-path.utils.ts) or a RegExp whose named groups become params
   path: string | RegExp;
   handler: RouteHandler;
+  meta?: RouteMetadata;
 }
 
+// Query/route parameter value - a string as parsed from the URL,
+// replaced by its schema type once validateQuery/validateParams has coerced it
+export type RequestValue = string | number | boolean | Date | RequestValue[];
+
 // Express-like Request object
 export interface ExpressRequest {
   method: string;
   url: string;
   path: string;
-  query: Record<string, string>;
-  params: Record<string, string>;
+  query: Record<string, RequestValue>;
+  params: Record<string, RequestValue>;
   headers: Headers;
+  // Parsed according to Content-Type (see body-parser.utils.ts); null when the request has no body
   body: unknown;
   originalRequest: Request;
+  // Reported in the response metadata and the X-Request-Id header
+  requestId: string;
+  // When the router received the request (ms since epoch)
+  startTime: number;
+}
+
+// Server-Sent Events writer (see res.sse())
+export interface SseWriter {
+  readonly closed: boolean;
+  send: (event: string, data: unknown, id?: string) => void;
+  comment: (text: string) => void;
+  close: () => void;
 }
 
 // Express-like Response object
@@ -56,10 +124,69 @@ export interface ExpressResponse {
   send: (data: string) => void;
   set: (key: string, value: string) => ExpressResponse;
   setHeader: (key: string, value: string) => ExpressResponse;
+
+  // Envelope helpers - send { status, payload | error, metadata } with the request's metadata filled in
+  success: (payload?: unknown) => void;
+  // Keeps an error status set with status(), otherwise responds 500
+  fail: (error: ApiError) => void;
+
+  // Streaming - the response is sent as soon as streaming starts, the handler keeps writing
+  sse: () => SseWriter;
+  stream: (body: ReadableStream<Uint8Array | string>) => void;
   
   // Internal
   _sent: boolean;
   _body: string;
+  _stream: ReadableStream<Uint8Array> | null;
+}
+
+// Declared parameter count that marks a function passed to use() as error-handling middleware
+const ERROR_MIDDLEWARE_ARITY = 4;
+
+const isErrorMiddleware = (middleware: Middleware | ErrorMiddleware): middleware is ErrorMiddleware =>
+  middleware.length === ERROR_MIDDLEWARE_ARITY;
+
+/**
+ * Combine route-level middleware and the handler into a single route handler
+ * Each step runs once the previous one calls next(); a step that responds without calling
+ * next() ends the chain, and next(error) rejects so the error reaches the error middleware
+ */
+function composeRouteChain(chain: readonly Middleware[]): RouteHandler {
+  const dispatch = async (index: number, req: ExpressRequest, res: ExpressResponse): Promise<void> => {
+    const step = chain[index];
+    if (step === undefined) {
+      return;
+    }
+
+    // Awaited below, so steps that call next() without awaiting it still finish first
+    const downstream: { promise?: Promise<void>; error?: unknown } = {};
+    await step(req, res, (error?: unknown) => {
+      if (error !== undefined) {
+        downstream.error = error;
+      } else {
+        downstream.promise = dispatch(index + 1, req, res);
+      }
+    });
+
+    if ('error' in downstream) {
+      throw downstream.error;
+    }
+    await downstream.promise;
+  };
+
+  return (req, res) => dispatch(0, req, res);
+}
+
+// Response plus the hooks the router needs to drive streaming handlers
+interface ResponseController {
+  res: ExpressResponse;
+  streamStarted: Promise<void>;
+  finish: (error?: unknown) => void;
+}
+
+export interface RouterOptions {
+  // Largest request body accepted, in bytes; larger bodies reach the error middleware as a 413
+  bodyLimit?: number;
 }
 
 /**
@@ -67,24 +194,40 @@ export interface ExpressResponse {
  */
 export class Router {
   private routes: Route[] = [];
+  // String paths are looked up in the tree; RegExp routes are tried after it, in registration order
+  private routeTree = new RouteTree<Route>();
+  private regExpRoutes: { route: Route; match: PathMatcher }[] = [];
   private middlewares: Middleware[] = [];
+  private errorMiddlewares: ErrorMiddleware[] = [];
   private basePath = '';
+  private bodyLimit: number;
+
+  constructor({ bodyLimit = DEFAULT_BODY_LIMIT_BYTES }: RouterOptions = {}) {
+    this.bodyLimit = bodyLimit;
+  }
 
   /**
    * Add middleware
+   * Functions declaring four parameters (error, req, res, next) handle errors thrown by
+   * middleware and routes, or passed to next(error); they run in registration order
    */
   use(middleware: Middleware): this;
+  use(errorMiddleware: ErrorMiddleware): this;
   use(path: string, router: Router): this;
-  use(pathOrMiddleware: string | Middleware, router?: Router): this {
+  use(pathOrMiddleware: string | Middleware | ErrorMiddleware, router?: Router): this {
     if (typeof pathOrMiddleware === 'function') {
-      this.middlewares.push(pathOrMiddleware);
+      if (isErrorMiddleware(pathOrMiddleware)) {
+        this.errorMiddlewares.push(pathOrMiddleware);
+      } else {
+        this.middlewares.push(pathOrMiddleware);
+      }
     } else if (router !== undefined) {
       // Mount sub-router
       const subRoutes = router.getRoutes();
       for (const route of subRoutes) {
-        this.routes.push({
+        this.register({
           ...route,
-          path: this.combinePaths(pathOrMiddleware, route.path as string),
+          path: mountRoutePath(pathOrMiddleware, route.path),
         });
       }
     }
@@ -94,152 +237,128 @@ export class Router {
   /**
    * GET route
    */
-  get(path: string, handler: RouteHandler): this {
-    this.routes.push({ method: 'GET', path, handler });
-    return this;
+  get(path: string | RegExp, ...chain: RouteChain): this;
+  get(path: string | RegExp, meta: RouteMetadata, ...chain: RouteChain): this;
+  get(path: string | RegExp, ...args: RouteArgs): this {
+    return this.addRoute('GET', path, args);
   }
 
   /**
    * POST route
    */
-  post(path: string, handler: RouteHandler): this {
-    this.routes.push({ method: 'POST', path, handler });
-    return this;
+  post(path: string | RegExp, ...chain: RouteChain): this;
+  post(path: string | RegExp, meta: RouteMetadata, ...chain: RouteChain): this;
+  post(path: string | RegExp, ...args: RouteArgs): this {
+    return this.addRoute('POST', path, args);
   }
 
   /**
    * PUT route
    */
-  put(path: string, handler: RouteHandler): this {
-    this.routes.push({ method: 'PUT', path, handler });
-    return this;
+  put(path: string | RegExp, ...chain: RouteChain): this;
+  put(path: string | RegExp, meta: RouteMetadata, ...chain: RouteChain): this;
+  put(path: string | RegExp, ...args: RouteArgs): this {
+    return this.addRoute('PUT', path, args);
   }
 
   /**
    * DELETE route
    */
-  delete(path: string, handler: RouteHandler): this {
-    this.routes.push({ method: 'DELETE', path, handler });
-    return this;
+  delete(path: string | RegExp, ...chain: RouteChain): this;
+  delete(path: string | RegExp, meta: RouteMetadata, ...chain: RouteChain): this;
+  delete(path: string | RegExp, ...args: RouteArgs): this {
+    return this.addRoute('DELETE', path, args);
   }
 
   /**
    * PATCH route
    */
-  patch(path: string, handler: RouteHandler): this {
-    this.routes.push({ method: 'PATCH', path, handler });
-    return this;
+  patch(path: string | RegExp, ...chain: RouteChain): this;
+  patch(path: string | RegExp, meta: RouteMetadata, ...chain: RouteChain): this;
+  patch(path: string | RegExp, ...args: RouteArgs): this {
+    return this.addRoute('PATCH', path, args);
   }
 
   /**
    * OPTIONS route
    */
-  options(path: string, handler: RouteHandler): this {
-    this.routes.push({ method: 'OPTIONS', path, handler });
-    return this;
+  options(path: string | RegExp, ...chain: RouteChain): this;
+  options(path: string | RegExp, meta: RouteMetadata, ...chain: RouteChain): this;
+  options(path: string | RegExp, ...args: RouteArgs): this {
+    return this.addRoute('OPTIONS', path, args);
   }
 
   /**
    * ALL methods route
    */
-  all(path: string, handler: RouteHandler): this {
+  all(path: string | RegExp, ...chain: RouteChain): this;
+  all(path: string | RegExp, meta: RouteMetadata, ...chain: RouteChain): this;
+  all(path: string | RegExp, ...args: RouteArgs): this {
     const methods = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'];
     for (const method of methods) {
-      this.routes.push({ method, path, handler });
+      this.addRoute(method, path, args);
     }
     return this;
   }
 
   /**
-   * Get all routes (for sub-router mounting)
+   * Get all routes (for sub-router mounting and documentation)
    */
   getRoutes(): Route[] {
     return this.routes;
   }
 
   /**
-   * Combine paths
+   * Register a route with optional metadata and route-level middleware
    */
-  private combinePaths(base: string, path: string): string {
-    const normalizedBase = base.endsWith('/') ? base.slice(0, -1) : base;
-    // Handle root path case - don't add trailing slash
-    if (path === '/' || path === '') {
-      return normalizedBase;
-    }
-    const normalizedPath = path.startsWith('/') ? path : `/${path}`;
-    return `${normalizedBase}${normalizedPath}`;
+  private addRoute(method: string, path: string | RegExp, args: RouteArgs): this {
+    const [first, ...rest] = args;
+    const meta = typeof first === 'function' ? undefined : first;
+    // A route handler is a middleware that never calls next()
+    const chain = (meta === undefined ? args : rest) as Middleware[];
+    const handler = chain.length === 1 ? (chain[0] as RouteHandler) : composeRouteChain(chain);
+    this.register({ method, path, handler, ...(meta !== undefined ? { meta } : {}) });
+    return this;
   }
 
   /**
-   * Match route path with URL path
+   * Store a route and compile its path for lookup
    */
-  private matchPath(
-    routePath: string,
-    urlPath: string
-  ): { match: boolean; params: Record<string, string> } {
-    const params: Record<string, string> = {};
-
-    // Normalize trailing slashes: remove trailing slash unless it's the root path
-    const normalizedRoutePath = routePath.endsWith('/') && routePath !== '/' 
-      ? routePath.slice(0, -1) 
-      : routePath;
-    const normalizedUrlPath = urlPath.endsWith('/') && urlPath !== '/' 
-      ? urlPath.slice(0, -1) 
-      : urlPath;
-
-    // Exact match
-    if (normalizedRoutePath === normalizedUrlPath) {
-      return { match: true, params };
-    }
-
-    // Parameter matching (e.g., /users/:id)
-    const routeParts = normalizedRoutePath.split('/').filter(p => p !== '');
-    const urlParts = normalizedUrlPath.split('/').filter(p => p !== '');
-
-    if (routeParts.length !== urlParts.length) {
-      return { match: false, params };
+  private register(route: Route): void {
+    this.routes.push(route);
+    if (route.path instanceof RegExp) {
+      this.regExpRoutes.push({ route, match: compileRoutePath(route.path) });
+    } else {
+      this.routeTree.insert(route.path, route);
     }
+  }
 
-    for (let i = 0; i < routeParts.length; i++) {
-      const routePart = routeParts[i];
-      const urlPart = urlParts[i];
-
-      if (routePart?.startsWith(':')) {
-        // Parameter - check for duplicate parameter names
-        const paramName = routePart.slice(1);
-        if (params[paramName] !== undefined) {
-          // Duplicate parameter - invalid route
-          return { match: false, params };
-        }
-        params[paramName] = urlPart ?? '';
-      } else if (routePart !== urlPart) {
-        return { match: false, params };
+  /**
+   * Find the routes matching a URL path, whatever their method, in precedence order
+   * Throws URIError when a parameter has a malformed percent-encoding
+   */
+  private findRoutes(path: string): RouteTreeMatch<Route>[] {
+    const matches = this.routeTree.lookup(path);
+    for (const { route, match } of this.regExpRoutes) {
+      const params = match(path);
+      if (params !== null) {
+        matches.push({ value: route, params });
       }
     }
-
-    return { match: true, params };
+    return matches;
   }
 
   /**
    * Create Express-like request object
    */
-  private async createRequest(request: Request): Promise<ExpressRequest> {
+  private createRequest(request: Request, startTime: number): ExpressRequest {
     const url = new URL(request.url);
-    const query: Record<string, string> = {};
+    const query: Record<string, RequestValue> = {};
     
     url.searchParams.forEach((value, key) => {
       query[key] = value;
     });
 
-    let body: unknown = null;
-    if (request.method !== 'GET' && request.method !== 'HEAD') {
-      try {
-        body = await request.json();
-      } catch {
-        body = null;
-      }
-    }
-
     return {
       method: request.method.toUpperCase(),
       url: request.url,
@@ -247,15 +366,24 @@ export class Router {
       query,
       params: {},
       headers: request.headers,
-      body,
+      body: null,
       originalRequest: request,
+      requestId: generateRequestId(),
+      startTime,
     };
   }
 
   /**
    * Create Express-like response object
    */
-  private createResponse(): ExpressResponse {
+  private createResponse(req: ExpressRequest): ResponseController {
+    const encoder = new TextEncoder();
+    let sseWriter: SseWriter | null = null;
+    let notifyStreamStart = (): void => undefined;
+    const streamStarted = new Promise<void>(resolve => {
+      notifyStreamStart = resolve;
+    });
+
     const res: ExpressResponse = {
       statusCode: HTTP_STATUS.OK,
       headers: {
@@ -263,9 +391,11 @@ export class Router {
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, PATCH, OPTIONS',
         'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-trigger-error',
+        'X-Request-Id': req.requestId,
       },
       _sent: false,
       _body: '',
+      _stream: null,
 
       status(code: HttpStatusCode): ExpressResponse {
         this.statusCode = code;
@@ -291,104 +421,301 @@ export class Router {
         this.headers[key] = value;
         return this;
       },
+
+      success(payload?: unknown): void {
+        this.json({
+          status: 'success',
+          payload,
+          metadata: createMetadata(Date.now() - req.startTime, req.requestId),
+        });
+      },
+
+      fail(error: ApiError): void {
+        if (this.statusCode < HTTP_STATUS.BAD_REQUEST) {
+          this.statusCode = HTTP_STATUS.INTERNAL_SERVER_ERROR;
+        }
+        this.json({
+          status: 'error',
+          error,
+          metadata: createMetadata(Date.now() - req.startTime, req.requestId),
+        });
+      },
+
+      sse(): SseWriter {
+        if (sseWriter !== null) {
+          return sseWriter;
+        }
+
+        let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+        let closed = false;
+        const write = (chunk: string): void => {
+          if (!closed) {
+            controller?.enqueue(encoder.encode(chunk));
+          }
+        };
+
+        this._stream = new ReadableStream<Uint8Array>({
+          start(streamController) {
+            controller = streamController;
+          },
+          cancel() {
+            // Client went away - further writes are dropped
+            closed = true;
+          },
+        });
+        this.headers['Content-Type'] = 'text/event-stream; charset=utf-8';
+        this.headers['Cache-Control'] = 'no-cache, no-transform';
+        this._sent = true;
+
+        sseWriter = {
+          get closed(): boolean {
+            return closed;
+          },
+          send(event: string, data: unknown, id?: string): void {
+            const payload = typeof data === 'string' ? data : JSON.stringify(data);
+            const lines = payload.split('\n').map(line => `data: ${line}`).join('\n');
+            write(`${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\n${lines}\n\n`);
+          },
+          comment(text: string): void {
+            write(`: ${text}\n\n`);
+          },
+          close(): void {
+            if (!closed) {
+              closed = true;
+              controller?.close();
+            }
+          },
+        };
+
+        notifyStreamStart();
+        return sseWriter;
+      },
+
+      stream(body: ReadableStream<Uint8Array | string>): void {
+        this._stream = body.pipeThrough(
+          new TransformStream<Uint8Array | string, Uint8Array>({
+            transform(chunk, streamController) {
+              streamController.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+            },
+          })
+        );
+        this._sent = true;
+        notifyStreamStart();
+      },
     };
 
-    return res;
+    return {
+      res,
+      streamStarted,
+      finish(error?: unknown): void {
+        // SSE streams end with the handler; failures are reported as a final error event
+        if (sseWriter === null || sseWriter.closed) {
+          return;
+        }
+        if (error !== undefined) {
+          sseWriter.send('error', {
+            code: 'INTERNAL_ERROR',
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+        sseWriter.close();
+      },
+    };
+  }
+
+  /**
+   * Build the Fetch API response from the Express-like response
+   */
+  private toResponse(res: ExpressResponse): Response {
+    // For 204 No Content responses, don't include a body
+    const body = res.statusCode === HTTP_STATUS.NO_CONTENT ? undefined : res._stream ?? res._body;
+    return new Response(body, {
+      status: res.statusCode,
+      headers: res.headers,
+    });
+  }
+
+  /**
+   * Add the headers set on the Express-like response (CORS, request id) to a prebuilt response
+   */
+  private withResponseHeaders(response: Response, res: ExpressResponse): Response {
+    for (const [key, value] of Object.entries(res.headers)) {
+      if (!response.headers.has(key)) {
+        response.headers.set(key, value);
+      }
+    }
+    return response;
+  }
+
+  /**
+   * Run a route handler until it finishes or starts streaming
+   * Streaming handlers keep running in the background after the response is returned
+   */
+  private async runHandler(
+    handler: RouteHandler,
+    req: ExpressRequest,
+    controller: ResponseController
+  ): Promise<void> {
+    const handled = Promise.resolve().then(() => handler(req, controller.res));
+    await Promise.race([handled, controller.streamStarted]);
+
+    if (controller.res._stream !== null) {
+      handled.then(
+        () => controller.finish(),
+        (error: unknown) => controller.finish(error ?? new Error('Stream handler failed'))
+      );
+    }
   }
 
   /**
    * Handle incoming request
+   * HEAD requests are answered like GET, without the body
    */
   async handle(request: Request): Promise<Response> {
-    const startTime = Date.now();
-    const req = await this.createRequest(request);
-    const res = this.createResponse();
+    const response = await this.dispatch(request);
+    if (request.method !== 'HEAD') {
+      return response;
+    }
+    await response.body?.cancel();
+    return new Response(null, { status: response.status, headers: response.headers });
+  }
+
+  /**
+   * Run the middleware, the matching route and, on failure, the error middleware
+   */
+  private async dispatch(request: Request): Promise<Response> {
+    const req = this.createRequest(request, Date.now());
+    const controller = this.createResponse(req);
+    const { res } = controller;
 
     try {
-      // Run middlewares
+      // Run middlewares; next(error) stops the chain and hands the error to the error middleware
       let middlewareIndex = 0;
+      const forwarded: { error?: unknown } = {};
+      const next = (error?: unknown): Promise<void> => {
+        if (error !== undefined) {
+          forwarded.error = error;
+          return Promise.resolve();
+        }
+        return runMiddleware();
+      };
       const runMiddleware = async (): Promise<void> => {
         if (middlewareIndex < this.middlewares.length) {
           const middleware = this.middlewares[middlewareIndex];
           middlewareIndex++;
           if (middleware !== undefined) {
-            await middleware(req, res, runMiddleware);
+            await middleware(req, res, next);
           }
         }
       };
 
       await runMiddleware();
+      if ('error' in forwarded) {
+        throw forwarded.error;
+      }
 
       if (res._sent) {
-        // For 204 No Content responses, don't include a body
-        const body = res.statusCode === HTTP_STATUS.NO_CONTENT ? undefined : res._body;
-        return new Response(body, {
-          status: res.statusCode,
-          headers: res.headers,
+        return this.toResponse(res);
+      }
+
+      // Parsed after this router's middleware, so that middleware also sees rejected bodies; a mounted
+      // router's middleware never runs, as use(path, router) copies only its routes. Unsupported (415),
+      // oversized (413) and malformed (400) bodies go to the error middleware
+      if (request.method !== 'GET' && request.method !== 'HEAD') {
+        req.body = await parseRequestBody(request, { limit: this.bodyLimit });
+      }
+
+      // Find matching route; methods of routes matching only the path are collected for a 405
+      let candidates: RouteTreeMatch<Route>[];
+      try {
+        candidates = this.findRoutes(req.path);
+      } catch {
+        res.status(HTTP_STATUS.BAD_REQUEST).fail({
+          code: 'BAD_REQUEST',
+          message: `Malformed URL encoding in ${req.path}`,
         });
+        return this.toResponse(res);
       }
 
-      // Find matching route
-      for (const route of this.routes) {
-        if (route.method !== req.method) {
+      // HEAD runs the GET routes; handle() drops the body
+      const method = req.method === 'HEAD' ? 'GET' : req.method;
+      const pathMethods = new Set<string>();
+      let methodMatched = false;
+      for (const { value: route, params } of candidates) {
+        pathMethods.add(route.method);
+        if (route.method !== method) {
           continue;
         }
 
-        const { match, params } = this.matchPath(route.path as string, req.path);
-        if (match) {
-          req.params = params;
-          await route.handler(req, res);
+        methodMatched = true;
+        req.params = params;
+        await this.runHandler(route.handler, req, controller);
 
-          if (res._sent) {
-            return new Response(res._body, {
-              status: res.statusCode,
-              headers: res.headers,
-            });
-          }
+        if (res._sent) {
+          return this.toResponse(res);
         }
       }
 
+      if (pathMethods.size > 0 && !methodMatched) {
+        const allowedMethods = [...new Set([
+          ...pathMethods,
+          ...(pathMethods.has('GET') ? ['HEAD'] : []),
+          'OPTIONS',
+        ])];
+        // Preflights and OPTIONS probes get the methods of the path without a dedicated route
+        if (req.method === 'OPTIONS') {
+          res.status(HTTP_STATUS.NO_CONTENT).set('Allow', allowedMethods.join(', '));
+          return this.toResponse(res);
+        }
+        return this.withResponseHeaders(methodNotAllowed(req.startTime, allowedMethods, req.requestId), res);
+      }
+
       // No route found - 404
-      res.status(HTTP_STATUS.NOT_FOUND).json({
-        status: 'error',
-        error: {
-          code: 'NOT_FOUND',
-          message: `Cannot ${req.method} ${req.path}`,
-        },
-        metadata: {
-          timestamp: new Date().toISOString(),
-          processingTimeMs: Date.now() - startTime,
-        },
+      res.status(HTTP_STATUS.NOT_FOUND).fail({
+        code: 'NOT_FOUND',
+        message: `Cannot ${req.method} ${req.path}`,
       });
 
-      return new Response(res._body, {
-        status: res.statusCode,
-        headers: res.headers,
-      });
+      return this.toResponse(res);
     } catch (error) {
-      // Error handling - return JSON error response
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json({
-        status: 'error',
-        error: {
-          code: 'INTERNAL_ERROR',
-          message: errorMessage,
-        },
-        metadata: {
-          timestamp: new Date().toISOString(),
-          processingTimeMs: Date.now() - startTime,
-        },
-      });
+      return this.handleError(error, req, res);
+    }
+  }
+
+  /**
+   * Pass an error through the error middleware until one of them responds
+   * An error middleware may call next(error) with a replacement error, or throw one
+   */
+  private async handleError(error: unknown, req: ExpressRequest, res: ExpressResponse): Promise<Response> {
+    let current = error;
+    for (const errorMiddleware of this.errorMiddlewares) {
+      if (res._sent) {
+        break;
+      }
+      try {
+        await errorMiddleware(current, req, res, (nextError?: unknown) => {
+          if (nextError !== undefined) {
+            current = nextError;
+          }
+        });
+      } catch (thrown) {
+        current = thrown;
+      }
+    }
 
-      return new Response(res._body, {
-        status: res.statusCode,
-        headers: res.headers,
+    if (!res._sent) {
+      // No error middleware responded - return a generic JSON error response
+      res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).fail({
+        code: 'INTERNAL_ERROR',
+        message: current instanceof Error ? current.message : String(current),
       });
     }
+
+    return this.toResponse(res);
   }
 }
 
 /**
  * Create a new router instance (Express-like factory)
  */
-export const createRouter = (): Router => new Router();
+export const createRouter = (options?: RouterOptions): Router => new Router(options);
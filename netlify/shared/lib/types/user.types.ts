@@ -0,0 +1,21 @@
+/**
+ * User types for the users API
+ */
+
+// Stored user account
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Input accepted when creating a user
+export interface CreateUserInput {
+  name: string;
+  email: string;
+}
+
+// Fields that can be changed on an existing user
+export type UpdateUserInput = Partial<CreateUserInput>;
@@ -0,0 +1,92 @@
+/**
+ * Body Parser Utils Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseContentType, parseRequestBody } from './body-parser.utils';
+import { PayloadTooLargeError, UnsupportedMediaTypeError, ValidationError } from '../middleware/error.middleware';
+
+const post = (body: BodyInit | null, contentType?: string): Request =>
+  new Request('http://localhost:3000/upload', {
+    method: 'POST',
+    ...(contentType !== undefined ? { headers: { 'Content-Type': contentType } } : {}),
+    body,
+  });
+
+describe('Body Parser Utils', () => {
+  describe('parseContentType', () => {
+    it('should split the media type and charset', () => {
+      expect(parseContentType('Application/JSON; charset="UTF-8"')).toEqual({ mediaType: 'application/json', charset: 'UTF-8' });
+      expect(parseContentType('text/plain')).toEqual({ mediaType: 'text/plain' });
+      expect(parseContentType(null)).toEqual({ mediaType: '' });
+    });
+  });
+
+  describe('parseRequestBody', () => {
+    it('should parse JSON, including +json media types', async () => {
+      expect(await parseRequestBody(post('{"name":"Ada"}', 'application/json'))).toEqual({ name: 'Ada' });
+      expect(await parseRequestBody(post('[1,2]', 'application/merge-patch+json'))).toEqual([1, 2]);
+    });
+
+    it('should reject malformed JSON instead of discarding it', async () => {
+      await expect(parseRequestBody(post('{"name":', 'application/json'))).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('should parse urlencoded forms, collecting repeated fields', async () => {
+      const body = await parseRequestBody(post('tag=a&tag=b&title=Hello+world', 'application/x-www-form-urlencoded'));
+
+      expect(body).toEqual({ tag: ['a', 'b'], title: 'Hello world' });
+    });
+
+    it('should parse multipart forms with file parts', async () => {
+      const multipart = [
+        '--boundary',
+        'Content-Disposition: form-data; name="title"',
+        '',
+        'Handbook',
+        '--boundary',
+        'Content-Disposition: form-data; name="file"; filename="handbook.md"',
+        'Content-Type: text/markdown',
+        '',
+        '# Handbook',
+        '--boundary--',
+        '',
+      ].join('\r\n');
+
+      const body = (await parseRequestBody(post(multipart, 'multipart/form-data; boundary=boundary'))) as Record<string, File | string>;
+      const file = body['file'] as File;
+
+      expect(body['title']).toBe('Handbook');
+      expect(file.name).toBe('handbook.md');
+      expect(file.type).toBe('text/markdown');
+      expect(await file.text()).toBe('# Handbook');
+    });
+
+    it('should reject malformed multipart bodies', async () => {
+      await expect(parseRequestBody(post('not multipart', 'multipart/form-data; boundary=boundary'))).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('should decode text with its charset and keep other bodies as bytes', async () => {
+      expect(await parseRequestBody(post(new Uint8Array([0xe9]), 'text/plain; charset=latin1'))).toBe('é');
+      expect(await parseRequestBody(post(new Uint8Array([1, 2, 3]), 'application/octet-stream'))).toEqual(new Uint8Array([1, 2, 3]));
+      expect(await parseRequestBody(post(new Uint8Array([1])))).toEqual(new Uint8Array([1]));
+    });
+
+    it('should return null for empty bodies', async () => {
+      expect(await parseRequestBody(post(null, 'application/json'))).toBeNull();
+      expect(await parseRequestBody(post('', 'image/png'))).toBeNull();
+    });
+
+    it('should reject unsupported media types and charsets', async () => {
+      await expect(parseRequestBody(post('<a/>', 'application/xml'))).rejects.toBeInstanceOf(UnsupportedMediaTypeError);
+      await expect(parseRequestBody(post('hi', 'text/plain; charset=klingon'))).rejects.toThrow('Unsupported charset');
+    });
+
+    it('should reject bodies over the limit', async () => {
+      const limit = 8;
+
+      await expect(parseRequestBody(post('0123456789', 'text/plain'), { limit })).rejects.toBeInstanceOf(PayloadTooLargeError);
+      expect(await parseRequestBody(post('01234567', 'text/plain'), { limit })).toBe('01234567');
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Request body parsing driven by Content-Type
+ *   application/json, application/*+json    parsed JSON
+ *   application/x-www-form-urlencoded       FormBody of strings
+ *   multipart/form-data                     FormBody of strings and File parts
+ *   text/*                                  string, decoded with the declared charset
+ *   application/octet-stream (or no type)   raw bytes
+ * Empty bodies parse to null whatever their type
+ */
+
+import {
+  PayloadTooLargeError,
+  UnsupportedMediaTypeError,
+  ValidationError,
+} from '../middleware/error.middleware.ts';
+
+const BYTES_PER_MEGABYTE = 1_048_576;
+// Netlify Functions reject request payloads above 6 MB
+const NETLIFY_PAYLOAD_LIMIT_MEGABYTES = 6;
+
+export const DEFAULT_BODY_LIMIT_BYTES = NETLIFY_PAYLOAD_LIMIT_MEGABYTES * BYTES_PER_MEGABYTE;
+
+export type FormFieldValue = string | File;
+
+// Repeated fields are collected into arrays in the order they were sent
+export type FormBody = Record<string, FormFieldValue | FormFieldValue[]>;
+
+export interface BodyParserOptions {
+  // Largest accepted body in bytes
+  limit?: number;
+}
+
+export type BodyParseError = PayloadTooLargeError | UnsupportedMediaTypeError | ValidationError;
+
+/**
+ * Check whether parseRequestBody rejected the body itself (as opposed to e.g. a failed stream)
+ */
+export function isBodyParseError(error: unknown): error is BodyParseError {
+  return (
+    error instanceof PayloadTooLargeError ||
+    error instanceof UnsupportedMediaTypeError ||
+    error instanceof ValidationError
+  );
+}
+
+/**
+ * Split a Content-Type header into its lower-cased media type and charset
+ */
+export function parseContentType(header: string | null): { mediaType: string; charset?: string } {
+  const [type = '', ...parameters] = (header ?? '').split(';');
+  const charset = parameters
+    .map(parameter => parameter.trim().split('='))
+    .find(([name]) => name?.toLowerCase() === 'charset')?.[1]
+    ?.replace(/^"|"$/g, '');
+  return { mediaType: type.trim().toLowerCase(), ...(charset !== undefined ? { charset } : {}) };
+}
+
+/**
+ * Read the whole body, rejecting it as soon as it grows past the limit
+ */
+async function readBody(request: Request, limit: number): Promise<Uint8Array<ArrayBuffer>> {
+  const tooLarge = (): PayloadTooLargeError => new PayloadTooLargeError(`Request body exceeds the ${limit} byte limit`);
+  if (Number(request.headers.get('Content-Length')) > limit) {
+    throw tooLarge();
+  }
+  if (request.body === null) {
+    return new Uint8Array();
+  }
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+function appendField(body: FormBody, name: string, value: FormFieldValue): void {
+  const existing = body[name];
+  if (existing === undefined) {
+    body[name] = value;
+  } else if (Array.isArray(existing)) {
+    existing.push(value);
+  } else {
+    body[name] = [existing, value];
+  }
+}
+
+function decodeText(bytes: Uint8Array, charset = 'utf-8'): string {
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(charset);
+  } catch {
+    throw new UnsupportedMediaTypeError(`Unsupported charset: ${charset}`);
+  }
+  return decoder.decode(bytes);
+}
+
+async function parseMultipart(bytes: Uint8Array<ArrayBuffer>, contentType: string): Promise<FormBody> {
+  let formData: FormData;
+  try {
+    formData = await new Response(bytes, { headers: { 'Content-Type': contentType } }).formData();
+  } catch {
+    throw new ValidationError('Malformed multipart body');
+  }
+
+  const body: FormBody = {};
+  formData.forEach((value, name) => appendField(body, name, value));
+  return body;
+}
+
+/**
+ * Parse a request body according to its Content-Type
+ * Throws PayloadTooLargeError (413) past the limit, UnsupportedMediaTypeError (415) for other
+ * media types, and ValidationError (400) for malformed JSON or multipart bodies
+ */
+export async function parseRequestBody(
+  request: Request,
+  { limit = DEFAULT_BODY_LIMIT_BYTES }: BodyParserOptions = {}
+): Promise<unknown> {
+  const bytes = await readBody(request, limit);
+  if (bytes.byteLength === 0) {
+    return null;
+  }
+
+  const header = request.headers.get('Content-Type');
+  const { mediaType, charset } = parseContentType(header);
+
+  if (mediaType === 'application/json' || (mediaType.startsWith('application/') && mediaType.endsWith('+json'))) {
+    try {
+      return JSON.parse(decodeText(bytes, charset)) as unknown;
+    } catch (error) {
+      throw isBodyParseError(error) ? error : new ValidationError('Malformed JSON body');
+    }
+  }
+  if (mediaType === 'application/x-www-form-urlencoded') {
+    const body: FormBody = {};
+    new URLSearchParams(decodeText(bytes, charset)).forEach((value, name) => appendField(body, name, value));
+    return body;
+  }
+  if (mediaType === 'multipart/form-data') {
+    return parseMultipart(bytes, header ?? mediaType);
+  }
+  if (mediaType.startsWith('text/')) {
+    return decodeText(bytes, charset);
+  }
+  if (mediaType === 'application/octet-stream' || mediaType === '') {
+    return bytes;
+  }
+
+  throw new UnsupportedMediaTypeError(`Unsupported Content-Type: ${mediaType}`);
+}
@@ -0,0 +1,32 @@
+/**
+ * Route contract helpers used by API clients
+ * Kept free of server dependencies so the frontend can import them
+ */
+
+/**
+ * Fill the :param segments of a contract path (/users/:id -> /users/42)
+ */
+export function buildContractPath(path: string, params: Record<string, string> = {}): string {
+  return path.replace(/:([A-Za-z0-9_]+)/g, (_segment, name: string) => {
+    const value = params[name];
+    if (value === undefined) {
+      throw new Error(`Missing route parameter "${name}" for ${path}`);
+    }
+    return encodeURIComponent(value);
+  });
+}
+
+/**
+ * Serialize a typed query into URL parameters
+ * Undefined values and empty strings are left out; arrays become comma lists, which validateQuery splits again
+ */
+export function toQueryParams(query: object = {}): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+    params[key] = Array.isArray(value) ? value.map(String).join(',') : String(value);
+  }
+  return params;
+}
@@ -0,0 +1,57 @@
+/**
+ * JSON file persistence helpers
+ * Used by file-backed repositories and snapshots
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+// JSON indentation for persisted files (kept readable for local inspection)
+const JSON_FILE_INDENT = 2;
+
+/**
+ * Read and parse a JSON file, returning the fallback when the file does not exist
+ */
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    const raw = await readFile(filePath, 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if (isMissingFileError(error)) {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write data as JSON, replacing the target atomically via a temporary file
+ */
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  await writeFileAtomic(filePath, JSON.stringify(data, null, JSON_FILE_INDENT));
+}
+
+/**
+ * Write text or binary content, replacing the target atomically via a temporary file
+ * Each write gets its own temporary file, so overlapping writes to one path do not clobber each other
+ */
+export async function writeFileAtomic(filePath: string, data: string | Uint8Array): Promise<void> {
+  await mkdir(dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+  try {
+    await writeFile(tempPath, data);
+    await rename(tempPath, filePath);
+  } catch (error) {
+    // Do not leave a partial temporary file behind
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Check whether an error is a "file not found" filesystem error
+ */
+export function isMissingFileError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT';
+}
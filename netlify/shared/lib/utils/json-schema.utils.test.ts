@@ -0,0 +1,109 @@
+/**
+ * JSON Schema Utils Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveSchemaRef, validateJsonSchema } from './json-schema.utils';
+import type { JsonSchema } from '../types/json-schema.types';
+
+const codes = (value: unknown, schema: JsonSchema): string[] =>
+  validateJsonSchema(value, schema).map(error => `${error.field}:${error.code}`);
+
+describe('JSON Schema Utils', () => {
+  describe('validateJsonSchema', () => {
+    const userSchema: JsonSchema = {
+      type: 'object',
+      $defs: {
+        email: { type: 'string', format: 'email' },
+      },
+      properties: {
+        name: { type: 'string', minLength: 1, maxLength: 5 },
+        email: { $ref: '#/$defs/email' },
+        role: { enum: ['admin', 'user'] },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+      },
+      required: ['name', 'email'],
+      additionalProperties: false,
+    };
+
+    it('should accept valid objects', () => {
+      expect(validateJsonSchema({ name: 'Ada', email: 'ada@example.com', role: 'admin', tags: ['a'] }, userSchema)).toEqual([]);
+    });
+
+    it('should report every failing field with its path', () => {
+      expect(codes({ name: 'Ada Lovelace', role: 'root', tags: ['a', 1, 'c'], extra: true }, userSchema)).toEqual([
+        'email:REQUIRED_FIELD_MISSING',
+        'name:STRING_TOO_LONG',
+        'role:INVALID_ENUM_VALUE',
+        'tags:ARRAY_TOO_LONG',
+        'tags[1]:INVALID_TYPE',
+        'extra:UNKNOWN_FIELD',
+      ]);
+    });
+
+    it('should resolve $ref and check formats', () => {
+      const errors = validateJsonSchema({ name: 'Ada', email: 'not-an-email' }, userSchema);
+      expect(errors).toEqual([
+        { field: 'email', message: 'email must be a valid email', code: 'INVALID_FORMAT', value: 'not-an-email' },
+      ]);
+    });
+
+    it.each([
+      ['uri', 'https://example.com/a?b=c', 'not a uri'],
+      ['date-time', '2024-02-29T12:30:00Z', '2023-02-30T12:30:00'],
+      ['uuid', '123e4567-e89b-12d3-a456-426614174000', '123e4567'],
+    ])('should check the %s format', (format, valid, invalid) => {
+      const schema: JsonSchema = { type: 'string', format };
+      expect(validateJsonSchema(valid, schema)).toEqual([]);
+      expect(codes(invalid, schema)).toEqual(['value:INVALID_FORMAT']);
+    });
+
+    it('should require exactly one oneOf branch to match', () => {
+      const schema: JsonSchema = {
+        oneOf: [
+          { type: 'object', properties: { kind: { const: 'url' }, url: { type: 'string', format: 'uri' } }, required: ['kind', 'url'] },
+          { type: 'object', properties: { kind: { const: 'text' }, text: { type: 'string' } }, required: ['kind', 'text'] },
+        ],
+      };
+
+      expect(validateJsonSchema({ kind: 'text', text: 'hello' }, schema)).toEqual([]);
+      expect(codes({ kind: 'url', text: 'hello' }, schema)).toEqual(['value:ONE_OF_MISMATCH']);
+      expect(codes(1, { oneOf: [{ type: 'number' }, { type: 'integer' }] })).toEqual(['value:ONE_OF_MISMATCH']);
+    });
+
+    it('should distinguish integers, numbers and nullable types', () => {
+      expect(codes(1.5, { type: 'integer' })).toEqual(['value:INVALID_TYPE']);
+      expect(codes(0, { type: 'number', exclusiveMinimum: 0 })).toEqual(['value:NUMBER_TOO_SMALL']);
+      expect(validateJsonSchema(null, { type: ['string', 'null'] })).toEqual([]);
+    });
+  });
+
+  describe('recursive schemas', () => {
+    it('should validate recursive structures through $ref', () => {
+      const tree: JsonSchema = {
+        type: 'object',
+        properties: { name: { type: 'string' }, children: { type: 'array', items: { $ref: '#' } } },
+      };
+
+      expect(validateJsonSchema({ name: 'a', children: [{ name: 'b', children: [] }] }, tree)).toEqual([]);
+      expect(codes({ name: 'a', children: [{ name: 1 }] }, tree)).toEqual(['children[0].name:INVALID_TYPE']);
+    });
+
+    it('should reject $ref cycles that never reach another value', () => {
+      const loop: JsonSchema = { $defs: { a: { $ref: '#/$defs/b' }, b: { allOf: [{ $ref: '#/$defs/a' }] } }, $ref: '#/$defs/a' };
+
+      expect(() => validateJsonSchema('x', { $ref: '#' })).toThrow('Circular $ref #');
+      expect(() => validateJsonSchema('x', loop)).toThrow('Circular $ref #/$defs/a');
+      expect(() => validateJsonSchema('x', { anyOf: [{ $ref: '#' }] })).toThrow('Circular $ref #');
+    });
+  });
+
+  describe('resolveSchemaRef', () => {
+    it('should follow JSON pointers and reject remote references', () => {
+      const root: JsonSchema = { $defs: { 'a/b': { type: 'string' } } };
+      expect(resolveSchemaRef(root, '#/$defs/a~1b')).toEqual({ type: 'string' });
+      expect(() => resolveSchemaRef(root, '#/$defs/missing')).toThrow('Unresolvable $ref');
+      expect(() => resolveSchemaRef(root, 'https://example.com/schema.json')).toThrow('only local references');
+    });
+  });
+});
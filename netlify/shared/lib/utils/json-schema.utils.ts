@@ -0,0 +1,331 @@
+/**
+ * JSON Schema validation (draft 2020-12 subset)
+ * Supports type, enum, const, oneOf/anyOf/allOf, string/number/array/object constraints,
+ * format (email, uri, date-time, uuid), additionalProperties and local $ref
+ */
+
+import type { JsonSchema, JsonSchemaFormat, JsonSchemaType } from '../types/json-schema.types.ts';
+import type { ValidationErrorItem } from '../middleware/validation.middleware.ts';
+
+const FORMAT_PATTERNS: Record<JsonSchemaFormat, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-z][a-z0-9+.-]*:[^\s]*$/i,
+  'date-time': /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+};
+
+// Compiled 'pattern' keywords, shared by every schema using the same source
+const patternCache = new Map<string, RegExp>();
+
+const compilePattern = (source: string): RegExp => {
+  let pattern = patternCache.get(source);
+  if (pattern === undefined) {
+    pattern = new RegExp(source, 'u');
+    patternCache.set(source, pattern);
+  }
+  return pattern;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown): string => JSON.stringify(value);
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isObject(value);
+    case 'null':
+      return value === null;
+  }
+}
+
+function matchesFormat(value: string, format: string): boolean {
+  if (!(format in FORMAT_PATTERNS)) {
+    return true;
+  }
+  if (!FORMAT_PATTERNS[format as JsonSchemaFormat].test(value)) {
+    return false;
+  }
+  // The regex only checks the shape, the date itself must exist too
+  return format !== 'date-time' || !isNaN(Date.parse(value));
+}
+
+/**
+ * Structural equality for enum/const comparisons
+ */
+function jsonEquals(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  return describe(a) === describe(b);
+}
+
+/**
+ * Resolve a local $ref ('#/$defs/Name' or another JSON pointer) against the root schema
+ */
+export function resolveSchemaRef(root: JsonSchema, ref: string): JsonSchema {
+  if (!ref.startsWith('#')) {
+    throw new Error(`Unsupported $ref ${ref}: only local references are allowed`);
+  }
+
+  let target: unknown = root;
+  for (const segment of ref.slice(1).split('/').filter(part => part !== '')) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = isObject(target) ? target[key] : undefined;
+  }
+
+  if (!isObject(target)) {
+    throw new Error(`Unresolvable $ref ${ref}`);
+  }
+  return target as JsonSchema;
+}
+
+/**
+ * Follow $ref chains until a schema without a reference is reached
+ * Keywords next to a $ref are ignored here; the validator applies them separately
+ */
+export function dereferenceSchema(root: JsonSchema, schema: JsonSchema): JsonSchema {
+  let resolved = schema;
+  const seen = new Set<string>();
+  while (resolved.$ref !== undefined) {
+    if (seen.has(resolved.$ref)) {
+      throw new Error(`Circular $ref ${resolved.$ref}`);
+    }
+    seen.add(resolved.$ref);
+    resolved = resolveSchemaRef(root, resolved.$ref);
+  }
+  return resolved;
+}
+
+/**
+ * Replace every local $ref with the schema it points to and drop $defs
+ * Makes a schema self-contained so it can be embedded in another document (e.g. OpenAPI)
+ */
+export function inlineSchemaRefs(schema: JsonSchema): JsonSchema {
+  const inline = (value: unknown, resolving: string[]): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(item => inline(item, resolving));
+    }
+    if (!isObject(value)) {
+      return value;
+    }
+
+    const $ref = value['$ref'];
+    const inlined = Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => key !== '$ref' && key !== '$defs')
+        .map(([key, child]) => [key, inline(child, resolving)])
+    );
+    if (typeof $ref !== 'string') {
+      return inlined;
+    }
+    if (resolving.includes($ref)) {
+      throw new Error(`Circular $ref ${$ref} cannot be inlined`);
+    }
+
+    const target = inline(resolveSchemaRef(schema, $ref), [...resolving, $ref]) as Record<string, unknown>;
+    return { ...target, ...inlined };
+  };
+
+  return inline(schema, []) as JsonSchema;
+}
+
+class SchemaValidator {
+  private readonly root: JsonSchema;
+  readonly errors: ValidationErrorItem[] = [];
+
+  constructor(root: JsonSchema) {
+    this.root = root;
+  }
+
+  /**
+   * refs lists the $refs already followed for this value; following one again would never
+   * reach another value, so it is a cycle. Descending into items or properties starts afresh.
+   */
+  validate(value: unknown, schema: JsonSchema, field: string, refs: readonly string[] = []): void {
+    const { $ref, ...keywords } = schema;
+    if ($ref !== undefined) {
+      if (refs.includes($ref)) {
+        throw new Error(`Circular $ref ${$ref}`);
+      }
+      this.validate(value, resolveSchemaRef(this.root, $ref), field, [...refs, $ref]);
+    }
+
+    if (!this.checkType(value, keywords, field)) {
+      return;
+    }
+    this.checkValue(value, keywords, field);
+    this.checkComposition(value, keywords, field, refs);
+
+    if (typeof value === 'string') {
+      this.checkString(value, keywords, field);
+    } else if (typeof value === 'number') {
+      this.checkNumber(value, keywords, field);
+    } else if (Array.isArray(value)) {
+      this.checkArray(value, keywords, field);
+    } else if (isObject(value)) {
+      this.checkObject(value, keywords, field);
+    }
+  }
+
+  /**
+   * Report a type mismatch; the remaining keywords only make sense for the right type
+   */
+  private checkType(value: unknown, schema: JsonSchema, field: string): boolean {
+    if (schema.type === undefined) {
+      return true;
+    }
+
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (types.some(type => matchesType(value, type))) {
+      return true;
+    }
+
+    this.fail(field, `must be of type ${types.join(' or ')}`, 'INVALID_TYPE', value);
+    return false;
+  }
+
+  private checkValue(value: unknown, schema: JsonSchema, field: string): void {
+    if (schema.enum !== undefined && !schema.enum.some(option => jsonEquals(option, value))) {
+      const options = schema.enum.map(option => describe(option)).join(', ');
+      this.fail(field, `must be one of ${options}`, 'INVALID_ENUM_VALUE', value);
+    }
+
+    if ('const' in schema && !jsonEquals(schema.const, value)) {
+      this.fail(field, `must be ${describe(schema.const)}`, 'INVALID_ENUM_VALUE', value);
+    }
+  }
+
+  private checkComposition(value: unknown, schema: JsonSchema, field: string, refs: readonly string[]): void {
+    if (schema.allOf !== undefined) {
+      for (const subschema of schema.allOf) {
+        this.validate(value, subschema, field, refs);
+      }
+    }
+
+    if (schema.anyOf !== undefined && !schema.anyOf.some(subschema => this.matches(value, subschema, field, refs))) {
+      this.fail(field, 'must match at least one of the allowed schemas', 'NO_SCHEMA_MATCH', value);
+    }
+
+    if (schema.oneOf !== undefined) {
+      const matching = schema.oneOf.filter(subschema => this.matches(value, subschema, field, refs)).length;
+      if (matching !== 1) {
+        const message = matching === 0
+          ? 'must match one of the allowed schemas'
+          : `must match exactly one of the allowed schemas, but matches ${matching}`;
+        this.fail(field, message, 'ONE_OF_MISMATCH', value);
+      }
+    }
+  }
+
+  private checkString(value: string, schema: JsonSchema, field: string): void {
+    // Lengths count code points, as JSON Schema requires
+    const length = [...value].length;
+
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      this.fail(field, `must be at least ${schema.minLength} characters`, 'STRING_TOO_SHORT', value);
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      this.fail(field, `must be no more than ${schema.maxLength} characters`, 'STRING_TOO_LONG', value);
+    }
+    if (schema.pattern !== undefined && !compilePattern(schema.pattern).test(value)) {
+      this.fail(field, 'format is invalid', 'INVALID_FORMAT', value);
+    }
+    if (schema.format !== undefined && !matchesFormat(value, schema.format)) {
+      this.fail(field, `must be a valid ${schema.format}`, 'INVALID_FORMAT', value);
+    }
+  }
+
+  private checkNumber(value: number, schema: JsonSchema, field: string): void {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      this.fail(field, `must be at least ${schema.minimum}`, 'NUMBER_TOO_SMALL', value);
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      this.fail(field, `must be greater than ${schema.exclusiveMinimum}`, 'NUMBER_TOO_SMALL', value);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      this.fail(field, `must be no more than ${schema.maximum}`, 'NUMBER_TOO_LARGE', value);
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      this.fail(field, `must be less than ${schema.exclusiveMaximum}`, 'NUMBER_TOO_LARGE', value);
+    }
+  }
+
+  private checkArray(value: unknown[], schema: JsonSchema, field: string): void {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      this.fail(field, `must contain at least ${schema.minItems} items`, 'ARRAY_TOO_SHORT', value);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      this.fail(field, `must contain no more than ${schema.maxItems} items`, 'ARRAY_TOO_LONG', value);
+    }
+
+    const items = schema.items;
+    if (items !== undefined) {
+      value.forEach((item, index) => this.validate(item, items, `${field}[${index}]`));
+    }
+  }
+
+  private checkObject(value: Record<string, unknown>, schema: JsonSchema, field: string): void {
+    const path = (key: string): string => (field === '' ? key : `${field}.${key}`);
+    const properties = schema.properties ?? {};
+
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        this.fail(path(key), 'is required', 'REQUIRED_FIELD_MISSING', undefined);
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      if (propertyValue === undefined) {
+        continue;
+      }
+
+      const propertySchema = properties[key];
+      if (propertySchema !== undefined) {
+        this.validate(propertyValue, propertySchema, path(key));
+      } else if (schema.additionalProperties === false) {
+        this.fail(path(key), 'is not allowed', 'UNKNOWN_FIELD', propertyValue);
+      } else if (isObject(schema.additionalProperties)) {
+        this.validate(propertyValue, schema.additionalProperties, path(key));
+      }
+    }
+  }
+
+  /**
+   * Check a subschema without recording its errors
+   */
+  private matches(value: unknown, schema: JsonSchema, field: string, refs: readonly string[]): boolean {
+    const validator = new SchemaValidator(this.root);
+    validator.validate(value, schema, field, refs);
+    return validator.errors.length === 0;
+  }
+
+  private fail(field: string, message: string, code: string, value: unknown): void {
+    const name = field === '' ? 'value' : field;
+    this.errors.push({ field: name, message: `${name} ${message}`, code, value });
+  }
+}
+
+/**
+ * Validate a value against a JSON Schema
+ * Errors use the same shape as the rule validator; fields are dotted paths ('filters.tag', 'tags[0]')
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): ValidationErrorItem[] {
+  const validator = new SchemaValidator(schema);
+  validator.validate(value, schema, '');
+  return validator.errors;
+}
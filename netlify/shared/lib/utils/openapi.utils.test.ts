@@ -0,0 +1,96 @@
+/**
+ * OpenAPI Utils Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateOpenApiDocument, toOpenApiPath } from './openapi.utils';
+import { createRouter } from '../types/router.types';
+import { HTTP_STATUS } from '../constants/http.constants';
+
+describe('OpenAPI Utils', () => {
+  const info = { title: 'Test API', version: '1.0.0' };
+  const noop = (): void => undefined;
+
+  describe('toOpenApiPath', () => {
+    it('should convert route parameters to templated segments', () => {
+      expect(toOpenApiPath('/api/users/:id')).toBe('/api/users/{id}');
+      expect(toOpenApiPath('/api/documents/:id/chunks/')).toBe('/api/documents/{id}/chunks');
+      expect(toOpenApiPath('')).toBe('/');
+      expect(toOpenApiPath('/api/items/:id(\\d+)/:tab?')).toBe('/api/items/{id}/{tab}');
+    });
+  });
+
+  describe('generateOpenApiDocument', () => {
+    it('should describe parameters, request bodies and wrapped responses', () => {
+      const router = createRouter();
+      router.get('/users/:id', {
+        summary: 'Get a user',
+        tags: ['Users'],
+        request: { query: { type: 'object', properties: { expand: { type: 'boolean' } }, required: ['expand'] } },
+        responses: { [HTTP_STATUS.OK]: { description: 'The user', schema: { type: 'object' } } },
+      }, noop);
+      router.post('/users', {
+        tags: ['Users'],
+        request: { body: { name: { type: 'string', required: true } } },
+      }, noop);
+
+      const document = generateOpenApiDocument(router.getRoutes(), info);
+      const getUser = document.paths['/users/{id}']?.['get'];
+      const createUser = document.paths['/users']?.['post'];
+
+      expect(document.openapi).toBe('3.1.0');
+      expect(document.tags).toEqual([{ name: 'Users' }]);
+      expect(getUser?.operationId).toBe('getUsersById');
+      expect(getUser?.parameters).toEqual([
+        { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        { name: 'expand', in: 'query', required: true, schema: { type: 'boolean' } },
+      ]);
+      expect(getUser?.responses[HTTP_STATUS.OK]?.content?.['application/json']?.schema).toMatchObject({
+        properties: { status: { const: 'success' }, payload: { type: 'object' } },
+      });
+      expect(getUser?.responses[HTTP_STATUS.BAD_REQUEST]).toBeDefined();
+      expect(getUser?.responses['default']).toBeDefined();
+
+      // Legacy rule maps are converted to JSON Schema
+      expect(createUser?.requestBody?.content['application/json']?.schema).toEqual({
+        type: 'object',
+        properties: { name: { type: 'string' } },
+        required: ['name'],
+      });
+      expect(createUser?.responses[HTTP_STATUS.OK]?.description).toBe('Successful response');
+    });
+
+    it('should inline local $refs so schemas are self-contained', () => {
+      const router = createRouter();
+      router.post('/items', {
+        request: {
+          body: {
+            type: 'object',
+            $defs: { name: { type: 'string', minLength: 1 } },
+            properties: { name: { $ref: '#/$defs/name', description: 'Display name' } },
+          },
+        },
+      }, noop);
+
+      const schema = generateOpenApiDocument(router.getRoutes(), info)
+        .paths['/items']?.['post']?.requestBody?.content['application/json']?.schema;
+
+      expect(schema).toEqual({
+        type: 'object',
+        properties: { name: { type: 'string', minLength: 1, description: 'Display name' } },
+      });
+    });
+
+    it('should skip OPTIONS routes and keep the first registration of a path', () => {
+      const router = createRouter();
+      router.get('/items', { summary: 'First' }, noop);
+      router.get('/items', { summary: 'Second' }, noop);
+      router.options('/items', noop);
+
+      const document = generateOpenApiDocument(router.getRoutes(), info);
+
+      expect(Object.keys(document.paths['/items'] ?? {})).toEqual(['get']);
+      expect(document.paths['/items']?.['get']?.summary).toBe('First');
+    });
+  });
+});
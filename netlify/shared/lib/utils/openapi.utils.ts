@@ -0,0 +1,254 @@
+/**
+ * OpenAPI 3.1 document generation from registered routes
+ */
+
+import type { Route, RouteMetadata, RouteResponseMetadata } from '../types/router.types.ts';
+import type { JsonSchema } from '../types/json-schema.types.ts';
+import { toJsonSchema, type RequestSchema } from '../middleware/validation.middleware.ts';
+import { inlineSchemaRefs } from './json-schema.utils.ts';
+import { parseParamSegment } from './route-path.utils.ts';
+import { HTTP_STATUS } from '../constants/http.constants.ts';
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  schema: JsonSchema;
+  description?: string;
+}
+
+export interface OpenApiMediaType {
+  schema: JsonSchema;
+}
+
+export interface OpenApiResponse {
+  description: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  parameters?: OpenApiParameter[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, OpenApiMediaType>;
+  };
+  responses: Record<string, OpenApiResponse>;
+}
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: OpenApiInfo;
+  tags: Array<{ name: string }>;
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+  };
+}
+
+const JSON_CONTENT_TYPE = 'application/json';
+
+// Shared envelope schemas, referenced from every JSON response
+const COMPONENT_SCHEMAS: Record<string, JsonSchema> = {
+  Metadata: {
+    type: 'object',
+    properties: {
+      timestamp: { type: 'string', format: 'date-time' },
+      requestId: { type: 'string' },
+      version: { type: 'string' },
+      processingTimeMs: { type: 'number' },
+    },
+    required: ['timestamp', 'requestId', 'version', 'processingTimeMs'],
+  },
+  ErrorResponse: {
+    type: 'object',
+    properties: {
+      status: { const: 'error' },
+      error: {
+        type: 'object',
+        properties: {
+          code: { type: 'string' },
+          message: { type: 'string' },
+          details: { type: 'object' },
+        },
+        required: ['code', 'message'],
+      },
+      metadata: { $ref: '#/components/schemas/Metadata' },
+    },
+    required: ['status', 'error', 'metadata'],
+  },
+};
+
+const ERROR_CONTENT: Record<string, OpenApiMediaType> = {
+  [JSON_CONTENT_TYPE]: { schema: { $ref: '#/components/schemas/ErrorResponse' } },
+};
+
+const capitalize = (word: string): string => word.charAt(0).toUpperCase() + word.slice(1);
+
+/**
+ * Convert an Express-style path (/users/:id, /users/:id(\\d+)) to an OpenAPI path (/users/{id})
+ */
+export function toOpenApiPath(path: string): string {
+  const segments = path.split('/').filter(segment => segment !== '');
+  const converted = segments.map(segment => {
+    const param = parseParamSegment(segment);
+    return param !== null ? `{${param.name}}` : segment;
+  });
+  return `/${converted.join('/')}`;
+}
+
+/**
+ * Derive an operation id such as getUsersById from the method and path
+ */
+function defaultOperationId(method: string, path: string): string {
+  const words = path
+    .split('/')
+    .filter(segment => segment !== '')
+    .map(segment => {
+      const param = parseParamSegment(segment);
+      return param !== null
+        ? `By${capitalize(param.name)}`
+        : segment.split(/[^a-zA-Z0-9]+/).map(capitalize).join('');
+    });
+  return `${method.toLowerCase()}${words.join('')}`;
+}
+
+/**
+ * Self-contained JSON Schema for an embedded request schema
+ */
+function documentSchema(schema: RequestSchema): JsonSchema {
+  return inlineSchemaRefs(toJsonSchema(schema));
+}
+
+function buildParameters(path: string, meta: RouteMetadata | undefined): OpenApiParameter[] {
+  const paramsSchema = meta?.request?.params !== undefined ? documentSchema(meta.request.params) : {};
+  const querySchema = meta?.request?.query !== undefined ? documentSchema(meta.request.query) : {};
+
+  const pathParameters = path
+    .split('/')
+    .map(parseParamSegment)
+    .filter(param => param !== null)
+    .map(({ name, pattern }): OpenApiParameter => {
+      const schema = paramsSchema.properties?.[name] ?? { type: 'string', ...(pattern !== undefined ? { pattern: `^${pattern}$` } : {}) };
+      return { name, in: 'path', required: true, schema };
+    });
+
+  const queryParameters = Object.entries(querySchema.properties ?? {}).map(
+    ([name, schema]): OpenApiParameter => ({
+      name,
+      in: 'query',
+      required: querySchema.required?.includes(name) ?? false,
+      schema,
+      ...(schema.description !== undefined ? { description: schema.description } : {}),
+    })
+  );
+
+  return [...pathParameters, ...queryParameters];
+}
+
+/**
+ * Document a response; JSON payloads are wrapped in the success envelope
+ * and error statuses without a schema use the shared error envelope
+ */
+function buildResponse(status: number, response: RouteResponseMetadata): OpenApiResponse {
+  const contentType = response.contentType ?? JSON_CONTENT_TYPE;
+  const isError = status >= HTTP_STATUS.BAD_REQUEST;
+  if (response.schema === undefined) {
+    return isError && contentType === JSON_CONTENT_TYPE
+      ? { description: response.description, content: ERROR_CONTENT }
+      : { description: response.description };
+  }
+
+  const payload = inlineSchemaRefs(response.schema);
+  const isSuccessJson = contentType === JSON_CONTENT_TYPE && !isError;
+  const schema: JsonSchema = isSuccessJson
+    ? {
+        type: 'object',
+        properties: {
+          status: { const: 'success' },
+          payload,
+          metadata: { $ref: '#/components/schemas/Metadata' },
+        },
+        required: ['status', 'payload', 'metadata'],
+      }
+    : payload;
+
+  return { description: response.description, content: { [contentType]: { schema } } };
+}
+
+function buildResponses(meta: RouteMetadata | undefined, validatesInput: boolean): Record<string, OpenApiResponse> {
+  const responses: Record<string, OpenApiResponse> = {};
+
+  for (const [status, response] of Object.entries(meta?.responses ?? { 200: { description: 'Successful response' } })) {
+    responses[status] = buildResponse(Number(status), response);
+  }
+  if (validatesInput && responses[HTTP_STATUS.BAD_REQUEST] === undefined) {
+    responses[HTTP_STATUS.BAD_REQUEST] = { description: 'Request validation failed', content: ERROR_CONTENT };
+  }
+  responses['default'] = { description: 'Error response', content: ERROR_CONTENT };
+
+  return responses;
+}
+
+function buildOperation(route: Route & { path: string }): OpenApiOperation {
+  const { meta } = route;
+  const parameters = buildParameters(route.path, meta);
+  const body = meta?.request?.body;
+
+  return {
+    operationId: meta?.operationId ?? defaultOperationId(route.method, route.path),
+    ...(meta?.summary !== undefined ? { summary: meta.summary } : {}),
+    ...(meta?.description !== undefined ? { description: meta.description } : {}),
+    ...(meta?.tags !== undefined ? { tags: [...meta.tags] } : {}),
+    ...(meta?.deprecated === true ? { deprecated: true } : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(body !== undefined
+      ? { requestBody: { required: true, content: { [JSON_CONTENT_TYPE]: { schema: documentSchema(body) } } } }
+      : {}),
+    responses: buildResponses(meta, meta?.request !== undefined),
+  };
+}
+
+/**
+ * Generate an OpenAPI 3.1 document describing the given routes
+ * OPTIONS (CORS preflight) and RegExp routes are left out
+ */
+export function generateOpenApiDocument(routes: readonly Route[], info: OpenApiInfo): OpenApiDocument {
+  const paths: OpenApiDocument['paths'] = {};
+  const tags = new Set<string>();
+
+  for (const route of routes) {
+    if (route.method === 'OPTIONS' || typeof route.path !== 'string') {
+      continue;
+    }
+
+    const path = toOpenApiPath(route.path);
+    const operations = (paths[path] ??= {});
+    const method = route.method.toLowerCase();
+    // The first registration wins, matching the router's own lookup order
+    if (operations[method] !== undefined) {
+      continue;
+    }
+
+    operations[method] = buildOperation({ ...route, path: route.path });
+    route.meta?.tags?.forEach(tag => tags.add(tag));
+  }
+
+  return {
+    openapi: '3.1.0',
+    info,
+    tags: [...tags].sort().map(name => ({ name })),
+    paths,
+    components: { schemas: COMPONENT_SCHEMAS },
+  };
+}
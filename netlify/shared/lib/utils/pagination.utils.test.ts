@@ -0,0 +1,45 @@
+/**
+ * Pagination Utils Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildLinkHeader, paginate } from './pagination.utils';
+
+describe('Pagination Utils', () => {
+  const items = ['a', 'b', 'c', 'd', 'e'];
+
+  describe('paginate', () => {
+    it('should slice the requested page and report totals', () => {
+      expect(paginate(items, { page: 2, limit: 2 })).toEqual({ items: ['c', 'd'], total: 5, page: 2, limit: 2, pageCount: 3 });
+      expect(paginate(items, { page: 3, limit: 2 }).items).toEqual(['e']);
+    });
+
+    it('should return no items past the last page', () => {
+      expect(paginate(items, { page: 9, limit: 2 })).toMatchObject({ items: [], total: 5, pageCount: 3 });
+      expect(paginate([], { page: 1, limit: 2 })).toMatchObject({ items: [], total: 0, pageCount: 0 });
+    });
+  });
+
+  describe('buildLinkHeader', () => {
+    const url = 'https://example.com/api/users?q=ada&page=1';
+
+    it('should omit prev on the first page and next on the last', () => {
+      expect(buildLinkHeader(url, { page: 1, limit: 10, pageCount: 2 })).toBe(
+        '<https://example.com/api/users?q=ada&page=1&limit=10>; rel="first", ' +
+          '<https://example.com/api/users?q=ada&page=2&limit=10>; rel="next", ' +
+          '<https://example.com/api/users?q=ada&page=2&limit=10>; rel="last"'
+      );
+      expect(buildLinkHeader(url, { page: 2, limit: 10, pageCount: 2 })).not.toContain('rel="next"');
+    });
+
+    it('should point prev at the last page when the page is out of range', () => {
+      expect(buildLinkHeader(url, { page: 5, limit: 10, pageCount: 2 })).toContain(
+        '<https://example.com/api/users?q=ada&page=2&limit=10>; rel="prev"'
+      );
+    });
+
+    it('should return null for an empty result set', () => {
+      expect(buildLinkHeader(url, { page: 1, limit: 10, pageCount: 0 })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Pagination helpers for list endpoints
+ */
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+export interface PageRequest {
+  page: number;
+  limit: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  page: number;
+  limit: number;
+  pageCount: number;
+}
+
+/**
+ * Slice one page out of a full result set
+ * A page past the end yields no items but still reports the real totals
+ */
+export function paginate<T>(items: T[], { page, limit }: PageRequest): Page<T> {
+  const start = (page - 1) * limit;
+
+  return {
+    items: items.slice(start, start + limit),
+    total: items.length,
+    page,
+    limit,
+    pageCount: Math.ceil(items.length / limit),
+  };
+}
+
+/**
+ * Build an RFC 5988 Link header with first/prev/next/last relations
+ * Other query parameters of the request URL are preserved; returns null for an empty result set
+ */
+export function buildLinkHeader(requestUrl: string, { page, limit, pageCount }: Omit<Page<unknown>, 'items' | 'total'>): string | null {
+  if (pageCount === 0) {
+    return null;
+  }
+
+  const linkTo = (target: number, rel: string): string => {
+    const url = new URL(requestUrl);
+    url.searchParams.set('page', String(target));
+    url.searchParams.set('limit', String(limit));
+    return `<${url.toString()}>; rel="${rel}"`;
+  };
+
+  const links = [linkTo(1, 'first')];
+  if (page > 1) {
+    links.push(linkTo(Math.min(page - 1, pageCount), 'prev'));
+  }
+  if (page < pageCount) {
+    links.push(linkTo(page + 1, 'next'));
+  }
+  links.push(linkTo(pageCount, 'last'));
+
+  return links.join(', ');
+}
@@ -289,7 +289,7 @@ describe('Response Utils Module', () => {
 
       return response.json().then((data) => {
         expect(data.status).toBe('error');
-        expect(data.error.code).toBe('INTERNAL_ERROR');
+        expect(data.error.code).toBe('METHOD_NOT_ALLOWED');
         expect(data.error.message).toBe('Method not allowed');
       });
     });
@@ -305,6 +305,11 @@ describe('Response Utils Module', () => {
       });
     });
 
+    it('should list the allowed methods in the Allow header', () => {
+      expect(methodNotAllowed(Date.now(), ['GET', 'POST']).headers.get('Allow')).toBe('GET, POST');
+      expect(methodNotAllowed(Date.now()).headers.has('Allow')).toBe(false);
+    });
+
     it('should include CORS headers', () => {
       const startTime = Date.now() - 30;
       const response = methodNotAllowed(startTime);
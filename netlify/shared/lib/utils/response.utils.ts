@@ -22,11 +22,11 @@ export const generateRequestId = (): string => {
 };
 
 /**
- * Creates API metadata
+ * Creates API metadata; a fresh request ID is generated when none is given
  */
-export const createMetadata = (processingTimeMs: number): ApiMetadata => ({
+export const createMetadata = (processingTimeMs: number, requestId: string = generateRequestId()): ApiMetadata => ({
   timestamp: new Date().toISOString(),
-  requestId: generateRequestId(),
+  requestId,
   version: API_VERSION,
   processingTimeMs,
 });
@@ -34,7 +34,11 @@ export const createMetadata = (processingTimeMs: number): ApiMetadata => ({
 /**
  * Creates an error response
  */
-export const createErrorResponse = (error: unknown, processingTimeMs: number): ApiResponseError => {
+export const createErrorResponse = (
+  error: unknown,
+  processingTimeMs: number,
+  requestId?: string
+): ApiResponseError => {
   const apiError: ApiError =
     error instanceof Error
       ? {
@@ -49,7 +53,7 @@ export const createErrorResponse = (error: unknown, processingTimeMs: number): A
   return {
     status: 'error',
     error: apiError,
-    metadata: createMetadata(processingTimeMs),
+    metadata: createMetadata(processingTimeMs, requestId),
   };
 };
 
@@ -57,12 +61,13 @@ export const createErrorResponse = (error: unknown, processingTimeMs: number): A
  * Creates a success response
  */
 export const createSuccessResponse = <T extends unknown = unknown>(
-  payload?: T,
-  processingTimeMs?: number
+  payload: T,
+  processingTimeMs?: number,
+  requestId?: string
 ): ApiResponseSuccess<T> => ({
   status: 'success',
   payload,
-  metadata: createMetadata(processingTimeMs ?? 0),
+  metadata: createMetadata(processingTimeMs ?? 0, requestId),
 });
 
 /**
@@ -106,9 +111,21 @@ export const jsonResponse = (
 
 /**
  * Creates a method not allowed response
+ * The Allow header lists the methods the resource does support, when they are known
  */
-export const methodNotAllowed = (startTime: number): Response => {
+export const methodNotAllowed = (
+  startTime: number,
+  allowedMethods: readonly string[] = [],
+  requestId?: string
+): Response => {
   const processingTime = Date.now() - startTime;
-  const response = createErrorResponse(new Error('Method not allowed'), processingTime);
-  return jsonResponse(response, HTTP_STATUS.METHOD_NOT_ALLOWED);
+  const response = createErrorResponse(new Error('Method not allowed'), processingTime, requestId);
+  const result = jsonResponse(
+    { ...response, error: { ...response.error, code: 'METHOD_NOT_ALLOWED' } },
+    HTTP_STATUS.METHOD_NOT_ALLOWED
+  );
+  if (allowedMethods.length > 0) {
+    result.headers.set('Allow', allowedMethods.join(', '));
+  }
+  return result;
 };
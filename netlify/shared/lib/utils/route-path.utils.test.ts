@@ -0,0 +1,36 @@
+/**
+ * Route Path Utils Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compileRoutePath, mountRoutePath, parseParamSegment } from './route-path.utils';
+
+describe('Route Path Utils', () => {
+  describe('compileRoutePath', () => {
+    it('should expose the named groups of RegExp routes', () => {
+      const match = compileRoutePath(/^\/reports\/(?<year>\d{4})-(?<month>\d{2})$/);
+
+      expect(match('/reports/2024-05')).toEqual({ year: '2024', month: '05' });
+      expect(match('/reports/24-05')).toBeNull();
+    });
+  });
+
+  describe('parseParamSegment', () => {
+    it('should parse names, constraints and the optional marker', () => {
+      expect(parseParamSegment(':id(\\d+)?')).toEqual({ name: 'id', optional: true, pattern: '\\d+' });
+      expect(parseParamSegment(':id')).toEqual({ name: 'id', optional: false });
+      expect(parseParamSegment('users')).toBeNull();
+    });
+  });
+
+  describe('mountRoutePath', () => {
+    it('should prefix string and RegExp paths', () => {
+      expect(mountRoutePath('/api/', '/users')).toBe('/api/users');
+      expect(mountRoutePath('/api', '/')).toBe('/api');
+
+      const mounted = compileRoutePath(mountRoutePath('/api', /^\/v(?<version>\d+)$/) as RegExp);
+      expect(mounted('/api/v2')).toEqual({ version: '2' });
+      expect(mounted('/v2')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Route path syntax for the router
+ * String paths are matched by the route tree (route-tree.utils.ts):
+ *   /users/:id           named parameter, one segment
+ *   /users/:id?          optional parameter
+ *   /users/:id(\\d+)     parameter constrained by a pattern
+ *   /files/*             splat, matches the rest of the path (params['*'])
+ * RegExp routes are compiled here, matched as-is and expose their named groups as parameters
+ */
+
+// Parameter name of a splat segment
+export const SPLAT_PARAM = '*';
+
+// :name, :name(pattern), :name?, :name(pattern)?
+const PARAM_SEGMENT = /^:([A-Za-z_][A-Za-z0-9_]*)(?:\((.+)\))?(\?)?$/;
+
+// Returns the decoded parameters, or null when the path does not match
+export type PathMatcher = (path: string) => Record<string, string> | null;
+
+export interface RouteParamSegment {
+  name: string;
+  optional: boolean;
+  pattern?: string;
+}
+
+/**
+ * Parse a :param segment of a route path, or return null for a literal or splat segment
+ */
+export function parseParamSegment(segment: string): RouteParamSegment | null {
+  const match = PARAM_SEGMENT.exec(segment);
+  if (match === null) {
+    return null;
+  }
+  const [, name = '', pattern, optional] = match;
+  return { name, optional: optional !== undefined, ...(pattern !== undefined ? { pattern } : {}) };
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compile a RegExp route into a matcher for URL paths
+ * Named group values are URL-decoded; a malformed encoding throws URIError
+ */
+export function compileRoutePath(path: RegExp): PathMatcher {
+  return (urlPath) => {
+    const match = path.exec(urlPath);
+    if (match === null) {
+      return null;
+    }
+    const params: Record<string, string> = {};
+    for (const [name, value] of Object.entries(match.groups ?? {})) {
+      if (value !== undefined) {
+        params[name] = decodeURIComponent(value);
+      }
+    }
+    return params;
+  };
+}
+
+/**
+ * Prefix a route path with the path a sub-router is mounted at
+ * RegExp routes get the escaped prefix prepended and are anchored at the start
+ */
+export function mountRoutePath(base: string, path: string | RegExp): string | RegExp {
+  const normalizedBase = base.endsWith('/') ? base.slice(0, -1) : base;
+  if (path instanceof RegExp) {
+    return new RegExp(`^${escapeRegExp(normalizedBase)}${path.source.replace(/^\^/, '')}`, path.flags);
+  }
+  // Handle root path case - don't add trailing slash
+  if (path === '/' || path === '') {
+    return normalizedBase;
+  }
+  const normalizedPath = path.startsWith('/') ? path : `/${path}`;
+  return `${normalizedBase}${normalizedPath}`;
+}
@@ -0,0 +1,34 @@
+/**
+ * Route lookup micro-benchmark - run with `npm run bench`
+ * Lookup cost should stay flat as the number of registered routes grows
+ */
+
+import { bench, describe } from 'vitest';
+import { RouteTree } from './route-tree.utils';
+
+const ROUTE_COUNTS = [20, 200, 2000, 20000];
+const ROUTES_PER_RESOURCE = 4;
+
+// Resources each get the usual collection, item and nested routes
+const buildTree = (routeCount: number): RouteTree<string> => {
+  const tree = new RouteTree<string>();
+  for (let resource = 0; resource < routeCount / ROUTES_PER_RESOURCE; resource++) {
+    tree.insert(`/api/resource${resource}`, `list${resource}`);
+    tree.insert(`/api/resource${resource}/:id(\\d+)`, `get${resource}`);
+    tree.insert(`/api/resource${resource}/:id/children`, `children${resource}`);
+    tree.insert(`/api/resource${resource}/:id/children/:childId`, `child${resource}`);
+  }
+  return tree;
+};
+
+describe('RouteTree.lookup', () => {
+  for (const routeCount of ROUTE_COUNTS) {
+    const tree = buildTree(routeCount);
+    // The last resource registered, the worst case for a linear scan
+    const path = `/api/resource${routeCount / ROUTES_PER_RESOURCE - 1}/42/children/7`;
+
+    bench(`${routeCount} routes`, () => {
+      tree.lookup(path);
+    });
+  }
+});
@@ -0,0 +1,85 @@
+/**
+ * Route Tree Utils Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RouteTree } from './route-tree.utils';
+
+const lookup = (tree: RouteTree<string>, path: string): [string, Record<string, string>][] =>
+  tree.lookup(path).map(({ value, params }) => [value, params]);
+
+describe('Route Tree Utils', () => {
+  it('should prefer static segments, then constrained params, then params, then splats', () => {
+    const tree = new RouteTree<string>();
+    tree.insert('/users/*', 'splat');
+    tree.insert('/users/:id', 'param');
+    tree.insert('/users/:id(\\d+)', 'numeric');
+    tree.insert('/users/me', 'static');
+
+    expect(lookup(tree, '/users/me')).toEqual([
+      ['static', {}],
+      ['param', { id: 'me' }],
+      ['splat', { '*': 'me' }],
+    ]);
+    expect(lookup(tree, '/users/42').map(([value]) => value)).toEqual(['numeric', 'param', 'splat']);
+  });
+
+  it('should ignore trailing and repeated slashes', () => {
+    const tree = new RouteTree<string>();
+    tree.insert('/api/users/', 'users');
+    tree.insert('/', 'root');
+
+    expect(lookup(tree, '/api//users')).toEqual([['users', {}]]);
+    expect(lookup(tree, '/api/users/1')).toEqual([]);
+    expect(lookup(tree, '/')).toEqual([['root', {}]]);
+  });
+
+  it('should apply constraints to required and optional parameters', () => {
+    const tree = new RouteTree<string>();
+    tree.insert('/items/:id(\\d+)/:format(json|csv)?', 'item');
+
+    expect(lookup(tree, '/items/42')).toEqual([['item', { id: '42' }]]);
+    expect(lookup(tree, '/items/42/csv')).toEqual([['item', { id: '42', format: 'csv' }]]);
+    expect(lookup(tree, '/items/abc')).toEqual([]);
+    expect(lookup(tree, '/items/42/xml')).toEqual([]);
+  });
+
+  it('should keep values registered for the same path in registration order', () => {
+    const tree = new RouteTree<string>();
+    tree.insert('/items/:id', 'first');
+    tree.insert('/items/:id/', 'second');
+
+    expect(lookup(tree, '/items/1/')).toEqual([['first', { id: '1' }], ['second', { id: '1' }]]);
+  });
+
+  it('should match optional parameters and splats once per value', () => {
+    const tree = new RouteTree<string>();
+    tree.insert('/files/:name?', 'file');
+    tree.insert('/static/*', 'static');
+    tree.insert('/a/:x?/:y?', 'pair');
+
+    expect(lookup(tree, '/files')).toEqual([['file', {}]]);
+    expect(lookup(tree, '/files/a.txt')).toEqual([['file', { name: 'a.txt' }]]);
+    expect(lookup(tree, '/static/css/app.css')).toEqual([['static', { '*': 'css/app.css' }]]);
+    expect(lookup(tree, '/static')).toEqual([['static', {}]]);
+    expect(lookup(tree, '/a/b')).toEqual([['pair', { x: 'b' }]]);
+  });
+
+  it('should decode parameters and backtrack out of dead ends', () => {
+    const tree = new RouteTree<string>();
+    tree.insert('/docs/:id/raw', 'raw');
+    tree.insert('/docs/latest/chunks', 'chunks');
+
+    expect(lookup(tree, '/docs/latest/raw')).toEqual([['raw', { id: 'latest' }]]);
+    expect(lookup(tree, '/docs/a%2Fb/raw')).toEqual([['raw', { id: 'a/b' }]]);
+    expect(lookup(tree, '/docs/latest')).toEqual([]);
+    expect(() => tree.lookup('/docs/%E0%A4%A/raw')).toThrow(URIError);
+  });
+
+  it('should reject duplicate parameters and splats before the last segment', () => {
+    const tree = new RouteTree<string>();
+
+    expect(() => tree.insert('/a/:id/b/:id', 'x')).toThrow('Duplicate route parameter "id"');
+    expect(() => tree.insert('/a/*/b', 'x')).toThrow('A splat must be the last segment');
+  });
+});
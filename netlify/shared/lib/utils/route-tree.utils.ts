@@ -0,0 +1,185 @@
+/**
+ * Route lookup tree - string route paths compiled once into a trie of path segments
+ * Lookup walks one node per URL segment, so its cost depends on the path depth rather
+ * than on the number of registered routes.
+ *
+ * Precedence at each segment: static segment, constrained :param(pattern), plain :param, splat.
+ * Constraints are tested against a single segment; a splat must be the last segment.
+ */
+
+import { parseParamSegment, SPLAT_PARAM } from './route-path.utils.ts';
+
+export interface RouteTreeMatch<T> {
+  value: T;
+  // URL-decoded parameter values
+  params: Record<string, string>;
+}
+
+interface ParamEdge<T> {
+  name: string;
+  // Source of the constraint, used to share the edge between routes
+  source: string | undefined;
+  pattern: RegExp | undefined;
+  node: RouteTreeNode<T>;
+}
+
+interface RouteTreeNode<T> {
+  statics: Map<string, RouteTreeNode<T>>;
+  // Constrained params first, then plain ones, each in registration order
+  params: ParamEdge<T>[];
+  splat: RouteTreeNode<T> | null;
+  // Values registered for the path ending at this node, in registration order
+  values: T[];
+}
+
+type Captured = readonly (readonly [name: string, raw: string])[];
+
+const createNode = <T>(): RouteTreeNode<T> => ({ statics: new Map(), params: [], splat: null, values: [] });
+
+// Path segments; empty segments from leading, trailing or repeated slashes are dropped
+const splitPath = (path: string): string[] => path.split('/').filter(segment => segment !== '');
+
+/**
+ * Expand optional parameters into the segment lists they stand for
+ * /files/:name? becomes /files/:name and /files
+ */
+function expandOptional(segments: string[]): string[][] {
+  let variants: string[][] = [[]];
+  for (const segment of segments) {
+    const param = parseParamSegment(segment);
+    const required = param?.optional === true ? segment.slice(0, -1) : segment;
+    variants = variants.flatMap(variant =>
+      param?.optional === true ? [[...variant, required], variant] : [[...variant, required]]
+    );
+  }
+  return variants;
+}
+
+/**
+ * URL-decode the captured parameters
+ * Throws URIError for a malformed percent-encoding
+ */
+function decodeParams(captured: Captured): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [name, raw] of captured) {
+    params[name] = decodeURIComponent(raw);
+  }
+  return params;
+}
+
+export class RouteTree<T> {
+  private root: RouteTreeNode<T> = createNode();
+
+  /**
+   * Register a value for an Express-style route path (see route-path.utils.ts)
+   */
+  insert(path: string, value: T): void {
+    const segments = splitPath(path);
+    const names = segments.flatMap(segment => {
+      const name = segment === SPLAT_PARAM ? SPLAT_PARAM : parseParamSegment(segment)?.name;
+      return name !== undefined ? [name] : [];
+    });
+    const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+    if (duplicate !== undefined) {
+      throw new Error(`Duplicate route parameter "${duplicate}" in ${path}`);
+    }
+    if (segments.slice(0, -1).includes(SPLAT_PARAM)) {
+      throw new Error(`A splat must be the last segment of ${path}`);
+    }
+
+    for (const variant of expandOptional(segments)) {
+      const node = variant.reduce((parent, segment) => this.child(parent, segment), this.root);
+      node.values.push(value);
+    }
+  }
+
+  /**
+   * Find the values whose path matches, in precedence order
+   * A value registered with optional parameters is returned once, for its first matching variant
+   */
+  lookup(path: string): RouteTreeMatch<T>[] {
+    const matches: RouteTreeMatch<T>[] = [];
+    this.collect(this.root, splitPath(path), 0, [], matches, new Set());
+    return matches;
+  }
+
+  /**
+   * Get or create the child node for a route path segment
+   */
+  private child(parent: RouteTreeNode<T>, segment: string): RouteTreeNode<T> {
+    if (segment === SPLAT_PARAM) {
+      parent.splat ??= createNode();
+      return parent.splat;
+    }
+
+    const param = parseParamSegment(segment);
+    if (param === null) {
+      let node = parent.statics.get(segment);
+      if (node === undefined) {
+        node = createNode();
+        parent.statics.set(segment, node);
+      }
+      return node;
+    }
+
+    const existing = parent.params.find(edge => edge.name === param.name && edge.source === param.pattern);
+    if (existing !== undefined) {
+      return existing.node;
+    }
+    const edge: ParamEdge<T> = {
+      name: param.name,
+      source: param.pattern,
+      pattern: param.pattern !== undefined ? new RegExp(`^(?:${param.pattern})$`) : undefined,
+      node: createNode(),
+    };
+    // Keep constrained params ahead of plain ones
+    const firstPlain = parent.params.findIndex(candidate => candidate.pattern === undefined);
+    if (edge.pattern !== undefined && firstPlain !== -1) {
+      parent.params.splice(firstPlain, 0, edge);
+    } else {
+      parent.params.push(edge);
+    }
+    return edge.node;
+  }
+
+  /**
+   * Depth-first walk collecting every match, static branches before param branches before splats
+   */
+  private collect(
+    node: RouteTreeNode<T>,
+    segments: readonly string[],
+    index: number,
+    captured: Captured,
+    matches: RouteTreeMatch<T>[],
+    seen: Set<T>
+  ): void {
+    const add = (values: readonly T[], params: Captured): void => {
+      for (const value of values) {
+        if (!seen.has(value)) {
+          seen.add(value);
+          matches.push({ value, params: decodeParams(params) });
+        }
+      }
+    };
+
+    const segment = segments[index];
+    if (segment === undefined) {
+      add(node.values, captured);
+    } else {
+      const staticChild = node.statics.get(segment);
+      if (staticChild !== undefined) {
+        this.collect(staticChild, segments, index + 1, captured, matches, seen);
+      }
+      for (const edge of node.params) {
+        if (edge.pattern === undefined || edge.pattern.test(segment)) {
+          this.collect(edge.node, segments, index + 1, [...captured, [edge.name, segment]], matches, seen);
+        }
+      }
+    }
+
+    if (node.splat !== null) {
+      const rest = segments.slice(index).join('/');
+      add(node.splat.values, rest !== '' ? [...captured, [SPLAT_PARAM, rest]] : captured);
+    }
+  }
+}
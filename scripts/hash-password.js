@@ -0,0 +1,26 @@
+#!/usr/bin/env node
+
+/**
+ * Password Hash Script
+ * Prints a hash for the passwordHash field of an AUTH_USERS_PATH account
+ * Usage: node hash-password.js <password>
+ */
+
+import { pbkdf2Sync, randomBytes } from 'crypto';
+
+// Must match netlify/shared/lib/auth/password.ts
+const ITERATIONS = 210000;
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+const password = process.argv[2];
+
+if (!password) {
+  console.error('Usage: node hash-password.js <password>');
+  process.exit(1);
+}
+
+const salt = randomBytes(SALT_BYTES);
+const hash = pbkdf2Sync(password, salt, ITERATIONS, KEY_BYTES, 'sha256');
+
+console.log(['pbkdf2-sha256', ITERATIONS, salt.toString('base64url'), hash.toString('base64url')].join('$'));
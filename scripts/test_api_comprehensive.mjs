@@ -3,9 +3,12 @@
 /**
  * Comprehensive API Test Suite
  * Tests all endpoints, edge cases, and fixes
+ * User writes need an admin account from AUTH_USERS_PATH: set API_ADMIN_EMAIL and API_ADMIN_PASSWORD
  */
 
 const API_BASE = 'http://localhost:3000/api';
+const ADMIN_EMAIL = process.env.API_ADMIN_EMAIL ?? '';
+const ADMIN_PASSWORD = process.env.API_ADMIN_PASSWORD ?? '';
 
 class ApiTester {
   constructor() {
@@ -179,21 +182,70 @@ class ApiTester {
       });
     });
 
-    await this.runTest('GET /api/users/123 - Get user by ID', async () => {
-      const response = await this.makeRequest(`${API_BASE}/users/123`);
+    await this.runTest('POST /api/users - Anonymous create is rejected', async () => {
+      const response = await this.makeRequest(`${API_BASE}/users`, {
+        method: 'POST',
+        body: JSON.stringify({ name: 'API Test', email: `api-test-anonymous-${Date.now()}@example.com` })
+      });
+      return this.validateResponse(response, {
+        status: 401,
+        statusCode: 'error'
+      });
+    });
+
+    let adminToken = null;
+    await this.runTest('POST /api/auth/login - Admin login', async () => {
+      const response = await this.makeRequest(`${API_BASE}/auth/login`, {
+        method: 'POST',
+        body: JSON.stringify({ email: ADMIN_EMAIL, password: ADMIN_PASSWORD })
+      });
+      adminToken = response.data?.payload?.accessToken ?? null;
+      return this.validateResponse(response, {
+        status: 200,
+        statusCode: 'success'
+      }) && adminToken !== null;
+    });
+
+    let createdUserId = null;
+    await this.runTest('POST /api/users - Create user as admin', async () => {
+      const response = await this.makeRequest(`${API_BASE}/users`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${adminToken}`,
+        },
+        body: JSON.stringify({ name: 'API Test', email: `api-test-${Date.now()}@example.com` })
+      });
+      createdUserId = response.data?.payload?.user?.id ?? null;
+      return this.validateResponse(response, {
+        status: 201,
+        statusCode: 'success'
+      }) && createdUserId !== null;
+    });
+
+    await this.runTest('GET /api/users/:id - Get created user by ID', async () => {
+      const response = await this.makeRequest(`${API_BASE}/users/${createdUserId}`);
       return this.validateResponse(response, {
         status: 200,
         statusCode: 'success',
-        userId: '123'
+        userId: createdUserId
       });
     });
 
-    await this.runTest('GET /api/users/123/ - Trailing slash on user ID', async () => {
-      const response = await this.makeRequest(`${API_BASE}/users/123/`);
+    await this.runTest('GET /api/users/:id/ - Trailing slash on user ID', async () => {
+      const response = await this.makeRequest(`${API_BASE}/users/${createdUserId}/`);
       return this.validateResponse(response, {
         status: 200,
         statusCode: 'success',
-        userId: '123'
+        userId: createdUserId
+      });
+    });
+
+    await this.runTest('GET /api/users/missing - Unknown user returns 404', async () => {
+      const response = await this.makeRequest(`${API_BASE}/users/missing`);
+      return this.validateResponse(response, {
+        status: 404,
+        statusCode: 'error'
       });
     });
 
@@ -1,16 +1,18 @@
 import { useState, useCallback, useMemo } from 'preact/hooks';
 import preactLogo from './assets/preact.svg';
-import { ApiDashboard, DemoSection } from './components/api';
+import { ApiDashboard, ChatPanel, DemoSection, LoginForm } from './components/api';
 import { Logo, Container, Tabs, TabPanel, type Tab } from './components/ui';
 import './styles/styles.scss';
 
+type AppView = 'demo' | 'api' | 'chat' | 'account';
+
 /**
  * Main application component for the Preact RAG app.
  *
  * This component demonstrates:
  * - Redux state management integration
  * - API communication with backend
- * - Multiple application modes (demo and API dashboard)
+ * - Multiple application modes (demo, API dashboard, chat and account)
  * - Optimized component structure with proper performance patterns
  *
  * @example
@@ -26,15 +28,17 @@ import './styles/styles.scss';
  */
 
 export function App() {
-  const [activeView, setActiveView] = useState<'demo' | 'api'>('demo');
+  const [activeView, setActiveView] = useState<AppView>('demo');
 
   const handleTabChange = useCallback((tabId: string) => {
-    setActiveView(tabId as 'demo' | 'api');
+    setActiveView(tabId as AppView);
   }, []);
 
   const tabs: Tab[] = useMemo(() => ([
     { id: 'demo', label: 'Demo', icon: '⚡' },
     { id: 'api', label: 'API Dashboard', icon: '🔌' },
+    { id: 'chat', label: 'Chat', icon: '💬' },
+    { id: 'account', label: 'Account', icon: '🔐' },
   ]), []);
 
   return (
@@ -96,6 +100,18 @@ export function App() {
                 </article>
               </section>
             </TabPanel>
+
+            <TabPanel tabId="chat" activeTab={activeView}>
+              <article class="chat-article">
+                <ChatPanel />
+              </article>
+            </TabPanel>
+
+            <TabPanel tabId="account" activeTab={activeView}>
+              <article class="account-article">
+                <LoginForm />
+              </article>
+            </TabPanel>
           </Container>
         </div>
       </main>
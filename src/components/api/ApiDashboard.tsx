@@ -4,6 +4,7 @@
 
 import { useState, useMemo } from 'preact/hooks';
 import { UserList } from './UserList';
+import { DocumentList } from './DocumentList';
 import { GreetingComponent } from './GreetingComponent';
 import { 
   Section, 
@@ -25,6 +26,7 @@ export function ApiDashboard({ className = '' }: ApiDashboardProps) {
   const tabs: Tab[] = useMemo(() => [
     { id: 'greeting', label: 'Greeting & Health', icon: '👋' },
     { id: 'users', label: 'Users Management', icon: '👥' },
+    { id: 'documents', label: 'Documents', icon: '📄' },
   ], []);
 
   const handleTabChange = (tabId: string) => {
@@ -55,6 +57,10 @@ export function ApiDashboard({ className = '' }: ApiDashboardProps) {
         <TabPanel tabId="users" activeTab={activeTab}>
           <UserList />
         </TabPanel>
+
+        <TabPanel tabId="documents" activeTab={activeTab}>
+          <DocumentList />
+        </TabPanel>
       </div>
 
       <div className="api-dashboard__footer">
@@ -100,6 +106,17 @@ export function ApiDashboard({ className = '' }: ApiDashboardProps) {
                 <li><code>DELETE /users/:id</code> - Delete user</li>
               </ul>
             </div>
+            <div className="endpoint-group">
+              <h4>Document Endpoints</h4>
+              <ul>
+                <li><code>GET /documents</code> - List documents</li>
+                <li><code>POST /documents</code> - Ingest document</li>
+                <li><code>GET /documents/:id/chunks</code> - Preview chunks</li>
+                <li><code>POST /documents/:id/reindex</code> - Re-index document</li>
+                <li><code>POST /documents/reindex</code> - Re-index all</li>
+                <li><code>DELETE /documents/:id</code> - Delete document</li>
+              </ul>
+            </div>
           </Grid>
         </Section>
       </div>
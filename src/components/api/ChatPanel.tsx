@@ -0,0 +1,210 @@
+/**
+ * Chat panel for asking questions against the document knowledge base
+ */
+
+import { useState, useEffect, useRef } from 'preact/hooks';
+import { Section, Card, Button } from '../ui';
+import {
+  useAppDispatch,
+  useAppSelector,
+  sendChatMessage,
+  clearConversation,
+  clearChatError,
+  type ChatMessage,
+} from '../../store';
+import type { RetrievedContext } from '../../services/api';
+
+interface ChatPanelProps {
+  className?: string;
+}
+
+// Splits an answer around its [n] citation markers (captured so they stay in the result)
+const CITATION_MARKER_PATTERN = /(\[\d+\])/;
+
+const sourceAnchorId = (messageId: string, marker: number): string => `chat-source-${messageId}-${marker}`;
+
+/**
+ * Render answer text with [n] markers linked to their source entries
+ */
+function AnswerText({ message }: { message: ChatMessage }) {
+  const markers = new Set(message.contexts.map(context => context.marker));
+
+  return (
+    <p className="chat-message__text">
+      {message.content.split(CITATION_MARKER_PATTERN).map((part, index) => {
+        const marker = CITATION_MARKER_PATTERN.test(part) ? Number(part.slice(1, -1)) : NaN;
+        return markers.has(marker) ? (
+          <a key={index} className="chat-message__marker" href={`#${sourceAnchorId(message.id, marker)}`}>
+            {part}
+          </a>
+        ) : (
+          part
+        );
+      })}
+    </p>
+  );
+}
+
+/**
+ * Expandable list of the chunks an answer was grounded on; cited chunks come first
+ */
+function SourceList({ message }: { message: ChatMessage }) {
+  const cited = new Set(message.citations.map(citation => citation.marker));
+  const sources: RetrievedContext[] = [...message.contexts].sort(
+    (a, b) => Number(cited.has(b.marker)) - Number(cited.has(a.marker)) || a.marker - b.marker
+  );
+
+  return (
+    <details className="chat-sources">
+      <summary>
+        Sources ({cited.size} cited, {message.contexts.length} retrieved)
+      </summary>
+      <ol className="chat-sources__list">
+        {sources.map(source => (
+          <li
+            key={source.chunkId}
+            id={sourceAnchorId(message.id, source.marker)}
+            className={`chat-source ${cited.has(source.marker) ? 'chat-source--cited' : ''}`}
+          >
+            <div className="chat-source__header">
+              <span className="chat-source__marker">[{source.marker}]</span>
+              <strong>{source.documentTitle !== '' ? source.documentTitle : source.documentId}</strong>
+              {source.headingPath.length > 0 && (
+                <span className="chat-source__heading">{source.headingPath.join(' › ')}</span>
+              )}
+            </div>
+            <p className="chat-source__text">{source.text}</p>
+            <code className="chat-source__location">
+              {source.chunkId} · chars {source.start}–{source.end}
+            </code>
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+}
+
+export function ChatPanel({ className = '' }: ChatPanelProps) {
+  const dispatch = useAppDispatch();
+  const { messages, streaming, error } = useAppSelector((state) => state.chat);
+
+  const [question, setQuestion] = useState('');
+  const pendingRequest = useRef<{ abort: () => void } | null>(null);
+  const listEnd = useRef<HTMLDivElement>(null);
+
+  // Keep the latest tokens in view while an answer streams in
+  useEffect(() => {
+    listEnd.current?.scrollIntoView?.({ block: 'end' });
+  }, [messages]);
+
+  // Stop generating when the panel is unmounted
+  useEffect(() => () => pendingRequest.current?.abort(), []);
+
+  const handleSend = async () => {
+    const trimmed = question.trim();
+    if (trimmed === '' || streaming) {
+      return;
+    }
+
+    setQuestion('');
+    const request = dispatch(sendChatMessage(trimmed));
+    pendingRequest.current = request;
+    await request;
+    pendingRequest.current = null;
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    // Enter sends, Shift+Enter adds a new line
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      void handleSend();
+    }
+  };
+
+  return (
+    <Section variant="glass" spacing="lg" className={`chat-panel ${className}`} ariaLabelledby="chat-panel-title">
+      <div className="chat-panel__header">
+        <div>
+          <h2 id="chat-panel-title">Chat</h2>
+          <p className="chat-panel__subtitle">Ask questions about your documents</p>
+        </div>
+        <Button
+          variant="secondary"
+          size="small"
+          onClick={() => dispatch(clearConversation())}
+          disabled={streaming || messages.length === 0}
+        >
+          Clear
+        </Button>
+      </div>
+
+      {error != null && error !== '' && (
+        <div className="chat-panel__error" role="alert">
+          <p>Error: {error}</p>
+          <Button size="small" onClick={() => dispatch(clearChatError())}>
+            Dismiss
+          </Button>
+        </div>
+      )}
+
+      <div className="chat-panel__messages" role="log" aria-live="polite">
+        {messages.length === 0 ? (
+          <p className="chat-panel__empty">No messages yet. Ask something to get started!</p>
+        ) : (
+          messages.map(message => (
+            <Card
+              key={message.id}
+              variant={message.role === 'assistant' ? 'glass' : 'default'}
+              className={`chat-message chat-message--${message.role} chat-message--${message.status}`}
+            >
+              <span className="chat-message__role">{message.role === 'user' ? 'You' : 'Assistant'}</span>
+              {message.role === 'assistant' ? (
+                <AnswerText message={message} />
+              ) : (
+                <p className="chat-message__text">{message.content}</p>
+              )}
+              {message.status === 'streaming' && message.content === '' && (
+                <p className="chat-message__status">Searching documents…</p>
+              )}
+              {message.status === 'stopped' && <p className="chat-message__status">Stopped</p>}
+              {message.status === 'error' && (
+                <p className="chat-message__status">Failed: {message.error}</p>
+              )}
+              {message.role === 'assistant' && message.contexts.length > 0 && <SourceList message={message} />}
+            </Card>
+          ))
+        )}
+        <div ref={listEnd} />
+      </div>
+
+      <form
+        className="chat-panel__composer"
+        onSubmit={(e) => {
+          e.preventDefault();
+          void handleSend();
+        }}
+      >
+        <label htmlFor="chat-question" className="chat-panel__label">
+          Question
+        </label>
+        <textarea
+          id="chat-question"
+          value={question}
+          onInput={(e) => setQuestion(e.currentTarget.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Ask a question about your documents…"
+          rows={2}
+        />
+        {streaming ? (
+          <Button variant="danger" onClick={() => pendingRequest.current?.abort()}>
+            Stop
+          </Button>
+        ) : (
+          <Button type="submit" disabled={question.trim() === ''}>
+            Send
+          </Button>
+        )}
+      </form>
+    </Section>
+  );
+}
@@ -0,0 +1,385 @@
+/**
+ * Document library component for uploading and managing knowledge base documents
+ */
+
+import { useState, useEffect } from 'preact/hooks';
+import { Button, Card } from '../ui';
+import {
+  useAppDispatch,
+  useAppSelector,
+  fetchDocuments,
+  uploadDocument,
+  fetchDocumentChunks,
+  reindexDocument,
+  reindexAllDocuments,
+  deleteDocument,
+  clearDocumentsError,
+  selectDocument,
+  dismissUpload,
+} from '../../store';
+import type { CreateDocumentRequest, DocumentContentType, DocumentSummary } from '../../services/api';
+
+// TypeScript types for component props
+interface DocumentListProps {
+  className?: string;
+}
+
+interface PasteForm {
+  title: string;
+  content: string;
+  contentType: DocumentContentType;
+  tags: string;
+}
+
+const EMPTY_PASTE_FORM: PasteForm = { title: '', content: '', contentType: 'text/plain', tags: '' };
+
+// Accepted upload extensions - JSON is pretty-printed and ingested as plain text
+const ACCEPTED_EXTENSIONS = ['.txt', '.md', '.markdown', '.json'];
+const JSON_INDENT = 2;
+
+/**
+ * Convert a dropped or selected file into a document creation request
+ */
+async function readDocumentFile(file: File): Promise<CreateDocumentRequest> {
+  const extensionStart = file.name.lastIndexOf('.');
+  const extension = extensionStart === -1 ? '' : file.name.slice(extensionStart).toLowerCase();
+  const title = extensionStart > 0 ? file.name.slice(0, extensionStart) : file.name;
+
+  if (!ACCEPTED_EXTENSIONS.includes(extension)) {
+    throw new Error(`${file.name}: only ${ACCEPTED_EXTENSIONS.join(', ')} files are supported`);
+  }
+
+  const text = await file.text();
+  if (text.trim() === '') {
+    throw new Error(`${file.name}: file is empty`);
+  }
+
+  if (extension === '.json') {
+    try {
+      const content = JSON.stringify(JSON.parse(text), null, JSON_INDENT);
+      return { title, content, contentType: 'text/plain', source: file.name };
+    } catch {
+      throw new Error(`${file.name}: invalid JSON`);
+    }
+  }
+
+  const contentType: DocumentContentType = extension === '.txt' ? 'text/plain' : 'text/markdown';
+  return { title, content: text, contentType, source: file.name };
+}
+
+export function DocumentList({ className = '' }: DocumentListProps) {
+  const dispatch = useAppDispatch();
+  const {
+    documents,
+    uploads,
+    previews,
+    selectedDocumentId,
+    processingIds,
+    loading,
+    reindexingAll,
+    error,
+  } = useAppSelector((state) => state.documents);
+
+  const [showPasteForm, setShowPasteForm] = useState(false);
+  const [pasteForm, setPasteForm] = useState<PasteForm>(EMPTY_PASTE_FORM);
+  const [dragActive, setDragActive] = useState(false);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+
+  // Load documents on component mount
+  useEffect(() => {
+    dispatch(fetchDocuments());
+  }, [dispatch]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files) {
+      return;
+    }
+
+    const errors: string[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        dispatch(uploadDocument(await readDocumentFile(file)));
+      } catch (fileError) {
+        errors.push(fileError instanceof Error ? fileError.message : `${file.name}: could not be read`);
+      }
+    }
+    setFileErrors(errors);
+  };
+
+  const handleDrop = (e: DragEvent) => {
+    e.preventDefault();
+    setDragActive(false);
+    void handleFiles(e.dataTransfer?.files ?? null);
+  };
+
+  const handlePasteSubmit = () => {
+    const title = pasteForm.title.trim();
+    const content = pasteForm.content.trim();
+    if (title === '' || content === '') {
+      return;
+    }
+
+    const tags = pasteForm.tags.split(',').map(tag => tag.trim()).filter(tag => tag !== '');
+    dispatch(uploadDocument({
+      title,
+      content,
+      contentType: pasteForm.contentType,
+      ...(tags.length > 0 ? { tags } : {}),
+    }));
+    setPasteForm(EMPTY_PASTE_FORM);
+    setShowPasteForm(false);
+  };
+
+  const handleDeleteDocument = (document: DocumentSummary) => {
+    if (confirm(`Are you sure you want to delete "${document.title}"?`)) {
+      dispatch(deleteDocument(document.id));
+    }
+  };
+
+  const handlePreview = (id: string) => {
+    if (selectedDocumentId === id) {
+      dispatch(selectDocument(null));
+      return;
+    }
+    dispatch(fetchDocumentChunks(id));
+  };
+
+  const selectedDocument = documents.find(document => document.id === selectedDocumentId);
+  const preview = selectedDocumentId != null ? previews[selectedDocumentId] : undefined;
+
+  return (
+    <div className={`document-list ${className}`}>
+      <div className="document-list__header">
+        <h2>Documents</h2>
+        <div className="document-list__actions">
+          <Button onClick={() => dispatch(fetchDocuments())} disabled={loading}>
+            {loading ? 'Loading...' : 'Refresh'}
+          </Button>
+          <Button
+            variant="warning"
+            onClick={() => dispatch(reindexAllDocuments())}
+            disabled={reindexingAll || documents.length === 0}
+          >
+            {reindexingAll ? 'Re-indexing...' : 'Re-index All'}
+          </Button>
+          <Button variant="success" onClick={() => setShowPasteForm(!showPasteForm)}>
+            {showPasteForm ? 'Cancel' : 'Paste Text'}
+          </Button>
+        </div>
+      </div>
+
+      {error != null && error !== '' && (
+        <div className="document-list__error">
+          <p>Error: {error}</p>
+          <Button size="small" onClick={() => dispatch(clearDocumentsError())}>
+            Dismiss
+          </Button>
+        </div>
+      )}
+
+      <label
+        className={`document-dropzone ${dragActive ? 'document-dropzone--active' : ''}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragActive(true);
+        }}
+        onDragLeave={() => setDragActive(false)}
+        onDrop={handleDrop}
+      >
+        <input
+          type="file"
+          className="document-dropzone__input"
+          accept={ACCEPTED_EXTENSIONS.join(',')}
+          multiple
+          onChange={(e) => {
+            void handleFiles(e.currentTarget.files);
+            e.currentTarget.value = '';
+          }}
+        />
+        <span className="document-dropzone__title">Drop files here or click to upload</span>
+        <span className="document-dropzone__hint">{ACCEPTED_EXTENSIONS.join(', ')}</span>
+      </label>
+
+      {fileErrors.length > 0 && (
+        <ul className="document-list__file-errors">
+          {fileErrors.map(message => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+
+      {showPasteForm && (
+        <div className="document-list__form">
+          <h3>Paste Text</h3>
+          <div className="form-group">
+            <label htmlFor="document-title">Title:</label>
+            <input
+              type="text"
+              id="document-title"
+              value={pasteForm.title}
+              onInput={(e) => setPasteForm({ ...pasteForm, title: e.currentTarget.value })}
+              placeholder="Enter document title"
+              required
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="document-content">Content:</label>
+            <textarea
+              id="document-content"
+              value={pasteForm.content}
+              onInput={(e) => setPasteForm({ ...pasteForm, content: e.currentTarget.value })}
+              placeholder="Paste plain text or markdown"
+              rows={8}
+              required
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="document-content-type">Format:</label>
+            <select
+              id="document-content-type"
+              value={pasteForm.contentType}
+              onChange={(e) =>
+                setPasteForm({ ...pasteForm, contentType: e.currentTarget.value as DocumentContentType })
+              }
+            >
+              <option value="text/plain">Plain text</option>
+              <option value="text/markdown">Markdown</option>
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="document-tags">Tags:</label>
+            <input
+              type="text"
+              id="document-tags"
+              value={pasteForm.tags}
+              onInput={(e) => setPasteForm({ ...pasteForm, tags: e.currentTarget.value })}
+              placeholder="Comma separated, optional"
+            />
+          </div>
+          <div className="form-actions">
+            <Button
+              variant="success"
+              onClick={handlePasteSubmit}
+              disabled={!pasteForm.title.trim() || !pasteForm.content.trim()}
+            >
+              Add Document
+            </Button>
+            <Button variant="secondary" onClick={() => setShowPasteForm(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {uploads.length > 0 && (
+        <ul className="document-list__uploads">
+          {uploads.map(upload => (
+            <li key={upload.id} className={`document-upload document-upload--${upload.status}`}>
+              <span>{upload.title}</span>
+              <span className="document-status">
+                {upload.status === 'uploading' ? 'Uploading & indexing…' : `Failed: ${upload.error ?? ''}`}
+              </span>
+              {upload.status === 'failed' && (
+                <Button size="small" variant="secondary" onClick={() => dispatch(dismissUpload(upload.id))}>
+                  Dismiss
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="document-list__content">
+        <h3>Documents ({documents.length})</h3>
+        {documents.length === 0 ? (
+          <p>No documents yet. Upload a file or paste some text!</p>
+        ) : (
+          <div className="documents-grid">
+            {documents.map(document => {
+              const processing = processingIds.includes(document.id) || reindexingAll;
+              return (
+                <Card
+                  key={document.id}
+                  variant="glass"
+                  className={`document-card ${selectedDocumentId === document.id ? 'document-card--selected' : ''}`}
+                >
+                  <div className="document-card__header">
+                    <h4>{document.title}</h4>
+                    <span className={`document-status document-status--${processing ? 'processing' : document.status}`}>
+                      {processing ? 'Processing…' : document.status === 'indexed' ? 'Indexed' : 'Not indexed'}
+                    </span>
+                  </div>
+                  <p className="document-card__meta">
+                    {document.chunkCount} chunk{document.chunkCount === 1 ? '' : 's'} ·{' '}
+                    {document.characterCount.toLocaleString()} characters ·{' '}
+                    {document.contentType === 'text/markdown' ? 'Markdown' : 'Text'}
+                  </p>
+                  {document.source != null && <p className="document-card__meta">Source: {document.source}</p>}
+                  {document.tags.length > 0 && (
+                    <div className="document-card__tags">
+                      {document.tags.map(tag => (
+                        <span key={tag} className="document-card__tag">{tag}</span>
+                      ))}
+                    </div>
+                  )}
+                  <div className="document-card__actions">
+                    <Button size="small" variant="info" onClick={() => handlePreview(document.id)}>
+                      {selectedDocumentId === document.id ? 'Hide Chunks' : 'Preview'}
+                    </Button>
+                    <Button
+                      size="small"
+                      variant="warning"
+                      onClick={() => dispatch(reindexDocument(document.id))}
+                      disabled={processing}
+                    >
+                      Re-index
+                    </Button>
+                    <Button
+                      size="small"
+                      variant="danger"
+                      onClick={() => handleDeleteDocument(document)}
+                      disabled={processing}
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {selectedDocument && (
+        <div className="document-list__preview">
+          <h3>Chunks: {selectedDocument.title}</h3>
+          {preview === undefined ? (
+            <p>Loading chunks...</p>
+          ) : (
+            <>
+              <p className="document-card__meta">
+                {preview.total} chunk{preview.total === 1 ? '' : 's'} · {preview.strategy} strategy
+              </p>
+              <ol className="document-chunks">
+                {preview.chunks.map(chunk => (
+                  <li key={chunk.id} className="document-chunk">
+                    <div className="document-chunk__header">
+                      <strong>#{chunk.index}</strong>
+                      {chunk.headingPath.length > 0 && <span>{chunk.headingPath.join(' › ')}</span>}
+                      <code>
+                        chars {chunk.start}–{chunk.end}
+                      </code>
+                    </div>
+                    <p className="document-chunk__text">{chunk.text}</p>
+                  </li>
+                ))}
+              </ol>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DocumentList;
@@ -0,0 +1,93 @@
+/**
+ * Sign-in form and current session details
+ */
+
+import { useState } from 'preact/hooks';
+import { Section, Button } from '../ui';
+import { useAppDispatch, useAppSelector, login, logout, clearAuthError } from '../../store';
+
+interface LoginFormProps {
+  className?: string;
+}
+
+export function LoginForm({ className = '' }: LoginFormProps) {
+  const dispatch = useAppDispatch();
+  const { session, status, error } = useAppSelector((state) => state.auth);
+
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+
+  const loggingIn = status === 'loggingIn';
+
+  const handleSubmit = async (e: Event) => {
+    e.preventDefault();
+    if (email.trim() === '' || password === '' || loggingIn) {
+      return;
+    }
+
+    const result = await dispatch(login({ email, password }));
+    if (login.fulfilled.match(result)) {
+      setPassword('');
+    }
+  };
+
+  return (
+    <Section variant="glass" spacing="lg" className={`login-form ${className}`} ariaLabelledby="login-form-title">
+      <h2 id="login-form-title">Account</h2>
+
+      {error != null && error !== '' && (
+        <div className="login-form__error" role="alert">
+          <p>{error}</p>
+          <Button size="small" onClick={() => dispatch(clearAuthError())}>
+            Dismiss
+          </Button>
+        </div>
+      )}
+
+      {session !== null ? (
+        <div className="login-form__session">
+          <p>
+            Signed in as <strong>{session.user.name}</strong> ({session.user.email})
+          </p>
+          <p className="login-form__role">Role: {session.user.role}</p>
+          <Button variant="secondary" onClick={() => dispatch(logout())}>
+            Sign Out
+          </Button>
+        </div>
+      ) : (
+        <form className="login-form__form" onSubmit={(e) => void handleSubmit(e)}>
+          <div className="form-group">
+            <label htmlFor="login-email">Email:</label>
+            <input
+              type="email"
+              id="login-email"
+              value={email}
+              onInput={(e) => setEmail(e.currentTarget.value)}
+              autoComplete="username"
+              placeholder="you@example.com"
+              required
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="login-password">Password:</label>
+            <input
+              type="password"
+              id="login-password"
+              value={password}
+              onInput={(e) => setPassword(e.currentTarget.value)}
+              autoComplete="current-password"
+              required
+            />
+          </div>
+          <div className="form-actions">
+            <Button type="submit" variant="success" disabled={loggingIn || email.trim() === '' || password === ''}>
+              {loggingIn ? 'Signing in...' : 'Sign In'}
+            </Button>
+          </div>
+        </form>
+      )}
+    </Section>
+  );
+}
+
+export default LoginForm;
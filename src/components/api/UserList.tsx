@@ -14,7 +14,7 @@ import {
   deleteUser,
   clearError,
 } from '../../store';
-import type { User } from '../../services/api';
+import type { UpdateUserRequest, User, UserSortOrder } from '../../services/api';
 
 // TypeScript types for component props
 interface UserListProps {
@@ -26,19 +26,43 @@ interface NewUserForm {
   email: string;
 }
 
+const SORT_OPTIONS: Array<{ value: UserSortOrder; label: string }> = [
+  { value: 'createdAt', label: 'Oldest first' },
+  { value: '-createdAt', label: 'Newest first' },
+  { value: 'name', label: 'Name (A-Z)' },
+  { value: '-name', label: 'Name (Z-A)' },
+  { value: 'email', label: 'Email (A-Z)' },
+  { value: '-email', label: 'Email (Z-A)' },
+];
+
 export function UserList({ className = '' }: UserListProps) {
   const dispatch = useAppDispatch();
-  const { users, loading, error, selectedUser } = useAppSelector((state) => state.users);
+  const { users, loading, error, selectedUser, query, pagination } = useAppSelector((state) => state.users);
   
   const [showForm, setShowForm] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [newUser, setNewUser] = useState<NewUserForm>({ name: '', email: '' });
+  const [search, setSearch] = useState(query.q ?? '');
 
   // Load users on component mount
   useEffect(() => {
     dispatch(fetchUsers());
   }, [dispatch]);
 
+  // A new search or sort order starts again from the first page
+  const handleSearch = (e: Event) => {
+    e.preventDefault();
+    dispatch(fetchUsers({ q: search.trim(), page: 1 }));
+  };
+
+  const handleSortChange = (sort: UserSortOrder) => {
+    dispatch(fetchUsers({ sort, page: 1 }));
+  };
+
+  const goToPage = (page: number) => {
+    dispatch(fetchUsers({ page }));
+  };
+
   const handleCreateUser = () => {
     const { name, email } = newUser;
     if (name?.trim() && email?.trim()) {
@@ -51,7 +75,7 @@ export function UserList({ className = '' }: UserListProps) {
 
   const handleUpdateUser = () => {
     if (editingUser?.id != null && editingUser.id !== '') {
-      const updates: Partial<User> = {};
+      const updates: UpdateUserRequest = {};
       const trimmedName = editingUser.name?.trim();
       const trimmedEmail = editingUser.email?.trim();
       
@@ -163,11 +187,41 @@ export function UserList({ className = '' }: UserListProps) {
         </div>
       )}
 
+      <form className="user-list__toolbar" role="search" onSubmit={handleSearch}>
+        <input
+          type="search"
+          aria-label="Search users by name or email"
+          value={search}
+          onInput={(e) => setSearch(e.currentTarget.value)}
+          placeholder="Search by name or email"
+          maxLength={100}
+        />
+        <button type="submit" disabled={loading} className="btn btn--primary">
+          Search
+        </button>
+        <select
+          aria-label="Sort users"
+          value={query.sort ?? 'createdAt'}
+          onChange={(e) => handleSortChange(e.currentTarget.value as UserSortOrder)}
+          disabled={loading}
+        >
+          {SORT_OPTIONS.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </form>
+
       <div className="user-list__content">
         <div className="user-list__users">
-          <h3>Users ({users.length})</h3>
+          <h3>Users ({pagination.total})</h3>
           {users.length === 0 ? (
-            <p>No users found. Create your first user!</p>
+            <p>
+              {query.q != null && query.q !== ''
+                ? `No users match "${query.q}".`
+                : 'No users found. Create your first user!'}
+            </p>
           ) : (
             <div className="users-grid">
               {users.map((user) => (
@@ -204,6 +258,30 @@ export function UserList({ className = '' }: UserListProps) {
               ))}
             </div>
           )}
+
+          {pagination.pageCount > 1 && (
+            <nav className="user-list__pagination" aria-label="Users pages">
+              <button
+                type="button"
+                onClick={() => goToPage(pagination.page - 1)}
+                disabled={loading || pagination.page <= 1}
+                className="btn btn--small btn--secondary"
+              >
+                Previous
+              </button>
+              <span className="user-list__page-info">
+                Page {pagination.page} of {pagination.pageCount}
+              </span>
+              <button
+                type="button"
+                onClick={() => goToPage(pagination.page + 1)}
+                disabled={loading || pagination.page >= pagination.pageCount}
+                className="btn btn--small btn--secondary"
+              >
+                Next
+              </button>
+            </nav>
+          )}
         </div>
 
         {selectedUser && (
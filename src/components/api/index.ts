@@ -4,6 +4,9 @@
 
 export { ApiDashboard } from './ApiDashboard';
 export { UserList } from './UserList';
+export { DocumentList } from './DocumentList';
 export { GreetingComponent } from './GreetingComponent';
 export { DemoSection } from './DemoSection';
+export { ChatPanel } from './ChatPanel';
+export { LoginForm } from './LoginForm';
 export type { DemoSectionProps } from './DemoSection';
\ No newline at end of file
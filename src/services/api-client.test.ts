@@ -0,0 +1,68 @@
+/**
+ * Tests for the contract-derived API client
+ */
+
+import { describe, it, expect, expectTypeOf, beforeEach, vi } from 'vitest';
+import { createApiClient, toContractRequest, type OperationArgs, type OperationPayload } from './api-client';
+import { HttpClient } from './http-client';
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+describe('API client', () => {
+  const envelope = { status: 'success', payload: {}, metadata: { timestamp: '', requestId: 'req_test', version: '1.0.0', processingTimeMs: 0 } };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve(envelope) });
+  });
+
+  it('should fill route parameters and send the method from the contract', async () => {
+    const client = createApiClient(new HttpClient('/api'));
+
+    await client.updateUser({ params: { id: 'user 1' }, body: { name: 'Ada' } });
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/users/user%201', expect.objectContaining({
+      method: 'PUT',
+      body: JSON.stringify({ name: 'Ada' }),
+    }));
+  });
+
+  it('should serialize GET queries and skip empty values', async () => {
+    const client = createApiClient(new HttpClient('/api'));
+    const page = 2;
+
+    await client.listUsers({ query: { page, sort: '-name', q: '' } });
+    await client.listDocuments();
+
+    expect(mockFetch.mock.calls.map(([url, init]) => [url, init.method])).toEqual([
+      ['/api/users?page=2&sort=-name', 'GET'],
+      ['/api/documents', 'GET'],
+    ]);
+  });
+
+  it('should resolve requests for RTK Query endpoints', () => {
+    expect(toContractRequest('getDocumentChunks', { params: { id: 'doc-1' }, query: { strategy: 'markdown' } })).toEqual({
+      method: 'GET',
+      endpoint: '/documents/doc-1/chunks',
+      params: { strategy: 'markdown' },
+    });
+    expect(toContractRequest('login', { body: { email: 'ada@example.com', password: 'secret' } })).toMatchObject({
+      method: 'POST',
+      endpoint: '/auth/login',
+    });
+  });
+
+  it('should infer arguments and payloads from the server schemas', () => {
+    expectTypeOf<OperationPayload<'getUser'>>().toEqualTypeOf<{
+      id: string;
+      name: string;
+      email: string;
+      createdAt: string;
+      updatedAt: string;
+    }>();
+    expectTypeOf<OperationArgs<'createUser'>>().toEqualTypeOf<{ body: { name: string; email: string } }>();
+    expectTypeOf<OperationArgs<'getUser'>>().toEqualTypeOf<{ params: { id: string } }>();
+    expectTypeOf<OperationPayload<'listDocuments'>['documents'][number]['source']>().toEqualTypeOf<string | null>();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Typed API client derived from the shared route contracts
+ * Every operation in apiContract becomes a method whose arguments and payload
+ * are inferred from the server schemas, so a schema change fails type-checking here
+ */
+
+import {
+  apiContract,
+  type ApiContract,
+  type ApiOperation,
+} from '../../netlify/shared/api/contracts/index.ts';
+import type {
+  ContractArgs,
+  ContractMethod,
+  ContractPayload,
+  RouteContract,
+} from '../../netlify/shared/lib/types/contract.types.ts';
+import { buildContractPath, toQueryParams } from '../../netlify/shared/lib/utils/contract.utils.ts';
+import { httpClient, type ApiResponse, type HttpClient } from './http-client';
+
+// Arguments of an operation; optional when every field is
+export type OperationArgs<K extends ApiOperation> = ContractArgs<ApiContract[K]>;
+
+// Payload of a successful call
+export type OperationPayload<K extends ApiOperation> = ContractPayload<ApiContract[K]>;
+
+// Argument list of an operation; the argument may be left out when every field is optional
+export type OperationArgList<K extends ApiOperation> =
+  {} extends OperationArgs<K> ? [args?: OperationArgs<K>] : [args: OperationArgs<K>];
+
+type OperationCall<K extends ApiOperation> = (...args: OperationArgList<K>) => Promise<ApiResponse<OperationPayload<K>>>;
+
+export type ApiClient = { [K in ApiOperation]: OperationCall<K> };
+
+// Resolved HTTP request of an operation
+export interface ContractRequest {
+  method: ContractMethod;
+  // Endpoint below the API base URL, route parameters filled in
+  endpoint: string;
+  // Query parameters, only sent with GET requests
+  params: Record<string, string>;
+  body?: unknown;
+}
+
+// Untyped view of the arguments, used once the types have been checked
+interface RawArgs {
+  params?: Record<string, string>;
+  query?: object;
+  body?: unknown;
+}
+
+/**
+ * Endpoint (below the API base URL) of a contract, with its route parameters filled in
+ */
+export function contractEndpoint(route: RouteContract, params?: Record<string, string>): string {
+  return buildContractPath(route.path, params);
+}
+
+function resolveRequest(route: RouteContract, { params, query, body }: RawArgs = {}): ContractRequest {
+  return {
+    method: route.method,
+    endpoint: contractEndpoint(route, params),
+    params: route.method === 'GET' ? toQueryParams(query) : {},
+    ...(body !== undefined ? { body } : {}),
+  };
+}
+
+/**
+ * Resolve the HTTP request for an operation, e.g. for RTK Query endpoints
+ */
+export function toContractRequest<K extends ApiOperation>(operation: K, ...[args]: OperationArgList<K>): ContractRequest {
+  return resolveRequest(apiContract[operation], args as RawArgs | undefined);
+}
+
+function send<T>(client: HttpClient, { method, endpoint, params, body }: ContractRequest): Promise<ApiResponse<T>> {
+  switch (method) {
+    case 'GET':
+      return client.get<T>(endpoint, params);
+    case 'POST':
+      return client.post<T>(endpoint, body);
+    case 'PUT':
+      return client.put<T>(endpoint, body);
+    case 'PATCH':
+      return client.patch<T>(endpoint, body);
+    case 'DELETE':
+      return client.delete<T>(endpoint);
+  }
+}
+
+/**
+ * Create a client with one method per contract operation
+ */
+export function createApiClient(client: HttpClient = httpClient): ApiClient {
+  const entries = Object.entries(apiContract).map(([name, route]: [string, RouteContract]) => [
+    name,
+    (args?: RawArgs) => send(client, resolveRequest(route, args)),
+  ]);
+  return Object.fromEntries(entries) as ApiClient;
+}
+
+export const apiClient = createApiClient();
@@ -2,28 +2,98 @@
  * API service functions for communicating with the backend
  */
 
-import { httpClient, type ApiResponse } from './http-client';
+import type { ApiContract, ApiOperation } from '../../netlify/shared/api/contracts/index.ts';
+import type { ContractBody, ContractQuery } from '../../netlify/shared/lib/types/contract.types.ts';
+import { apiContract } from '../../netlify/shared/api/contracts/index.ts';
+import { httpClient, type ApiResponse, type ServerSentEvent } from './http-client';
+import { apiClient, contractEndpoint, type OperationPayload } from './api-client';
 
 /**
- * Types for API data
+ * Types for API data, derived from the shared route contracts
  */
-export interface User {
-  id: string;
-  name: string;
-  email: string;
-}
+type Body<K extends ApiOperation> = ContractBody<ApiContract[K]>;
 
-export interface UsersResponse {
-  users: User[];
-}
+export type User = OperationPayload<'getUser'>;
 
-export interface HealthResponse {
-  healthy: boolean;
-  uptime: number;
-}
+// One page of GET /users
+export type UsersResponse = OperationPayload<'listUsers'>;
+
+// sort, page, limit and q (case-insensitive name/email search)
+export type UsersQuery = ContractQuery<ApiContract['listUsers']>;
+
+export type UserSortOrder = NonNullable<UsersQuery['sort']>;
+
+export type CreateUserRequest = Body<'createUser'>;
+
+export type UpdateUserRequest = Body<'updateUser'>;
+
+export type HealthResponse = OperationPayload<'healthCheck'>;
+
+export type GreetingResponse = OperationPayload<'getGreeting'>;
+
+export type LoginRequest = Body<'login'>;
+
+// Login and refresh response; lifetimes are in seconds
+export type AuthTokensResponse = OperationPayload<'login'>;
+
+// Signed-in account as returned by the auth endpoints
+export type AuthUser = AuthTokensResponse['user'];
+
+export type DocumentsResponse = OperationPayload<'listDocuments'>;
+
+// Document listing entry (content omitted)
+export type DocumentSummary = DocumentsResponse['documents'][number];
+
+export type DocumentContentType = DocumentSummary['contentType'];
+
+// indexed: chunks are searchable, not_indexed: stored but missing from the index
+export type DocumentIndexStatus = DocumentSummary['status'];
+
+export type CreateDocumentRequest = Body<'createDocument'>;
+
+export type DocumentIngestionResponse = OperationPayload<'createDocument'>;
+
+export type DocumentChunksResponse = OperationPayload<'getDocumentChunks'>;
+
+export type DocumentChunk = DocumentChunksResponse['chunks'][number];
+
+type AnswerResponse = OperationPayload<'askQuestion'>;
+
+// Retrieved chunk used to ground an answer - marker is the number cited as [n]
+export type RetrievedContext = AnswerResponse['contexts'][number];
+
+// A citation marker resolved to the chunk it refers to
+export type Citation = AnswerResponse['citations'][number];
+
+export type AskRequest = Body<'askQuestionStream'>;
 
-export interface GreetingResponse {
-  message: string;
+// Events streamed by POST /ask/stream
+export type AskStreamEvent =
+  | { type: 'contexts'; contexts: RetrievedContext[] }
+  | { type: 'token'; text: string }
+  | { type: 'done'; answer: string; citations: Citation[]; provider: string };
+
+/**
+ * Convert a raw server-sent event into a typed ask event (unknown events are ignored)
+ */
+function toAskStreamEvent({ event, data }: ServerSentEvent<Record<string, unknown>>): AskStreamEvent | null {
+  switch (event) {
+    case 'contexts':
+      return { type: 'contexts', contexts: (data.contexts ?? []) as RetrievedContext[] };
+    case 'token':
+      return { type: 'token', text: String(data.text ?? '') };
+    case 'done':
+      return {
+        type: 'done',
+        answer: String(data.answer ?? ''),
+        citations: (data.citations ?? []) as Citation[],
+        provider: String(data.provider ?? ''),
+      };
+    case 'error':
+      throw new Error(typeof data.message === 'string' ? data.message : 'Answer generation failed');
+    default:
+      return null;
+  }
 }
 
 /**
@@ -32,39 +102,86 @@ export interface GreetingResponse {
 export const apiService = {
   // Greeting endpoints
   async getGreeting(name?: string): Promise<ApiResponse<GreetingResponse>> {
-    const trimmedName = name?.trim();
-    const params = trimmedName != null && trimmedName !== '' ? { name: trimmedName } : undefined;
-    return httpClient.get<GreetingResponse>('/', params);
+    return apiClient.getGreeting({ query: { name: name?.trim() } });
+  },
+
+  async postGreeting(data: Record<string, unknown>): Promise<ApiResponse<OperationPayload<'postGreeting'>>> {
+    return apiClient.postGreeting({ body: data });
+  },
+
+  // Auth endpoints
+  async login(credentials: LoginRequest): Promise<ApiResponse<AuthTokensResponse>> {
+    return apiClient.login({ body: credentials });
+  },
+
+  async refreshSession(refreshToken: string): Promise<ApiResponse<AuthTokensResponse>> {
+    return apiClient.refreshSession({ body: { refreshToken } });
   },
 
-  async postGreeting(data: Record<string, unknown>): Promise<ApiResponse<unknown>> {
-    return httpClient.post('/', data);
+  async logout(refreshToken?: string): Promise<ApiResponse<OperationPayload<'logout'>>> {
+    return apiClient.logout({ body: refreshToken !== undefined ? { refreshToken } : {} });
   },
 
   // User endpoints
-  async getUsers(): Promise<ApiResponse<UsersResponse>> {
-    return httpClient.get<UsersResponse>('/users');
+  async getUsers(query: UsersQuery = {}): Promise<ApiResponse<UsersResponse>> {
+    return apiClient.listUsers({ query: { ...query, q: query.q?.trim() } });
   },
 
   async getUser(id: string): Promise<ApiResponse<User>> {
-    return httpClient.get<User>(`/users/${id}`);
+    return apiClient.getUser({ params: { id } });
+  },
+
+  async createUser(user: CreateUserRequest): Promise<ApiResponse<OperationPayload<'createUser'>>> {
+    return apiClient.createUser({ body: user });
+  },
+
+  async updateUser(id: string, user: UpdateUserRequest): Promise<ApiResponse<OperationPayload<'updateUser'>>> {
+    return apiClient.updateUser({ params: { id }, body: user });
+  },
+
+  async deleteUser(id: string): Promise<ApiResponse<OperationPayload<'deleteUser'>>> {
+    return apiClient.deleteUser({ params: { id } });
+  },
+
+  // Document endpoints
+  async getDocuments(): Promise<ApiResponse<DocumentsResponse>> {
+    return apiClient.listDocuments();
+  },
+
+  async createDocument(document: CreateDocumentRequest): Promise<ApiResponse<DocumentIngestionResponse>> {
+    return apiClient.createDocument({ body: document });
+  },
+
+  async getDocumentChunks(id: string): Promise<ApiResponse<DocumentChunksResponse>> {
+    return apiClient.getDocumentChunks({ params: { id } });
+  },
+
+  async reindexDocument(id: string): Promise<ApiResponse<DocumentIngestionResponse>> {
+    return apiClient.reindexDocument({ params: { id } });
   },
 
-  async createUser(user: Omit<User, 'id'>): Promise<ApiResponse<{ message: string; user: User }>> {
-    return httpClient.post('/users', user);
+  async reindexDocuments(): Promise<ApiResponse<OperationPayload<'reindexDocuments'>>> {
+    return apiClient.reindexDocuments();
   },
 
-  async updateUser(id: string, user: Partial<User>): Promise<ApiResponse<{ message: string; user: User }>> {
-    return httpClient.put(`/users/${id}`, user);
+  async deleteDocument(id: string): Promise<ApiResponse<OperationPayload<'deleteDocument'>>> {
+    return apiClient.deleteDocument({ params: { id } });
   },
 
-  async deleteUser(id: string): Promise<ApiResponse<{ message: string }>> {
-    return httpClient.delete(`/users/${id}`);
+  // Question answering (streamed)
+  async *askStream(request: AskRequest, signal?: AbortSignal): AsyncGenerator<AskStreamEvent> {
+    const endpoint = contractEndpoint(apiContract.askQuestionStream);
+    for await (const raw of httpClient.stream<Record<string, unknown>>(endpoint, request, signal)) {
+      const event = toAskStreamEvent(raw);
+      if (event !== null) {
+        yield event;
+      }
+    }
   },
 
   // Health check
   async healthCheck(): Promise<ApiResponse<HealthResponse>> {
-    return httpClient.get<HealthResponse>('/health');
+    return apiClient.healthCheck();
   },
 };
 
@@ -0,0 +1,75 @@
+/**
+ * Persistence for the signed-in session
+ */
+
+import type { AuthUser } from './api';
+
+export interface StoredAuthSession {
+  user: AuthUser;
+  accessToken: string;
+  refreshToken: string;
+  // Epoch milliseconds after which the refresh token is no longer accepted
+  refreshExpiresAt: number;
+}
+
+const AUTH_STORAGE_KEY = 'preact-rag-app:auth';
+
+function getStorage(): Storage | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    // Access throws when storage is disabled (e.g. blocked cookies)
+    return null;
+  }
+}
+
+function isStoredAuthSession(value: unknown): value is StoredAuthSession {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const session = value as Partial<StoredAuthSession>;
+  return (
+    typeof session.accessToken === 'string' &&
+    typeof session.refreshToken === 'string' &&
+    typeof session.refreshExpiresAt === 'number' &&
+    typeof session.user?.id === 'string'
+  );
+}
+
+/**
+ * Read the persisted session; expired or unreadable entries are discarded
+ */
+export function loadAuthSession(): StoredAuthSession | null {
+  const storage = getStorage();
+  const raw = storage?.getItem(AUTH_STORAGE_KEY) ?? null;
+  if (raw === null) {
+    return null;
+  }
+
+  try {
+    const session: unknown = JSON.parse(raw);
+    if (isStoredAuthSession(session) && session.refreshExpiresAt > Date.now()) {
+      return session;
+    }
+  } catch {
+    // Fall through and drop the corrupt entry
+  }
+  storage?.removeItem(AUTH_STORAGE_KEY);
+  return null;
+}
+
+/**
+ * Persist the session, or remove it when signed out
+ */
+export function saveAuthSession(session: StoredAuthSession | null): void {
+  const storage = getStorage();
+  try {
+    if (session === null) {
+      storage?.removeItem(AUTH_STORAGE_KEY);
+    } else {
+      storage?.setItem(AUTH_STORAGE_KEY, JSON.stringify(session));
+    }
+  } catch {
+    // Quota or privacy errors only cost persistence, the in-memory session keeps working
+  }
+}
@@ -2,6 +2,8 @@
  * HTTP client for API communication
  */
 
+import type { ApiResponseError, ApiResponseSuccess } from '../../netlify/shared/lib/types/envelope.types.ts';
+
 // HTTP client constants
 const HTTP_CONFIG = {
   STATUS_CODES: {
@@ -16,27 +18,82 @@ const HTTP_CONFIG = {
   DEFAULT_BASE_PATH: '/api',
 } as const;
 
-export interface ApiResponse<T = unknown> {
-  status: 'success' | 'error';
-  payload: T;
-  metadata: {
-    timestamp: string;
-    version: string;
-  };
+// Successful calls resolve with the success envelope; error envelopes are thrown
+export type ApiResponse<T = unknown> = ApiResponseSuccess<T>;
+
+export type ApiError = ApiResponseError;
+
+// A single Server-Sent Event received from a streaming endpoint
+export interface ServerSentEvent<T = unknown> {
+  event: string;
+  data: T;
+  id?: string;
 }
 
-export interface ApiError {
-  status: 'error';
-  payload?: unknown;
-  metadata?: {
-    timestamp: string;
-    version: string;
-    error?: string;
-  };
+// Supplies credentials to the client; installed by the store
+export interface AuthHandlers {
+  getAccessToken: () => string | null;
+  // Resolves a new access token, or null when the session could not be refreshed
+  refreshAccessToken: () => Promise<string | null>;
+}
+
+// Auth endpoints manage tokens themselves and are never retried after a refresh
+const AUTH_ENDPOINT_PATTERN = /^\/?auth(\/|$)/;
+
+// Events are separated by a blank line
+const SSE_EVENT_SEPARATOR = /\r?\n\r?\n/;
+
+/**
+ * Parse one raw SSE block (field lines) into an event; comment-only blocks return null
+ */
+function parseServerSentEvent<T>(block: string): ServerSentEvent<T> | null {
+  let event = 'message';
+  let id: string | undefined;
+  const dataLines: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (line === '' || line.startsWith(':')) {
+      continue;
+    }
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      dataLines.push(value);
+    } else if (field === 'id') {
+      id = value;
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return null;
+  }
+
+  const raw = dataLines.join('\n');
+  let data: unknown = raw;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    // Plain-text payloads are passed through as strings
+  }
+
+  return { event, data: data as T, ...(id !== undefined ? { id } : {}) };
+}
+
+/**
+ * Error message of a failed response - API errors carry it in error.message
+ */
+async function readErrorMessage(response: Response): Promise<string> {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.error?.message ?? errorData.message ?? response.statusText;
 }
 
 class HttpClient {
   private baseUrl: string;
+  private authHandlers: AuthHandlers | null = null;
 
   constructor(baseUrl?: string) {
     // Auto-detect base URL based on environment
@@ -54,11 +111,35 @@ class HttpClient {
     }
   }
 
-  private async request<T>(
-    endpoint: string,
-    options: RequestInit = {},
-    params?: Record<string, string>
-  ): Promise<ApiResponse<T>> {
+  /**
+   * Send the bearer token with every request; null stops sending credentials
+   */
+  setAuthHandlers(handlers: AuthHandlers | null): void {
+    this.authHandlers = handlers;
+  }
+
+  /**
+   * Fetch with the current access token; on 401 refresh the session once and retry
+   */
+  private async authorizedFetch(endpoint: string, url: string, init: RequestInit): Promise<Response> {
+    const handlers = this.authHandlers;
+    const withToken = (token: string | null): RequestInit =>
+      token === null ? init : { ...init, headers: { ...init.headers, Authorization: `Bearer ${token}` } };
+
+    const response = await fetch(url, withToken(handlers?.getAccessToken() ?? null));
+    if (
+      response.status !== HTTP_CONFIG.STATUS_CODES.UNAUTHORIZED ||
+      handlers === null ||
+      AUTH_ENDPOINT_PATTERN.test(endpoint)
+    ) {
+      return response;
+    }
+
+    const refreshedToken = await handlers.refreshAccessToken();
+    return refreshedToken === null ? response : fetch(url, withToken(refreshedToken));
+  }
+
+  private buildUrl(endpoint: string, params?: Record<string, string>): string {
     // Normalize URL - remove leading slash from endpoint to avoid double slash
     const cleanEndpoint = endpoint.startsWith('/') ? endpoint.slice(1) : endpoint;
     let url = `${this.baseUrl}${cleanEndpoint ? `/${cleanEndpoint}` : ''}`;
@@ -68,6 +149,16 @@ class HttpClient {
       const searchParams = new URLSearchParams(params);
       url += `?${searchParams.toString()}`;
     }
+
+    return url;
+  }
+
+  private async request<T>(
+    endpoint: string,
+    options: RequestInit = {},
+    params?: Record<string, string>
+  ): Promise<ApiResponse<T>> {
+    const url = this.buildUrl(endpoint, params);
     
     const config: RequestInit = {
       headers: {
@@ -78,7 +169,7 @@ class HttpClient {
     };
 
     try {
-      const response = await fetch(url, config);
+      const response = await this.authorizedFetch(endpoint, url, config);
       
       if (!response.ok) {
         // In development, provide helpful error message
@@ -90,8 +181,7 @@ class HttpClient {
           );
         }
         
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`HTTP ${response.status}: ${errorData.message ?? response.statusText}`);
+        throw new Error(`HTTP ${response.status}: ${await readErrorMessage(response)}`);
       }
 
       const data = await response.json();
@@ -126,6 +216,66 @@ class HttpClient {
     return this.request<T>(endpoint, { method: 'DELETE' });
   }
 
+  /**
+   * POST data to a Server-Sent Events endpoint and yield events as they arrive
+   * JSON event data is parsed; the stream ends when the server closes the connection
+   */
+  async *stream<T = unknown>(
+    endpoint: string,
+    data?: unknown,
+    signal?: AbortSignal
+  ): AsyncGenerator<ServerSentEvent<T>> {
+    const url = this.buildUrl(endpoint);
+    const response = await this.authorizedFetch(endpoint, url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+      },
+      body: data !== undefined ? JSON.stringify(data) : undefined,
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${await readErrorMessage(response)}`);
+    }
+    if (!response.body) {
+      throw new Error('Streaming is not supported by this browser');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+        const blocks = buffer.split(SSE_EVENT_SEPARATOR);
+        buffer = blocks.pop() ?? '';
+
+        for (const block of blocks) {
+          const event = parseServerSentEvent<T>(block);
+          if (event !== null) {
+            yield event;
+          }
+        }
+      }
+
+      const trailing = parseServerSentEvent<T>(buffer);
+      if (trailing !== null) {
+        yield trailing;
+      }
+    } finally {
+      // Stops the download when the consumer breaks out early
+      await reader.cancel().catch(() => undefined);
+    }
+  }
+
   async patch<T>(endpoint: string, data?: unknown): Promise<ApiResponse<T>> {
     return this.request<T>(endpoint, {
       method: 'PATCH',
@@ -19,7 +19,7 @@ describe('HttpClient', () => {
 
   describe('URL normalization', () => {
     it('should normalize endpoint without leading slash', async () => {
-      const mockResponse = { status: 'success', payload: {}, metadata: { timestamp: '', version: '1.0.0' } };
+      const mockResponse = { status: 'success', payload: {}, metadata: { timestamp: '', requestId: 'req_test', version: '1.0.0', processingTimeMs: 0 } };
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: () => Promise.resolve(mockResponse),
@@ -31,7 +31,7 @@ describe('HttpClient', () => {
     });
 
     it('should normalize endpoint with leading slash', async () => {
-      const mockResponse = { status: 'success', payload: {}, metadata: { timestamp: '', version: '1.0.0' } };
+      const mockResponse = { status: 'success', payload: {}, metadata: { timestamp: '', requestId: 'req_test', version: '1.0.0', processingTimeMs: 0 } };
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: () => Promise.resolve(mockResponse),
@@ -43,7 +43,7 @@ describe('HttpClient', () => {
     });
 
     it('should handle root endpoint', async () => {
-      const mockResponse = { status: 'success', payload: {}, metadata: { timestamp: '', version: '1.0.0' } };
+      const mockResponse = { status: 'success', payload: {}, metadata: { timestamp: '', requestId: 'req_test', version: '1.0.0', processingTimeMs: 0 } };
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: () => Promise.resolve(mockResponse),
@@ -57,7 +57,7 @@ describe('HttpClient', () => {
 
   describe('Query parameters', () => {
     it('should add query parameters to GET request', async () => {
-      const mockResponse = { status: 'success', payload: {}, metadata: { timestamp: '', version: '1.0.0' } };
+      const mockResponse = { status: 'success', payload: {}, metadata: { timestamp: '', requestId: 'req_test', version: '1.0.0', processingTimeMs: 0 } };
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: () => Promise.resolve(mockResponse),
@@ -69,7 +69,7 @@ describe('HttpClient', () => {
     });
 
     it('should handle empty query parameters', async () => {
-      const mockResponse = { status: 'success', payload: {}, metadata: { timestamp: '', version: '1.0.0' } };
+      const mockResponse = { status: 'success', payload: {}, metadata: { timestamp: '', requestId: 'req_test', version: '1.0.0', processingTimeMs: 0 } };
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: () => Promise.resolve(mockResponse),
@@ -81,7 +81,7 @@ describe('HttpClient', () => {
     });
 
     it('should URL encode query parameters', async () => {
-      const mockResponse = { status: 'success', payload: {}, metadata: { timestamp: '', version: '1.0.0' } };
+      const mockResponse = { status: 'success', payload: {}, metadata: { timestamp: '', requestId: 'req_test', version: '1.0.0', processingTimeMs: 0 } };
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: () => Promise.resolve(mockResponse),
@@ -94,7 +94,7 @@ describe('HttpClient', () => {
   });
 
   describe('HTTP methods', () => {
-    const mockResponse = { status: 'success', payload: {}, metadata: { timestamp: '', version: '1.0.0' } };
+    const mockResponse = { status: 'success', payload: {}, metadata: { timestamp: '', requestId: 'req_test', version: '1.0.0', processingTimeMs: 0 } };
 
     beforeEach(() => {
       mockFetch.mockResolvedValue({
@@ -206,13 +206,58 @@ describe('HttpClient', () => {
     });
   });
 
+  describe('Event streams', () => {
+    const streamOf = (...chunks: string[]) => new ReadableStream<Uint8Array>({
+      start(controller) {
+        const encoder = new TextEncoder();
+        chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      },
+    });
+
+    it('should parse server-sent events split across chunks', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        body: streamOf(
+          ': connected\n\nevent: token\ndata: {"text":"Hel',
+          'lo"}\n\nid: 7\nevent: done\ndata: line one\ndata: line two\n\n'
+        ),
+      });
+
+      const events = [];
+      for await (const event of client.stream('/ask/stream', { question: 'hi' })) {
+        events.push(event);
+      }
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/ask/stream', expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ question: 'hi' }),
+      }));
+      expect(events).toEqual([
+        { event: 'token', data: { text: 'Hello' } },
+        { event: 'done', data: 'line one\nline two', id: '7' },
+      ]);
+    });
+
+    it('should throw before streaming for non-ok responses', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        json: () => Promise.resolve({ message: 'Invalid question' }),
+      });
+
+      await expect(client.stream('/ask/stream', {}).next()).rejects.toThrow('HTTP 400: Invalid question');
+    });
+  });
+
   describe('Base URL configuration', () => {
     it('should use custom base URL', () => {
       const customClient = new HttpClient('https://api.example.com');
       expect(customClient).toBeDefined();
 
       // We can't easily test the private baseUrl, but we can test that it works
-      const mockResponse = { status: 'success', payload: {}, metadata: { timestamp: '', version: '1.0.0' } };
+      const mockResponse = { status: 'success', payload: {}, metadata: { timestamp: '', requestId: 'req_test', version: '1.0.0', processingTimeMs: 0 } };
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: () => Promise.resolve(mockResponse),
@@ -227,4 +272,56 @@ describe('HttpClient', () => {
       expect(defaultClient).toBeDefined();
     });
   });
+
+  describe('Authentication', () => {
+    beforeEach(() => {
+      // Drop responses queued but not consumed by earlier tests
+      mockFetch.mockReset();
+    });
+
+    const okResponse = () => ({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({ status: 'success', payload: {}, metadata: { timestamp: '', requestId: 'req_test', version: '1.0.0', processingTimeMs: 0 } }),
+    });
+    const unauthorizedResponse = () => ({
+      ok: false,
+      status: 401,
+      statusText: 'Unauthorized',
+      json: () => Promise.resolve({ status: 'error', error: { code: 'AUTH_TOKEN_INVALID', message: 'Invalid or expired token' } }),
+    });
+    const authorizationHeaders = () =>
+      mockFetch.mock.calls.map(([, init]) => (init as RequestInit & { headers: Record<string, string> }).headers.Authorization);
+
+    it('should send the bearer token when signed in', async () => {
+      client.setAuthHandlers({ getAccessToken: () => 'access-1', refreshAccessToken: vi.fn() });
+      mockFetch.mockResolvedValueOnce(okResponse());
+
+      await client.get('/documents');
+
+      expect(authorizationHeaders()).toEqual(['Bearer access-1']);
+    });
+
+    it('should refresh the token on 401 and retry once', async () => {
+      const refreshAccessToken = vi.fn().mockResolvedValue('access-2');
+      client.setAuthHandlers({ getAccessToken: () => 'access-1', refreshAccessToken });
+      mockFetch.mockResolvedValueOnce(unauthorizedResponse()).mockResolvedValueOnce(okResponse());
+
+      await client.post('/documents', { title: 'Notes' });
+
+      expect(refreshAccessToken).toHaveBeenCalledOnce();
+      expect(authorizationHeaders()).toEqual(['Bearer access-1', 'Bearer access-2']);
+    });
+
+    it('should surface the 401 when refresh fails or the endpoint is an auth endpoint', async () => {
+      const refreshAccessToken = vi.fn().mockResolvedValue(null);
+      client.setAuthHandlers({ getAccessToken: () => 'access-1', refreshAccessToken });
+      mockFetch.mockResolvedValueOnce(unauthorizedResponse()).mockResolvedValueOnce(unauthorizedResponse());
+
+      await expect(client.get('/documents')).rejects.toThrow('HTTP 401: Invalid or expired token');
+      await expect(client.post('/auth/logout', {})).rejects.toThrow('HTTP 401');
+
+      expect(refreshAccessToken).toHaveBeenCalledOnce();
+    });
+  });
 });
\ No newline at end of file
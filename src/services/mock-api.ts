@@ -2,8 +2,17 @@
  * Mock API service for development when backend is not available
  */
 
-import type { User, GreetingResponse, HealthResponse } from './api';
+import type {
+  CreateUserRequest,
+  GreetingResponse,
+  HealthResponse,
+  UpdateUserRequest,
+  User,
+  UsersResponse,
+} from './api';
 import type { ApiResponse } from './http-client';
+import type { ApiMetadata } from '../../netlify/shared/lib/types/envelope.types.ts';
+import type { OperationPayload } from './api-client';
 
 // Mock API constants
 const MOCK_CONFIG = {
@@ -17,6 +26,8 @@ const MOCK_CONFIG = {
   },
 } as const;
 
+const MOCK_CREATED_AT = '2024-01-01T00:00:00.000Z';
+
 // Mock data
 const mockUsers: User[] = [
   { id: '1', name: 'John Doe', email: 'john@example.com' },
@@ -24,7 +35,7 @@ const mockUsers: User[] = [
   { id: '3', name: 'Bob Wilson', email: 'bob@example.com' },
   { id: '4', name: 'Alice Johnson', email: 'alice@example.com' },
   { id: '5', name: 'Charlie Brown', email: 'charlie@example.com' },
-];
+].map(user => ({ ...user, createdAt: MOCK_CREATED_AT, updatedAt: MOCK_CREATED_AT }));
 
 const mockHealthResponse: HealthResponse = {
   healthy: true,
@@ -34,6 +45,14 @@ const mockHealthResponse: HealthResponse = {
 // Simulate network delay
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+// Envelope metadata of a mock response
+const mockMetadata = (): ApiMetadata => ({
+  timestamp: new Date().toISOString(),
+  requestId: `mock_${Date.now()}`,
+  version: '1.0.0-mock',
+  processingTimeMs: 0,
+});
+
 // Mock API service
 export const mockApiService = {
   // Greeting endpoints
@@ -45,14 +64,11 @@ export const mockApiService = {
     return {
       status: 'success',
       payload: { message },
-      metadata: {
-        timestamp: new Date().toISOString(),
-        version: '1.0.0-mock',
-      },
+      metadata: mockMetadata(),
     };
   },
 
-  async postGreeting(data: Record<string, unknown>): Promise<ApiResponse<unknown>> {
+  async postGreeting(data: Record<string, unknown>): Promise<ApiResponse<OperationPayload<'postGreeting'>>> {
     await delay(MOCK_CONFIG.DELAYS.LONG);
     return {
       status: 'success',
@@ -60,23 +76,17 @@ export const mockApiService = {
         message: 'Greeting received! (Mock API response)',
         received: data,
       },
-      metadata: {
-        timestamp: new Date().toISOString(),
-        version: '1.0.0-mock',
-      },
+      metadata: mockMetadata(),
     };
   },
 
   // User endpoints
-  async getUsers(): Promise<ApiResponse<{ users: User[] }>> {
+  async getUsers(): Promise<ApiResponse<UsersResponse>> {
     await delay(MOCK_CONFIG.DELAYS.EXTRA_LONG);
     return {
       status: 'success',
-      payload: { users: mockUsers },
-      metadata: {
-        timestamp: new Date().toISOString(),
-        version: '1.0.0-mock',
-      },
+      payload: { users: mockUsers, total: mockUsers.length, page: 1, limit: mockUsers.length, pageCount: 1 },
+      metadata: mockMetadata(),
     };
   },
 
@@ -90,18 +100,18 @@ export const mockApiService = {
     return {
       status: 'success',
       payload: user,
-      metadata: {
-        timestamp: new Date().toISOString(),
-        version: '1.0.0-mock',
-      },
+      metadata: mockMetadata(),
     };
   },
 
-  async createUser(user: Omit<User, 'id'>): Promise<ApiResponse<{ message: string; user: User }>> {
+  async createUser(user: CreateUserRequest): Promise<ApiResponse<OperationPayload<'createUser'>>> {
     await delay(MOCK_CONFIG.DELAYS.USER_CREATE);
+    const now = new Date().toISOString();
     const newUser: User = {
       ...user,
       id: String(Date.now()),
+      createdAt: now,
+      updatedAt: now,
     };
     mockUsers.push(newUser);
     
@@ -111,21 +121,18 @@ export const mockApiService = {
         message: 'User created successfully! (Mock API response)',
         user: newUser,
       },
-      metadata: {
-        timestamp: new Date().toISOString(),
-        version: '1.0.0-mock',
-      },
+      metadata: mockMetadata(),
     };
   },
 
-  async updateUser(id: string, user: Partial<User>): Promise<ApiResponse<{ message: string; user: User }>> {
+  async updateUser(id: string, user: UpdateUserRequest): Promise<ApiResponse<OperationPayload<'updateUser'>>> {
     await delay(MOCK_CONFIG.DELAYS.EXTRA_LONG);
     const userIndex = mockUsers.findIndex(u => u.id === id);
     if (userIndex === -1) {
       throw new Error(`User ${id} not found`);
     }
     
-    const updatedUser = { ...mockUsers[userIndex], ...user };
+    const updatedUser = { ...mockUsers[userIndex], ...user, updatedAt: new Date().toISOString() };
     mockUsers[userIndex] = updatedUser;
     
     return {
@@ -134,14 +141,11 @@ export const mockApiService = {
         message: `User ${id} updated successfully! (Mock API response)`,
         user: updatedUser,
       },
-      metadata: {
-        timestamp: new Date().toISOString(),
-        version: '1.0.0-mock',
-      },
+      metadata: mockMetadata(),
     };
   },
 
-  async deleteUser(id: string): Promise<ApiResponse<{ message: string }>> {
+  async deleteUser(id: string): Promise<ApiResponse<OperationPayload<'deleteUser'>>> {
     await delay(MOCK_CONFIG.DELAYS.LONG);
     const userIndex = mockUsers.findIndex(u => u.id === id);
     if (userIndex === -1) {
@@ -155,10 +159,7 @@ export const mockApiService = {
       payload: {
         message: `User ${id} deleted successfully! (Mock API response)`,
       },
-      metadata: {
-        timestamp: new Date().toISOString(),
-        version: '1.0.0-mock',
-      },
+      metadata: mockMetadata(),
     };
   },
 
@@ -168,10 +169,7 @@ export const mockApiService = {
     return {
       status: 'success',
       payload: mockHealthResponse,
-      metadata: {
-        timestamp: new Date().toISOString(),
-        version: '1.0.0-mock',
-      },
+      metadata: mockMetadata(),
     };
   },
 };
@@ -6,10 +6,22 @@ export { store, useAppDispatch, useAppSelector } from './store';
 export type { RootState, AppDispatch } from './store';
 
 // Slices
+export { default as authReducer } from './slices/authSlice';
 export { default as usersReducer } from './slices/usersSlice';
+export { default as chatReducer } from './slices/chatSlice';
+export { default as documentsReducer } from './slices/documentsSlice';
 export { default as apiReducer } from './slices/apiSlice';
 
 // Actions and thunks
+export {
+  login,
+  logout,
+  refreshSession,
+  refreshAccessToken,
+  clearAuthError,
+} from './slices/authSlice';
+export type { AuthState } from './slices/authSlice';
+
 export {
   fetchUsers,
   fetchUserById,
@@ -19,6 +31,27 @@ export {
   clearError,
   selectUser,
 } from './slices/usersSlice';
+export type { UsersPagination, UsersState } from './slices/usersSlice';
+
+export {
+  sendChatMessage,
+  clearConversation,
+  clearChatError,
+} from './slices/chatSlice';
+export type { ChatMessage, ChatMessageStatus, ChatState } from './slices/chatSlice';
+
+export {
+  fetchDocuments,
+  uploadDocument,
+  fetchDocumentChunks,
+  reindexDocument,
+  reindexAllDocuments,
+  deleteDocument,
+  clearDocumentsError,
+  selectDocument,
+  dismissUpload,
+} from './slices/documentsSlice';
+export type { DocumentUpload, DocumentsState } from './slices/documentsSlice';
 
 export {
   useGetGreetingQuery,
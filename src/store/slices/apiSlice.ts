@@ -3,67 +3,98 @@
  */
 
 import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import type { HealthResponse, GreetingResponse } from '../../services/api';
+import type { BaseQueryFn, FetchArgs, FetchBaseQueryError } from '@reduxjs/toolkit/query/react';
+import type { ApiOperation } from '../../../netlify/shared/api/contracts/index.ts';
+import type { ApiResponseSuccess } from '../../../netlify/shared/lib/types/envelope.types.ts';
+import type { UsersQuery } from '../../services/api';
+import {
+  toContractRequest,
+  type OperationArgList,
+  type OperationPayload,
+} from '../../services/api-client';
+import { refreshAccessToken, type AuthState } from './authSlice';
 
-// Define the API response wrapper
-interface ApiResponseWrapper<T> {
-  status: string;
-  payload: T;
-  metadata: {
-    timestamp: string;
-    requestId: string;
+const UNAUTHORIZED = 401;
+
+// Response of a contract operation
+type OperationResult<K extends ApiOperation> = ApiResponseSuccess<OperationPayload<K>>;
+
+/**
+ * RTK Query request for a contract operation
+ */
+function contractQuery<K extends ApiOperation>(operation: K, ...args: OperationArgList<K>): FetchArgs {
+  const { method, endpoint, params, body } = toContractRequest(operation, ...args);
+  return {
+    url: endpoint,
+    method,
+    ...(Object.keys(params).length > 0 ? { params } : {}),
+    ...(body !== undefined ? { body } : {}),
   };
 }
 
+const baseQuery = fetchBaseQuery({
+  baseUrl: '/api',
+  prepareHeaders: (headers, { getState }) => {
+    // Add any default headers here
+    headers.set('Content-Type', 'application/json');
+
+    const accessToken = (getState() as { auth: AuthState }).auth.session?.accessToken;
+    if (accessToken !== undefined) {
+      headers.set('Authorization', `Bearer ${accessToken}`);
+    }
+    return headers;
+  },
+});
+
+/**
+ * Refresh the session on 401 and retry once; a failed refresh signs the user out
+ */
+const baseQueryWithReauth: BaseQueryFn<string | FetchArgs, unknown, FetchBaseQueryError> = async (
+  args,
+  api,
+  extraOptions
+) => {
+  const result = await baseQuery(args, api, extraOptions);
+  const hadSession = (api.getState() as { auth: AuthState }).auth.session !== null;
+  if (result.error?.status !== UNAUTHORIZED || !hadSession) {
+    return result;
+  }
+
+  const accessToken = await api.dispatch(refreshAccessToken());
+  return accessToken === null ? result : baseQuery(args, api, extraOptions);
+};
+
 // Create the API slice
 export const apiSlice = createApi({
   reducerPath: 'api',
-  baseQuery: fetchBaseQuery({
-    baseUrl: '/api',
-    prepareHeaders: (headers) => {
-      // Add any default headers here
-      headers.set('Content-Type', 'application/json');
-      return headers;
-    },
-  }),
+  baseQuery: baseQueryWithReauth,
   tagTypes: ['Greeting', 'Health', 'Users'],
   endpoints: (builder) => ({
     // Greeting endpoints
-    getGreeting: builder.query<ApiResponseWrapper<GreetingResponse>, string | undefined>({
-      query: (name) => {
-        const trimmedName = name?.trim();
-        const params = trimmedName != null && trimmedName !== '' ? { name: trimmedName } : undefined;
-        return {
-          url: '/',
-          params,
-        };
-      },
+    getGreeting: builder.query<OperationResult<'getGreeting'>, string | undefined>({
+      query: (name) => contractQuery('getGreeting', { query: { name: name?.trim() } }),
       providesTags: ['Greeting'],
     }),
 
-    postGreeting: builder.mutation<ApiResponseWrapper<unknown>, Record<string, unknown>>({
-      query: (data) => ({
-        url: '/',
-        method: 'POST',
-        body: data,
-      }),
+    postGreeting: builder.mutation<OperationResult<'postGreeting'>, Record<string, unknown>>({
+      query: (data) => contractQuery('postGreeting', { body: data }),
       invalidatesTags: ['Greeting'],
     }),
 
     // Health check endpoint
-    getHealth: builder.query<ApiResponseWrapper<HealthResponse>, void>({
-      query: () => 'health/',
+    getHealth: builder.query<OperationResult<'healthCheck'>, void>({
+      query: () => contractQuery('healthCheck'),
       providesTags: ['Health'],
     }),
 
     // Users endpoints
-    getUsers: builder.query<ApiResponseWrapper<{ users: Array<{ id: string; name: string; email: string }> }>, void>({
-      query: () => 'users/',
+    getUsers: builder.query<OperationResult<'listUsers'>, UsersQuery | void>({
+      query: (query) => contractQuery('listUsers', { query: query ?? {} }),
       providesTags: ['Users'],
     }),
 
-    getUser: builder.query<ApiResponseWrapper<{ id: string; name: string; email: string }>, string>({
-      query: (id) => `users/${id}/`,
+    getUser: builder.query<OperationResult<'getUser'>, string>({
+      query: (id) => contractQuery('getUser', { params: { id } }),
       providesTags: (_result, _error, id) => [{ type: 'Users', id }],
     }),
   }),
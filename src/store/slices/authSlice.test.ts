@@ -0,0 +1,109 @@
+/**
+ * Tests for the auth slice
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { configureStore } from '@reduxjs/toolkit';
+import authReducer, { login, logout, refreshAccessToken } from './authSlice';
+import { apiService, type AuthTokensResponse } from '../../services/api';
+import type { ApiResponse } from '../../services/http-client';
+import { loadAuthSession, saveAuthSession } from '../../services/auth-storage';
+
+vi.mock('../../services/api', () => ({
+  apiService: { login: vi.fn(), refreshSession: vi.fn(), logout: vi.fn() },
+}));
+
+const ONE_MINUTE_MS = 60_000;
+
+const createStore = () => configureStore({ reducer: { auth: authReducer } });
+
+const tokens = (suffix: string): ApiResponse<AuthTokensResponse> => ({
+  status: 'success',
+  payload: {
+    user: { id: 'user-1', email: 'ada@example.com', name: 'Ada Lovelace', role: 'admin' },
+    accessToken: `access-${suffix}`,
+    refreshToken: `refresh-${suffix}`,
+    tokenType: 'Bearer',
+    expiresIn: 900,
+    refreshExpiresIn: 3600,
+  },
+  metadata: { timestamp: '', requestId: 'req_test', version: '1.0.0', processingTimeMs: 0 },
+});
+
+describe('authSlice', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  it('should store the session after a successful login', async () => {
+    vi.mocked(apiService.login).mockResolvedValue(tokens('1'));
+    const store = createStore();
+
+    await store.dispatch(login({ email: ' ada@example.com ', password: 'secret' }));
+
+    const { session, status, error } = store.getState().auth;
+    expect(apiService.login).toHaveBeenCalledWith({ email: 'ada@example.com', password: 'secret' });
+    expect(status).toBe('idle');
+    expect(error).toBeNull();
+    expect(session).toMatchObject({ accessToken: 'access-1', refreshToken: 'refresh-1', user: { name: 'Ada Lovelace' } });
+    expect(session?.refreshExpiresAt).toBeGreaterThan(Date.now());
+  });
+
+  it('should share one refresh between concurrent callers', async () => {
+    vi.mocked(apiService.login).mockResolvedValue(tokens('1'));
+    vi.mocked(apiService.refreshSession).mockResolvedValue(tokens('2'));
+    const store = createStore();
+    await store.dispatch(login({ email: 'ada@example.com', password: 'secret' }));
+
+    const results = await Promise.all([store.dispatch(refreshAccessToken()), store.dispatch(refreshAccessToken())]);
+
+    expect(results).toEqual(['access-2', 'access-2']);
+    expect(apiService.refreshSession).toHaveBeenCalledOnce();
+    expect(apiService.refreshSession).toHaveBeenCalledWith('refresh-1');
+    expect(store.getState().auth.session?.refreshToken).toBe('refresh-2');
+  });
+
+  it('should sign out when the refresh fails', async () => {
+    vi.mocked(apiService.login).mockResolvedValue(tokens('1'));
+    vi.mocked(apiService.refreshSession).mockRejectedValue(new Error('HTTP 401: Invalid or expired refresh token'));
+    const store = createStore();
+    await store.dispatch(login({ email: 'ada@example.com', password: 'secret' }));
+
+    expect(await store.dispatch(refreshAccessToken())).toBeNull();
+
+    const { session, error } = store.getState().auth;
+    expect(session).toBeNull();
+    expect(error).toContain('Invalid or expired refresh token');
+  });
+
+  it('should revoke the session on logout even if the server call fails', async () => {
+    vi.mocked(apiService.login).mockResolvedValue(tokens('1'));
+    vi.mocked(apiService.logout).mockRejectedValue(new Error('Network error'));
+    const store = createStore();
+    await store.dispatch(login({ email: 'ada@example.com', password: 'secret' }));
+
+    await store.dispatch(logout());
+
+    expect(apiService.logout).toHaveBeenCalledWith('refresh-1');
+    expect(store.getState().auth.session).toBeNull();
+  });
+
+  it('should persist sessions and drop expired ones', () => {
+    const session = {
+      user: { id: 'user-1', email: 'ada@example.com', name: 'Ada Lovelace', role: 'admin' },
+      accessToken: 'access-1',
+      refreshToken: 'refresh-1',
+      refreshExpiresAt: Date.now() + ONE_MINUTE_MS,
+    };
+
+    saveAuthSession(session);
+    expect(loadAuthSession()).toEqual(session);
+
+    saveAuthSession({ ...session, refreshExpiresAt: Date.now() - 1 });
+    expect(loadAuthSession()).toBeNull();
+
+    saveAuthSession(null);
+    expect(loadAuthSession()).toBeNull();
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Auth slice for Redux state management
+ */
+
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import type { ThunkAction, UnknownAction } from '@reduxjs/toolkit';
+import { apiService, type AuthTokensResponse, type LoginRequest } from '../../services/api';
+import { loadAuthSession, type StoredAuthSession } from '../../services/auth-storage';
+
+const MILLISECONDS_PER_SECOND = 1000;
+
+export interface AuthState {
+  // Persisted by the store whenever it changes
+  session: StoredAuthSession | null;
+  // loggingIn: credentials submitted, refreshing: a token refresh is in flight
+  status: 'idle' | 'loggingIn' | 'refreshing';
+  error: string | null;
+}
+
+const initialState: AuthState = {
+  session: loadAuthSession(),
+  status: 'idle',
+  error: null,
+};
+
+const toSession = (response: AuthTokensResponse): StoredAuthSession => ({
+  user: response.user,
+  accessToken: response.accessToken,
+  refreshToken: response.refreshToken,
+  refreshExpiresAt: Date.now() + response.refreshExpiresIn * MILLISECONDS_PER_SECOND,
+});
+
+/**
+ * Async thunks for API operations
+ */
+export const login = createAsyncThunk<StoredAuthSession, LoginRequest, { rejectValue: string }>(
+  'auth/login',
+  async (credentials, { rejectWithValue }) => {
+    try {
+      const response = await apiService.login({ ...credentials, email: credentials.email.trim() });
+      return toSession(response.payload);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to sign in';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+/**
+ * Exchange the refresh token for a new token pair; a rejection ends the session
+ */
+export const refreshSession = createAsyncThunk<
+  StoredAuthSession,
+  void,
+  { state: { auth: AuthState }; rejectValue: string }
+>('auth/refreshSession', async (_, { getState, rejectWithValue }) => {
+  const refreshToken = getState().auth.session?.refreshToken;
+  if (refreshToken === undefined) {
+    return rejectWithValue('Not signed in');
+  }
+
+  try {
+    const response = await apiService.refreshSession(refreshToken);
+    return toSession(response.payload);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Session expired';
+    return rejectWithValue(message);
+  }
+});
+
+/**
+ * Revoke the session on the server; the local session is cleared even if that fails
+ */
+export const logout = createAsyncThunk<void, void, { state: { auth: AuthState } }>(
+  'auth/logout',
+  async (_, { getState }) => {
+    const refreshToken = getState().auth.session?.refreshToken;
+    if (refreshToken !== undefined) {
+      await apiService.logout(refreshToken).catch(() => undefined);
+    }
+  }
+);
+
+// Shared by every caller that hits a 401 while a refresh is already running
+let pendingRefresh: Promise<string | null> | null = null;
+
+/**
+ * Refresh the session once for concurrent callers and resolve the new access token
+ * Resolves null when there is no session or the refresh failed (the user is then signed out)
+ */
+export const refreshAccessToken = (): ThunkAction<Promise<string | null>, { auth: AuthState }, unknown, UnknownAction> =>
+  (dispatch) => {
+    pendingRefresh ??= dispatch(refreshSession())
+      .then(action => (refreshSession.fulfilled.match(action) ? action.payload.accessToken : null))
+      .finally(() => {
+        pendingRefresh = null;
+      });
+    return pendingRefresh;
+  };
+
+const authSlice = createSlice({
+  name: 'auth',
+  initialState,
+  reducers: {
+    clearAuthError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Login
+      .addCase(login.pending, (state) => {
+        state.status = 'loggingIn';
+        state.error = null;
+      })
+      .addCase(login.fulfilled, (state, action) => {
+        state.status = 'idle';
+        state.session = action.payload;
+      })
+      .addCase(login.rejected, (state, action) => {
+        state.status = 'idle';
+        state.error = action.payload ?? 'Failed to sign in';
+      })
+
+      // Refresh - failure means the session is gone
+      .addCase(refreshSession.pending, (state) => {
+        state.status = 'refreshing';
+      })
+      .addCase(refreshSession.fulfilled, (state, action) => {
+        state.status = 'idle';
+        state.session = action.payload;
+      })
+      .addCase(refreshSession.rejected, (state, action) => {
+        state.status = 'idle';
+        if (state.session !== null) {
+          state.session = null;
+          state.error = `Signed out: ${action.payload ?? 'session expired'}`;
+        }
+      })
+
+      // Logout
+      .addCase(logout.fulfilled, (state) => {
+        state.session = null;
+        state.error = null;
+      });
+  },
+});
+
+export const { clearAuthError } = authSlice.actions;
+export default authSlice.reducer;
@@ -0,0 +1,97 @@
+/**
+ * Tests for the chat slice
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { configureStore } from '@reduxjs/toolkit';
+import chatReducer, { sendChatMessage, clearConversation } from './chatSlice';
+import { apiService, type AskStreamEvent } from '../../services/api';
+
+vi.mock('../../services/api', () => ({
+  apiService: { askStream: vi.fn() },
+}));
+
+const createStore = () => configureStore({ reducer: { chat: chatReducer } });
+
+const streamOf = (events: AskStreamEvent[], failure?: Error) =>
+  async function* (): AsyncGenerator<AskStreamEvent> {
+    yield* events;
+    if (failure) {
+      throw failure;
+    }
+  };
+
+const context = {
+  marker: 1,
+  chunkId: 'doc-1:0',
+  documentId: 'doc-1',
+  documentTitle: 'Guide',
+  chunkIndex: 0,
+  score: 0.9,
+  text: 'Install with npm.',
+  start: 0,
+  end: 17,
+  headingPath: ['Setup'],
+};
+
+describe('chatSlice', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should stream an answer into the conversation', async () => {
+    const citation = { marker: 1, chunkId: 'doc-1:0', documentId: 'doc-1', documentTitle: 'Guide', start: 0, end: 17 };
+    vi.mocked(apiService.askStream).mockImplementation(streamOf([
+      { type: 'contexts', contexts: [context] },
+      { type: 'token', text: 'Install with npm ' },
+      { type: 'token', text: '[1].' },
+      { type: 'done', answer: 'Install with npm [1].', citations: [citation], provider: 'extractive' },
+    ]));
+    const store = createStore();
+
+    await store.dispatch(sendChatMessage('  How do I install?  '));
+
+    const { messages, streaming, error } = store.getState().chat;
+    expect(apiService.askStream).toHaveBeenCalledWith({ question: 'How do I install?' }, expect.anything());
+    expect(streaming).toBe(false);
+    expect(error).toBeNull();
+    expect(messages.map(message => message.role)).toEqual(['user', 'assistant']);
+    expect(messages[0]).toMatchObject({ role: 'user', content: 'How do I install?', status: 'complete' });
+    expect(messages[1]).toMatchObject({
+      role: 'assistant',
+      content: 'Install with npm [1].',
+      status: 'complete',
+      contexts: [context],
+      citations: [citation],
+    });
+  });
+
+  it('should keep partial output and record the error when the stream fails', async () => {
+    vi.mocked(apiService.askStream).mockImplementation(
+      streamOf([{ type: 'token', text: 'Partial ' }], new Error('generation failed'))
+    );
+    const store = createStore();
+
+    await store.dispatch(sendChatMessage('Question?'));
+
+    const { messages, error } = store.getState().chat;
+    expect(error).toBe('generation failed');
+    expect(messages[1]).toMatchObject({ content: 'Partial ', status: 'error', error: 'generation failed' });
+  });
+
+  it('should ignore empty questions and clear the conversation', async () => {
+    vi.mocked(apiService.askStream).mockImplementation(
+      streamOf([{ type: 'done', answer: 'Answer', citations: [], provider: 'extractive' }])
+    );
+    const store = createStore();
+
+    await store.dispatch(sendChatMessage('   '));
+    expect(apiService.askStream).not.toHaveBeenCalled();
+
+    await store.dispatch(sendChatMessage('Question?'));
+    expect(store.getState().chat.messages.map(message => message.role)).toEqual(['user', 'assistant']);
+
+    store.dispatch(clearConversation());
+    expect(store.getState().chat.messages).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Chat slice for Redux state management
+ */
+
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import { apiService, type AskRequest, type Citation, type RetrievedContext } from '../../services/api';
+
+export type ChatRole = 'user' | 'assistant';
+
+// streaming: tokens are still arriving, stopped: cancelled by the user
+export type ChatMessageStatus = 'streaming' | 'complete' | 'stopped' | 'error';
+
+export interface ChatMessage {
+  id: string;
+  role: ChatRole;
+  content: string;
+  status: ChatMessageStatus;
+  citations: Citation[];
+  contexts: RetrievedContext[];
+  error?: string;
+}
+
+export interface ChatState {
+  messages: ChatMessage[];
+  streaming: boolean;
+  error: string | null;
+}
+
+export interface ChatAnswer {
+  answer: string;
+  citations: Citation[];
+  provider: string;
+}
+
+const initialState: ChatState = {
+  messages: [],
+  streaming: false,
+  error: null,
+};
+
+// The assistant message uses the thunk request id; the question gets a derived id
+const questionId = (requestId: string): string => `${requestId}:question`;
+
+/**
+ * Ask a question and stream the answer into the conversation
+ * The returned promise can be aborted to stop generation
+ */
+export const sendChatMessage = createAsyncThunk<
+  ChatAnswer,
+  string,
+  { state: { chat: ChatState }; rejectValue: string }
+>(
+  'chat/sendMessage',
+  async (question, { dispatch, requestId, signal, rejectWithValue }) => {
+    try {
+      const request: AskRequest = { question: question.trim() };
+      for await (const event of apiService.askStream(request, signal)) {
+        if (event.type === 'contexts') {
+          dispatch(contextsReceived({ id: requestId, contexts: event.contexts }));
+        } else if (event.type === 'token') {
+          dispatch(tokenReceived({ id: requestId, text: event.text }));
+        } else {
+          return { answer: event.answer, citations: event.citations, provider: event.provider };
+        }
+      }
+      return rejectWithValue('The answer stream ended unexpectedly');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to get an answer';
+      return rejectWithValue(message);
+    }
+  },
+  {
+    // One answer at a time
+    condition: (question, { getState }) => question.trim() !== '' && !getState().chat.streaming,
+  }
+);
+
+const chatSlice = createSlice({
+  name: 'chat',
+  initialState,
+  reducers: {
+    contextsReceived: (state, action: PayloadAction<{ id: string; contexts: RetrievedContext[] }>) => {
+      const message = state.messages.find(item => item.id === action.payload.id);
+      if (message) {
+        message.contexts = action.payload.contexts;
+      }
+    },
+    tokenReceived: (state, action: PayloadAction<{ id: string; text: string }>) => {
+      const message = state.messages.find(item => item.id === action.payload.id);
+      if (message) {
+        message.content += action.payload.text;
+      }
+    },
+    clearConversation: (state) => {
+      if (!state.streaming) {
+        state.messages = [];
+        state.error = null;
+      }
+    },
+    clearChatError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(sendChatMessage.pending, (state, action) => {
+        const { requestId, arg } = action.meta;
+        state.streaming = true;
+        state.error = null;
+        state.messages.push(
+          { id: questionId(requestId), role: 'user', content: arg.trim(), status: 'complete', citations: [], contexts: [] },
+          { id: requestId, role: 'assistant', content: '', status: 'streaming', citations: [], contexts: [] }
+        );
+      })
+      .addCase(sendChatMessage.fulfilled, (state, action) => {
+        state.streaming = false;
+        const message = state.messages.find(item => item.id === action.meta.requestId);
+        if (message) {
+          // The final answer replaces the streamed tokens, which may have been partial
+          message.content = action.payload.answer;
+          message.citations = action.payload.citations;
+          message.status = 'complete';
+        }
+      })
+      .addCase(sendChatMessage.rejected, (state, action) => {
+        state.streaming = false;
+        const message = state.messages.find(item => item.id === action.meta.requestId);
+        if (action.meta.aborted) {
+          if (message) {
+            message.status = 'stopped';
+          }
+          return;
+        }
+
+        const error = action.payload ?? 'Failed to get an answer';
+        state.error = error;
+        if (message) {
+          message.status = 'error';
+          message.error = error;
+        }
+      });
+  },
+});
+
+export const { contextsReceived, tokenReceived, clearConversation, clearChatError } = chatSlice.actions;
+export default chatSlice.reducer;
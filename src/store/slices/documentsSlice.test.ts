@@ -0,0 +1,112 @@
+/**
+ * Tests for the documents slice
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { configureStore } from '@reduxjs/toolkit';
+import documentsReducer, { uploadDocument, reindexDocument, deleteDocument, fetchDocumentChunks } from './documentsSlice';
+import { apiService, type DocumentSummary } from '../../services/api';
+
+vi.mock('../../services/api', () => ({
+  apiService: {
+    createDocument: vi.fn(),
+    reindexDocument: vi.fn(),
+    deleteDocument: vi.fn(),
+    getDocumentChunks: vi.fn(),
+  },
+}));
+
+const createStore = () => configureStore({ reducer: { documents: documentsReducer } });
+
+const metadata = { timestamp: '', requestId: 'req_test', version: '1.0.0', processingTimeMs: 0 };
+
+const summary: DocumentSummary = {
+  id: 'doc-1',
+  title: 'Guide',
+  contentType: 'text/markdown',
+  source: 'guide.md',
+  tags: [],
+  createdAt: '',
+  updatedAt: '',
+  characterCount: 42,
+  chunkCount: 0,
+  status: 'not_indexed',
+};
+
+describe('documentsSlice', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should track uploads until the document is ingested', async () => {
+    let resolveUpload = (): void => undefined;
+    vi.mocked(apiService.createDocument).mockImplementation(() => new Promise(resolve => {
+      resolveUpload = () => resolve({
+        status: 'success',
+        payload: { message: 'created', document: { ...summary, chunkCount: 1, status: 'indexed' }, chunkCount: 1 },
+        metadata,
+      });
+    }));
+    const store = createStore();
+
+    const upload = store.dispatch(uploadDocument({ title: 'Guide', content: '# Guide' }));
+    expect(store.getState().documents.uploads).toEqual([
+      { id: upload.requestId, title: 'Guide', status: 'uploading' },
+    ]);
+
+    resolveUpload();
+    await upload;
+
+    const { uploads, documents } = store.getState().documents;
+    expect(uploads).toEqual([]);
+    expect(documents).toMatchObject([{ id: 'doc-1', chunkCount: 1, status: 'indexed' }]);
+  });
+
+  it('should keep failed uploads with their error', async () => {
+    vi.mocked(apiService.createDocument).mockRejectedValue(new Error('HTTP 400: Bad Request'));
+    const store = createStore();
+
+    await store.dispatch(uploadDocument({ title: 'Broken', content: '' }));
+
+    expect(store.getState().documents.uploads).toMatchObject([
+      { title: 'Broken', status: 'failed', error: 'HTTP 400: Bad Request' },
+    ]);
+  });
+
+  it('should re-index, preview and delete documents', async () => {
+    vi.mocked(apiService.createDocument).mockResolvedValue({
+      status: 'success',
+      payload: { message: 'created', document: summary, chunkCount: 0 },
+      metadata,
+    });
+    vi.mocked(apiService.reindexDocument).mockResolvedValue({
+      status: 'success',
+      payload: { message: 're-indexed', document: { ...summary, chunkCount: 1, status: 'indexed' }, chunkCount: 1 },
+      metadata,
+    });
+    vi.mocked(apiService.getDocumentChunks).mockResolvedValue({
+      status: 'success',
+      payload: { documentId: 'doc-1', strategy: 'markdown', chunks: [], total: 0 },
+      metadata,
+    });
+    vi.mocked(apiService.deleteDocument).mockResolvedValue({ status: 'success', payload: { message: 'deleted' }, metadata });
+    const store = createStore();
+    await store.dispatch(uploadDocument({ title: 'Guide', content: '# Guide' }));
+
+    const reindex = store.dispatch(reindexDocument('doc-1'));
+    expect(store.getState().documents.processingIds).toEqual(['doc-1']);
+    await reindex;
+    expect(store.getState().documents.processingIds).toEqual([]);
+    expect(store.getState().documents.documents[0]).toMatchObject({ chunkCount: 1, status: 'indexed' });
+
+    await store.dispatch(fetchDocumentChunks('doc-1'));
+    expect(store.getState().documents.selectedDocumentId).toBe('doc-1');
+    expect(store.getState().documents.previews['doc-1']?.strategy).toBe('markdown');
+
+    await store.dispatch(deleteDocument('doc-1'));
+    const state = store.getState().documents;
+    expect(state.documents).toEqual([]);
+    expect(state.previews).toEqual({});
+    expect(state.selectedDocumentId).toBeNull();
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Documents slice for Redux state management
+ */
+
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import {
+  apiService,
+  type CreateDocumentRequest,
+  type DocumentChunksResponse,
+  type DocumentIngestionResponse,
+  type DocumentSummary,
+  type DocumentsResponse,
+} from '../../services/api';
+
+// An upload that has not produced a document yet
+export interface DocumentUpload {
+  id: string;
+  title: string;
+  status: 'uploading' | 'failed';
+  error?: string;
+}
+
+export interface DocumentsState {
+  documents: DocumentSummary[];
+  uploads: DocumentUpload[];
+  previews: Record<string, DocumentChunksResponse>;
+  selectedDocumentId: string | null;
+  // Documents with a re-index or delete in flight
+  processingIds: string[];
+  loading: boolean;
+  reindexingAll: boolean;
+  error: string | null;
+}
+
+const initialState: DocumentsState = {
+  documents: [],
+  uploads: [],
+  previews: {},
+  selectedDocumentId: null,
+  processingIds: [],
+  loading: false,
+  reindexingAll: false,
+  error: null,
+};
+
+/**
+ * Async thunks for API operations
+ */
+export const fetchDocuments = createAsyncThunk<DocumentsResponse, void, { rejectValue: string }>(
+  'documents/fetchDocuments',
+  async (_, { rejectWithValue }) => {
+    try {
+      const response = await apiService.getDocuments();
+      return response.payload;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch documents';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const uploadDocument = createAsyncThunk<
+  DocumentIngestionResponse,
+  CreateDocumentRequest,
+  { rejectValue: string }
+>('documents/uploadDocument', async (document, { rejectWithValue }) => {
+  try {
+    const response = await apiService.createDocument(document);
+    return response.payload;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : `Failed to upload ${document.title}`;
+    return rejectWithValue(message);
+  }
+});
+
+export const fetchDocumentChunks = createAsyncThunk<DocumentChunksResponse, string, { rejectValue: string }>(
+  'documents/fetchDocumentChunks',
+  async (id, { rejectWithValue }) => {
+    try {
+      const response = await apiService.getDocumentChunks(id);
+      return response.payload;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : `Failed to fetch chunks for document ${id}`;
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const reindexDocument = createAsyncThunk<DocumentIngestionResponse, string, { rejectValue: string }>(
+  'documents/reindexDocument',
+  async (id, { rejectWithValue }) => {
+    try {
+      const response = await apiService.reindexDocument(id);
+      return response.payload;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : `Failed to re-index document ${id}`;
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const reindexAllDocuments = createAsyncThunk<DocumentsResponse, void, { rejectValue: string }>(
+  'documents/reindexAllDocuments',
+  async (_, { rejectWithValue }) => {
+    try {
+      await apiService.reindexDocuments();
+      // Reload so every document reports its new chunk count
+      const response = await apiService.getDocuments();
+      return response.payload;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to re-index documents';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const deleteDocument = createAsyncThunk<string, string, { rejectValue: string }>(
+  'documents/deleteDocument',
+  async (id, { rejectWithValue }) => {
+    try {
+      await apiService.deleteDocument(id);
+      return id; // Return the deleted document ID
+    } catch (error) {
+      const message = error instanceof Error ? error.message : `Failed to delete document ${id}`;
+      return rejectWithValue(message);
+    }
+  }
+);
+
+/**
+ * Replace a document in the list, or add it first (newest first like the API)
+ */
+function upsertDocument(state: DocumentsState, document: DocumentSummary): void {
+  const index = state.documents.findIndex(item => item.id === document.id);
+  if (index !== -1) {
+    state.documents[index] = document;
+  } else {
+    state.documents.unshift(document);
+  }
+}
+
+function stopProcessing(state: DocumentsState, id: string): void {
+  state.processingIds = state.processingIds.filter(processingId => processingId !== id);
+}
+
+const documentsSlice = createSlice({
+  name: 'documents',
+  initialState,
+  reducers: {
+    clearDocumentsError: (state) => {
+      state.error = null;
+    },
+    selectDocument: (state, action: PayloadAction<string | null>) => {
+      state.selectedDocumentId = action.payload;
+    },
+    dismissUpload: (state, action: PayloadAction<string>) => {
+      state.uploads = state.uploads.filter(upload => upload.id !== action.payload);
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Fetch documents
+      .addCase(fetchDocuments.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchDocuments.fulfilled, (state, action) => {
+        state.loading = false;
+        state.documents = action.payload.documents;
+      })
+      .addCase(fetchDocuments.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload ?? 'Failed to fetch documents';
+      })
+
+      // Upload document - tracked per request until the document exists
+      .addCase(uploadDocument.pending, (state, action) => {
+        state.error = null;
+        state.uploads.push({ id: action.meta.requestId, title: action.meta.arg.title, status: 'uploading' });
+      })
+      .addCase(uploadDocument.fulfilled, (state, action) => {
+        state.uploads = state.uploads.filter(upload => upload.id !== action.meta.requestId);
+        upsertDocument(state, action.payload.document);
+      })
+      .addCase(uploadDocument.rejected, (state, action) => {
+        const upload = state.uploads.find(item => item.id === action.meta.requestId);
+        if (upload) {
+          upload.status = 'failed';
+          upload.error = action.payload ?? 'Upload failed';
+        }
+      })
+
+      // Fetch chunk preview
+      .addCase(fetchDocumentChunks.pending, (state, action) => {
+        state.selectedDocumentId = action.meta.arg;
+        state.error = null;
+      })
+      .addCase(fetchDocumentChunks.fulfilled, (state, action) => {
+        state.previews[action.payload.documentId] = action.payload;
+      })
+      .addCase(fetchDocumentChunks.rejected, (state, action) => {
+        state.error = action.payload ?? 'Failed to fetch chunks';
+      })
+
+      // Re-index document
+      .addCase(reindexDocument.pending, (state, action) => {
+        state.error = null;
+        state.processingIds.push(action.meta.arg);
+      })
+      .addCase(reindexDocument.fulfilled, (state, action) => {
+        stopProcessing(state, action.meta.arg);
+        upsertDocument(state, action.payload.document);
+        // Chunk boundaries may have changed
+        delete state.previews[action.meta.arg];
+      })
+      .addCase(reindexDocument.rejected, (state, action) => {
+        stopProcessing(state, action.meta.arg);
+        state.error = action.payload ?? 'Failed to re-index document';
+      })
+
+      // Re-index all documents
+      .addCase(reindexAllDocuments.pending, (state) => {
+        state.reindexingAll = true;
+        state.error = null;
+      })
+      .addCase(reindexAllDocuments.fulfilled, (state, action) => {
+        state.reindexingAll = false;
+        state.documents = action.payload.documents;
+        state.previews = {};
+      })
+      .addCase(reindexAllDocuments.rejected, (state, action) => {
+        state.reindexingAll = false;
+        state.error = action.payload ?? 'Failed to re-index documents';
+      })
+
+      // Delete document
+      .addCase(deleteDocument.pending, (state, action) => {
+        state.error = null;
+        state.processingIds.push(action.meta.arg);
+      })
+      .addCase(deleteDocument.fulfilled, (state, action) => {
+        stopProcessing(state, action.payload);
+        state.documents = state.documents.filter(document => document.id !== action.payload);
+        delete state.previews[action.payload];
+
+        // Clear selected document if it was deleted
+        if (state.selectedDocumentId === action.payload) {
+          state.selectedDocumentId = null;
+        }
+      })
+      .addCase(deleteDocument.rejected, (state, action) => {
+        stopProcessing(state, action.meta.arg);
+        state.error = action.payload ?? 'Failed to delete document';
+      });
+  },
+});
+
+export const { clearDocumentsError, selectDocument, dismissUpload } = documentsSlice.actions;
+export default documentsSlice.reducer;
@@ -0,0 +1,73 @@
+/**
+ * Tests for the users slice
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { configureStore } from '@reduxjs/toolkit';
+import usersReducer, { createUser, fetchUsers } from './usersSlice';
+import { apiService, type UsersResponse } from '../../services/api';
+import type { ApiResponse } from '../../services/http-client';
+
+vi.mock('../../services/api', () => ({
+  apiService: { getUsers: vi.fn(), createUser: vi.fn() },
+}));
+
+const createStore = () => configureStore({ reducer: { users: usersReducer } });
+
+const page = (payload: Partial<UsersResponse>): ApiResponse<UsersResponse> => ({
+  status: 'success',
+  payload: { users: [], total: 0, page: 1, limit: 12, pageCount: 0, ...payload },
+  metadata: { timestamp: '', requestId: 'req_test', version: '1.0.0', processingTimeMs: 0 },
+});
+
+describe('usersSlice', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should merge each fetch into the current query', async () => {
+    vi.mocked(apiService.getUsers).mockResolvedValue(page({ total: 30, page: 2, pageCount: 3 }));
+    const store = createStore();
+
+    await store.dispatch(fetchUsers({ q: 'ada', sort: '-name' }));
+    await store.dispatch(fetchUsers({ page: 2 }));
+
+    expect(apiService.getUsers).toHaveBeenLastCalledWith({ page: 2, limit: 12, q: 'ada', sort: '-name' });
+    expect(store.getState().users.pagination).toEqual({ total: 30, page: 2, pageCount: 3 });
+  });
+
+  it('should refetch with the stored query when called without arguments', async () => {
+    vi.mocked(apiService.getUsers).mockResolvedValue(page({}));
+    const store = createStore();
+
+    await store.dispatch(fetchUsers({ q: 'grace', page: 1 }));
+    await store.dispatch(fetchUsers());
+
+    expect(apiService.getUsers).toHaveBeenLastCalledWith({ page: 1, limit: 12, q: 'grace' });
+  });
+
+  it('should count created users in the total', async () => {
+    const existingUsers = 4;
+    vi.mocked(apiService.getUsers).mockResolvedValue(page({ total: existingUsers, pageCount: 1 }));
+    vi.mocked(apiService.createUser).mockResolvedValue({
+      status: 'success',
+      payload: {
+        message: 'User created successfully',
+        user: {
+          id: 'user-5',
+          name: 'Ada',
+          email: 'ada@example.com',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          updatedAt: '2024-01-01T00:00:00.000Z',
+        },
+      },
+      metadata: { timestamp: '', requestId: 'req_test', version: '1.0.0', processingTimeMs: 0 },
+    });
+    const store = createStore();
+
+    await store.dispatch(fetchUsers());
+    await store.dispatch(createUser({ name: 'Ada', email: 'ada@example.com' }));
+
+    expect(store.getState().users.pagination.total).toBe(existingUsers + 1);
+  });
+});
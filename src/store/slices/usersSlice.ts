@@ -4,11 +4,29 @@
 
 import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
 import type { PayloadAction } from '@reduxjs/toolkit';
-import { apiService, type User, type UsersResponse } from '../../services/api';
+import {
+  apiService,
+  type CreateUserRequest,
+  type UpdateUserRequest,
+  type User,
+  type UsersQuery,
+  type UsersResponse,
+} from '../../services/api';
+
+const USERS_PAGE_SIZE = 12;
+
+export interface UsersPagination {
+  total: number;
+  page: number;
+  pageCount: number;
+}
 
 export interface UsersState {
   users: User[];
   selectedUser: User | null;
+  // Page, sort and search of the current listing
+  query: UsersQuery;
+  pagination: UsersPagination;
   loading: boolean;
   error: string | null;
 }
@@ -16,6 +34,8 @@ export interface UsersState {
 const initialState: UsersState = {
   users: [],
   selectedUser: null,
+  query: { page: 1, limit: USERS_PAGE_SIZE },
+  pagination: { total: 0, page: 1, pageCount: 0 },
   loading: false,
   error: null,
 };
@@ -23,18 +43,24 @@ const initialState: UsersState = {
 /**
  * Async thunks for API operations
  */
-export const fetchUsers = createAsyncThunk<UsersResponse, void, { rejectValue: string }>(
-  'users/fetchUsers',
-  async (_, { rejectWithValue }) => {
-    try {
-      const response = await apiService.getUsers();
-      return response.payload;
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to fetch users';
-      return rejectWithValue(message);
-    }
+
+/**
+ * Fetch a page of users; the argument is merged into the current query
+ * (the pending reducer stores it before the request is sent)
+ */
+export const fetchUsers = createAsyncThunk<
+  UsersResponse,
+  UsersQuery | undefined,
+  { state: { users: UsersState }; rejectValue: string }
+>('users/fetchUsers', async (_, { getState, rejectWithValue }) => {
+  try {
+    const response = await apiService.getUsers(getState().users.query);
+    return response.payload;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to fetch users';
+    return rejectWithValue(message);
   }
-);
+});
 
 export const fetchUserById = createAsyncThunk<User, string, { rejectValue: string }>(
   'users/fetchUserById',
@@ -51,7 +77,7 @@ export const fetchUserById = createAsyncThunk<User, string, { rejectValue: strin
 
 export const createUser = createAsyncThunk<
   { message: string; user: User },
-  Omit<User, 'id'>,
+  CreateUserRequest,
   { rejectValue: string }
 >('users/createUser', async (userData, { rejectWithValue }) => {
   try {
@@ -65,7 +91,7 @@ export const createUser = createAsyncThunk<
 
 export const updateUser = createAsyncThunk<
   { message: string; user: User },
-  { id: string; updates: Partial<User> },
+  { id: string; updates: UpdateUserRequest },
   { rejectValue: string }
 >('users/updateUser', async ({ id, updates }, { rejectWithValue }) => {
   try {
@@ -104,13 +130,16 @@ const usersSlice = createSlice({
   extraReducers: (builder) => {
     builder
       // Fetch users
-      .addCase(fetchUsers.pending, (state) => {
+      .addCase(fetchUsers.pending, (state, action) => {
         state.loading = true;
         state.error = null;
+        state.query = { ...state.query, ...action.meta.arg };
       })
       .addCase(fetchUsers.fulfilled, (state, action) => {
+        const { users, total, page, pageCount } = action.payload;
         state.loading = false;
-        state.users = action.payload.users;
+        state.users = users;
+        state.pagination = { total, page, pageCount };
       })
       .addCase(fetchUsers.rejected, (state, action) => {
         state.loading = false;
@@ -147,6 +176,7 @@ const usersSlice = createSlice({
       .addCase(createUser.fulfilled, (state, action) => {
         state.loading = false;
         state.users.push(action.payload.user);
+        state.pagination.total += 1;
       })
       .addCase(createUser.rejected, (state, action) => {
         state.loading = false;
@@ -181,6 +211,7 @@ const usersSlice = createSlice({
       .addCase(deleteUser.fulfilled, (state, action) => {
         state.loading = false;
         state.users = state.users.filter(user => user.id !== action.payload);
+        state.pagination.total = Math.max(0, state.pagination.total - 1);
         if (state.selectedUser?.id === action.payload) {
           state.selectedUser = null;
         }
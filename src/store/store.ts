@@ -4,12 +4,20 @@
 
 import { configureStore } from '@reduxjs/toolkit';
 import { useDispatch, useSelector, type TypedUseSelectorHook } from 'react-redux';
+import { httpClient } from '../services/http-client';
+import { saveAuthSession } from '../services/auth-storage';
+import authReducer, { refreshAccessToken } from './slices/authSlice';
 import usersReducer from './slices/usersSlice';
+import chatReducer from './slices/chatSlice';
+import documentsReducer from './slices/documentsSlice';
 import { apiSlice } from './slices/apiSlice';
 
 export const store = configureStore({
   reducer: {
+    auth: authReducer,
     users: usersReducer,
+    chat: chatReducer,
+    documents: documentsReducer,
     [apiSlice.reducerPath]: apiSlice.reducer,
   },
   middleware: (getDefaultMiddleware) =>
@@ -21,6 +29,22 @@ export const store = configureStore({
   devTools: import.meta.env.DEV,
 });
 
+// Send the session's bearer token with service requests and refresh it on 401
+httpClient.setAuthHandlers({
+  getAccessToken: () => store.getState().auth.session?.accessToken ?? null,
+  refreshAccessToken: () => store.dispatch(refreshAccessToken()),
+});
+
+// Persist the session whenever it changes (login, refresh, logout)
+let persistedSession = store.getState().auth.session;
+store.subscribe(() => {
+  const { session } = store.getState().auth;
+  if (session !== persistedSession) {
+    persistedSession = session;
+    saveAuthSession(session);
+  }
+});
+
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
 
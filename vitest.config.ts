@@ -16,6 +16,9 @@ export default {
       ]
     },
     include: ['src/**/*.{test,spec}.{ts,tsx}', 'netlify/**/*.{test,spec}.{ts,tsx}'],
+    benchmark: {
+      include: ['netlify/**/*.bench.ts']
+    },
     testTimeout: 10000,
     hookTimeout: 10000,
     env: {